@@ -0,0 +1,55 @@
+/** [minLon, minLat, maxLon, maxLat] */
+type Bounds = [number, number, number, number];
+
+// Boxes for the countries our sources are scoped to or map codes for, with
+// outlying territories as extra boxes. Other countries get the range check only.
+const COUNTRY_BOUNDS: Record<string, Bounds[]> = {
+  US: [
+    [-179.2, 18.9, -66.9, 71.4],
+    [172.4, 51.2, 180, 53.1],
+    [-67.95, 17.6, -64.5, 18.6],
+    [144.6, 13.2, 146.1, 20.6],
+    [-171.1, -14.6, -168.1, -11],
+  ],
+  CA: [[-141.1, 41.6, -52.6, 83.2]],
+  KZ: [[46.4, 40.5, 87.4, 55.5]],
+  AE: [[51.5, 22.6, 56.4, 26.1]],
+  IN: [[68.1, 6.7, 97.4, 35.7]],
+  KG: [[69.2, 39.1, 80.3, 43.3]],
+};
+
+// Keeps coastal and offshore plants just past a box edge.
+const BOUNDS_PADDING_DEGREES = 0.5;
+
+export type CoordinateIssue =
+  | 'missing-coordinates'
+  | 'coordinates-out-of-range'
+  | 'swapped-coordinates'
+  | 'outside-country';
+
+const isInside = (boxes: Bounds[], lon: number, lat: number): boolean =>
+  boxes.some(
+    ([minLon, minLat, maxLon, maxLat]) =>
+      lon >= minLon - BOUNDS_PADDING_DEGREES &&
+      lon <= maxLon + BOUNDS_PADDING_DEGREES &&
+      lat >= minLat - BOUNDS_PADDING_DEGREES &&
+      lat <= maxLat + BOUNDS_PADDING_DEGREES
+  );
+
+/**
+ * Sanity-checks a plant's position against its declared country. Coordinates
+ * that only fit once longitude and latitude are exchanged are reported as
+ * swapped rather than outside the country.
+ */
+export const getCoordinateIssue = ([lon, lat]: [number, number], country: string): CoordinateIssue | null => {
+  if (!Number.isFinite(lon) || !Number.isFinite(lat) || (lon === 0 && lat === 0)) {
+    return 'missing-coordinates';
+  }
+  if (Math.abs(lon) > 180 || Math.abs(lat) > 90) {
+    return Math.abs(lon) <= 90 && Math.abs(lat) <= 180 ? 'swapped-coordinates' : 'coordinates-out-of-range';
+  }
+
+  const boxes = COUNTRY_BOUNDS[country];
+  if (!boxes || isInside(boxes, lon, lat)) return null;
+  return isInside(boxes, lat, lon) ? 'swapped-coordinates' : 'outside-country';
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createCsvParser, readCsvEntries, streamCsvEntries } from './csvReader';
+
+const parseInChunks = (chunks: string[]) => {
+  const records: Array<{ fields: string[]; line: number; issues: string[] }> = [];
+  const parser = createCsvParser((record) => records.push(record));
+  chunks.forEach(parser.write);
+  parser.end();
+  return records;
+};
+
+const toChunks = async function* (chunks: string[]) {
+  yield* chunks;
+};
+
+describe('createCsvParser', () => {
+  it('handles quoted delimiters, escaped quotes and line breaks across chunk boundaries', () => {
+    const text = '\uFEFFa,b\r\n"x,1","say ""hi""\r\nagain"\r\n\r\nlast,row';
+    const whole = parseInChunks([text]);
+    const split = parseInChunks(text.split(''));
+
+    expect(whole).toEqual([
+      { fields: ['a', 'b'], line: 1, issues: [] },
+      { fields: ['x,1', 'say "hi"\r\nagain'], line: 2, issues: [] },
+      { fields: ['last', 'row'], line: 5, issues: [] },
+    ]);
+    expect(split).toEqual(whole);
+  });
+
+  it('keeps stray quotes as text and flags them', () => {
+    expect(parseInChunks(['a"b,"c"d\n"open'])).toEqual([
+      {
+        fields: ['a"b', 'cd'],
+        line: 1,
+        issues: ['unexpected quote in unquoted field 1', 'unexpected character after closing quote in field 2'],
+      },
+      { fields: ['open'], line: 2, issues: ['unterminated quoted field 1'] },
+    ]);
+  });
+});
+
+describe('readCsvEntries', () => {
+  it('keys rows by trimmed header and numbers them by line', () => {
+    const rows: Array<[Record<string, string>, number]> = [];
+    const report = readCsvEntries(' id , name \n1, One \n\n2,Two,extra\n3', (entry, rowNumber) =>
+      rows.push([entry, rowNumber])
+    );
+
+    expect(rows).toEqual([
+      [{ id: '1', name: 'One' }, 1],
+      [{ id: '2', name: 'Two' }, 3],
+    ]);
+    expect(report).toEqual({
+      rowCount: 3,
+      skippedRowCount: 1,
+      malformedRowCount: 2,
+      malformedRows: [
+        { line: 4, reason: 'expected 2 fields, found 3' },
+        { line: 5, reason: 'expected 2 fields, found 1' },
+      ],
+    });
+  });
+
+  it('streams the same entries as the in-memory reader', async () => {
+    const text = 'id,note\n1,"multi\nline"\n2,plain\n';
+    const fromText: Record<string, string>[] = [];
+    const fromStream: Record<string, string>[] = [];
+
+    const textReport = readCsvEntries(text, (entry) => fromText.push(entry));
+    const streamReport = await streamCsvEntries(toChunks(['id,no', 'te\n1,"mul', 'ti\nline"\n2,plain\n']), (entry) =>
+      fromStream.push(entry)
+    );
+
+    expect(fromStream).toEqual(fromText);
+    expect(streamReport).toEqual(textReport);
+  });
+});
@@ -0,0 +1,204 @@
+export type CsvIssue = {
+  /** 1-based physical line the record starts on; the header is line 1. */
+  line: number;
+  reason: string;
+};
+
+export type CsvRecord = {
+  fields: string[];
+  line: number;
+  issues: string[];
+};
+
+export type CsvReadReport = {
+  rowCount: number;
+  /** Rows with fewer fields than the header; these never reach the entry handler. */
+  skippedRowCount: number;
+  malformedRowCount: number;
+  /** The first MAX_REPORTED_ISSUES malformed rows. */
+  malformedRows: CsvIssue[];
+};
+
+/**
+ * `rowNumber` is the 0-based line index (header is 0), which is what source
+ * plant IDs were built from before the streaming reader.
+ */
+export type CsvEntryHandler = (entry: Record<string, string>, rowNumber: number) => void;
+
+const MAX_REPORTED_ISSUES = 50;
+
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+/**
+ * Incremental RFC 4180 parser: feed text chunks of any size to `write`, then
+ * call `end` once. Quoted fields may contain commas, doubled quotes and line
+ * breaks. LF, CRLF and lone CR all end a record, a leading BOM is dropped and
+ * blank lines are skipped. Stray quotes are kept as text and described in the
+ * record's `issues` rather than aborting the file.
+ */
+export const createCsvParser = (onRecord: (record: CsvRecord) => void) => {
+  let state: ParserState = 'fieldStart';
+  let field = '';
+  let fields: string[] = [];
+  let issues: string[] = [];
+  let line = 1;
+  let recordLine = 1;
+  let atStart = true;
+  let skipNextLineFeed = false;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+  };
+
+  const endLine = () => {
+    if (state !== 'fieldStart' || fields.length > 0) {
+      endField();
+      onRecord({ fields, line: recordLine, issues });
+    }
+    fields = [];
+    issues = [];
+    state = 'fieldStart';
+    line += 1;
+    recordLine = line;
+  };
+
+  const write = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (atStart) {
+        atStart = false;
+        if (char === '\uFEFF') continue;
+      }
+
+      if (skipNextLineFeed) {
+        skipNextLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (state === 'quoted') {
+        if (char === '"') {
+          state = 'quoteInQuoted';
+        } else {
+          if (char === '\n') line += 1;
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '\n' || char === '\r') {
+        endLine();
+        skipNextLineFeed = char === '\r';
+        continue;
+      }
+
+      if (char === ',') {
+        endField();
+        state = 'fieldStart';
+        continue;
+      }
+
+      if (state === 'fieldStart') {
+        if (char === '"') {
+          state = 'quoted';
+        } else {
+          field += char;
+          state = 'unquoted';
+        }
+      } else if (state === 'quoteInQuoted') {
+        if (char === '"') {
+          field += '"';
+          state = 'quoted';
+        } else {
+          issues.push(`unexpected character after closing quote in field ${fields.length + 1}`);
+          field += char;
+          state = 'unquoted';
+        }
+      } else {
+        if (char === '"') {
+          issues.push(`unexpected quote in unquoted field ${fields.length + 1}`);
+        }
+        field += char;
+      }
+    }
+  };
+
+  const end = () => {
+    if (state === 'quoted') {
+      issues.push(`unterminated quoted field ${fields.length + 1}`);
+    }
+    if (state !== 'fieldStart' || fields.length > 0) {
+      endField();
+      onRecord({ fields, line: recordLine, issues });
+    }
+    fields = [];
+    issues = [];
+  };
+
+  return { write, end };
+};
+
+/**
+ * Maps records to header-keyed entries with trimmed values. Rows with fewer
+ * fields than the header are skipped; any malformed row is counted and the
+ * first few are reported with their line numbers.
+ */
+const createCsvEntryReader = (onEntry: CsvEntryHandler) => {
+  const report: CsvReadReport = { rowCount: 0, skippedRowCount: 0, malformedRowCount: 0, malformedRows: [] };
+  let headers: string[] | null = null;
+
+  const reportIssue = (line: number, reason: string) => {
+    report.malformedRowCount += 1;
+    if (report.malformedRows.length < MAX_REPORTED_ISSUES) {
+      report.malformedRows.push({ line, reason });
+    }
+  };
+
+  const parser = createCsvParser(({ fields, line, issues }) => {
+    if (!headers) {
+      headers = fields.map((header) => header.trim());
+      return;
+    }
+
+    report.rowCount += 1;
+    if (fields.length !== headers.length) {
+      issues.push(`expected ${headers.length} fields, found ${fields.length}`);
+    }
+    if (issues.length > 0) {
+      reportIssue(line, issues.join('; '));
+    }
+    if (fields.length < headers.length) {
+      report.skippedRowCount += 1;
+      return;
+    }
+
+    const entry: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      entry[header] = fields[index].trim();
+    });
+    onEntry(entry, line - 1);
+  });
+
+  return { parser, report };
+};
+
+export const readCsvEntries = (csvText: string, onEntry: CsvEntryHandler): CsvReadReport => {
+  const { parser, report } = createCsvEntryReader(onEntry);
+  parser.write(csvText);
+  parser.end();
+  return report;
+};
+
+/** Like `readCsvEntries`, but holds only the current chunk and row in memory. */
+export const streamCsvEntries = async (
+  chunks: AsyncIterable<string>,
+  onEntry: CsvEntryHandler
+): Promise<CsvReadReport> => {
+  const { parser, report } = createCsvEntryReader(onEntry);
+  for await (const chunk of chunks) {
+    parser.write(chunk);
+  }
+  parser.end();
+  return report;
+};
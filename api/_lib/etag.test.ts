@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { matchesIfNoneMatch, toStrongEtag } from './etag';
+
+describe('etag helpers', () => {
+  const etag = toStrongEtag('3f2a9c01d4e5b678');
+
+  it('matches exact, listed, weak and wildcard validators', () => {
+    expect(matchesIfNoneMatch('"3f2a9c01d4e5b678"', etag)).toBe(true);
+    expect(matchesIfNoneMatch('"other", "3f2a9c01d4e5b678"', etag)).toBe(true);
+    expect(matchesIfNoneMatch('W/"3f2a9c01d4e5b678"', etag)).toBe(true);
+    expect(matchesIfNoneMatch('*', etag)).toBe(true);
+  });
+
+  it('does not match a missing or different validator', () => {
+    expect(matchesIfNoneMatch(undefined, etag)).toBe(false);
+    expect(matchesIfNoneMatch('"0000000000000000"', etag)).toBe(false);
+    expect(matchesIfNoneMatch('3f2a9c01d4e5b678', etag)).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+export const toStrongEtag = (version: string): string => `"${version}"`;
+
+/**
+ * If-None-Match uses weak comparison (RFC 9110 §13.1.2), so a `W/` prefix on
+ * either side still counts as a match.
+ */
+export const matchesIfNoneMatch = (header: string | string[] | undefined, etag: string): boolean => {
+  const value = Array.isArray(header) ? header.join(',') : header;
+  if (!value) return false;
+  if (value.trim() === '*') return true;
+
+  const opaque = etag.replace(/^W\//, '');
+  return value.split(',').some((candidate) => candidate.trim().replace(/^W\//, '') === opaque);
+};
+
+/**
+ * Sets the ETag header and answers with 304 when the client already has this
+ * version. Returns true when the response has been sent. Set Cache-Control
+ * first so it is repeated on the 304.
+ */
+export const respondNotModified = (req: VercelRequest, res: VercelResponse, etag: string): boolean => {
+  res.setHeader('ETag', etag);
+  if (!matchesIfNoneMatch(req.headers['if-none-match'], etag)) return false;
+
+  res.status(304).end();
+  return true;
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { clipFiberFeatures, clipLineToBbox, getSimplifyTolerance, segmentIntersectsBbox, simplifyLine } from './fiberGeometry';
+
+type Position = [number, number];
+
+const line = (name: string, coordinates: Position[]) => ({
+  type: 'Feature',
+  properties: { NAME: name },
+  geometry: { type: 'LineString', coordinates },
+});
+
+// A 5-degree tile around a 1x1 viewport at [0, 0, 1, 1], clipped to [-0.1, -0.1, 1.1, 1.1].
+const tile = {
+  type: 'FeatureCollection',
+  features: [
+    line('crossing', [
+      [-3, 0.5],
+      [4, 0.5],
+    ]),
+    line('diagonal', [
+      [-2, -2],
+      [3, 3],
+    ]),
+    line('inside', [
+      [0.2, 0.2],
+      [0.8, 0.8],
+    ]),
+    line('outside', [
+      [2, 2],
+      [3, 2],
+    ]),
+    line('near miss', [
+      [-1, 2],
+      [2, 1.5],
+    ]),
+    {
+      type: 'Feature',
+      properties: { NAME: 'multi' },
+      geometry: {
+        type: 'MultiLineString',
+        coordinates: [
+          [
+            [3, 3],
+            [4, 4],
+          ],
+          [
+            [0.5, -1],
+            [0.5, 2],
+          ],
+        ],
+      },
+    },
+  ],
+};
+
+describe('segmentIntersectsBbox', () => {
+  it('detects segments crossing the box with both endpoints outside', () => {
+    expect(segmentIntersectsBbox([-1, 0.5], [2, 0.5], [0, 0, 1, 1])).toBe(true);
+    expect(segmentIntersectsBbox([-1, 2], [2, 1.5], [0, 0, 1, 1])).toBe(false);
+    expect(segmentIntersectsBbox([0.5, 0.5], [0.5, 0.5], [0, 0, 1, 1])).toBe(true);
+  });
+});
+
+describe('clipLineToBbox', () => {
+  it('splits a line that leaves and re-enters the box', () => {
+    const parts = clipLineToBbox(
+      [
+        [0.5, 0.5],
+        [2, 0.5],
+        [2, 0.8],
+        [0.5, 0.8],
+      ],
+      [0, 0, 1, 1]
+    );
+
+    expect(parts).toEqual([
+      [
+        [0.5, 0.5],
+        [1, 0.5],
+      ],
+      [
+        [1, 0.8],
+        [0.5, 0.8],
+      ],
+    ]);
+  });
+});
+
+describe('simplifyLine', () => {
+  const wiggly: Position[] = Array.from({ length: 101 }, (_, i) => [i / 100, (i % 2) * 0.0001]);
+
+  it('drops vertices within tolerance and keeps the endpoints', () => {
+    expect(simplifyLine(wiggly, 0.001)).toEqual([wiggly[0], wiggly[100]]);
+    expect(simplifyLine(wiggly, 0)).toHaveLength(101);
+  });
+
+  it('uses a coarser tolerance at lower zoom', () => {
+    expect(getSimplifyTolerance(3)).toBeGreaterThan(getSimplifyTolerance(10));
+    expect(getSimplifyTolerance(16)).toBe(0);
+  });
+});
+
+describe('clipFiberFeatures', () => {
+  it('keeps every route crossing the viewport, clipped to the buffered box', () => {
+    const clipped = clipFiberFeatures(tile.features, [0, 0, 1, 1], 16);
+
+    expect(clipped.map((feature) => feature.properties.NAME)).toEqual(['crossing', 'diagonal', 'inside', 'multi']);
+    expect(clipped[0].geometry).toEqual({
+      type: 'LineString',
+      coordinates: [
+        [-0.1, 0.5],
+        [1.1, 0.5],
+      ],
+    });
+    expect(clipped[3].geometry).toEqual({
+      type: 'LineString',
+      coordinates: [
+        [0.5, -0.1],
+        [0.5, 1.1],
+      ],
+    });
+  });
+
+  it('shrinks geometries at low zoom without dropping routes', () => {
+    const dense = line(
+      'dense',
+      Array.from({ length: 500 }, (_, i): Position => [i / 500, 0.5 + Math.sin(i) * 0.00001])
+    );
+
+    const [lowZoom] = clipFiberFeatures([dense], [0, 0, 1, 1], 4);
+    const [highZoom] = clipFiberFeatures([dense], [0, 0, 1, 1], 16);
+    expect((lowZoom.geometry.coordinates as Position[]).length).toBe(2);
+    expect((highZoom.geometry.coordinates as Position[]).length).toBe(500);
+  });
+});
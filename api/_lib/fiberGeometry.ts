@@ -0,0 +1,216 @@
+import { getLineParts } from '../../src/utils/geoUtils.js';
+
+export type Bbox = [number, number, number, number];
+export type Position = [number, number];
+
+export type FiberFeature = {
+  type?: string;
+  properties?: Record<string, unknown> | null;
+  geometry?: { type?: string; coordinates?: unknown } | null;
+};
+
+// Routes are clipped to the viewport plus this fraction of its size on every
+// side, so small pans don't show lines ending at the old viewport edge.
+const CLIP_BUFFER_RATIO = 0.1;
+// Degrees per pixel at zoom 0 for 512px map tiles.
+const DEGREES_PER_PIXEL_Z0 = 360 / 512;
+// Past this zoom simplification would only save a few vertices per route.
+const MAX_SIMPLIFY_ZOOM = 14;
+
+export const bufferBbox = ([minX, minY, maxX, maxY]: Bbox, ratio = CLIP_BUFFER_RATIO): Bbox => {
+  const padX = (maxX - minX) * ratio;
+  const padY = (maxY - minY) * ratio;
+  return [minX - padX, minY - padY, maxX + padX, maxY + padY];
+};
+
+/** Douglas-Peucker tolerance in degrees: one screen pixel at `zoom`, none past MAX_SIMPLIFY_ZOOM. */
+export const getSimplifyTolerance = (zoom: number): number =>
+  zoom >= MAX_SIMPLIFY_ZOOM ? 0 : DEGREES_PER_PIXEL_Z0 / 2 ** Math.max(zoom, 0);
+
+/**
+ * Liang-Barsky clipping of segment a-b to `bbox`. Returns the clipped
+ * endpoints and the segment parameters they sit at (0 and 1 when unclipped),
+ * or null when the segment misses the box.
+ */
+export const clipSegment = (
+  a: Position,
+  b: Position,
+  [minX, minY, maxX, maxY]: Bbox
+): { start: Position; end: Position; t0: number; t1: number } | null => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  let t0 = 0;
+  let t1 = 1;
+  // The edge each clipped endpoint lies on, as [axis, value], so it can be snapped onto it exactly.
+  let entryEdge: [number, number] | null = null;
+  let exitEdge: [number, number] | null = null;
+
+  const edges: Array<[number, number, number, number]> = [
+    [-dx, a[0] - minX, 0, minX],
+    [dx, maxX - a[0], 0, maxX],
+    [-dy, a[1] - minY, 1, minY],
+    [dy, maxY - a[1], 1, maxY],
+  ];
+  for (const [p, q, axis, value] of edges) {
+    if (p === 0) {
+      // Parallel to this edge: outside it entirely, or irrelevant to it.
+      if (q < 0) return null;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      if (t > t1) return null;
+      if (t > t0) {
+        t0 = t;
+        entryEdge = [axis, value];
+      }
+    } else {
+      if (t < t0) return null;
+      if (t < t1) {
+        t1 = t;
+        exitEdge = [axis, value];
+      }
+    }
+  }
+
+  const at = (t: number, edge: [number, number] | null): Position => {
+    const point: Position = [a[0] + t * dx, a[1] + t * dy];
+    if (edge) point[edge[0]] = edge[1];
+    return point;
+  };
+  return { start: t0 === 0 ? a : at(t0, entryEdge), end: t1 === 1 ? b : at(t1, exitEdge), t0, t1 };
+};
+
+export const segmentIntersectsBbox = (a: Position, b: Position, bbox: Bbox): boolean =>
+  clipSegment(a, b, bbox) !== null;
+
+/** The pieces of `line` inside `bbox`; a line that leaves and re-enters yields several. */
+export const clipLineToBbox = (line: Position[], bbox: Bbox): Position[][] => {
+  const parts: Position[][] = [];
+  let part: Position[] = [];
+  // Whether the previous segment ended inside the box, so the next one continues the part.
+  let continuing = false;
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const clipped = clipSegment(line[i], line[i + 1], bbox);
+    // Touching the box at a single point draws nothing.
+    if (!clipped || clipped.t1 <= clipped.t0) {
+      continuing = false;
+      continue;
+    }
+
+    if (!continuing || clipped.t0 > 0) {
+      if (part.length >= 2) parts.push(part);
+      part = [clipped.start];
+    }
+    part.push(clipped.end);
+    continuing = clipped.t1 === 1;
+  }
+  if (part.length >= 2) parts.push(part);
+  return parts;
+};
+
+export const getSquaredSegmentDistance = ([x, y]: Position, [ax, ay]: Position, [bx, by]: Position): number => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lengthSquared)) : 0;
+  const px = ax + t * dx - x;
+  const py = ay + t * dy - y;
+  return px * px + py * py;
+};
+
+/** Douglas-Peucker simplification; endpoints are always kept. Iterative, so long routes can't overflow the stack. */
+export const simplifyLine = (line: Position[], tolerance: number): Position[] => {
+  if (tolerance <= 0 || line.length <= 2) return line;
+
+  const toleranceSquared = tolerance * tolerance;
+  const keep = new Uint8Array(line.length);
+  keep[0] = 1;
+  keep[line.length - 1] = 1;
+
+  const stack: Array<[number, number]> = [[0, line.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let farthestDistance = toleranceSquared;
+    for (let i = first + 1; i < last; i++) {
+      const distance = getSquaredSegmentDistance(line[i], line[first], line[last]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = 1;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return line.filter((_, index) => keep[index] === 1);
+};
+
+const getPartsBbox = (parts: Position[][]): Bbox => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const part of parts) {
+    for (const [x, y] of part) {
+      if (x < minX) minX = x;
+      if (y < minY) minY = y;
+      if (x > maxX) maxX = x;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return [minX, minY, maxX, maxY];
+};
+
+/** Whether any segment of the feature's lines crosses `bbox`. */
+export const featureIntersectsBbox = (feature: FiberFeature, bbox: Bbox): boolean => {
+  const parts = getLineParts(feature?.geometry);
+  if (parts.length === 0) return false;
+
+  const [minX, minY, maxX, maxY] = bbox;
+  const [partsMinX, partsMinY, partsMaxX, partsMaxY] = getPartsBbox(parts);
+  if (partsMaxX < minX || partsMinX > maxX || partsMaxY < minY || partsMinY > maxY) return false;
+
+  return parts.some((part) => part.some((point, i) => i > 0 && segmentIntersectsBbox(part[i - 1], point, bbox)));
+};
+
+/**
+ * Clips each LineString/MultiLineString feature to the buffered `bbox` and
+ * simplifies it for `zoom`. Features with no segment crossing the box are
+ * dropped, however far apart their vertices are; a clipped route that leaves
+ * and re-enters the box comes back as a MultiLineString.
+ */
+export const clipFiberFeatures = <T extends FiberFeature>(features: T[], bbox: Bbox, zoom: number): T[] => {
+  const clipBox = bufferBbox(bbox);
+  const [minX, minY, maxX, maxY] = clipBox;
+  const tolerance = getSimplifyTolerance(zoom);
+  const clippedFeatures: T[] = [];
+
+  for (const feature of features) {
+    const parts = getLineParts(feature?.geometry);
+    if (parts.length === 0) continue;
+
+    const [partsMinX, partsMinY, partsMaxX, partsMaxY] = getPartsBbox(parts);
+    if (partsMaxX < minX || partsMinX > maxX || partsMaxY < minY || partsMinY > maxY) continue;
+
+    const inside = partsMinX >= minX && partsMaxX <= maxX && partsMinY >= minY && partsMaxY <= maxY;
+    const clipped = (inside ? parts : parts.flatMap((part) => clipLineToBbox(part, clipBox))).map((part) =>
+      simplifyLine(part, tolerance)
+    );
+    if (clipped.length === 0) continue;
+
+    clippedFeatures.push({
+      ...feature,
+      geometry:
+        clipped.length === 1
+          ? { type: 'LineString', coordinates: clipped[0] }
+          : { type: 'MultiLineString', coordinates: clipped },
+    });
+  }
+
+  return clippedFeatures;
+};
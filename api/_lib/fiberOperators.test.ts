@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadFiberOperatorDirectory, parseFiberOperatorQuery, summarizeFiberOperators } from './fiberOperators';
+
+type Position = [number, number];
+
+const route = (properties: Record<string, unknown>, coordinates: Position[] = [[0, 0], [0, 1]]) => ({
+  type: 'Feature',
+  properties,
+  geometry: { type: 'LineString', coordinates },
+});
+
+describe('summarizeFiberOperators', () => {
+  it('groups carriers by normalized name under their most common spelling', () => {
+    const directory = summarizeFiberOperators([
+      route({ LOC_ID: 'a', OPERATOR: 'Zayo Group, LLC', MILES: 10 }),
+      route({ LOC_ID: 'b', OPERATOR: 'Zayo Group', MILES: 5 }),
+      route({ LOC_ID: 'c', OWNER: 'zayo group llc', MILES: 2.04 }),
+      route({ LOC_ID: 'd', OPERATOR: 'Zayo Group', MILES: 1 }),
+      route({ LOC_ID: 'e', OPERATOR: 'Lumen', MILES: 30 }),
+    ]);
+
+    expect(directory.operators).toEqual([
+      { operator: 'Lumen', routeCount: 1, routeMiles: 30 },
+      { operator: 'Zayo Group', routeCount: 4, routeMiles: 18 },
+    ]);
+    expect(directory.totalRouteMiles).toBe(48);
+  });
+
+  it('counts routes repeated across tiles once and measures routes without MILES', () => {
+    const directory = summarizeFiberOperators([
+      route({ LOC_ID: 'a', OPERATOR: 'Lumen', MILES: 4 }),
+      route({ LOC_ID: 'a', OPERATOR: 'Lumen', MILES: 4 }),
+      route({ LOC_ID: 'b' }),
+    ]);
+
+    expect(directory.operators).toEqual([{ operator: 'Lumen', routeCount: 1, routeMiles: 4 }]);
+    // One degree of latitude is about 69 miles
+    expect(directory.unattributed.routeCount).toBe(1);
+    expect(directory.unattributed.routeMiles).toBeCloseTo(69.1, 0);
+  });
+});
+
+describe('parseFiberOperatorQuery', () => {
+  it('requires a bbox and validates the limit', () => {
+    expect(parseFiberOperatorQuery({ bbox: '-100,40,-99,41' })).toEqual({ bbox: [-100, 40, -99, 41], limit: 100 });
+    expect(parseFiberOperatorQuery({ bbox: '-100,40,-99,41', limit: '5' })).toMatchObject({ limit: 5 });
+    expect(parseFiberOperatorQuery({})).toHaveProperty('error');
+    expect(parseFiberOperatorQuery({ bbox: '-100,40,-99,41', limit: '0' })).toHaveProperty('error');
+    expect(parseFiberOperatorQuery({ bbox: '-125,25,-65,50' })).toHaveProperty('error');
+  });
+
+  it('allows a 2x2 block of tiles and refuses anything larger', () => {
+    expect(parseFiberOperatorQuery({ bbox: '-100,40,-91,49' })).not.toHaveProperty('error');
+    expect(parseFiberOperatorQuery({ bbox: '-100,40,-86,49' })).toHaveProperty('error');
+  });
+});
+
+describe('loadFiberOperatorDirectory', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('downloads the tiles under the bbox on every load instead of caching them', async () => {
+    vi.stubEnv('FIBER_TILES_S3_URL', 'https://tiles.test');
+    const collection = { type: 'FeatureCollection', features: [route({ LOC_ID: 'a', OPERATOR: 'Lumen', MILES: 3 })] };
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(collection)));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const directory = await loadFiberOperatorDirectory([-1, -1, 1, 1]);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(directory.operators).toEqual([{ operator: 'Lumen', routeCount: 1, routeMiles: 3 }]);
+
+    await loadFiberOperatorDirectory([-1, -1, 1, 1]);
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+  });
+});
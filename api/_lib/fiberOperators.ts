@@ -0,0 +1,135 @@
+import { getFiberCarrier } from '../../src/utils/fiberAttributes.js';
+import { calculateDistance, getLineParts } from '../../src/utils/geoUtils.js';
+import { featureIntersectsBbox, type Bbox, type FiberFeature } from './fiberGeometry.js';
+import { fetchFiberTile, getIntersectingTiles, resolveFiberTileBaseUrl } from './fiberTiles.js';
+import { getSingleQueryValue, parseBboxParam } from './powerPlantsData.js';
+
+export type FiberOperatorSummary = {
+  operator: string;
+  routeCount: number;
+  routeMiles: number;
+};
+
+export type FiberOperatorDirectory = {
+  operators: FiberOperatorSummary[];
+  // Routes naming neither an operator nor an owner
+  unattributed: { routeCount: number; routeMiles: number };
+  totalRouteMiles: number;
+};
+
+// Tiles are 50-400 MB each and are downloaded per request, so the area is held
+// to a 2x2 block that fits the function timeout. Larger areas are refused rather
+// than partly counted.
+export const MAX_OPERATOR_TILES = 4;
+const FIBER_TILE_CONCURRENCY = 2;
+const DEFAULT_OPERATOR_LIMIT = 100;
+const MAX_OPERATOR_LIMIT = 1000;
+
+/** The route's MILES attribute, or its measured length when the source leaves it out. */
+const getRouteMiles = (feature: FiberFeature): number => {
+  const miles = Number(feature.properties?.MILES);
+  if (Number.isFinite(miles) && miles > 0) return miles;
+
+  let measured = 0;
+  for (const line of getLineParts(feature.geometry)) {
+    for (let i = 0; i < line.length - 1; i++) measured += calculateDistance(line[i], line[i + 1]);
+  }
+  return measured;
+};
+
+const roundMiles = (miles: number): number => Math.round(miles * 10) / 10;
+
+/**
+ * Route counts and miles per carrier (OPERATOR, else OWNER), grouped by
+ * normalized name and listed by route miles. Each carrier is listed under its
+ * most common spelling. Routes repeated across tiles are counted once by
+ * LOC_ID, and each counts its full length.
+ */
+export const summarizeFiberOperators = (features: FiberFeature[]): FiberOperatorDirectory => {
+  const operators = new Map<string, { routeCount: number; routeMiles: number; spellings: Map<string, number> }>();
+  const unattributed = { routeCount: 0, routeMiles: 0 };
+  const seenRouteIds = new Set<string>();
+
+  for (const feature of features) {
+    const routeId = feature.properties?.LOC_ID;
+    if (routeId !== undefined && routeId !== null && routeId !== '') {
+      if (seenRouteIds.has(String(routeId))) continue;
+      seenRouteIds.add(String(routeId));
+    }
+
+    const routeMiles = getRouteMiles(feature);
+    const carrier = getFiberCarrier(feature.properties);
+    if (!carrier) {
+      unattributed.routeCount += 1;
+      unattributed.routeMiles += routeMiles;
+      continue;
+    }
+
+    let entry = operators.get(carrier.key);
+    if (!entry) {
+      entry = { routeCount: 0, routeMiles: 0, spellings: new Map() };
+      operators.set(carrier.key, entry);
+    }
+    entry.routeCount += 1;
+    entry.routeMiles += routeMiles;
+    entry.spellings.set(carrier.name, (entry.spellings.get(carrier.name) ?? 0) + 1);
+  }
+
+  const summaries = Array.from(operators.values()).map(({ routeCount, routeMiles, spellings }) => ({
+    operator: Array.from(spellings.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0],
+    routeCount,
+    routeMiles: roundMiles(routeMiles),
+  }));
+  summaries.sort((a, b) => b.routeMiles - a.routeMiles || a.operator.localeCompare(b.operator));
+
+  const totalRouteMiles = summaries.reduce((total, summary) => total + summary.routeMiles, 0) + unattributed.routeMiles;
+  return {
+    operators: summaries,
+    unattributed: { routeCount: unattributed.routeCount, routeMiles: roundMiles(unattributed.routeMiles) },
+    totalRouteMiles: roundMiles(totalRouteMiles),
+  };
+};
+
+export const parseFiberOperatorQuery = (
+  query: Record<string, string | string[] | undefined>
+): { bbox: Bbox; limit: number } | { error: string } => {
+  const bbox = parseBboxParam(getSingleQueryValue(query.bbox));
+  if (!bbox) {
+    return { error: 'A bbox query parameter is required. Expected format: minLon,minLat,maxLon,maxLat' };
+  }
+
+  const tileCount = getIntersectingTiles(...bbox).length;
+  if (tileCount > MAX_OPERATOR_TILES) {
+    return { error: `bbox covers ${tileCount} fiber tiles; at most ${MAX_OPERATOR_TILES} are allowed` };
+  }
+
+  const limitParam = getSingleQueryValue(query.limit);
+  const limit = limitParam === undefined ? DEFAULT_OPERATOR_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_OPERATOR_LIMIT) {
+    return { error: `limit must be an integer between 1 and ${MAX_OPERATOR_LIMIT}` };
+  }
+
+  return { bbox, limit };
+};
+
+/**
+ * Loads the fiber tiles under `bbox` and summarizes the routes crossing it.
+ * Tiles are not cached, so each is freed once its routes are filtered.
+ */
+export const loadFiberOperatorDirectory = async (bbox: Bbox): Promise<FiberOperatorDirectory> => {
+  const tiles = getIntersectingTiles(...bbox);
+  const baseUrl = resolveFiberTileBaseUrl();
+  const features: FiberFeature[] = [];
+  for (let i = 0; i < tiles.length; i += FIBER_TILE_CONCURRENCY) {
+    const batch = await Promise.all(
+      tiles.slice(i, i + FIBER_TILE_CONCURRENCY).map((tile) => fetchFiberTile(tile, baseUrl, { cache: false }))
+    );
+    for (const tile of batch) {
+      for (const feature of tile.features ?? []) {
+        if (featureIntersectsBbox(feature, bbox)) features.push(feature);
+      }
+    }
+  }
+
+  return summarizeFiberOperators(features);
+};
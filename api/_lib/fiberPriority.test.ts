@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { capFiberFeatures, getFiberPriority, getQualityRank, getServiceTypeRank } from './fiberPriority';
+
+type Position = [number, number];
+
+const route = (properties: Record<string, unknown>, coordinates: Position[] = [[0.5, 0.5], [0.6, 0.5]]) => ({
+  type: 'Feature',
+  properties,
+  geometry: { type: 'LineString', coordinates },
+});
+
+const bbox: [number, number, number, number] = [0, 0, 1, 1];
+
+describe('service type and quality ranks', () => {
+  it('ranks long-haul above regional above metro, and unknown values lowest', () => {
+    expect(getServiceTypeRank('Long Haul')).toBe(3);
+    expect(getServiceTypeRank('middle-mile')).toBe(2);
+    expect(getServiceTypeRank('FTTH')).toBe(1);
+    expect(getServiceTypeRank('')).toBe(0);
+    expect(getServiceTypeRank(undefined)).toBe(0);
+    expect(getQualityRank('Verified')).toBe(2);
+    expect(getQualityRank('medium')).toBe(1);
+    expect(getQualityRank(42)).toBe(0);
+  });
+});
+
+describe('getFiberPriority', () => {
+  it('prefers longer, higher-tier routes near the viewport center', () => {
+    const center = route({ MILES: 10 });
+    expect(getFiberPriority(route({ MILES: 100 }), bbox)).toBeGreaterThan(getFiberPriority(center, bbox));
+    expect(getFiberPriority(route({ MILES: 10, SERVICE_TYPE: 'backbone' }), bbox)).toBeGreaterThan(
+      getFiberPriority(center, bbox)
+    );
+    const edge = route({ MILES: 10 }, [
+      [0, 0],
+      [0.05, 0],
+    ]);
+    expect(getFiberPriority(center, bbox)).toBeGreaterThan(getFiberPriority(edge, bbox));
+  });
+
+  it('measures center distance to the nearest segment, not the nearest vertex', () => {
+    const crossing = route({ MILES: 10 }, [
+      [-1, 0.5],
+      [2, 0.5],
+    ]);
+    expect(getFiberPriority(crossing, bbox)).toBeCloseTo(getFiberPriority(route({ MILES: 10 }), bbox));
+  });
+});
+
+describe('capFiberFeatures', () => {
+  const features = [
+    route({ NAME: 'metro', MILES: 1, SERVICE_TYPE: 'metro' }),
+    route({ NAME: 'long haul', MILES: 400, SERVICE_TYPE: 'long-haul', QUALITY: 'high' }),
+    route({ NAME: 'tie b', MILES: 20 }),
+    route({ NAME: 'tie a', MILES: 20 }),
+    route({ NAME: 'regional', MILES: 80, SERVICE_TYPE: 'regional' }),
+  ];
+
+  it('keeps the highest-priority routes and reports how many were dropped', () => {
+    const { features: kept, dropped } = capFiberFeatures(features, bbox, 3);
+
+    expect(kept.map((feature) => feature.properties.NAME)).toEqual(['long haul', 'regional', 'tie a']);
+    expect(dropped).toBe(2);
+  });
+
+  it('keeps the same routes whatever order the tiles arrive in', () => {
+    const forward = capFiberFeatures(features, bbox, 3).features.map((feature) => feature.properties.NAME);
+    const reversed = capFiberFeatures([...features].reverse(), bbox, 3).features.map(
+      (feature) => feature.properties.NAME
+    );
+
+    expect(reversed).toEqual(forward);
+  });
+
+  it('returns everything untouched under the cap', () => {
+    const result = capFiberFeatures(features, bbox, 10);
+
+    expect(result.features).toBe(features);
+    expect(result.dropped).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { getLineParts } from '../../src/utils/geoUtils.js';
+import { getSquaredSegmentDistance, type Bbox, type FiberFeature, type Position } from './fiberGeometry.js';
+
+// Checked in order; unmatched or missing values rank lowest.
+const SERVICE_TYPE_RANKS: Array<[RegExp, number]> = [
+  [/long[\s-]?haul|backbone|intercity|national/i, 3],
+  [/regional|middle[\s-]?mile/i, 2],
+  [/metro|local|last[\s-]?mile|fttx|ftt[hp]/i, 1],
+];
+
+const QUALITY_RANKS: Array<[RegExp, number]> = [
+  [/high|exact|verified|surveyed/i, 2],
+  [/medium|moderate/i, 1],
+];
+
+// Score weights: one service-type step outweighs a route about 4.5x as long,
+// and a route at the viewport edge loses about as much as one service step.
+const MILES_WEIGHT = 1;
+const SERVICE_TYPE_WEIGHT = 1.5;
+const QUALITY_WEIGHT = 0.5;
+const CENTER_DISTANCE_WEIGHT = 1.5;
+// Routes in the clip buffer or without segments count as this far out.
+const MAX_CENTER_DISTANCE = 2;
+
+const rankByPatterns = (value: unknown, ranks: Array<[RegExp, number]>): number => {
+  if (typeof value !== 'string' || !value.trim()) return 0;
+  return ranks.find(([pattern]) => pattern.test(value))?.[1] ?? 0;
+};
+
+export const getServiceTypeRank = (value: unknown): number => rankByPatterns(value, SERVICE_TYPE_RANKS);
+
+export const getQualityRank = (value: unknown): number => rankByPatterns(value, QUALITY_RANKS);
+
+// Distance from the viewport center to the route's nearest segment, as a
+// fraction of the half-diagonal, so the weight means the same at every zoom.
+const getCenterDistance = (geometry: FiberFeature['geometry'], [minX, minY, maxX, maxY]: Bbox): number => {
+  const center: Position = [(minX + maxX) / 2, (minY + maxY) / 2];
+  const halfDiagonal = Math.hypot(maxX - minX, maxY - minY) / 2 || 1;
+
+  let nearestSquared = Infinity;
+  for (const part of getLineParts(geometry)) {
+    for (let i = 1; i < part.length; i++) {
+      nearestSquared = Math.min(nearestSquared, getSquaredSegmentDistance(center, part[i - 1], part[i]));
+    }
+  }
+  return Math.min(Math.sqrt(nearestSquared) / halfDiagonal, MAX_CENTER_DISTANCE);
+};
+
+/** Higher is more important. Long, long-haul, well-surveyed routes near the viewport center come first. */
+export const getFiberPriority = (feature: FiberFeature, bbox: Bbox): number => {
+  const properties = feature.properties ?? {};
+  const miles = Number(properties.MILES);
+  return (
+    MILES_WEIGHT * Math.log1p(Number.isFinite(miles) && miles > 0 ? miles : 0) +
+    SERVICE_TYPE_WEIGHT * getServiceTypeRank(properties.SERVICE_TYPE) +
+    QUALITY_WEIGHT * getQualityRank(properties.QUALITY) -
+    CENTER_DISTANCE_WEIGHT * getCenterDistance(feature.geometry, bbox)
+  );
+};
+
+const getTieBreakKey = (feature: FiberFeature): string => {
+  const properties = feature.properties ?? {};
+  return String(properties.LOC_ID ?? properties.NAME ?? '');
+};
+
+/**
+ * Keeps the `maxFeatures` most important features, ranked by
+ * `getFiberPriority` with ties broken by LOC_ID/NAME and then input order, so
+ * the same request always keeps the same routes. Returns them in rank order.
+ */
+export const capFiberFeatures = <T extends FiberFeature>(
+  features: T[],
+  bbox: Bbox,
+  maxFeatures: number
+): { features: T[]; dropped: number } => {
+  if (features.length <= maxFeatures) return { features, dropped: 0 };
+
+  const ranked = features.map((feature, index) => ({
+    feature,
+    index,
+    priority: getFiberPriority(feature, bbox),
+    key: getTieBreakKey(feature),
+  }));
+  ranked.sort((a, b) => b.priority - a.priority || a.key.localeCompare(b.key) || a.index - b.index);
+
+  return {
+    features: ranked.slice(0, maxFeatures).map(({ feature }) => feature),
+    dropped: features.length - maxFeatures,
+  };
+};
@@ -0,0 +1,145 @@
+import path from 'path';
+import fs from 'fs/promises';
+
+export type FiberTile = { minLon: number; minLat: number; maxLon: number; maxLat: number };
+export type FiberTileData = { type: string; features: any[] };
+
+// Grid tile size (degrees)
+// Can be overridden via FIBER_TILE_SIZE env var (default: 5 for current tiles, use 2 for optimized tiles)
+export const TILE_SIZE = parseInt(process.env.FIBER_TILE_SIZE || '5', 10);
+
+// Raw S3 tile cache — avoids re-downloading 50-400 MB tiles on every request
+const tileCache = new Map<string, { data: FiberTileData; timestamp: number }>();
+const TILE_CACHE_TTL = 15 * 60 * 1000; // 15 minutes
+const FETCH_TIMEOUT = 60000; // 60 seconds for large tiles
+
+/**
+ * Calculate which grid tiles intersect with the given bbox
+ */
+export function getIntersectingTiles(
+  minLon: number,
+  minLat: number,
+  maxLon: number,
+  maxLat: number
+): FiberTile[] {
+  const tiles: FiberTile[] = [];
+
+  // Round down to tile boundaries
+  const startTileLon = Math.floor(minLon / TILE_SIZE) * TILE_SIZE;
+  const startTileLat = Math.floor(minLat / TILE_SIZE) * TILE_SIZE;
+  const endTileLon = Math.ceil(maxLon / TILE_SIZE) * TILE_SIZE;
+  const endTileLat = Math.ceil(maxLat / TILE_SIZE) * TILE_SIZE;
+
+  // Generate all tiles that intersect
+  for (let lon = startTileLon; lon < endTileLon; lon += TILE_SIZE) {
+    for (let lat = startTileLat; lat < endTileLat; lat += TILE_SIZE) {
+      tiles.push({
+        minLon: lon,
+        minLat: lat,
+        maxLon: lon + TILE_SIZE,
+        maxLat: lat + TILE_SIZE,
+      });
+    }
+  }
+
+  return tiles;
+}
+
+export const getTileKey = (tile: { minLon: number; minLat: number }): string => `${tile.minLon}_${tile.minLat}`;
+
+/**
+ * Base URL for `fetchFiberTile`: FIBER_TILES_S3_URL, or null in development
+ * to read tiles from disk. Throws in production when it is not configured.
+ */
+export const resolveFiberTileBaseUrl = (): string | null => {
+  if (process.env.FIBER_TILES_S3_URL) return process.env.FIBER_TILES_S3_URL;
+  const isDev = process.env.NODE_ENV === 'development' || !process.env.VERCEL;
+  if (isDev) return null;
+  throw new Error('FIBER_TILES_S3_URL is not configured');
+};
+
+/**
+ * Generate tile filename (e.g. fiber_n125_25.json)
+ */
+function getTileFilename(minLon: number, minLat: number): string {
+  const lonStr = minLon < 0 ? `n${Math.abs(minLon)}` : `${minLon}`;
+  const latStr = minLat < 0 ? `s${Math.abs(minLat)}` : `${minLat}`;
+  return `fiber_${lonStr}_${latStr}.json`;
+}
+
+/**
+ * Generate S3 URL for a tile file
+ */
+function getTileUrl(minLon: number, minLat: number, baseUrl: string): string {
+  return `${baseUrl}/${getTileFilename(minLon, minLat)}`;
+}
+
+/**
+ * Read a tile from the filesystem (dev only). Tries public/fiber-tiles then fiber-tiles.
+ */
+async function readTileFromDisk(minLon: number, minLat: number): Promise<FiberTileData> {
+  const filename = getTileFilename(minLon, minLat);
+  const cwd = process.cwd();
+  const candidates = [
+    path.join(cwd, 'public', 'fiber-tiles', filename),
+    path.join(cwd, 'fiber-tiles', filename),
+  ];
+  for (const filePath of candidates) {
+    try {
+      const data = await fs.readFile(filePath, 'utf-8');
+      return JSON.parse(data) as FiberTileData;
+    } catch {
+      continue;
+    }
+  }
+  return { type: 'FeatureCollection', features: [] };
+}
+
+/**
+ * Load one grid tile, from disk when `baseUrl` is null (dev without S3) or
+ * from `${baseUrl}/fiber_<lon>_<lat>.json` otherwise. Missing or failing
+ * tiles resolve to an empty FeatureCollection. Pass `cache: false` when
+ * walking many tiles once, so each can be freed after use.
+ */
+export async function fetchFiberTile(
+  tile: { minLon: number; minLat: number },
+  baseUrl: string | null,
+  { cache = true }: { cache?: boolean } = {}
+): Promise<FiberTileData> {
+  if (baseUrl === null) {
+    return readTileFromDisk(tile.minLon, tile.minLat);
+  }
+
+  // Check tile-level cache first (avoids re-downloading 50-400 MB files)
+  const tileCacheKey = getTileKey(tile);
+  const cachedTile = tileCache.get(tileCacheKey);
+  if (cachedTile && Date.now() - cachedTile.timestamp < TILE_CACHE_TTL) {
+    return cachedTile.data;
+  }
+
+  const tileUrl = getTileUrl(tile.minLon, tile.minLat, baseUrl);
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    setTimeout(() => reject(new Error('Fetch timeout')), FETCH_TIMEOUT);
+  });
+
+  try {
+    const result = await Promise.race([
+      fetch(tileUrl, { headers: { Accept: 'application/json' } })
+        .then((response) => {
+          if (!response.ok) {
+            if (response.status === 404) return { type: 'FeatureCollection', features: [] };
+            throw new Error(`Failed to fetch tile: ${response.statusText}`);
+          }
+          return response.json() as Promise<FiberTileData>;
+        }),
+      timeoutPromise,
+    ]);
+
+    // Cache the raw tile data so subsequent requests don't re-download
+    if (cache) tileCache.set(tileCacheKey, { data: result, timestamp: Date.now() });
+    return result;
+  } catch (error: any) {
+    console.warn(`Failed to fetch tile ${tileUrl}:`, error.message);
+    return { type: 'FeatureCollection', features: [] };
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { getCapacityFactorStats, getEiaGenerationHistory } from './generationHistory';
+
+describe('generation history', () => {
+  it('computes mean, latest and trend capacity factors from the yearly series', () => {
+    // 100 MW running 8760 h is 876 GWh, so 438 GWh is a 50% capacity factor.
+    const stats = getCapacityFactorStats(
+      [
+        { year: 2017, gwh: 438 },
+        { year: 2018, gwh: 350.4 },
+        { year: 2019, gwh: 262.8 },
+      ],
+      100
+    );
+
+    expect(stats?.mean).toBeCloseTo(40);
+    expect(stats?.latest).toBeCloseTo(30);
+    expect(stats?.latestYear).toBe(2019);
+    expect(stats?.trend).toBeCloseTo(-10);
+  });
+
+  it('needs capacity for stats and three years for a trend', () => {
+    expect(getCapacityFactorStats([{ year: 2019, gwh: 10 }], 0)).toBeUndefined();
+    expect(getCapacityFactorStats([], 100)).toBeUndefined();
+    expect(
+      getCapacityFactorStats(
+        [
+          { year: 2018, gwh: 10 },
+          { year: 2019, gwh: 20 },
+        ],
+        100
+      )?.trend
+    ).toBeUndefined();
+  });
+
+  it('sums the series of every EIA record merged into a plant', () => {
+    const inventory = new Map([
+      ['6008', [{ year: 2022, gwh: 100 }, { year: 2023, gwh: 120 }]],
+      ['6009', [{ year: 2023, gwh: 5 }]],
+    ]);
+
+    expect(
+      getEiaGenerationHistory({ provenance: { recordIds: ['us-eia:6008', 'us-eia:6009', 'global:USA1'] } }, inventory)
+    ).toEqual([
+      { year: 2022, gwh: 100 },
+      { year: 2023, gwh: 125 },
+    ]);
+    expect(getEiaGenerationHistory({ provenance: { recordIds: ['global:USA1'] } }, inventory)).toBeUndefined();
+  });
+});
@@ -0,0 +1,127 @@
+import { streamCsvEntries } from './csvReader.js';
+import { getEiaPlantCodes } from './generators.js';
+import { loadFromLocations, type PlantSourceLocation } from './plantSources.js';
+
+/** Net generation for one calendar year. `estimated` marks modelled rather than reported values. */
+export type GenerationYear = {
+  year: number;
+  gwh: number;
+  estimated?: boolean;
+};
+
+export type CapacityFactorStats = {
+  /** Capacity factors in percent, from each year's generation and the plant's capacity. */
+  mean: number;
+  latest: number;
+  latestYear: number;
+  /** Least-squares slope in percentage points per year; needs three or more years. */
+  trend?: number;
+};
+
+/** Yearly series keyed by EIA plant code. */
+export type GenerationHistoryInventory = Map<string, GenerationYear[]>;
+
+const GENERATION_SOURCE_LABEL = 'US EIA-923 generation history';
+
+const GENERATION_LOCATIONS: PlantSourceLocation[] = [
+  { type: 'url', env: 'US_EIA_GENERATION_CSV_S3_URL' },
+  { type: 'file', filename: 'eia923_generation.csv' },
+];
+
+const HOURS_PER_YEAR = 8760;
+const MIN_TREND_YEARS = 3;
+
+const toNumber = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const parsed = parseFloat(value.replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const sortByYear = (history: GenerationYear[]): GenerationYear[] => history.sort((a, b) => a.year - b.year);
+
+// EIA-923 "Generation and Fuel" rows are per plant, fuel and prime mover, so
+// one plant-year is the sum of its rows. Negative totals (net consumers such
+// as pumped storage) are kept; rows without a plant, year or value are skipped.
+const createGenerationRowHandler = (totals: Map<string, Map<number, number>>) => (entry: Record<string, string>) => {
+  const plantCode = entry['Plant Id'] || entry['Plant Code'];
+  const year = toNumber(entry.YEAR || entry.Year);
+  const mwh = toNumber(entry['Net Generation (Megawatthours)']);
+  if (!plantCode || year === undefined || mwh === undefined) return;
+
+  const years = totals.get(plantCode) ?? new Map<number, number>();
+  years.set(year, (years.get(year) ?? 0) + mwh);
+  totals.set(plantCode, years);
+};
+
+/**
+ * The EIA-923 export is optional: without it US plants keep the single
+ * "Annual Generation" value of the plant export. `contentHash` feeds the
+ * dataset version.
+ */
+export const loadUsGenerationHistory = async (): Promise<{
+  history: GenerationHistoryInventory;
+  contentHash: string;
+}> => {
+  const loaded = await loadFromLocations(GENERATION_SOURCE_LABEL, GENERATION_LOCATIONS, async (chunks) => {
+    const totals = new Map<string, Map<number, number>>();
+    const csvReport = await streamCsvEntries(chunks, createGenerationRowHandler(totals));
+    return { totals, csvReport };
+  });
+  if (!loaded) return { history: new Map(), contentHash: '' };
+
+  const { totals, csvReport } = loaded.result;
+  if (csvReport.malformedRowCount > 0) {
+    console.warn(`${GENERATION_SOURCE_LABEL}: ${csvReport.malformedRowCount} malformed rows in ${loaded.location}`);
+  }
+
+  const history: GenerationHistoryInventory = new Map();
+  for (const [plantCode, years] of totals) {
+    history.set(
+      plantCode,
+      sortByYear(Array.from(years, ([year, mwh]) => ({ year, gwh: Number((mwh / 1000).toFixed(3)) })))
+    );
+  }
+  return { history, contentHash: loaded.contentHash };
+};
+
+/** Sums the series of every EIA record merged into a plant. */
+export const getEiaGenerationHistory = (
+  plant: { provenance?: { recordIds: string[] } },
+  inventory: GenerationHistoryInventory
+): GenerationYear[] | undefined => {
+  const series = getEiaPlantCodes(plant).flatMap((plantCode) => inventory.get(plantCode) ?? []);
+  if (series.length === 0) return undefined;
+
+  const byYear = new Map<number, number>();
+  for (const { year, gwh } of series) byYear.set(year, (byYear.get(year) ?? 0) + gwh);
+  return sortByYear(Array.from(byYear, ([year, gwh]) => ({ year, gwh })));
+};
+
+export const toCapacityFactor = (gwh: number, capacityMW: number): number =>
+  ((gwh * 1000) / (capacityMW * HOURS_PER_YEAR)) * 100;
+
+/** Undefined without capacity or history. */
+export const getCapacityFactorStats = (
+  history: GenerationYear[],
+  capacityMW: number
+): CapacityFactorStats | undefined => {
+  if (history.length === 0 || !(capacityMW > 0)) return undefined;
+
+  const points = history.map(({ year, gwh }) => ({ year, capacityFactor: toCapacityFactor(gwh, capacityMW) }));
+  const mean = points.reduce((total, point) => total + point.capacityFactor, 0) / points.length;
+  const latest = points[points.length - 1];
+
+  let trend: number | undefined;
+  if (points.length >= MIN_TREND_YEARS) {
+    const meanYear = points.reduce((total, point) => total + point.year, 0) / points.length;
+    let covariance = 0;
+    let variance = 0;
+    for (const point of points) {
+      covariance += (point.year - meanYear) * (point.capacityFactor - mean);
+      variance += (point.year - meanYear) ** 2;
+    }
+    trend = variance > 0 ? covariance / variance : undefined;
+  }
+
+  return { mean, latest: latest.capacityFactor, latestYear: latest.year, trend };
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getGeneratorLifecycle,
+  getGeneratorTotals,
+  getUnlistedEiaPlants,
+  matchPlantGenerators,
+  parseGeneratorCsv,
+  parsePlantSiteCsv,
+} from './generators';
+
+const GENERATOR_CSV = [
+  'Plant Code,Generator ID,Technology,Prime Mover,Nameplate Capacity (MW),Summer Capacity (MW),Winter Capacity (MW),Operating Year,Planned Retirement Year,Status',
+  '6008,1,Conventional Steam Coal,ST,"1,100.5",1050,1060,1976,2032,OP',
+  '6008,2,Conventional Steam Coal,ST,900,850,,1978,,OP',
+  '7001,GT1,Natural Gas Fired Combustion Turbine,GT,200,190,210,2005,,SB',
+  ',X,Orphan row,GT,10,10,10,2000,,OP',
+].join('\n');
+
+describe('generator inventory', () => {
+  it('groups units by plant code with typed fields', () => {
+    const inventory = parseGeneratorCsv(GENERATOR_CSV);
+
+    expect([...inventory.keys()]).toEqual(['6008', '7001']);
+    expect(inventory.get('6008')?.[0]).toEqual({
+      unitId: '1',
+      technology: 'Conventional Steam Coal',
+      primeMover: 'ST',
+      nameplateMW: 1100.5,
+      summerMW: 1050,
+      winterMW: 1060,
+      operatingYear: 1976,
+      plannedRetirementYear: 2032,
+      status: 'OP',
+    });
+    expect(inventory.get('6008')?.[1].plannedRetirementYear).toBeUndefined();
+  });
+
+  it('totals summer and winter ratings only when every unit reports them', () => {
+    const generators = parseGeneratorCsv(GENERATOR_CSV).get('6008') ?? [];
+    expect(getGeneratorTotals(generators)).toEqual({ nameplateMW: 2000.5, summerMW: 1900, winterMW: undefined });
+  });
+
+  it('derives plant status and dates from the most active and latest units', () => {
+    const inventory = parseGeneratorCsv(GENERATOR_CSV);
+    expect(getGeneratorLifecycle(inventory.get('6008') ?? [])).toEqual({
+      status: 'operating',
+      inServiceDate: '1976',
+      retirementDate: undefined,
+    });
+
+    const retiring = parseGeneratorCsv(
+      [
+        'Plant Code,Generator ID,Operating Year,Planned Retirement Year,Planned Retirement Month,Status',
+        '1,A,1980,2029,12,(OP) Operating',
+        '1,B,1985,2030,6,(SB) Standby/Backup',
+        '1,C,,,,(CN) Cancelled',
+      ].join('\n')
+    ).get('1');
+    expect(getGeneratorLifecycle(retiring ?? [])).toEqual({
+      status: 'operating',
+      inServiceDate: '1980',
+      retirementDate: '2030-06',
+    });
+  });
+
+  it('matches generators to plants through their EIA record IDs', () => {
+    const inventory = parseGeneratorCsv(GENERATOR_CSV);
+    const matched = matchPlantGenerators(
+      [
+        { id: 'us-eia-6008', provenance: { recordIds: ['us-eia:6008'] } },
+        { id: 'global-ind-1', provenance: { recordIds: ['global-power-plant-database:IND0001'] } },
+      ],
+      inventory
+    );
+
+    expect([...matched.keys()]).toEqual(['us-eia-6008']);
+    expect(matched.get('us-eia-6008')).toHaveLength(2);
+  });
+
+  it('adds plants that only have proposed or retired units, with their units\' status', () => {
+    const inventory = parseGeneratorCsv(
+      [
+        'Plant Code,Generator ID,Technology,Nameplate Capacity (MW),Operating Year,Operating Month,Retirement Year,Status',
+        '6008,1,Conventional Steam Coal,1100,1976,,,OP',
+        '9001,PV1,Solar Photovoltaic,150,2027,6,,(P) Planned for installation',
+        '9001,PV2,Solar Photovoltaic,100,2028,,,(L) Regulatory approvals pending',
+        '9002,1,Conventional Steam Coal,600,1968,,2019,RE',
+        '9003,1,Onshore Wind Turbine,50,2026,,,U',
+      ].join('\n')
+    );
+    const sites = parsePlantSiteCsv(
+      [
+        'Utility Name,Plant Code,Plant Name,Street Address,City,State,Zip,County,Latitude,Longitude',
+        'Big Coal Co,6008,Listed Station,,,TX,,,31.5,-97.1',
+        'Sunny LLC,9001,Desert Sun,1 Solar Way,Blythe,CA,92225,Riverside,33.61,-114.59',
+        'Old Power,9002,Closed Station,,Lake City,MN,,,44.45,-92.27',
+      ].join('\n')
+    );
+
+    const plants = getUnlistedEiaPlants(inventory, sites, [{ provenance: { recordIds: ['us-eia:6008'] } }]);
+
+    expect(plants.map((plant) => plant.id)).toEqual(['us-eia-9001', 'us-eia-9002']);
+    expect(plants[0]).toMatchObject({
+      name: 'Desert Sun',
+      output: 250,
+      source: 'solar',
+      coordinates: [-114.59, 33.61],
+      country: 'US',
+      admin1: 'US-CA',
+      status: 'planned',
+      inServiceDate: '2027-06',
+      provenance: { datasets: ['us-eia'], recordIds: ['us-eia:9001'] },
+    });
+    expect(plants[1]).toMatchObject({
+      name: 'Closed Station',
+      output: 600,
+      source: 'coal',
+      status: 'retired',
+      inServiceDate: '1968',
+      retirementDate: '2019',
+    });
+  });
+});
@@ -0,0 +1,354 @@
+import { normalizeAdmin1 } from '../../src/utils/admin1.js';
+import { normalizePlantStatus, toLifecycleDate, type PlantStatus } from '../../src/utils/plantStatus.js';
+import { getCoordinateIssue } from './countryBounds.js';
+import { readCsvEntries, streamCsvEntries, type CsvReadReport } from './csvReader.js';
+import {
+  loadFromLocations,
+  mapEnergySourceFromFuelTypes,
+  type PlantSourceLocation,
+  type PlantSourceStatus,
+  type SourcePlant,
+} from './plantSources.js';
+
+/** One generating unit, as listed in the EIA-860 generator inventory. */
+export type Generator = {
+  unitId: string;
+  technology?: string;
+  primeMover?: string;
+  nameplateMW: number;
+  summerMW?: number;
+  winterMW?: number;
+  operatingYear?: number;
+  operatingMonth?: number;
+  /** Planned for operable units; the actual year for retired ones. */
+  plannedRetirementYear?: number;
+  plannedRetirementMonth?: number;
+  status?: string;
+};
+
+export type GeneratorTotals = {
+  nameplateMW: number;
+  summerMW?: number;
+  winterMW?: number;
+};
+
+export type GeneratorLifecycle = {
+  status?: PlantStatus;
+  inServiceDate?: string;
+  retirementDate?: string;
+};
+
+/** Generators keyed by EIA plant code. */
+export type GeneratorInventory = Map<string, Generator[]>;
+
+/** Name and location of a plant on the EIA-860 plant sheet. */
+export type EiaPlantSite = {
+  name: string;
+  coordinates: [number, number];
+  state?: string;
+  county?: string;
+  city?: string;
+  address?: string;
+  zip?: string;
+  utilityName?: string;
+};
+
+/** Plant sites keyed by EIA plant code. */
+export type EiaPlantSites = Map<string, EiaPlantSite>;
+
+/** Where the inventory came from; `failed` means none was found, which is allowed. */
+export type GeneratorSourceReport = {
+  label: string;
+  status: PlantSourceStatus;
+  location?: string;
+  locationType?: PlantSourceLocation['type'];
+  unitCount: number;
+  /** Plants on the EIA-860 plant sheet; 0 when it is missing, which leaves out plants with no operating unit. */
+  siteCount: number;
+} & Partial<CsvReadReport>;
+
+const GENERATOR_SOURCE_LABEL = 'US EIA generator inventory';
+
+const GENERATOR_LOCATIONS: PlantSourceLocation[] = [
+  { type: 'url', env: 'US_EIA_GENERATORS_CSV_S3_URL' },
+  { type: 'file', filename: 'eia860_generators.csv' },
+];
+
+const PLANT_SITE_LABEL = 'US EIA-860 plant sheet';
+
+const PLANT_SITE_LOCATIONS: PlantSourceLocation[] = [
+  { type: 'url', env: 'US_EIA_860_PLANTS_CSV_S3_URL' },
+  { type: 'file', filename: 'eia860_plants.csv' },
+];
+
+const toOptionalNumber = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const parsed = parseFloat(value.replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const toOptionalString = (value: string | undefined): string | undefined => (value ? value : undefined);
+
+// Column mapping for the EIA-860 generator sheets exported as CSV. The
+// "Proposed" and "Retired and Canceled" sheets name their dates differently.
+// Rows without a plant code or generator ID are skipped.
+const createGeneratorRowHandler = (inventory: GeneratorInventory) => (entry: Record<string, string>) => {
+  const plantCode = entry['Plant Code'];
+  const unitId = entry['Generator ID'];
+  if (!plantCode || !unitId) return;
+
+  const generator: Generator = {
+    unitId,
+    technology: toOptionalString(entry.Technology),
+    primeMover: toOptionalString(entry['Prime Mover']),
+    nameplateMW: toOptionalNumber(entry['Nameplate Capacity (MW)']) ?? 0,
+    summerMW: toOptionalNumber(entry['Summer Capacity (MW)']),
+    winterMW: toOptionalNumber(entry['Winter Capacity (MW)']),
+    operatingYear: toOptionalNumber(entry['Operating Year'] || entry['Current Year']),
+    operatingMonth: toOptionalNumber(entry['Operating Month'] || entry['Current Month']),
+    plannedRetirementYear: toOptionalNumber(entry['Planned Retirement Year'] || entry['Retirement Year']),
+    plannedRetirementMonth: toOptionalNumber(entry['Planned Retirement Month'] || entry['Retirement Month']),
+    status: toOptionalString(entry.Status),
+  };
+
+  const generators = inventory.get(plantCode);
+  if (generators) {
+    generators.push(generator);
+  } else {
+    inventory.set(plantCode, [generator]);
+  }
+};
+
+export const parseGeneratorCsv = (csvText: string): GeneratorInventory => {
+  const inventory: GeneratorInventory = new Map();
+  readCsvEntries(csvText, createGeneratorRowHandler(inventory));
+  return inventory;
+};
+
+// Column mapping for the EIA-860 plant sheet exported as CSV. Rows without a
+// plant code or numeric coordinates are skipped.
+const createPlantSiteRowHandler = (sites: EiaPlantSites) => (entry: Record<string, string>) => {
+  const plantCode = entry['Plant Code'];
+  const latitude = toOptionalNumber(entry.Latitude);
+  const longitude = toOptionalNumber(entry.Longitude);
+  if (!plantCode || latitude === undefined || longitude === undefined) return;
+
+  sites.set(plantCode, {
+    name: entry['Plant Name'] || 'Unknown Plant',
+    coordinates: [longitude, latitude],
+    state: toOptionalString(entry.State),
+    county: toOptionalString(entry.County),
+    city: toOptionalString(entry.City),
+    address: toOptionalString(entry['Street Address']),
+    zip: toOptionalString(entry.Zip),
+    utilityName: toOptionalString(entry['Utility Name']),
+  });
+};
+
+export const parsePlantSiteCsv = (csvText: string): EiaPlantSites => {
+  const sites: EiaPlantSites = new Map();
+  readCsvEntries(csvText, createPlantSiteRowHandler(sites));
+  return sites;
+};
+
+/**
+ * The generator inventory is optional: without it plants keep their
+ * plant-level nameplate and the generators route returns empty lists. The
+ * plant sheet is only read alongside it, to place plants the EIA plant export
+ * leaves out. `contentHash` feeds the dataset version.
+ */
+export const loadGeneratorInventory = async (): Promise<{
+  inventory: GeneratorInventory;
+  sites: EiaPlantSites;
+  contentHash: string;
+  report: GeneratorSourceReport;
+}> => {
+  const [loaded, loadedSites] = await Promise.all([
+    loadFromLocations(GENERATOR_SOURCE_LABEL, GENERATOR_LOCATIONS, async (chunks) => {
+      const inventory: GeneratorInventory = new Map();
+      const csvReport = await streamCsvEntries(chunks, createGeneratorRowHandler(inventory));
+      return { inventory, csvReport };
+    }),
+    loadFromLocations(PLANT_SITE_LABEL, PLANT_SITE_LOCATIONS, async (chunks) => {
+      const sites: EiaPlantSites = new Map();
+      await streamCsvEntries(chunks, createPlantSiteRowHandler(sites));
+      return sites;
+    }),
+  ]);
+  if (!loaded) {
+    return {
+      inventory: new Map(),
+      sites: new Map(),
+      contentHash: '',
+      report: { label: GENERATOR_SOURCE_LABEL, status: 'failed', unitCount: 0, siteCount: 0 },
+    };
+  }
+
+  const { inventory, csvReport } = loaded.result;
+  if (csvReport.malformedRowCount > 0) {
+    console.warn(`${GENERATOR_SOURCE_LABEL}: ${csvReport.malformedRowCount} malformed rows in ${loaded.location}`);
+  }
+  let unitCount = 0;
+  for (const generators of inventory.values()) unitCount += generators.length;
+
+  const sites = loadedSites?.result ?? new Map();
+
+  return {
+    inventory,
+    sites,
+    contentHash: loadedSites ? `${loaded.contentHash}\n${loadedSites.contentHash}` : loaded.contentHash,
+    report: {
+      label: GENERATOR_SOURCE_LABEL,
+      status: loaded.status,
+      location: loaded.location,
+      locationType: loaded.locationType,
+      unitCount,
+      siteCount: sites.size,
+      ...csvReport,
+    },
+  };
+};
+
+// Summer/winter totals are only meaningful when every unit reports them.
+export const getGeneratorTotals = (generators: Generator[]): GeneratorTotals => {
+  const sumIfComplete = (field: 'summerMW' | 'winterMW') =>
+    generators.every((generator) => generator[field] !== undefined)
+      ? generators.reduce((total, generator) => total + (generator[field] ?? 0), 0)
+      : undefined;
+
+  return {
+    nameplateMW: generators.reduce((total, generator) => total + generator.nameplateMW, 0),
+    summerMW: sumIfComplete('summerMW'),
+    winterMW: sumIfComplete('winterMW'),
+  };
+};
+
+const US_EIA_RECORD_PREFIX = 'us-eia:';
+
+/** EIA plant codes of every US EIA record merged into a plant. */
+export const getEiaPlantCodes = (plant: { provenance?: { recordIds: string[] } }): string[] =>
+  (plant.provenance?.recordIds ?? [])
+    .filter((recordId) => recordId.startsWith(US_EIA_RECORD_PREFIX))
+    .map((recordId) => recordId.slice(US_EIA_RECORD_PREFIX.length));
+
+/**
+ * Looks up the units of every EIA record merged into each plant. Returns the
+ * generators keyed by plant ID; plants without EIA records are left out.
+ */
+export const matchPlantGenerators = (
+  plants: Array<{ id: string; provenance?: { recordIds: string[] } }>,
+  inventory: GeneratorInventory
+): Map<string, Generator[]> => {
+  const byPlantId = new Map<string, Generator[]>();
+  if (inventory.size === 0) return byPlantId;
+
+  for (const plant of plants) {
+    const generators = getEiaPlantCodes(plant).flatMap((plantCode) => inventory.get(plantCode) ?? []);
+    if (generators.length > 0) {
+      byPlantId.set(plant.id, generators);
+    }
+  }
+
+  return byPlantId;
+};
+
+// A plant takes the most active status of its units: one operating unit makes it operating.
+const STATUS_PRECEDENCE: PlantStatus[] = [
+  'operating',
+  'standby',
+  'under-construction',
+  'planned',
+  'retired',
+  'cancelled',
+];
+
+const compareDates = (a: string, b: string) => a.localeCompare(b);
+
+/**
+ * Plant-level status and dates from its units. The plant enters service with
+ * its first unit and retires with its last, so a retirement date is only set
+ * when every remaining unit has one.
+ */
+export const getGeneratorLifecycle = (generators: Generator[]): GeneratorLifecycle => {
+  const statuses = new Set(generators.map((generator) => normalizePlantStatus(generator.status)));
+  const status = STATUS_PRECEDENCE.find((candidate) => statuses.has(candidate));
+
+  const active = generators.filter((generator) => normalizePlantStatus(generator.status) !== 'cancelled');
+  const inServiceDates = active
+    .map((generator) => toLifecycleDate(generator.operatingYear, generator.operatingMonth))
+    .filter((date): date is string => date !== undefined)
+    .sort(compareDates);
+  const retirementDates = active.map((generator) =>
+    toLifecycleDate(generator.plannedRetirementYear, generator.plannedRetirementMonth)
+  );
+
+  return {
+    status,
+    inServiceDate: inServiceDates[0],
+    retirementDate:
+      retirementDates.length > 0 && retirementDates.every((date) => date !== undefined)
+        ? (retirementDates as string[]).sort(compareDates).at(-1)
+        : undefined,
+  };
+};
+
+/**
+ * Plants in the generator inventory that no loaded source lists. The EIA plant
+ * export only carries plants with operating capacity, so these are mostly
+ * plants whose units are all proposed, under construction, retired or
+ * cancelled. Each is placed from the plant sheet and takes its capacity,
+ * technology and status from its units; plants without a site, a known status
+ * or any nameplate are left out.
+ */
+export const getUnlistedEiaPlants = (
+  inventory: GeneratorInventory,
+  sites: EiaPlantSites,
+  listedPlants: Array<{ provenance?: { recordIds: string[] } }>
+): SourcePlant[] => {
+  const listedCodes = new Set(listedPlants.flatMap(getEiaPlantCodes));
+  const plants: SourcePlant[] = [];
+
+  for (const [plantCode, generators] of inventory) {
+    const site = sites.get(plantCode);
+    if (listedCodes.has(plantCode) || !site || getCoordinateIssue(site.coordinates, 'US')) continue;
+
+    const { status, inServiceDate, retirementDate } = getGeneratorLifecycle(generators);
+    const { nameplateMW } = getGeneratorTotals(generators);
+    if (!status || !(nameplateMW > 0)) continue;
+
+    const largestUnit = generators.reduce((largest, generator) =>
+      generator.nameplateMW > largest.nameplateMW ? generator : largest
+    );
+    const technology = largestUnit.technology ?? '';
+    const recordId = `${US_EIA_RECORD_PREFIX}${plantCode}`;
+
+    plants.push({
+      id: `us-eia-${plantCode}`,
+      name: site.name,
+      output: nameplateMW,
+      outputDisplay: `${nameplateMW.toFixed(1)} MW`,
+      source: mapEnergySourceFromFuelTypes(technology),
+      coordinates: site.coordinates,
+      country: 'US',
+      admin1: normalizeAdmin1('US', site.state),
+      status,
+      inServiceDate,
+      retirementDate,
+      capacityFactor: null,
+      capacityMW: nameplateMW,
+      provenance: { datasets: ['us-eia'], recordIds: [recordId], estimatedFields: [], defaultedFields: [] },
+      rawData: {
+        technology: technology || 'Unknown',
+        'City (Site Name)': site.city ?? '',
+        'State / Province / Territory': site.state ?? '',
+        County: site.county ?? '',
+        'Owner Name (Company)': site.utilityName ?? '',
+        'Operator Name': site.utilityName ?? '',
+        Address: site.address ?? '',
+        'Zip Code / Postal Code': site.zip ?? '',
+      },
+    });
+  }
+
+  return plants;
+};
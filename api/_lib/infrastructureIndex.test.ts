@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  annotateNearestInfra,
+  annotateNearestInfraFromLookup,
+  buildInfraLineIndex,
+  featuresToInfraLines,
+  findNearestLine,
+  loadInfraLookup,
+  loadLiveInfraLookup,
+  MAX_LIVE_FIBER_TILES,
+} from './infrastructureIndex';
+
+const fiberCollection = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { LOC_ID: 'route-a' },
+      geometry: { type: 'LineString', coordinates: [[-100, 40.1], [-99, 40.1]] },
+    },
+    {
+      type: 'Feature',
+      properties: { NAME: 'Route B' },
+      geometry: {
+        type: 'MultiLineString',
+        coordinates: [
+          [[-100, 41], [-99, 41]],
+          [[-100, 40.02], [-99.9, 40.02]],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'Point', coordinates: [-100, 40] },
+    },
+  ],
+};
+
+describe('infrastructure line index', () => {
+  it('normalizes GeoJSON features and HIFLD records into lines', () => {
+    const fiber = featuresToInfraLines(fiberCollection, 'fiber');
+    expect(fiber.map((line) => line.id)).toEqual(['route-a', 'Route B']);
+    expect(fiber[1].paths).toHaveLength(2);
+
+    const hifld = featuresToInfraLines(
+      [
+        { id: 'line-1', coordinates: [[-100, 40], [-99, 40]], properties: { voltage: 345, voltClass: '345' } },
+        { id: 'line-2', coordinates: [[-100, 41], [-99, 41]], properties: { voltage: -999999 } },
+        { id: 'too-short', coordinates: [[-100, 40]] },
+      ],
+      'hifld'
+    );
+    expect(hifld.map((line) => line.id)).toEqual(['line-1', 'line-2']);
+    expect(hifld[0]).toMatchObject({ voltage: 345, voltClass: '345' });
+    expect(hifld[1].voltage).toBeUndefined();
+  });
+
+  it('finds the nearest line across every path of a MultiLineString', () => {
+    const index = buildInfraLineIndex(featuresToInfraLines(fiberCollection, 'fiber'));
+
+    const nearest = findNearestLine([index], [-100, 40], 10);
+    expect(nearest?.line.id).toBe('Route B');
+    expect(nearest?.distanceMiles).toBeCloseTo(1.38, 1);
+
+    expect(findNearestLine([index], [-90, 30], 10)).toBeNull();
+  });
+
+  it('keeps plants within range of their stored nearest line and copies it on', () => {
+    const plants = [
+      { id: 'near', coordinates: [-100, 40] as [number, number] },
+      { id: 'far', coordinates: [-95, 35] as [number, number] },
+      { id: 'unenriched', coordinates: [-100, 40] as [number, number] },
+    ];
+    const nearestLines = new Map([
+      ['near', { fiber: { miles: 1.382, lineId: 'Route B' }, hifld: { miles: 9, lineId: 'line-1' } }],
+      ['far', { fiber: { miles: 40, lineId: 'route-a' } }],
+    ]);
+
+    const result = annotateNearestInfra(plants, { layer: 'fiber', withinMiles: 5 }, nearestLines);
+
+    expect(result).toEqual([{ id: 'near', coordinates: [-100, 40], nearestLineMiles: 1.382, nearestLineId: 'Route B' }]);
+    expect(plants[0]).not.toHaveProperty('nearestLineId');
+    expect(annotateNearestInfra(plants, { layer: 'submarine', withinMiles: 100 }, nearestLines)).toEqual([]);
+  });
+
+  describe('fiber lookup', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.unstubAllGlobals();
+    });
+
+    it('walks each tile near the points once and keeps none of them cached', async () => {
+      vi.stubEnv('FIBER_TILES_S3_URL', 'https://tiles.test');
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify(fiberCollection)));
+      vi.stubGlobal('fetch', fetchMock);
+
+      // [-100, 40] sits on a tile corner, so four tiles are within reach.
+      const lookup = await loadInfraLookup({ layer: 'fiber', withinMiles: 5 }, [[-100, 40]]);
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+      expect(lookup([-100, 40], 5)?.line.id).toBe('Route B');
+      expect(lookup([-100, 40], 1)).toBeNull();
+      expect(lookup([-95, 35], 5)).toBeNull();
+
+      await loadInfraLookup({ layer: 'fiber', withinMiles: 5 }, [[-100, 40]]);
+      expect(fetchMock).toHaveBeenCalledTimes(8);
+    });
+
+    it('reads only the tiles most plants need at request time, through the tile cache', async () => {
+      vi.stubEnv('FIBER_TILES_S3_URL', 'https://tiles.test');
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify(fiberCollection)));
+      vi.stubGlobal('fetch', fetchMock);
+
+      // Two plants share the tile at -90,30; the corner plant needs four tiles, one too many.
+      const plants = [
+        { id: 'corner', coordinates: [-100, 40] as [number, number] },
+        { id: 'a', coordinates: [-87.5, 32.5] as [number, number] },
+        { id: 'b', coordinates: [-87.4, 32.5] as [number, number] },
+      ];
+      const filter = { layer: 'fiber', withinMiles: 5 } as const;
+      const lookup = await loadLiveInfraLookup(filter, plants.map((plant) => plant.coordinates));
+      expect(fetchMock).toHaveBeenCalledTimes(MAX_LIVE_FIBER_TILES);
+      expect(annotateNearestInfraFromLookup(plants, filter, lookup)).toEqual([]);
+
+      const within = await loadLiveInfraLookup(filter, [[-100, 40]]);
+      expect(fetchMock).toHaveBeenCalledTimes(MAX_LIVE_FIBER_TILES + 1);
+      expect(annotateNearestInfraFromLookup([plants[0]], filter, within)).toEqual([
+        { id: 'corner', coordinates: [-100, 40], nearestLineMiles: expect.closeTo(1.38, 1), nearestLineId: 'Route B' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,380 @@
+import RBush from 'rbush';
+import { distanceToLineSegment, getLineParts } from '../../src/utils/geoUtils.js';
+import { fetchFiberTile, getIntersectingTiles, getTileKey, resolveFiberTileBaseUrl } from './fiberTiles.js';
+import { getNearBboxes } from './spatialFilters.js';
+
+type Position = [number, number];
+
+export const INFRA_LAYERS = ['fiber', 'hifld', 'submarine'] as const;
+
+export type InfraLayer = (typeof INFRA_LAYERS)[number];
+
+export const MAX_WITHIN_MILES = 100;
+
+export type InfraProximityFilter = {
+  layer: InfraLayer;
+  withinMiles: number;
+};
+
+export type InfraLine = {
+  id: string;
+  paths: Position[][];
+  /** HIFLD only; kV, unset when the source reports it as unknown. */
+  voltage?: number;
+  voltClass?: string;
+};
+
+export type NearestLine = {
+  distanceMiles: number;
+  line: InfraLine;
+};
+
+type InfraSegmentItem = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  line: InfraLine;
+  start: Position;
+  end: Position;
+};
+
+export type InfraLineIndex = RBush<InfraSegmentItem>;
+
+/** Finds the nearest indexed line to a point, or null when none is within range. */
+export type InfraLookup = (point: Position, withinMiles: number) => NearestLine | null;
+
+/** A plant's nearest line per layer within MAX_WITHIN_MILES, as stored by the snapshot build. */
+export type NearestInfraLines = Partial<Record<InfraLayer, { miles: number; lineId: string }>>;
+
+export const DEFAULT_HIFLD_S3_URL =
+  'https://helios-dataanalysisbucket.s3.us-east-1.amazonaws.com/hifld_transmission_lines.json';
+export const ITU_BASE_URL = 'https://bbmaps.itu.int/geoserver/itu-geocatalogue/ows';
+
+const INFRA_CACHE_TTL = 60 * 60 * 1000;
+// Fiber tiles are 50-400 MB each, so load only a few at a time.
+const FIBER_TILE_CONCURRENCY = 4;
+// Request-time lookups, for builds without stored distances, read at most this many fiber tiles.
+export const MAX_LIVE_FIBER_TILES = 4;
+
+// Keyed by layer, or `hifld:<kV>kV` for a voltage-filtered HIFLD index. Promises
+// are cached so concurrent lookups share a single download.
+const lineIndexCache = new Map<string, { index: Promise<InfraLineIndex>; timestamp: number }>();
+
+type FeatureLike = {
+  id?: string | number;
+  properties?: Record<string, unknown> | null;
+  geometry?: { type?: string; coordinates?: unknown } | null;
+};
+
+const toVoltage = (value: unknown): number | undefined => {
+  const voltage = Number(value);
+  // HIFLD uses negative sentinels (e.g. -999999) for unknown voltage.
+  return Number.isFinite(voltage) && voltage > 0 ? voltage : undefined;
+};
+
+const toVoltClass = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() && value !== 'NOT AVAILABLE' ? value.trim() : undefined;
+
+// Mirrors the client's id fallbacks so returned ids match what the map shows.
+const getFeatureLineId = (feature: FeatureLike, layer: InfraLayer, index: number): string => {
+  const properties = feature.properties ?? {};
+  if (layer === 'fiber') {
+    return String(feature.id ?? properties.LOC_ID ?? properties.NAME ?? `fiber-${index}`);
+  }
+  if (layer === 'hifld') {
+    return String(feature.id ?? properties.id ?? properties.ID ?? `hifld-${index}`);
+  }
+  return String(properties.id ?? `cable_${index}`);
+};
+
+/**
+ * Normalizes a GeoJSON FeatureCollection, or the HIFLD S3 array of
+ * `TransmissionLine` records, into lines with at least one drawable path.
+ */
+export const featuresToInfraLines = (payload: unknown, layer: InfraLayer): InfraLine[] => {
+  const lines: InfraLine[] = [];
+
+  if (Array.isArray(payload)) {
+    payload.forEach((record: { id?: string; coordinates?: unknown; properties?: Record<string, unknown> }, index) => {
+      if (!Array.isArray(record?.coordinates) || record.coordinates.length < 2) return;
+      lines.push({
+        id: String(record.id || `hifld-${index}`),
+        paths: [record.coordinates as Position[]],
+        voltage: toVoltage(record.properties?.voltage),
+        voltClass: toVoltClass(record.properties?.voltClass),
+      });
+    });
+    return lines;
+  }
+
+  const features = (payload as { features?: FeatureLike[] } | null)?.features;
+  if (!Array.isArray(features)) return lines;
+
+  features.forEach((feature, index) => {
+    const paths = getLineParts(feature?.geometry);
+    if (paths.length === 0) return;
+
+    const line: InfraLine = { id: getFeatureLineId(feature, layer, index), paths };
+    if (layer === 'hifld') {
+      const properties = feature.properties ?? {};
+      line.voltage = toVoltage(properties.voltage ?? properties.VOLTAGE);
+      line.voltClass = toVoltClass(properties.voltClass ?? properties.VOLT_CLASS);
+    }
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+export const buildInfraLineIndex = (lines: InfraLine[]): InfraLineIndex => {
+  const items: InfraSegmentItem[] = [];
+
+  for (const line of lines) {
+    for (const path of line.paths) {
+      for (let i = 0; i < path.length - 1; i++) {
+        const start = path[i];
+        const end = path[i + 1];
+        items.push({
+          minX: Math.min(start[0], end[0]),
+          minY: Math.min(start[1], end[1]),
+          maxX: Math.max(start[0], end[0]),
+          maxY: Math.max(start[1], end[1]),
+          line,
+          start,
+          end,
+        });
+      }
+    }
+  }
+
+  const tree = new RBush<InfraSegmentItem>();
+  tree.load(items);
+  return tree;
+};
+
+export const findNearestLine = (
+  indexes: InfraLineIndex[],
+  point: Position,
+  withinMiles: number
+): NearestLine | null => {
+  const bboxes = getNearBboxes({ coordinates: point, radiusMiles: withinMiles });
+  let nearest: NearestLine | null = null;
+
+  for (const index of indexes) {
+    for (const [minX, minY, maxX, maxY] of bboxes) {
+      for (const segment of index.search({ minX, minY, maxX, maxY })) {
+        const distanceMiles = distanceToLineSegment(point, segment.start, segment.end);
+        if (distanceMiles <= withinMiles && (!nearest || distanceMiles < nearest.distanceMiles)) {
+          nearest = { distanceMiles, line: segment.line };
+        }
+      }
+    }
+  }
+
+  return nearest;
+};
+
+const keepNearestInfra = <T>(
+  plants: T[],
+  withinMiles: number,
+  getNearest: (plant: T) => { miles: number; lineId: string } | null | undefined
+): Array<T & { nearestLineMiles: number; nearestLineId: string }> => {
+  const result: Array<T & { nearestLineMiles: number; nearestLineId: string }> = [];
+
+  for (const plant of plants) {
+    const nearest = getNearest(plant);
+    if (!nearest || nearest.miles > withinMiles) continue;
+    result.push({ ...plant, nearestLineMiles: nearest.miles, nearestLineId: nearest.lineId });
+  }
+
+  return result;
+};
+
+/**
+ * Keeps plants within `withinMiles` of the filter's layer and copies on the
+ * distance to, and id of, the nearest line. Reads the distances stored per
+ * plant, so no line data is loaded.
+ */
+export const annotateNearestInfra = <T extends { id: string }>(
+  plants: T[],
+  filter: InfraProximityFilter,
+  nearestLinesByPlantId: Map<string, NearestInfraLines>
+): Array<T & { nearestLineMiles: number; nearestLineId: string }> =>
+  keepNearestInfra(plants, filter.withinMiles, (plant) => nearestLinesByPlantId.get(plant.id)?.[filter.layer]);
+
+/** Like `annotateNearestInfra`, but measured with `lookup` for builds that stored no distances for the layer. */
+export const annotateNearestInfraFromLookup = <T extends { coordinates: Position }>(
+  plants: T[],
+  filter: InfraProximityFilter,
+  lookup: InfraLookup
+): Array<T & { nearestLineMiles: number; nearestLineId: string }> =>
+  keepNearestInfra(plants, filter.withinMiles, (plant) => {
+    const nearest = lookup(plant.coordinates, filter.withinMiles);
+    return nearest && { miles: nearest.distanceMiles, lineId: nearest.line.id };
+  });
+
+const fetchJson = async (url: string, description: string): Promise<unknown> => {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'Mapping-Infra-App/1.0',
+      Accept: 'application/json',
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${description}: ${response.status}`);
+  }
+  return response.json();
+};
+
+const loadHifldLines = async (): Promise<InfraLine[]> =>
+  featuresToInfraLines(
+    await fetchJson(process.env.HIFLD_S3_URL || DEFAULT_HIFLD_S3_URL, 'HIFLD transmission lines'),
+    'hifld'
+  );
+
+const loadSubmarineLines = async (): Promise<InfraLine[]> => {
+  const params = new URLSearchParams({
+    service: 'WFS',
+    version: '1.0.0',
+    request: 'GetFeature',
+    typeName: 'itu-geocatalogue:trx_geocatalogue',
+    outputFormat: 'application/json',
+  });
+  return featuresToInfraLines(await fetchJson(`${ITU_BASE_URL}?${params}`, 'ITU submarine cables'), 'submarine');
+};
+
+const getCachedLineIndex = (key: string, loadLines: () => Promise<InfraLine[]>): Promise<InfraLineIndex> => {
+  const now = Date.now();
+  const cached = lineIndexCache.get(key);
+  if (cached && now - cached.timestamp < INFRA_CACHE_TTL) {
+    return cached.index;
+  }
+
+  const index = loadLines().then(buildInfraLineIndex);
+  lineIndexCache.set(key, { index, timestamp: now });
+  index.catch(() => {
+    if (lineIndexCache.get(key)?.index === index) lineIndexCache.delete(key);
+  });
+  return index;
+};
+
+const getFiberTilesNear = (point: Position, withinMiles: number) =>
+  getNearBboxes({ coordinates: point, radiusMiles: withinMiles }).flatMap(([minLon, minLat, maxLon, maxLat]) =>
+    // A zero-width bbox would otherwise match no tiles.
+    getIntersectingTiles(minLon, minLat, Math.max(maxLon, minLon + 1e-9), Math.max(maxLat, minLat + 1e-9))
+  );
+
+const getPointKey = ([lon, lat]: Position): string => `${lon},${lat}`;
+
+/**
+ * Nearest fiber line to each of `points`, walking the tiles within reach of
+ * them a few at a time. By default tiles are neither cached nor kept once
+ * searched, so memory stays at a few tiles however many points there are.
+ * With `maxTiles`, only the tiles the most points need are read, and points
+ * that need any other tile get no answer.
+ */
+const loadFiberLookup = async (
+  points: Position[],
+  withinMiles: number,
+  { maxTiles = Infinity, cache = false }: { maxTiles?: number; cache?: boolean } = {}
+): Promise<InfraLookup> => {
+  const baseUrl = resolveFiberTileBaseUrl();
+  const tiles = new Map<string, { tile: { minLon: number; minLat: number }; pointIndexes: number[] }>();
+  points.forEach((point, pointIndex) => {
+    for (const tile of getFiberTilesNear(point, withinMiles)) {
+      const key = getTileKey(tile);
+      const entry = tiles.get(key);
+      if (entry) entry.pointIndexes.push(pointIndex);
+      else tiles.set(key, { tile, pointIndexes: [pointIndex] });
+    }
+  });
+
+  const nearest: Array<NearestLine | null> = points.map(() => null);
+  const unanswered = new Set<number>();
+  let pending = Array.from(tiles.values());
+  if (pending.length > maxTiles) {
+    pending.sort((a, b) => b.pointIndexes.length - a.pointIndexes.length);
+    for (const { pointIndexes } of pending.slice(maxTiles)) {
+      for (const pointIndex of pointIndexes) unanswered.add(pointIndex);
+    }
+    pending = pending.slice(0, maxTiles);
+  }
+  for (let i = 0; i < pending.length; i += FIBER_TILE_CONCURRENCY) {
+    await Promise.all(
+      pending.slice(i, i + FIBER_TILE_CONCURRENCY).map(async ({ tile, pointIndexes }) => {
+        const lines = featuresToInfraLines(await fetchFiberTile(tile, baseUrl, { cache }), 'fiber');
+        const index = buildInfraLineIndex(lines);
+        for (const pointIndex of pointIndexes) {
+          const candidate = findNearestLine([index], points[pointIndex], withinMiles);
+          const current = nearest[pointIndex];
+          if (candidate && (!current || candidate.distanceMiles < current.distanceMiles)) {
+            nearest[pointIndex] = candidate;
+          }
+        }
+      })
+    );
+  }
+
+  const nearestByPoint = new Map(
+    points.map((point, pointIndex) => [getPointKey(point), unanswered.has(pointIndex) ? null : nearest[pointIndex]])
+  );
+  return (point, maxMiles) => {
+    const line = nearestByPoint.get(getPointKey(point));
+    return line && line.distanceMiles <= maxMiles ? line : null;
+  };
+};
+
+/**
+ * Loads the full line dataset for the filter's layer and returns a lookup
+ * over it. Fiber is stored as grid tiles, so only tiles within reach of
+ * `points` are read, and the lookup only answers for those points.
+ * Downloads whole datasets, so it belongs in offline builds.
+ */
+export const loadInfraLookup = async (filter: InfraProximityFilter, points: Position[]): Promise<InfraLookup> => {
+  if (filter.layer === 'fiber') {
+    return loadFiberLookup(points, filter.withinMiles);
+  }
+
+  const index = await getCachedLineIndex(filter.layer, filter.layer === 'hifld' ? loadHifldLines : loadSubmarineLines);
+  return (point, withinMiles) => findNearestLine([index], point, withinMiles);
+};
+
+/**
+ * `loadInfraLookup` bounded for use while answering a request: HIFLD and
+ * submarine lines come from the cached line indexes, and fiber reads at most
+ * MAX_LIVE_FIBER_TILES tiles through the shared tile cache, so points needing
+ * other tiles are left unanswered, as the fiber layer leaves out tiles past its cap.
+ */
+export const loadLiveInfraLookup = async (filter: InfraProximityFilter, points: Position[]): Promise<InfraLookup> =>
+  filter.layer === 'fiber'
+    ? loadFiberLookup(points, filter.withinMiles, { maxTiles: MAX_LIVE_FIBER_TILES, cache: true })
+    : loadInfraLookup(filter, points);
+
+/** Lookup over HIFLD lines rated at or above `minVoltage` kV; unknown voltages are skipped. */
+export const loadHighVoltageLookup = async (minVoltage: number): Promise<InfraLookup> => {
+  const index = await getCachedLineIndex(`hifld:${minVoltage}kV`, async () =>
+    (await loadHifldLines()).filter((line) => line.voltage !== undefined && line.voltage >= minVoltage)
+  );
+  return (point, withinMiles) => findNearestLine([index], point, withinMiles);
+};
+
+export const parseInfraProximityParams = (
+  nearInfra: string | undefined,
+  withinMiles: string | undefined
+): InfraProximityFilter | { error: string } | null => {
+  if (!nearInfra) {
+    return withinMiles ? { error: 'withinMiles requires a nearInfra query parameter' } : null;
+  }
+
+  if (!INFRA_LAYERS.includes(nearInfra as InfraLayer)) {
+    return { error: `Invalid nearInfra query parameter. Expected one of: ${INFRA_LAYERS.join(', ')}` };
+  }
+
+  const miles = Number(withinMiles);
+  if (!withinMiles || !Number.isFinite(miles) || miles < 0 || miles > MAX_WITHIN_MILES) {
+    return { error: `nearInfra requires a withinMiles between 0 and ${MAX_WITHIN_MILES}` };
+  }
+
+  return { layer: nearInfra as InfraLayer, withinMiles: miles };
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { dedupePlants, getNameSimilarity, normalizePlantName, type DedupPlant } from './plantDedup';
+import type { PlantSourceDataset } from './plantSources';
+
+const makePlant = (
+  id: string,
+  name: string,
+  output: number,
+  coordinates: [number, number],
+  dataset: PlantSourceDataset,
+  extra: Partial<DedupPlant> = {}
+): DedupPlant => ({
+  id,
+  name,
+  output,
+  coordinates,
+  country: 'US',
+  provenance: { datasets: [dataset], recordIds: [`${dataset}:${id}`], estimatedFields: [], defaultedFields: [] },
+  ...extra,
+});
+
+describe('plant name matching', () => {
+  it('ignores generic words and punctuation', () => {
+    expect(normalizePlantName('The Grand Coulee Dam')).toBe('grand coulee');
+    expect(getNameSimilarity('Grand Coulee', 'Grand Coulee Dam')).toBe(1);
+    expect(getNameSimilarity('Bruce A', 'Pickering')).toBeLessThan(0.5);
+  });
+});
+
+describe('dedupePlants', () => {
+  it('merges nearby cross-source duplicates and fills missing fields', () => {
+    const kept = makePlant('a', 'Grand Coulee', 6800, [-118.98, 47.95], 'us-eia');
+    // ~300 m away, in another dataset.
+    const duplicate = makePlant('b', 'Grand Coulee Dam', 6495, [-118.977, 47.952], 'global-power-plant-database', {
+      generationGWh: 20000,
+    });
+
+    const { plants, report } = dedupePlants([kept, duplicate]);
+
+    expect(plants).toHaveLength(1);
+    expect(plants[0].output).toBe(6800);
+    expect(plants[0].generationGWh).toBe(20000);
+    expect(plants[0].provenance?.datasets).toEqual(['us-eia', 'global-power-plant-database']);
+    expect(report.merged).toBe(1);
+    expect(report.decisions[0]).toMatchObject({ decision: 'merged', reason: 'auto', ids: ['a', 'b'] });
+  });
+
+  it('carries over whether a filled field was estimated or defaulted', () => {
+    const kept = makePlant('a', 'Chute Rapids', 500, [-73.5, 45.5], 'canada-large');
+    kept.provenance?.estimatedFields.push('generationGWh');
+    const duplicate = makePlant('b', 'Chute Rapids Dam', 480, [-73.501, 45.5], 'us-eia', {
+      capacityFactor: 100,
+      generationGWh: 2000,
+    });
+    duplicate.provenance?.defaultedFields.push('capacityFactor');
+    duplicate.provenance?.estimatedFields.push('generationGWh');
+
+    const { plants } = dedupePlants([kept, duplicate]);
+
+    expect(plants[0].capacityFactor).toBe(100);
+    expect(plants[0].provenance).toMatchObject({
+      defaultedFields: ['capacityFactor'],
+      estimatedFields: ['generationGWh'],
+    });
+  });
+
+  it('keeps same-source, distant and differently sized plants apart', () => {
+    const plants = [
+      makePlant('a', 'Riverside', 100, [-100, 40], 'us-eia'),
+      makePlant('b', 'Riverside', 100, [-100.001, 40], 'us-eia'),
+      makePlant('c', 'Riverside', 100, [-100, 40.5], 'global-power-plant-database'),
+      makePlant('d', 'Riverside', 10, [-100.001, 40.001], 'global-power-plant-database'),
+    ];
+
+    const { plants: result, report } = dedupePlants(plants);
+
+    expect(result).toHaveLength(4);
+    expect(report.decisions).toEqual([
+      expect.objectContaining({ decision: 'separate', reason: 'auto', ids: ['a', 'd'] }),
+      expect.objectContaining({ decision: 'separate', reason: 'auto', ids: ['b', 'd'] }),
+    ]);
+  });
+
+  it('applies pinned merges and separations', () => {
+    const plants = [
+      makePlant('a', 'North Unit', 500, [-100, 40], 'us-eia'),
+      makePlant('b', 'North Unit', 500, [-100.001, 40], 'global-power-plant-database'),
+      makePlant('c', 'Lakeside', 300, [-90, 35], 'us-eia'),
+      makePlant('d', 'Lakeside Generating', 250, [-95, 35], 'global-power-plant-database'),
+    ];
+
+    const { plants: result, report } = dedupePlants(plants, {
+      merge: [['d', 'c']],
+      separate: [['b', 'a'], ['a', 'missing']],
+    });
+
+    expect(result.map((plant) => plant.id)).toEqual(['a', 'b', 'c']);
+    expect(report.decisions).toEqual([
+      expect.objectContaining({ decision: 'merged', reason: 'pinned', ids: ['c', 'd'] }),
+      expect.objectContaining({ decision: 'separate', reason: 'pinned', ids: ['a', 'b'] }),
+    ]);
+    expect(report.unresolvedPins).toEqual([['a', 'missing']]);
+  });
+});
@@ -0,0 +1,260 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import RBush from 'rbush';
+import { calculateDistance } from '../../src/utils/geoUtils.js';
+import { levenshtein, normalizeString } from '../../src/utils/stringUtils.js';
+import type { PlantProvenance, SourcePlant } from './plantSources.js';
+
+const FILLABLE_FIELDS = [
+  'admin1',
+  'inServiceDate',
+  'retirementDate',
+  'capacityFactor',
+  'capacityMW',
+  'usedCapacity',
+  'generationGWh',
+  'generationHistory',
+  'netSummerCapacity',
+  'netWinterCapacity',
+] as const;
+
+type FillableField = (typeof FILLABLE_FIELDS)[number];
+
+export type DedupPlant = Pick<SourcePlant, 'id' | 'name' | 'output' | 'coordinates' | 'country'> &
+  Partial<Pick<SourcePlant, FillableField | 'sourceRecords'>> & { provenance?: PlantProvenance };
+
+/** Pairs of plant IDs, in either order. */
+export type DedupOverrides = {
+  merge: Array<[string, string]>;
+  separate: Array<[string, string]>;
+};
+
+/**
+ * One reviewed pair. For `merged` decisions `ids[0]` was kept and `ids[1]`
+ * folded into it. `separate` decisions are near misses or pinned separations.
+ */
+export type DedupDecision = {
+  decision: 'merged' | 'separate';
+  reason: 'auto' | 'pinned';
+  ids: [string, string];
+  names: [string, string];
+  distanceMiles: number;
+  nameSimilarity: number;
+  capacityRatio: number;
+};
+
+export type DedupReport = {
+  merged: number;
+  decisions: DedupDecision[];
+  /** Pinned pairs naming a plant that isn't in the dataset. */
+  unresolvedPins: Array<[string, string]>;
+  overridesError?: string;
+};
+
+export const DEDUP_MAX_MILES = 1;
+export const DEDUP_MIN_NAME_SIMILARITY = 0.8;
+export const DEDUP_MIN_CAPACITY_RATIO = 0.7;
+// Pairs this close on name but failing another check are kept in the report for review.
+const NEAR_MISS_NAME_SIMILARITY = 0.5;
+
+const OVERRIDES_FILE = 'plant-dedup-overrides.json';
+
+// Words that differ between sources' naming conventions but not between plants.
+const GENERIC_NAME_TOKENS = new Set([
+  'the',
+  'dam',
+  'power',
+  'plant',
+  'station',
+  'generating',
+  'generation',
+  'facility',
+  'project',
+  'centre',
+  'center',
+  'gs',
+  'ps',
+]);
+
+export const normalizePlantName = (name: string): string =>
+  normalizeString(name)
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((token) => token.length > 0 && !GENERIC_NAME_TOKENS.has(token))
+    .join(' ');
+
+export const getNameSimilarity = (a: string, b: string): number => {
+  const left = normalizePlantName(a);
+  const right = normalizePlantName(b);
+  if (!left || !right) return 0;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+};
+
+const getCapacityRatio = (a: number, b: number): number => {
+  const max = Math.max(a, b);
+  return max > 0 ? Math.min(a, b) / max : 0;
+};
+
+const getPairKey = (a: string, b: string): string => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+const sharesDataset = (a: DedupPlant, b: DedupPlant): boolean => {
+  const other = b.provenance?.datasets ?? [];
+  return !!a.provenance?.datasets.some((dataset) => other.includes(dataset));
+};
+
+const describePair = (a: DedupPlant, b: DedupPlant) => ({
+  ids: [a.id, b.id] as [string, string],
+  names: [a.name, b.name] as [string, string],
+  distanceMiles: Number(calculateDistance(a.coordinates, b.coordinates).toFixed(3)),
+  nameSimilarity: Number(getNameSimilarity(a.name, b.name).toFixed(3)),
+  capacityRatio: Number(getCapacityRatio(a.output, b.output).toFixed(3)),
+});
+
+// The kept plant's own values win; the duplicate only fills gaps and adds its provenance.
+const absorbDuplicate = (kept: DedupPlant, duplicate: DedupPlant) => {
+  for (const field of FILLABLE_FIELDS) {
+    if ((kept[field] === undefined || kept[field] === null) && duplicate[field] !== undefined) {
+      kept[field] = duplicate[field] as never;
+      for (const key of ['estimatedFields', 'defaultedFields'] as const) {
+        const fields = kept.provenance?.[key];
+        if (fields && duplicate.provenance?.[key].includes(field) && !fields.includes(field)) {
+          fields.push(field);
+        }
+      }
+    }
+  }
+
+  if (kept.provenance && duplicate.provenance) {
+    for (const dataset of duplicate.provenance.datasets) {
+      if (!kept.provenance.datasets.includes(dataset)) kept.provenance.datasets.push(dataset);
+    }
+    kept.provenance.recordIds.push(...duplicate.provenance.recordIds);
+  }
+  if (duplicate.sourceRecords) {
+    kept.sourceRecords = { ...kept.sourceRecords, ...duplicate.sourceRecords };
+  }
+};
+
+type PlantPoint = { minX: number; minY: number; maxX: number; maxY: number; position: number };
+
+/**
+ * Folds cross-source duplicates into the earlier (higher-precedence) plant.
+ * A pair matches when both come from different datasets, share a country, are
+ * within DEDUP_MAX_MILES and pass the name and capacity similarity thresholds.
+ * Pinned pairs from `overrides` take priority over these checks.
+ */
+export const dedupePlants = <T extends DedupPlant>(
+  plants: T[],
+  overrides: DedupOverrides = { merge: [], separate: [] }
+): { plants: T[]; report: DedupReport } => {
+  const report: DedupReport = { merged: 0, decisions: [], unresolvedPins: [] };
+  const dropped = new Set<number>();
+  const positionById = new Map(plants.map((plant, position) => [plant.id, position]));
+  const pinnedSeparate = new Set(overrides.separate.map(([a, b]) => getPairKey(a, b)));
+
+  for (const [a, b] of overrides.merge) {
+    const left = positionById.get(a);
+    const right = positionById.get(b);
+    if (left === undefined || right === undefined) {
+      report.unresolvedPins.push([a, b]);
+      continue;
+    }
+    const [keptPosition, duplicatePosition] = left < right ? [left, right] : [right, left];
+    if (dropped.has(keptPosition) || dropped.has(duplicatePosition)) continue;
+
+    const kept = plants[keptPosition];
+    const duplicate = plants[duplicatePosition];
+    report.decisions.push({ decision: 'merged', reason: 'pinned', ...describePair(kept, duplicate) });
+    absorbDuplicate(kept, duplicate);
+    dropped.add(duplicatePosition);
+  }
+
+  for (const [a, b] of overrides.separate) {
+    if (!positionById.has(a) || !positionById.has(b)) report.unresolvedPins.push([a, b]);
+  }
+
+  const tree = new RBush<PlantPoint>();
+  tree.load(
+    plants.map((plant, position) => {
+      const [lon, lat] = plant.coordinates;
+      return { minX: lon, minY: lat, maxX: lon, maxY: lat, position };
+    })
+  );
+
+  const latDelta = DEDUP_MAX_MILES / 69;
+
+  plants.forEach((kept, keptPosition) => {
+    if (dropped.has(keptPosition)) return;
+
+    const [lon, lat] = kept.coordinates;
+    const lonDelta = latDelta / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+    const candidates = tree
+      .search({ minX: lon - lonDelta, minY: lat - latDelta, maxX: lon + lonDelta, maxY: lat + latDelta })
+      .map((item) => item.position)
+      .filter((position) => position > keptPosition && !dropped.has(position))
+      .sort((a, b) => a - b);
+
+    for (const position of candidates) {
+      const candidate = plants[position];
+      if (candidate.country !== kept.country || sharesDataset(kept, candidate)) continue;
+      if (calculateDistance(kept.coordinates, candidate.coordinates) > DEDUP_MAX_MILES) continue;
+
+      const pair = describePair(kept, candidate);
+
+      if (pinnedSeparate.has(getPairKey(kept.id, candidate.id))) {
+        report.decisions.push({ decision: 'separate', reason: 'pinned', ...pair });
+        continue;
+      }
+
+      if (pair.nameSimilarity >= DEDUP_MIN_NAME_SIMILARITY && pair.capacityRatio >= DEDUP_MIN_CAPACITY_RATIO) {
+        report.decisions.push({ decision: 'merged', reason: 'auto', ...pair });
+        absorbDuplicate(kept, candidate);
+        dropped.add(position);
+      } else if (pair.nameSimilarity >= NEAR_MISS_NAME_SIMILARITY) {
+        report.decisions.push({ decision: 'separate', reason: 'auto', ...pair });
+      }
+    }
+  });
+
+  report.merged = dropped.size;
+  return { plants: plants.filter((_, position) => !dropped.has(position)), report };
+};
+
+const isIdPairList = (value: unknown): value is Array<[string, string]> =>
+  Array.isArray(value) &&
+  value.every(
+    (pair) => Array.isArray(pair) && pair.length === 2 && pair.every((id) => typeof id === 'string')
+  );
+
+/**
+ * Reads `data/plant-dedup-overrides.json`. A missing file means no overrides;
+ * an invalid one is reported rather than failing the dataset build. `content`
+ * feeds the dataset version so edited pins invalidate cached responses.
+ */
+export const loadDedupOverrides = async (): Promise<{
+  overrides: DedupOverrides;
+  content: string;
+  error?: string;
+}> => {
+  const empty: DedupOverrides = { merge: [], separate: [] };
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(process.cwd(), 'data', OVERRIDES_FILE), 'utf8');
+  } catch {
+    return { overrides: empty, content: '' };
+  }
+
+  try {
+    const parsed = JSON.parse(content) as Partial<Record<keyof DedupOverrides, unknown>>;
+    const merge = parsed.merge ?? [];
+    const separate = parsed.separate ?? [];
+    if (!isIdPairList(merge) || !isIdPairList(separate)) {
+      throw new Error('merge and separate must be arrays of [id, id] pairs');
+    }
+    return { overrides: { merge, separate }, content };
+  } catch (error) {
+    const message = `Ignoring ${OVERRIDES_FILE}: ${error instanceof Error ? error.message : String(error)}`;
+    console.warn(message);
+    return { overrides: empty, content, error: message };
+  }
+};
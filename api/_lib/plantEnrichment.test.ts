@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildInfraLineIndex, findNearestLine, type InfraLookup } from './infrastructureIndex';
+import { applyInfrastructureEnrichment } from './plantEnrichment';
+
+const toLookup = (lines: Parameters<typeof buildInfraLineIndex>[0]): InfraLookup => {
+  const index = buildInfraLineIndex(lines);
+  return (point, withinMiles) => findNearestLine([index], point, withinMiles);
+};
+
+describe('applyInfrastructureEnrichment', () => {
+  const plants = [
+    { id: 'near', coordinates: [-100, 40] as [number, number] },
+    { id: 'remote', coordinates: [-60, 10] as [number, number] },
+  ];
+
+  it('records the nearest fiber route and high-voltage line', () => {
+    const fiber = toLookup([{ id: 'fiber-1', paths: [[[-100, 40.1], [-99, 40.1]]] }]);
+    const highVoltage = toLookup([
+      { id: 'hv-345', paths: [[[-100.5, 39], [-99.5, 39]]], voltage: 345, voltClass: '345' },
+      { id: 'hv-500', paths: [[[-100.5, 42], [-99.5, 42]]], voltage: 500, voltClass: '500' },
+    ]);
+
+    const {
+      plants: [near, remote],
+    } = applyInfrastructureEnrichment(plants, { fiber, hifld: null, submarine: null, highVoltage });
+
+    expect(near.nearestFiberMiles).toBeCloseTo(6.9, 1);
+    expect(near.nearestHvLineMiles).toBeCloseTo(69.1, 0);
+    expect(near.nearestHvLineVoltage).toBe(345);
+    expect(near.nearestHvLineVoltClass).toBe('345');
+
+    expect(remote).toEqual(plants[1]);
+  });
+
+  it('stores the nearest line per layer for proximity queries', () => {
+    const hifld = toLookup([
+      { id: 'hv-69', paths: [[[-100.5, 40.05], [-99.5, 40.05]]], voltage: 69 },
+      { id: 'hv-345', paths: [[[-100.5, 39], [-99.5, 39]]], voltage: 345 },
+    ]);
+
+    const { nearestLinesByPlantId } = applyInfrastructureEnrichment(plants, {
+      fiber: toLookup([{ id: 'fiber-1', paths: [[[-100, 40.1], [-99, 40.1]]] }]),
+      hifld,
+      submarine: null,
+      highVoltage: null,
+    });
+
+    expect(nearestLinesByPlantId.get('near')).toEqual({
+      fiber: { miles: expect.closeTo(6.9, 1), lineId: 'fiber-1' },
+      hifld: { miles: expect.closeTo(3.5, 1), lineId: 'hv-69' },
+    });
+    expect(nearestLinesByPlantId.has('remote')).toBe(false);
+  });
+
+  it('leaves fields unset for layers that failed to load', () => {
+    const {
+      plants: [near],
+      nearestLinesByPlantId,
+    } = applyInfrastructureEnrichment(plants, { fiber: null, hifld: null, submarine: null, highVoltage: null });
+    expect(near).toEqual(plants[0]);
+    expect(near).not.toBe(plants[0]);
+    expect(nearestLinesByPlantId.size).toBe(0);
+  });
+});
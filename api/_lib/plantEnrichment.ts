@@ -0,0 +1,113 @@
+import {
+  INFRA_LAYERS,
+  MAX_WITHIN_MILES,
+  loadHighVoltageLookup,
+  loadInfraLookup,
+  type InfraLayer,
+  type InfraLookup,
+  type NearestInfraLines,
+} from './infrastructureIndex.js';
+
+type Position = [number, number];
+
+export const HIGH_VOLTAGE_MIN_KV = 230;
+
+// Lines further away than this aren't useful for site screening.
+const ENRICHMENT_MAX_MILES = MAX_WITHIN_MILES;
+
+export type InfrastructureEnrichment = {
+  nearestFiberMiles?: number;
+  nearestHvLineMiles?: number;
+  nearestHvLineVoltage?: number;
+  nearestHvLineVoltClass?: string;
+};
+
+/** One lookup per proximity layer, plus HIFLD lines at HIGH_VOLTAGE_MIN_KV and above. */
+export type EnrichmentLookups = Record<InfraLayer, InfraLookup | null> & {
+  highVoltage: InfraLookup | null;
+};
+
+/**
+ * Copies nearest-infrastructure fields onto each plant, and records the
+ * nearest line per layer for `nearInfra` queries. Fields stay unset when no
+ * line is within ENRICHMENT_MAX_MILES or the layer couldn't be loaded.
+ */
+export const applyInfrastructureEnrichment = <T extends { id: string; coordinates: Position }>(
+  plants: T[],
+  lookups: EnrichmentLookups
+): { plants: Array<T & InfrastructureEnrichment>; nearestLinesByPlantId: Map<string, NearestInfraLines> } => {
+  const nearestLinesByPlantId = new Map<string, NearestInfraLines>();
+
+  const enrichedPlants = plants.map((plant) => {
+    const enriched: T & InfrastructureEnrichment = { ...plant };
+
+    const nearestLines: NearestInfraLines = {};
+    for (const layer of INFRA_LAYERS) {
+      const nearest = lookups[layer]?.(plant.coordinates, ENRICHMENT_MAX_MILES);
+      if (nearest) {
+        nearestLines[layer] = { miles: Number(nearest.distanceMiles.toFixed(3)), lineId: nearest.line.id };
+      }
+    }
+    if (Object.keys(nearestLines).length > 0) nearestLinesByPlantId.set(plant.id, nearestLines);
+
+    if (nearestLines.fiber) {
+      enriched.nearestFiberMiles = nearestLines.fiber.miles;
+    }
+
+    const highVoltage = lookups.highVoltage?.(plant.coordinates, ENRICHMENT_MAX_MILES);
+    if (highVoltage) {
+      enriched.nearestHvLineMiles = Number(highVoltage.distanceMiles.toFixed(3));
+      enriched.nearestHvLineVoltage = highVoltage.line.voltage;
+      enriched.nearestHvLineVoltClass = highVoltage.line.voltClass;
+    }
+
+    return enriched;
+  });
+
+  return { plants: enrichedPlants, nearestLinesByPlantId };
+};
+
+const loadLookupOrNull = async (description: string, load: () => Promise<InfraLookup>) => {
+  try {
+    return await load();
+  } catch (error) {
+    console.warn(`Skipping ${description} enrichment:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+};
+
+/**
+ * Runs in the offline snapshot build (`npm run data:snapshot`) only: it reads
+ * every fiber tile near every plant and the full HIFLD dataset, far more than
+ * a request can afford. A layer that fails to load leaves its fields unset
+ * instead of failing the whole dataset, and is left out of `loadedLayers`.
+ */
+export const enrichPlantsWithInfrastructure = async <T extends { id: string; coordinates: Position }>(
+  plants: T[]
+): Promise<{
+  plants: Array<T & InfrastructureEnrichment>;
+  nearestLinesByPlantId: Map<string, NearestInfraLines>;
+  loadedLayers: string[];
+  enrichmentComplete: boolean;
+}> => {
+  const points = plants.map((plant) => plant.coordinates);
+  const loadLayer = (layer: InfraLayer) =>
+    loadLookupOrNull(layer, () => loadInfraLookup({ layer, withinMiles: ENRICHMENT_MAX_MILES }, points));
+
+  const [fiber, hifld, submarine, highVoltage] = await Promise.all([
+    loadLayer('fiber'),
+    loadLayer('hifld'),
+    loadLayer('submarine'),
+    loadLookupOrNull('high-voltage HIFLD', () => loadHighVoltageLookup(HIGH_VOLTAGE_MIN_KV)),
+  ]);
+
+  const lookups: EnrichmentLookups = { fiber, hifld, submarine, highVoltage };
+  // HIFLD counts as loaded only when both its lookups are, since both fill its fields.
+  const loadedLayers = INFRA_LAYERS.filter((layer) => lookups[layer] && (layer !== 'hifld' || highVoltage));
+
+  return {
+    ...applyInfrastructureEnrichment(plants, lookups),
+    loadedLayers,
+    enrichmentComplete: loadedLayers.length === INFRA_LAYERS.length,
+  };
+};
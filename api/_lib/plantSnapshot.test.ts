@@ -0,0 +1,126 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodePlantSnapshot, readPlantSnapshot, writePlantSnapshot } from './plantSnapshot';
+import { buildPlantIndex, getIngestionReport, queryIndexedPlants } from './powerPlantsData';
+
+const plants = [
+  {
+    id: '1',
+    name: 'Alpha',
+    output: 100,
+    outputDisplay: '100 MW',
+    source: 'solar',
+    coordinates: [-100, 40],
+    country: 'US',
+    admin1: 'US-CO',
+    capacityFactor: null,
+    status: 'operating',
+  },
+  {
+    id: '2',
+    name: 'Beta',
+    output: 500,
+    outputDisplay: '500 MW',
+    source: 'gas',
+    coordinates: [-80, 30],
+    country: 'CA',
+    status: 'retired',
+    retirementDate: '2020',
+  },
+];
+
+const buildDataset = () =>
+  buildPlantIndex(plants as never, 'v1', {
+    enrichment: { layers: ['fiber', 'hifld'], complete: true },
+    generatorsByPlantId: new Map([['1', [{ id: 'GEN1' } as never]]]),
+    detailsByPlantId: new Map([['2', { rawData: { County: 'Kent' }, sourceRecords: {} }]]),
+    nearestLinesByPlantId: new Map([['1', { fiber: { miles: 2.5, lineId: 'route-a' } }]]),
+  });
+
+describe('plant snapshots', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'plant-snapshot-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trips plants, lookups and the spatial index', async () => {
+    const dataset = buildDataset();
+    await writePlantSnapshot(dir, dataset, 'source-hash', getIngestionReport(dataset));
+
+    const loaded = await readPlantSnapshot(dir);
+    expect(loaded?.snapshot.sourceHash).toBe('source-hash');
+    expect(loaded?.snapshot.columns.retirementDate).toEqual({ values: ['2020'], positions: [1] });
+
+    const { plants: restored, version, ...rest } = decodePlantSnapshot(loaded!.snapshot);
+    expect(restored).toEqual(plants);
+    expect('retirementDate' in restored[0]).toBe(false);
+
+    const restoredDataset = buildPlantIndex(restored, version, rest);
+    expect(restoredDataset.version).toBe('v1');
+    expect(restoredDataset.builtAt).toBe(dataset.builtAt);
+    expect(restoredDataset.generatorsByPlantId.get('1')).toEqual([{ id: 'GEN1' }]);
+    expect(restoredDataset.detailsByPlantId.get('2')?.rawData).toEqual({ County: 'Kent' });
+    expect(restoredDataset.nearestLinesByPlantId.get('1')).toEqual({ fiber: { miles: 2.5, lineId: 'route-a' } });
+    expect(queryIndexedPlants(restoredDataset, { bbox: [-85, 25, -75, 35] }).map((plant) => plant.id)).toEqual(['2']);
+
+    const report = JSON.parse(await fs.readFile(path.join(dir, 'plants.report.json'), 'utf8'));
+    expect(report).toMatchObject({ status: 'ok', version: 'v1', plantCount: 2 });
+  });
+
+  it('ignores a missing snapshot and warns about one that fails its checksum', async () => {
+    expect(await readPlantSnapshot(dir)).toBeNull();
+
+    const dataset = buildDataset();
+    const written = await writePlantSnapshot(dir, dataset, 'source-hash', getIngestionReport(dataset));
+    await fs.appendFile(written.file, ' ');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await readPlantSnapshot(dir)).toBeNull();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('checksum mismatch'));
+  });
+
+  it('reads a published snapshot from a URL', async () => {
+    const dataset = buildDataset();
+    await writePlantSnapshot(dir, dataset, 'source-hash', getIngestionReport(dataset));
+    const fetchMock = vi.fn(async (url: string) => {
+      const content = await fs.readFile(path.join(dir, path.basename(url)), 'utf8').catch(() => null);
+      return new Response(content, { status: content === null ? 404 : 200 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const loaded = await readPlantSnapshot('https://snapshots.test/plant-snapshot/');
+    expect(loaded?.snapshot.plantCount).toBe(2);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://snapshots.test/plant-snapshot/plants.snapshot.json.sha256',
+      'https://snapshots.test/plant-snapshot/plants.snapshot.json',
+    ]);
+
+    fetchMock.mockClear();
+    expect(await readPlantSnapshot('https://snapshots.test/plant-snapshot', loaded?.checksum)).not.toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await fs.rm(path.join(dir, 'plants.snapshot.json.sha256'));
+    expect(await readPlantSnapshot('https://snapshots.test/plant-snapshot')).toBeNull();
+  });
+
+  it('treats a snapshot URL that times out as missing', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      expect(init?.signal).toBeInstanceOf(AbortSignal);
+      throw new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await readPlantSnapshot('https://snapshots.test/plant-snapshot')).toBeNull();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Failed to fetch plant snapshot'), expect.anything());
+  });
+});
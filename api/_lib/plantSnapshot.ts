@@ -0,0 +1,227 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import RBush from 'rbush';
+import type { IndexedPlantDataset, IngestionReport } from './powerPlantsData.js';
+
+/** Bumped whenever the layout changes; snapshots of another format are ignored rather than misread. */
+export const SNAPSHOT_FORMAT_VERSION = 2;
+
+const SNAPSHOT_FILE = 'plants.snapshot.json';
+const CHECKSUM_FILE = `${SNAPSHOT_FILE}.sha256`;
+const REPORT_FILE = 'plants.report.json';
+// Well inside the 30 s function limit, so a stalled bucket leaves time to parse the sources instead.
+const SNAPSHOT_FETCH_TIMEOUT_MS = 10_000;
+
+type Plant = IndexedPlantDataset['plants'][number];
+type MapEntries<T> = T extends Map<infer K, infer V> ? Array<[K, V]> : never;
+
+/**
+ * One plant field in plant order. `positions` lists the plants that have the
+ * field when not all of them do, so sparse fields cost nothing for the rest.
+ */
+type SnapshotColumn = { values: unknown[]; positions?: number[] };
+
+export type PlantSnapshot = {
+  formatVersion: number;
+  /** Dataset version, so ETags match a live build of the same sources. */
+  version: string;
+  /** Hash of the source contents before enrichment, as used by the live dataset cache. */
+  sourceHash: string;
+  builtAt: string;
+  plantCount: number;
+  dataSources: IndexedPlantDataset['dataSources'];
+  generatorSource?: IndexedPlantDataset['generatorSource'];
+  enrichment: IndexedPlantDataset['enrichment'];
+  dedupReport: IndexedPlantDataset['dedupReport'];
+  columns: Record<string, SnapshotColumn>;
+  generators: MapEntries<IndexedPlantDataset['generatorsByPlantId']>;
+  details: MapEntries<IndexedPlantDataset['detailsByPlantId']>;
+  nearestLines: MapEntries<IndexedPlantDataset['nearestLinesByPlantId']>;
+  /** The plant RBush as emitted by `toJSON()`, so loading skips the bulk insert. */
+  tree: unknown;
+};
+
+/** Everything `buildPlantIndex` needs to restore the dataset without reading the sources. */
+export type DecodedPlantSnapshot = Pick<
+  IndexedPlantDataset,
+  | 'version'
+  | 'builtAt'
+  | 'dataSources'
+  | 'generatorSource'
+  | 'enrichment'
+  | 'dedupReport'
+  | 'generatorsByPlantId'
+  | 'detailsByPlantId'
+  | 'nearestLinesByPlantId'
+  | 'plants'
+  | 'tree'
+>;
+
+/** Where `npm run data:snapshot` writes by default. */
+export const getPlantSnapshotDir = (): string =>
+  process.env.PLANT_SNAPSHOT_DIR || path.join(process.cwd(), 'data', 'snapshot');
+
+/**
+ * Where the API reads the snapshot from: PLANT_SNAPSHOT_URL (the published
+ * copy, e.g. an S3 prefix) when set, else the local snapshot directory.
+ */
+export const getPlantSnapshotLocation = (): string => process.env.PLANT_SNAPSHOT_URL || getPlantSnapshotDir();
+
+const isUrl = (location: string): boolean => /^https?:\/\//.test(location);
+
+// Null when the file is missing; a URL that answers with an error or too slowly counts as missing.
+const readSnapshotFile = async (location: string, name: string): Promise<string | null> => {
+  if (!isUrl(location)) {
+    try {
+      return await fs.readFile(path.join(location, name), 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  try {
+    const response = await fetch(`${location.replace(/\/+$/, '')}/${name}`, {
+      signal: AbortSignal.timeout(SNAPSHOT_FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      if (response.status !== 404) console.warn(`Failed to fetch plant snapshot ${name}: ${response.status}`);
+      return null;
+    }
+    return await response.text();
+  } catch (error) {
+    console.warn(`Failed to fetch plant snapshot ${name}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+};
+
+const toChecksum = (content: string): string => createHash('sha256').update(content).digest('hex');
+
+const toColumns = (plants: Plant[]): Record<string, SnapshotColumn> => {
+  const columns: Record<string, SnapshotColumn & { positions: number[] }> = {};
+  plants.forEach((plant, position) => {
+    for (const [field, value] of Object.entries(plant)) {
+      if (value === undefined) continue;
+      columns[field] ??= { values: [], positions: [] };
+      columns[field].values.push(value);
+      columns[field].positions.push(position);
+    }
+  });
+
+  return Object.fromEntries(
+    Object.entries(columns).map(([field, { values, positions }]) => [
+      field,
+      positions.length === plants.length ? { values } : { values, positions },
+    ])
+  );
+};
+
+const fromColumns = (columns: Record<string, SnapshotColumn>, plantCount: number): Plant[] => {
+  const rows: Array<Record<string, unknown>> = Array.from({ length: plantCount }, () => ({}));
+  for (const [field, { values, positions }] of Object.entries(columns)) {
+    values.forEach((value, index) => {
+      rows[positions ? positions[index] : index][field] = value;
+    });
+  }
+  return rows as Plant[];
+};
+
+export const encodePlantSnapshot = (dataset: IndexedPlantDataset, sourceHash: string): PlantSnapshot => ({
+  formatVersion: SNAPSHOT_FORMAT_VERSION,
+  version: dataset.version,
+  sourceHash,
+  builtAt: dataset.builtAt,
+  plantCount: dataset.plants.length,
+  dataSources: dataset.dataSources,
+  generatorSource: dataset.generatorSource,
+  enrichment: dataset.enrichment,
+  dedupReport: dataset.dedupReport,
+  columns: toColumns(dataset.plants),
+  generators: Array.from(dataset.generatorsByPlantId),
+  details: Array.from(dataset.detailsByPlantId),
+  nearestLines: Array.from(dataset.nearestLinesByPlantId),
+  tree: dataset.tree.toJSON(),
+});
+
+export const decodePlantSnapshot = (snapshot: PlantSnapshot): DecodedPlantSnapshot => ({
+  version: snapshot.version,
+  builtAt: snapshot.builtAt,
+  dataSources: snapshot.dataSources,
+  generatorSource: snapshot.generatorSource,
+  enrichment: snapshot.enrichment,
+  dedupReport: snapshot.dedupReport,
+  generatorsByPlantId: new Map(snapshot.generators),
+  detailsByPlantId: new Map(snapshot.details),
+  nearestLinesByPlantId: new Map(snapshot.nearestLines),
+  plants: fromColumns(snapshot.columns, snapshot.plantCount),
+  tree: new RBush().fromJSON(snapshot.tree) as IndexedPlantDataset['tree'],
+});
+
+/**
+ * Writes the snapshot, the build report and a `sha256sum`-style checksum of
+ * the snapshot to `dir`. The checksum goes last, so a reader never accepts a
+ * half-written snapshot.
+ */
+export const writePlantSnapshot = async (
+  dir: string,
+  dataset: IndexedPlantDataset,
+  sourceHash: string,
+  report: IngestionReport
+): Promise<{ file: string; checksum: string; bytes: number }> => {
+  const content = JSON.stringify(encodePlantSnapshot(dataset, sourceHash));
+  const checksum = toChecksum(content);
+  const file = path.join(dir, SNAPSHOT_FILE);
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(file, content, 'utf8');
+  await fs.writeFile(path.join(dir, REPORT_FILE), `${JSON.stringify(report, null, 2)}\n`, 'utf8');
+  await fs.writeFile(path.join(dir, CHECKSUM_FILE), `${checksum}  ${SNAPSHOT_FILE}\n`, 'utf8');
+  return { file, checksum, bytes: Buffer.byteLength(content) };
+};
+
+/**
+ * The recorded checksum at `location` (a directory or URL), or null without
+ * one; cheap enough to poll on every cache refresh.
+ */
+export const readPlantSnapshotChecksum = async (location: string): Promise<string | null> => {
+  const content = await readSnapshotFile(location, CHECKSUM_FILE);
+  return content?.trim().split(/\s+/)[0] || null;
+};
+
+/**
+ * Reads and verifies the snapshot at `location` (a directory or URL). Null
+ * when there is none, which means the dataset is built from the sources; a
+ * snapshot that fails its checksum or has another format version is warned
+ * about and treated the same. Pass `expected` when the checksum was already
+ * read, so it isn't fetched twice.
+ */
+export const readPlantSnapshot = async (
+  location: string,
+  expected?: string
+): Promise<{ snapshot: PlantSnapshot; checksum: string } | null> => {
+  expected ??= (await readPlantSnapshotChecksum(location)) ?? undefined;
+  if (!expected) return null;
+
+  const content = await readSnapshotFile(location, SNAPSHOT_FILE);
+  if (content === null) {
+    console.warn(`Ignoring plant snapshot: ${CHECKSUM_FILE} has no ${SNAPSHOT_FILE} next to it`);
+    return null;
+  }
+
+  const checksum = toChecksum(content);
+  if (checksum !== expected) {
+    console.warn(`Ignoring plant snapshot: checksum mismatch in ${location}`);
+    return null;
+  }
+
+  try {
+    const snapshot = JSON.parse(content) as PlantSnapshot;
+    if (snapshot.formatVersion !== SNAPSHOT_FORMAT_VERSION) {
+      throw new Error(`format ${snapshot.formatVersion}, expected ${SNAPSHOT_FORMAT_VERSION}`);
+    }
+    return { snapshot, checksum };
+  } catch (error) {
+    console.warn(`Ignoring plant snapshot: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+};
@@ -0,0 +1,264 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  collectSourcePlants,
+  loadPlantSource,
+  parsePlantSource,
+  PLANT_SOURCES,
+  readGlobalGenerationHistory,
+  type LoadedPlantSource,
+  type PlantSourceDefinition,
+} from './plantSources';
+
+const mapSimpleRow: PlantSourceDefinition['mapRow'] = (entry) => ({
+  plant: {
+    id: `test-${entry.id}`,
+    name: entry.name,
+    output: Number(entry.mw),
+    outputDisplay: `${entry.mw} MW`,
+    source: 'gas',
+    coordinates: [Number(entry.lon), Number(entry.lat)],
+    country: entry.country,
+    status: 'operating',
+  },
+  recordId: entry.id,
+});
+
+const defineSource = (overrides: Partial<PlantSourceDefinition>): PlantSourceDefinition => ({
+  id: 'global-power-plant-database',
+  label: 'Test source',
+  locations: [],
+  mapRow: mapSimpleRow,
+  precedence: 10,
+  required: false,
+  ...overrides,
+});
+
+const toLoaded = (definition: PlantSourceDefinition, content: string | null): LoadedPlantSource => ({
+  definition,
+  plants: content === null ? null : parsePlantSource(definition, content).plants,
+  contentHash: '',
+  report: {
+    id: definition.id,
+    label: definition.label,
+    status: content === null ? 'failed' : 'loaded',
+    plantCount: 0,
+  },
+});
+
+const CSV_HEADER = 'id,name,mw,lon,lat,country';
+
+describe('collectSourcePlants', () => {
+  it('orders sources by precedence and lets scoped sources own their countries', () => {
+    const global = toLoaded(
+      defineSource({ precedence: 30 }),
+      [CSV_HEADER, 'g1,Global KZ,10,70,50,KZ', 'g2,Global IN,20,78,20,IN'].join('\n')
+    );
+    const national = toLoaded(
+      defineSource({ id: 'canada-large', countries: ['KZ'], precedence: 20 }),
+      [CSV_HEADER, 'k1,National KZ,15,71,51,KZ', 'k2,Stray row,5,0,0,US'].join('\n')
+    );
+
+    const plants = collectSourcePlants([global, national]);
+
+    expect(plants.map((plant) => plant.id)).toEqual(['test-k1', 'test-g2']);
+    expect(plants[0].provenance).toEqual({
+      datasets: ['canada-large'],
+      recordIds: ['canada-large:k1'],
+      estimatedFields: [],
+      defaultedFields: [],
+    });
+    expect(plants[0].sourceRecords?.['canada-large:k1']).toMatchObject({ name: 'National KZ', mw: '15' });
+    expect(national.report.plantCount).toBe(1);
+    expect(global.report.plantCount).toBe(1);
+    expect(global.report.droppedRows).toEqual({ 'covered-by-scoped-source': 1 });
+  });
+
+  it('keeps unscoped plants when the scoped source failed to load', () => {
+    const global = toLoaded(defineSource({}), [CSV_HEADER, 'g1,Global KZ,10,70,50,KZ'].join('\n'));
+    const national = toLoaded(defineSource({ id: 'canada-large', countries: ['KZ'] }), null);
+
+    expect(collectSourcePlants([global, national]).map((plant) => plant.id)).toEqual(['test-g1']);
+  });
+});
+
+describe('parsePlantSource', () => {
+  it('keeps quoted newlines inside one record and reports malformed rows by line', () => {
+    const { plants, rowReport } = parsePlantSource(
+      defineSource({}),
+      [CSV_HEADER, 'p1,"Two\nLines",10,70,50,KZ', 'p2,Short row', 'p3,"Bad"x,5,71,51,KZ'].join('\n')
+    );
+
+    expect(plants.map((plant) => plant.name)).toEqual(['Two\nLines', 'Badx']);
+    expect(rowReport).toMatchObject({
+      rowCount: 3,
+      malformedRowCount: 2,
+      malformedRows: [
+        { line: 4, reason: 'expected 6 fields, found 2' },
+        { line: 5, reason: 'unexpected character after closing quote in field 2' },
+      ],
+      droppedRows: { 'malformed-row': 1 },
+    });
+  });
+
+  it('counts dropped rows by reason, including coordinate sanity failures', () => {
+    const { plants, rowReport } = parsePlantSource(
+      defineSource({
+        countries: ['KZ'],
+        mapRow: (entry, rowNumber) => (entry.mw === '0' ? 'non-positive-capacity' : mapSimpleRow(entry, rowNumber)),
+      }),
+      [
+        CSV_HEADER,
+        'ok,Kept,10,70,50,KZ',
+        'zero,No capacity,0,70,50,KZ',
+        'us,Other country,10,-100,40,US',
+        'swap,Swapped,10,50,70,KZ',
+        'far,Elsewhere,10,10,50,KZ',
+        'null,Null island,10,0,0,KZ',
+      ].join('\n')
+    );
+
+    expect(plants.map((plant) => plant.id)).toEqual(['test-ok']);
+    expect(rowReport.rowCount).toBe(6);
+    expect(rowReport.droppedRows).toEqual({
+      'non-positive-capacity': 1,
+      'outside-source-scope': 1,
+      'swapped-coordinates': 1,
+      'outside-country': 1,
+      'missing-coordinates': 1,
+    });
+    expect(rowReport.coordinateIssues[0]).toEqual({
+      line: 5,
+      reason: 'swapped-coordinates',
+      name: 'Swapped',
+      country: 'KZ',
+      coordinates: [50, 70],
+    });
+  });
+
+  it('drops North American rows whose country it does not recognize', () => {
+    const canadaLarge = PLANT_SOURCES.find((source) => source.id === 'canada-large')!;
+    const header = 'Country,Facility Name,Latitude,Longitude,Total Capacity (MW),Primary Energy Source';
+    const { plants, rowReport } = parsePlantSource(
+      canadaLarge,
+      [header, 'Canada,Kept,54,-119,150,Coal', 'Narnia,Unknown,54,-119,150,Coal'].join('\n')
+    );
+
+    expect(plants.map((plant) => plant.name)).toEqual(['Kept']);
+    expect(rowReport.droppedRows).toEqual({ 'unrecognized-country': 1 });
+  });
+});
+
+describe('loadPlantSource', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const definition = defineSource({
+    locations: [
+      { type: 'url', env: 'TEST_PLANT_SOURCE_URL' },
+      { type: 'file', filename: 'Kazakhstan_Power_Plants.csv' },
+    ],
+  });
+
+  it('skips unset URLs without reporting a fallback', async () => {
+    vi.stubEnv('TEST_PLANT_SOURCE_URL', '');
+    const loaded = await loadPlantSource(definition);
+    expect(loaded.report).toMatchObject({
+      status: 'loaded',
+      location: 'data/Kazakhstan_Power_Plants.csv',
+      locationType: 'file',
+    });
+  });
+
+  it('reports a fallback when a configured URL fails', async () => {
+    vi.stubEnv('TEST_PLANT_SOURCE_URL', 'https://example.test/plants.csv');
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const loaded = await loadPlantSource(definition);
+    expect(loaded.report.rowCount).toBeGreaterThan(0);
+    expect(loaded.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(loaded.report.status).toBe('fallback');
+  });
+
+  // Delivers each chunk `delayMs` after the previous one and errors once the request is aborted.
+  const stubSlowFetch = (chunks: string[], delayMs: number) =>
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init?: RequestInit) => {
+        const encoder = new TextEncoder();
+        let next = 0;
+        const body = new ReadableStream<Uint8Array>({
+          pull: (controller) =>
+            new Promise<void>((resolve) => {
+              const timer = setTimeout(() => {
+                if (next < chunks.length) controller.enqueue(encoder.encode(chunks[next++]));
+                else controller.close();
+                resolve();
+              }, delayMs);
+              init?.signal?.addEventListener('abort', () => {
+                clearTimeout(timer);
+                controller.error(init.signal?.reason);
+                resolve();
+              });
+            }),
+        });
+        return new Response(body);
+      })
+    );
+
+  it('only times out a download that stalls, however long it takes overall', async () => {
+    vi.useFakeTimers();
+    vi.stubEnv('TEST_PLANT_SOURCE_URL', 'https://example.test/plants.csv');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const rows = [`${CSV_HEADER}\n`, '1,Alpha,100,-100,40,US\n', '2,Beta,200,-101,41,US\n'];
+
+    try {
+      stubSlowFetch(rows, 20_000);
+      const steady = loadPlantSource(definition);
+      await vi.advanceTimersByTimeAsync(100_000);
+      expect((await steady).report).toMatchObject({ status: 'loaded', locationType: 'url', rowCount: 2 });
+
+      stubSlowFetch(rows, 40_000);
+      const stalled = loadPlantSource(definition);
+      await vi.advanceTimersByTimeAsync(100_000);
+      expect((await stalled).report).toMatchObject({ status: 'fallback', locationType: 'file' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('fails the build only for required sources', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const missing = { type: 'file', filename: 'does-not-exist.csv' } as const;
+
+    const optional = await loadPlantSource(defineSource({ locations: [missing] }));
+    expect(optional.plants).toBeNull();
+    expect(optional.report.status).toBe('failed');
+
+    await expect(loadPlantSource(defineSource({ locations: [missing], required: true }))).rejects.toThrow(
+      'unavailable'
+    );
+  });
+});
+
+describe('readGlobalGenerationHistory', () => {
+  it('orders years and prefers reported over estimated generation', () => {
+    expect(
+      readGlobalGenerationHistory({
+        generation_gwh_2019: '1,200.5',
+        generation_gwh_2017: '',
+        generation_gwh_2016: '900',
+        estimated_generation_gwh_2017: '1000',
+        estimated_generation_gwh_2016: '850',
+        capacity_mw: '300',
+      })
+    ).toEqual([
+      { year: 2016, gwh: 900 },
+      { year: 2017, gwh: 1000, estimated: true },
+      { year: 2019, gwh: 1200.5 },
+    ]);
+  });
+});
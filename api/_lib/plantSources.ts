@@ -0,0 +1,696 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { normalizeAdmin1 } from '../../src/utils/admin1.js';
+import { normalizeCountryCode } from '../../src/utils/countries.js';
+import { toLifecycleDate, type PlantStatus } from '../../src/utils/plantStatus.js';
+import { getCoordinateIssue, type CoordinateIssue } from './countryBounds.js';
+import { readCsvEntries, streamCsvEntries, type CsvReadReport } from './csvReader.js';
+import type { GenerationYear } from './generationHistory.js';
+
+export const PLANT_SOURCE_DATASETS = [
+  'canada-large',
+  'canada-renewable',
+  'global-power-plant-database',
+  'us-eia',
+] as const;
+
+export type PlantSourceDataset = (typeof PLANT_SOURCE_DATASETS)[number];
+
+/** Why a source row did not become a plant; counted per source in the build report. */
+export type PlantDropReason =
+  | 'malformed-row'
+  | 'missing-country'
+  | 'unrecognized-country'
+  | 'non-positive-capacity'
+  | 'outside-source-scope'
+  | 'covered-by-scoped-source'
+  | CoordinateIssue;
+
+/**
+ * Where a plant's record came from. `recordIds` are `${dataset}:${id}`, using
+ * the source's own ID where it has one and the CSV row number otherwise.
+ */
+export type PlantProvenance = {
+  datasets: PlantSourceDataset[];
+  recordIds: string[];
+  estimatedFields: string[];
+  defaultedFields: string[];
+};
+
+/** A plant as read from one source, before merging, sanitizing and enrichment. */
+export type SourcePlant = {
+  id: string;
+  name: string;
+  output: number;
+  outputDisplay: string;
+  source: string;
+  coordinates: [number, number];
+  country: string;
+  /** ISO 3166-2 code of the state or province, when the source names one. */
+  admin1?: string;
+  /**
+   * Plant lists only carry existing plants; the EIA generator inventory reports
+   * other stages and adds the US plants that have no operating unit.
+   */
+  status: PlantStatus;
+  /** ISO 8601 year or year-month; expected rather than actual when in the future. */
+  inServiceDate?: string;
+  retirementDate?: string;
+  capacityFactor?: number | null;
+  netSummerCapacity?: number;
+  netWinterCapacity?: number;
+  capacityMW?: number;
+  usedCapacity?: number;
+  generationGWh?: number;
+  /** Yearly net generation, oldest first; served by the detail route rather than in lists. */
+  generationHistory?: GenerationYear[];
+  provenance: PlantProvenance;
+  rawData?: Record<string, string>;
+  /** Every original CSV row merged into this plant, keyed by provenance record ID. */
+  sourceRecords?: Record<string, Record<string, string>>;
+};
+
+export type MappedPlantRow = {
+  plant: Omit<SourcePlant, 'provenance' | 'sourceRecords'>;
+  /** The source's own record ID; the CSV row number is used when absent. */
+  recordId?: string;
+  estimatedFields?: string[];
+  defaultedFields?: string[];
+};
+
+/**
+ * `url` locations are skipped when their env var is unset; `file` locations
+ * are read from `data/` and skipped when missing.
+ */
+export type PlantSourceLocation = { type: 'url'; env: string } | { type: 'file'; filename: string };
+
+export type PlantSourceDefinition = {
+  id: PlantSourceDataset;
+  label: string;
+  /** Tried in order; the first that loads is used. */
+  locations: PlantSourceLocation[];
+  /** Maps one CSV row, keyed by header, to a plant, or says why the row is dropped. */
+  mapRow: (entry: Record<string, string>, rowNumber: number) => MappedPlantRow | PlantDropReason;
+  /**
+   * Countries this source is authoritative for. Unscoped sources cover the rest
+   * of the world and drop plants in countries that a loaded scoped source covers.
+   */
+  countries?: string[];
+  /** Lower merges first, so its record is the base when duplicates are aggregated. */
+  precedence: number;
+  /** A required source that can't be loaded fails the whole build; others are skipped. */
+  required: boolean;
+};
+
+/**
+ * `loaded` came from the first configured location, `fallback` from a later
+ * one after an earlier location failed.
+ */
+export type PlantSourceStatus = 'loaded' | 'fallback' | 'failed';
+
+export type PlantCoordinateIssue = {
+  line: number;
+  reason: CoordinateIssue;
+  name: string;
+  country: string;
+  coordinates: [number, number];
+};
+
+/** Row counts for one parsed source: `rowCount` is kept rows plus every dropped row. */
+export type PlantRowReport = Omit<CsvReadReport, 'skippedRowCount'> & {
+  droppedRows: Partial<Record<PlantDropReason, number>>;
+  /** The first rows dropped for their coordinates. */
+  coordinateIssues: PlantCoordinateIssue[];
+};
+
+export type PlantSourceReport = {
+  id: PlantSourceDataset;
+  label: string;
+  status: PlantSourceStatus;
+  /** Env var name or data file the content came from; never the URL itself. */
+  location?: string;
+  locationType?: PlantSourceLocation['type'];
+  /** Rows kept as plants, after scoped sources took over their countries. */
+  plantCount: number;
+  error?: string;
+} & Partial<PlantRowReport>;
+
+export type LoadedPlantSource = {
+  definition: PlantSourceDefinition;
+  /** Null when an optional source failed to load. */
+  plants: SourcePlant[] | null;
+  /** sha256 of the raw file, computed while streaming; empty when not loaded. */
+  contentHash: string;
+  report: PlantSourceReport;
+};
+
+const FETCH_TIMEOUT_MS = 30_000;
+const MAX_REPORTED_COORDINATE_ISSUES = 50;
+
+const mapEnergySource = (source: string): string => {
+  const sourceMap: Record<string, string> = {
+    Coal: 'coal',
+    'Natural Gas': 'gas',
+    Nuclear: 'nuclear',
+    Hydroelectric: 'hydro',
+    Wind: 'wind',
+    Solar: 'solar',
+    Petroleum: 'oil',
+    Biomass: 'biomass',
+    Geothermal: 'geothermal',
+    Tidal: 'tidal',
+    'Pumped-Storage Hydroelectric': 'hydro',
+    Gas: 'gas',
+    Diesel: 'diesel',
+    Oil: 'oil',
+    Waste: 'waste',
+    Biofuel: 'biofuel',
+    Battery: 'battery',
+    'Pumped Storage': 'hydro',
+    'Run-of-river': 'hydro',
+    'Conventional Hydroelectric': 'hydro',
+    'Onshore Wind': 'wind',
+    'Offshore Wind': 'wind',
+    Photovoltaic: 'solar',
+    'Concentrated Solar': 'solar',
+    'Combined Cycle': 'gas',
+    'Combustion Turbine': 'gas',
+    'Steam Turbine': 'coal',
+    'Internal Combustion': 'diesel',
+    'Landfill Gas': 'biomass',
+    'Municipal Solid Waste': 'waste',
+    Wood: 'biomass',
+    'Other Biomass': 'biomass',
+    'Other Gases': 'gas',
+  };
+
+  const normalized = source.toLowerCase().trim();
+  if (sourceMap[source]) return sourceMap[source];
+
+  const normalizedMatch = Object.keys(sourceMap).find(
+    (key) => key.toLowerCase().trim() === normalized
+  );
+
+  if (normalizedMatch) return sourceMap[normalizedMatch];
+  return 'other';
+};
+
+export const mapEnergySourceFromFuelTypes = (fuelTypes: string): string => {
+  const normalized = fuelTypes.toLowerCase();
+  if (!normalized) return 'other';
+
+  if (normalized.includes('natural gas') || normalized.includes(' gas')) return 'gas';
+  if (normalized.includes('coal')) return 'coal';
+  if (normalized.includes('nuclear')) return 'nuclear';
+  if (normalized.includes('hydro') || normalized.includes('water')) return 'hydro';
+  if (normalized.includes('wind')) return 'wind';
+  if (normalized.includes('solar') || normalized.includes('photovoltaic')) return 'solar';
+  if (normalized.includes('petroleum') || normalized.includes('oil')) return 'oil';
+  if (normalized.includes('biomass') || normalized.includes('biofuel')) return 'biomass';
+  if (normalized.includes('geothermal')) return 'geothermal';
+  if (normalized.includes('battery')) return 'battery';
+  if (normalized.includes('diesel')) return 'diesel';
+  if (normalized.includes('waste')) return 'waste';
+
+  // Fall back to the generic mapper for exact/simple matches.
+  return mapEnergySource(fuelTypes);
+};
+
+const NAEI_COUNTRIES: Record<string, string> = {
+  Canada: 'CA',
+  'United States': 'US',
+  Mexico: 'MX',
+};
+
+/** Column mapping shared by the North American Energy Infrastructure plant lists. */
+const mapNaeiRow =
+  (energySourceColumn: 'Primary Energy Source' | 'Primary Renewable Energy Source', idPrefix: string) =>
+  (entry: Record<string, string>, rowNumber: number): MappedPlantRow | PlantDropReason => {
+    const latitude = parseFloat(entry.Latitude || '0');
+    const longitude = parseFloat(entry.Longitude || '0');
+    const capacity = parseFloat((entry['Total Capacity (MW)'] || '0').replace(/,/g, '')) || 0;
+    if (isNaN(latitude) || isNaN(longitude)) return 'missing-coordinates';
+    if (capacity <= 0) return 'non-positive-capacity';
+
+    const country = NAEI_COUNTRIES[entry.Country?.trim()];
+    if (!country) return 'unrecognized-country';
+
+    return {
+      plant: {
+        id: `plant-${idPrefix}-${rowNumber}`,
+        name: entry['Facility Name'] || 'Unknown Facility',
+        output: capacity,
+        outputDisplay: `${capacity.toFixed(1)} MW`,
+        source: mapEnergySource(entry[energySourceColumn] || 'Other'),
+        coordinates: [longitude, latitude],
+        country,
+        admin1: normalizeAdmin1(country, entry['State / Province / Territory']),
+        // Both lists only cover existing plants.
+        status: 'operating',
+        // These lists publish capacity only, so this is a placeholder, not a measurement.
+        capacityFactor: 100,
+        rawData: entry,
+      },
+      defaultedFields: ['capacityFactor'],
+    };
+  };
+
+const mapUsEiaRow = (entry: Record<string, string>, rowNumber: number): MappedPlantRow | PlantDropReason => {
+  const latitude = parseFloat(entry['Plant Latitude'] || '0');
+  const longitude = parseFloat(entry['Plant Longitude'] || '0');
+  const nameplateCapacity =
+    parseFloat((entry['Operating Total Nameplate Capacity'] || '0').replace(/,/g, '')) || 0;
+
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return 'missing-coordinates';
+  if (nameplateCapacity <= 0) return 'non-positive-capacity';
+
+  let annualGenerationMWh = 0;
+  const annualGenerationFormatted = entry['Annual Generation (Formatted)'] || '';
+  const formattedMatch = annualGenerationFormatted.match(/([\d.]+)\s*(GWh|MWh)/i);
+  if (formattedMatch) {
+    const value = parseFloat(formattedMatch[1]);
+    const unit = formattedMatch[2].toUpperCase();
+    if (Number.isFinite(value)) {
+      annualGenerationMWh = unit === 'GWH' ? value * 1000 : value;
+    }
+  }
+  if (annualGenerationMWh === 0) {
+    annualGenerationMWh = parseFloat((entry['Annual Generation'] || '0').replace(/,/g, '')) || 0;
+  }
+
+  const usedCapacity = annualGenerationMWh > 0 ? annualGenerationMWh / 8760 : 0;
+  const capacityFactor =
+    nameplateCapacity > 0 && usedCapacity > 0 ? (usedCapacity / nameplateCapacity) * 100 : null;
+  const plantCode = entry['Plant Code'] || undefined;
+
+  return {
+    plant: {
+      id: `us-eia-${plantCode ?? rowNumber}`,
+      name: entry['Plant Name'] || 'Unknown Plant',
+      output: nameplateCapacity,
+      outputDisplay: `${nameplateCapacity.toFixed(1)} MW`,
+      source: mapEnergySourceFromFuelTypes(entry['Fuel Types'] || ''),
+      coordinates: [longitude, latitude],
+      country: 'US',
+      admin1: normalizeAdmin1('US', entry['Plant State']),
+      // Rows without operating capacity were dropped above; those plants come back from the
+      // EIA-860 sheets with their units' status (getUnlistedEiaPlants), and units refine this one.
+      status: 'operating',
+      capacityFactor,
+      capacityMW: nameplateCapacity,
+      usedCapacity: usedCapacity > 0 ? usedCapacity : undefined,
+      generationGWh: annualGenerationMWh > 0 ? annualGenerationMWh / 1000 : undefined,
+      rawData: {
+        technology: entry['Fuel Types'] || 'Unknown',
+        'City (Site Name)': entry['Plant City'] || '',
+        'State / Province / Territory': entry['Plant State'] || '',
+        County: entry['Plant County'] || '',
+        'Owner Name (Company)': entry['Utility Name'] || '',
+        'Operator Name': entry['Utility Name'] || '',
+        Address: entry['Plant Address'] || '',
+        'Zip Code / Postal Code': entry['Plant Zip'] || '',
+        'Plant URL': entry['Plant URL'] || '',
+      },
+    },
+    recordId: plantCode,
+  };
+};
+
+/**
+ * Series from the Global Power Plant Database's `generation_gwh_<year>` and
+ * `estimated_generation_gwh_<year>` columns; a reported value wins over an
+ * estimate for the same year.
+ */
+export const readGlobalGenerationHistory = (entry: Record<string, string>): GenerationYear[] => {
+  const byYear = new Map<number, GenerationYear>();
+
+  for (const [column, value] of Object.entries(entry)) {
+    const match = column.match(/^(estimated_)?generation_gwh_(\d{4})$/);
+    const gwh = parseFloat((value || '').replace(/,/g, ''));
+    if (!match || !(gwh > 0)) continue;
+
+    const year = Number(match[2]);
+    const estimated = match[1] !== undefined;
+    if (estimated && byYear.has(year)) continue;
+    byYear.set(year, estimated ? { year, gwh, estimated } : { year, gwh });
+  }
+
+  return Array.from(byYear.values()).sort((a, b) => a.year - b.year);
+};
+
+const mapGlobalPlantRow = (entry: Record<string, string>, rowNumber: number): MappedPlantRow | PlantDropReason => {
+  if (entry.country === 'country' || !entry.country) return 'missing-country';
+
+  // Missing values become 0,0, which the shared coordinate check drops.
+  const latitude = parseFloat(entry.latitude || '0');
+  const longitude = parseFloat(entry.longitude || '0');
+
+  const capacity = parseFloat((entry.capacity_mw || '0').replace(/,/g, '')) || 0;
+  // The latest reported year, or the latest estimate when nothing was reported.
+  const generationHistory = readGlobalGenerationHistory(entry);
+  const latestGeneration =
+    generationHistory.filter((year) => !year.estimated).at(-1) ?? generationHistory.at(-1);
+  const generation = latestGeneration?.gwh ?? 0;
+
+  const usedCapacity = generation > 0 ? (generation * 1000) / 8760 : 0;
+  const capacityFactor = capacity > 0 && usedCapacity > 0 ? (usedCapacity / capacity) * 100 : null;
+
+  return {
+    plant: {
+      id: `global-${entry.country.toLowerCase()}-${entry.gppd_idnr || rowNumber}`,
+      name: entry.name || 'Unknown Plant',
+      output: capacity,
+      outputDisplay: `${capacity.toFixed(1)} MW`,
+      source: mapEnergySource(entry.primary_fuel || 'Other'),
+      coordinates: [longitude, latitude],
+      country: normalizeCountryCode(entry.country),
+      // The database only lists operating plants; commissioning years may be capacity-weighted fractions.
+      status: 'operating',
+      inServiceDate: toLifecycleDate(parseFloat(entry.commissioning_year || '')),
+      capacityMW: capacity,
+      usedCapacity,
+      generationGWh: generation,
+      generationHistory: generationHistory.length > 0 ? generationHistory : undefined,
+      capacityFactor,
+      rawData: {
+        usedCapacity: usedCapacity.toString(),
+        generation: generation.toString(),
+        primaryFuel: entry.primary_fuel,
+        otherFuels: [entry.other_fuel1, entry.other_fuel2, entry.other_fuel3].filter(Boolean).join(', '),
+        commissioningYear: entry.commissioning_year,
+        owner: entry.owner,
+        source: entry.source,
+        url: entry.url,
+      },
+    },
+    recordId: entry.gppd_idnr || undefined,
+    estimatedFields:
+      latestGeneration?.estimated ? ['generationGWh', 'usedCapacity', 'capacityFactor'] : [],
+  };
+};
+
+/**
+ * Every plant source merged into the unified dataset. Adding a source means
+ * adding an entry here plus a `mapRow` for its columns.
+ */
+export const PLANT_SOURCES: PlantSourceDefinition[] = [
+  {
+    id: 'canada-large',
+    label: 'Canada power plants, 100 MW or more',
+    locations: [{ type: 'file', filename: 'Power_Plants,_100_MW_or_more.csv' }],
+    mapRow: mapNaeiRow('Primary Energy Source', 'large'),
+    countries: ['CA'],
+    precedence: 10,
+    required: true,
+  },
+  {
+    id: 'canada-renewable',
+    label: 'Canada renewable power plants, 1 MW or more',
+    locations: [{ type: 'file', filename: 'Renewable_Energy_Power_Plants,_1_MW_or_more.csv' }],
+    mapRow: mapNaeiRow('Primary Renewable Energy Source', 'renewable'),
+    countries: ['CA'],
+    precedence: 20,
+    required: true,
+  },
+  {
+    id: 'global-power-plant-database',
+    label: 'Global Power Plant Database',
+    locations: [
+      { type: 'url', env: 'GLOBAL_POWER_PLANT_DB_S3_URL' },
+      { type: 'file', filename: 'global_power_plant_database.csv' },
+    ],
+    mapRow: mapGlobalPlantRow,
+    precedence: 30,
+    required: true,
+  },
+  {
+    id: 'us-eia',
+    label: 'US EIA plant inventory',
+    locations: [
+      { type: 'url', env: 'US_EIA_PLANTS_CSV_S3_URL' },
+      { type: 'file', filename: 'eia-plants-export-2026-02-18 09_46_12.csv' },
+      { type: 'file', filename: 'eia-plants-export-2026-02-18+09_46_12.csv' },
+    ],
+    mapRow: mapUsEiaRow,
+    countries: ['US'],
+    precedence: 40,
+    required: true,
+  },
+];
+
+// An idle timeout: it restarts with every chunk, so a slow but steady download
+// completes and only a stall, before the headers or part-way through, aborts.
+const fetchTextStream = async function* (url: string, timeoutMs: number): AsyncGenerator<string> {
+  const controller = new AbortController();
+  let timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const restartTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  };
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    if (!response.body) {
+      throw new Error('Response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    for (;;) {
+      restartTimeout();
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield decoder.decode(value, { stream: true });
+    }
+    const rest = decoder.decode();
+    if (rest) yield rest;
+  } finally {
+    clearTimeout(timeoutId);
+    controller.abort();
+  }
+};
+
+const hashChunks = async function* (
+  chunks: AsyncIterable<string>,
+  hash: ReturnType<typeof createHash>
+): AsyncGenerator<string> {
+  for await (const chunk of chunks) {
+    hash.update(chunk);
+    yield chunk;
+  }
+};
+
+const describeLocation = (location: PlantSourceLocation): string =>
+  location.type === 'url' ? location.env : `data/${location.filename}`;
+
+export type LocationLoadResult<T> = {
+  result: T;
+  /** sha256 of the raw content, so callers can version it without keeping it. */
+  contentHash: string;
+  location: string;
+  locationType: PlantSourceLocation['type'];
+  status: Exclude<PlantSourceStatus, 'failed'>;
+};
+
+/**
+ * Tries each location in order, streaming its text through `consume` so only
+ * the parsed result is held in memory. Unset env vars and missing files are
+ * skipped silently; a location that fails, even part-way through, is logged,
+ * its partial result discarded and a later success reported as a `fallback`.
+ * Returns null when no location could be read.
+ */
+export const loadFromLocations = async <T>(
+  label: string,
+  locations: PlantSourceLocation[],
+  consume: (chunks: AsyncIterable<string>) => Promise<T>
+): Promise<LocationLoadResult<T> | null> => {
+  let failedEarlier = false;
+
+  for (const location of locations) {
+    let chunks: AsyncIterable<string>;
+    if (location.type === 'url') {
+      const url = process.env[location.env];
+      if (!url) continue;
+      chunks = fetchTextStream(url, FETCH_TIMEOUT_MS);
+    } else {
+      const filePath = path.join(process.cwd(), 'data', location.filename);
+      try {
+        await fs.access(filePath);
+      } catch {
+        continue;
+      }
+      chunks = createReadStream(filePath, { encoding: 'utf8' });
+    }
+
+    const hash = createHash('sha256');
+    try {
+      const result = await consume(hashChunks(chunks, hash));
+      return {
+        result,
+        contentHash: hash.digest('hex'),
+        location: describeLocation(location),
+        locationType: location.type,
+        status: failedEarlier ? 'fallback' : 'loaded',
+      };
+    } catch (error) {
+      console.warn(`Failed to load ${label} from ${describeLocation(location)}, trying next location:`, error);
+      failedEarlier = true;
+    }
+  }
+
+  return null;
+};
+
+const createProvenance = (
+  dataset: PlantSourceDataset,
+  mapped: MappedPlantRow,
+  rowNumber: number
+): PlantProvenance => ({
+  datasets: [dataset],
+  recordIds: [`${dataset}:${mapped.recordId ?? `row-${rowNumber}`}`],
+  estimatedFields: mapped.estimatedFields ?? [],
+  defaultedFields: mapped.defaultedFields ?? [],
+});
+
+const countDrop = (report: PlantRowReport, reason: PlantDropReason, count = 1) => {
+  if (count > 0) report.droppedRows[reason] = (report.droppedRows[reason] ?? 0) + count;
+};
+
+const createPlantRowHandler = (definition: PlantSourceDefinition, plants: SourcePlant[], report: PlantRowReport) => {
+  const countryScope = definition.countries ? new Set(definition.countries) : null;
+
+  return (entry: Record<string, string>, rowNumber: number) => {
+    const mapped = definition.mapRow(entry, rowNumber);
+    if (typeof mapped === 'string') {
+      countDrop(report, mapped);
+      return;
+    }
+
+    const { name, country, coordinates } = mapped.plant;
+    if (countryScope && !countryScope.has(country)) {
+      countDrop(report, 'outside-source-scope');
+      return;
+    }
+
+    const coordinateIssue = getCoordinateIssue(coordinates, country);
+    if (coordinateIssue) {
+      countDrop(report, coordinateIssue);
+      if (report.coordinateIssues.length < MAX_REPORTED_COORDINATE_ISSUES) {
+        report.coordinateIssues.push({ line: rowNumber + 1, reason: coordinateIssue, name, country, coordinates });
+      }
+      return;
+    }
+
+    const provenance = createProvenance(definition.id, mapped, rowNumber);
+    plants.push({ ...mapped.plant, provenance, sourceRecords: { [provenance.recordIds[0]]: entry } });
+  };
+};
+
+const createRowReport = (): PlantRowReport => ({
+  rowCount: 0,
+  malformedRowCount: 0,
+  malformedRows: [],
+  droppedRows: {},
+  coordinateIssues: [],
+});
+
+const completeRowReport = (report: PlantRowReport, { skippedRowCount, ...csvReport }: CsvReadReport) => {
+  Object.assign(report, csvReport);
+  countDrop(report, 'malformed-row', skippedRowCount);
+  return report;
+};
+
+export const parsePlantSource = (
+  definition: PlantSourceDefinition,
+  csvText: string
+): { plants: SourcePlant[]; rowReport: PlantRowReport } => {
+  const plants: SourcePlant[] = [];
+  const rowReport = createRowReport();
+  const csvReport = readCsvEntries(csvText, createPlantRowHandler(definition, plants, rowReport));
+  return { plants, rowReport: completeRowReport(rowReport, csvReport) };
+};
+
+export const loadPlantSource = async (definition: PlantSourceDefinition): Promise<LoadedPlantSource> => {
+  const loaded = await loadFromLocations(definition.label, definition.locations, async (chunks) => {
+    const plants: SourcePlant[] = [];
+    const rowReport = createRowReport();
+    const csvReport = await streamCsvEntries(chunks, createPlantRowHandler(definition, plants, rowReport));
+    return { plants, rowReport: completeRowReport(rowReport, csvReport) };
+  });
+
+  if (loaded) {
+    const { plants, rowReport } = loaded.result;
+    if (rowReport.malformedRowCount > 0) {
+      console.warn(`${definition.label}: ${rowReport.malformedRowCount} malformed rows in ${loaded.location}`);
+    }
+    return {
+      definition,
+      plants,
+      contentHash: loaded.contentHash,
+      report: {
+        id: definition.id,
+        label: definition.label,
+        status: loaded.status,
+        location: loaded.location,
+        locationType: loaded.locationType,
+        plantCount: 0,
+        ...rowReport,
+      },
+    };
+  }
+
+  const tried = definition.locations.map(describeLocation).join(', ');
+  const error = `${definition.label} unavailable (tried ${tried})`;
+  if (definition.required) {
+    throw new Error(error);
+  }
+
+  console.warn(`${error}; continuing without it`);
+  return {
+    definition,
+    plants: null,
+    contentHash: '',
+    report: { id: definition.id, label: definition.label, status: 'failed', plantCount: 0, error },
+  };
+};
+
+export const loadPlantSources = (
+  definitions: PlantSourceDefinition[] = PLANT_SOURCES
+): Promise<LoadedPlantSource[]> => Promise.all(definitions.map(loadPlantSource));
+
+/**
+ * Concatenates every loaded source by precedence. Plants from unscoped sources
+ * are dropped in countries a loaded scoped source covers. Fills in each
+ * report's `plantCount` and counts those dropped plants.
+ */
+export const collectSourcePlants = (sources: LoadedPlantSource[]): SourcePlant[] => {
+  const loaded = sources
+    .filter((source) => source.plants !== null)
+    .sort((a, b) => a.definition.precedence - b.definition.precedence);
+
+  const coveredCountries = new Set(loaded.flatMap((source) => source.definition.countries ?? []));
+  const plants: SourcePlant[] = [];
+
+  for (const source of loaded) {
+    let parsed = source.plants as SourcePlant[];
+    if (!source.definition.countries) {
+      parsed = parsed.filter((plant) => !coveredCountries.has(plant.country));
+      const covered = (source.plants as SourcePlant[]).length - parsed.length;
+      if (covered > 0) {
+        source.report.droppedRows = {
+          ...source.report.droppedRows,
+          'covered-by-scoped-source': covered,
+        };
+      }
+    }
+    source.report.plantCount = parsed.length;
+    plants.push(...parsed);
+  }
+
+  return plants;
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyPlantFilters,
+  buildPlantIndex,
+  getCandidatePositions,
+  queryIndexedPlants,
+  type PlantFilters,
+} from './powerPlantsData';
+
+const PLANT_COUNT = 200_000;
+const SOURCES = ['solar', 'gas', 'wind', 'hydro', 'coal', 'nuclear', 'oil', 'biomass'];
+const COUNTRIES = ['US', 'CA', 'IN', 'KZ', 'AE', 'BRA', 'DEU', 'CHN'];
+
+// Small deterministic PRNG so the synthetic dataset is identical on every run.
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+};
+
+const buildSyntheticPlants = (count: number) => {
+  const random = createRandom(42);
+  const plants = [];
+
+  for (let i = 0; i < count; i++) {
+    const output = 1 + random() * 2000;
+    plants.push({
+      id: `synthetic-${i}`,
+      name: `Plant ${i}`,
+      output,
+      outputDisplay: `${output.toFixed(1)} MW`,
+      source: SOURCES[Math.floor(random() * SOURCES.length)],
+      coordinates: [random() * 360 - 180, random() * 170 - 85] as [number, number],
+      country: COUNTRIES[Math.floor(random() * COUNTRIES.length)],
+      capacityFactor: random() * 100,
+      status: 'operating',
+    });
+  }
+
+  return plants;
+};
+
+describe('indexed power plant queries (200k synthetic plants)', () => {
+  const plants = buildSyntheticPlants(PLANT_COUNT);
+  const dataset = buildPlantIndex(plants as never);
+
+  const viewportFilters: PlantFilters = {
+    bbox: [-105, 35, -95, 42],
+    sources: SOURCES,
+    countries: ['US', 'CA'],
+    minCapacity: 0,
+    maxCapacity: 10000,
+    minCapacityFactor: 0,
+    maxCapacityFactor: 100,
+  };
+
+  const attributeFilters: PlantFilters = {
+    sources: ['nuclear'],
+    countries: ['KZ'],
+  };
+
+  it('returns the same plants in the same order as the linear scan', () => {
+    for (const filters of [viewportFilters, attributeFilters, { sources: ['__none__'] }, {}]) {
+      const linear = applyPlantFilters(plants as never, filters).map((plant) => plant.id);
+      const indexed = queryIndexedPlants(dataset, filters).map((plant) => plant.id);
+      expect(indexed).toEqual(linear);
+    }
+  });
+
+  // Counts the plants each query has to check rather than timing it, so the
+  // assertion holds on a slow or shared machine.
+  it('checks only a small share of plants for viewport and attribute queries', () => {
+    for (const filters of [viewportFilters, attributeFilters]) {
+      const candidates = getCandidatePositions(dataset, filters);
+      expect(candidates).not.toBeNull();
+      expect(candidates!.length).toBeLessThan(PLANT_COUNT / 20);
+    }
+    expect(getCandidatePositions(dataset, {})).toBeNull();
+  });
+
+  // The linear scan examines all PLANT_COUNT plants whatever the bbox; the index
+  // examines the plants inside it, so its work shrinks with the bbox's area.
+  it('examines the plants inside the bbox rather than all of them, for any bbox size', () => {
+    const examined = [1, 0.25, 0.01, 0.0001].map((areaShare) => {
+      const scale = Math.sqrt(areaShare);
+      const bbox: [number, number, number, number] = [-180 * scale, -85 * scale, 180 * scale, 85 * scale];
+      const candidates = getCandidatePositions(dataset, { bbox })!;
+      const inside = plants.filter(
+        ({ coordinates: [lon, lat] }) => lon >= bbox[0] && lon <= bbox[2] && lat >= bbox[1] && lat <= bbox[3]
+      );
+
+      expect(candidates).toHaveLength(inside.length);
+      expect(Math.abs(candidates.length / PLANT_COUNT - areaShare)).toBeLessThan(Math.max(areaShare * 0.1, 0.0001));
+      return candidates.length;
+    });
+
+    expect(examined[0]).toBe(PLANT_COUNT);
+    expect(examined[3]).toBeLessThan(PLANT_COUNT / 1000);
+    expect([...examined].sort((a, b) => b - a)).toEqual(examined);
+  });
+});
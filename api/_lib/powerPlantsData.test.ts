@@ -1,9 +1,17 @@
 import { describe, expect, it } from 'vitest';
 import {
   applyPlantFilters,
+  buildPlantIndex,
+  clusterPowerPlants,
+  computeDatasetVersion,
+  decodePlantCursor,
+  getIngestionReport,
+  getPowerPlantDetail,
   getPowerPlantMetadata,
   paginatePowerPlants,
   parsePlantQuery,
+  queryIndexedPlants,
+  toColumnarPlantPage,
   type PlantFilters,
 } from './powerPlantsData';
 
@@ -16,6 +24,8 @@ type TestPlant = {
   coordinates: [number, number];
   country: string;
   capacityFactor?: number | null;
+  status: string;
+  retirementDate?: string;
   rawData?: Record<string, string>;
 };
 
@@ -29,7 +39,7 @@ const plants: TestPlant[] = [
     coordinates: [-100, 40],
     country: 'US',
     capacityFactor: 35,
-    rawData: { statusDescription: 'Operating' },
+    status: 'operating',
   },
   {
     id: '2',
@@ -40,7 +50,8 @@ const plants: TestPlant[] = [
     coordinates: [-80, 30],
     country: 'CA',
     capacityFactor: 60,
-    rawData: { statusDescription: 'Operating' },
+    status: 'operating',
+    retirementDate: '2031',
   },
   {
     id: '3',
@@ -51,7 +62,7 @@ const plants: TestPlant[] = [
     coordinates: [10, 10],
     country: 'AE',
     capacityFactor: 20,
-    rawData: { statusDescription: 'Retired' },
+    status: 'retired',
   },
 ];
 
@@ -61,7 +72,7 @@ describe('powerPlantsData helpers', () => {
       bbox: [-120, 20, -70, 50],
       sources: ['solar', 'gas'],
       countries: ['US'],
-      statuses: ['Operating'],
+      statuses: ['operating'],
       minCapacity: 80,
       maxCapacity: 120,
       minCapacityFactor: 20,
@@ -81,13 +92,38 @@ describe('powerPlantsData helpers', () => {
     expect(page.page.hasMore).toBe(false);
   });
 
+  it('encodes a page as dictionary-indexed columns', () => {
+    const withGeneration = [{ ...plants[0], historicalAvgGeneration: 87.6 }, { ...plants[1], capacityFactor: null }];
+    const columnar = toColumnarPlantPage(paginatePowerPlants(withGeneration as never, { limit: 10, offset: 0 }));
+
+    expect(columnar).toMatchObject({
+      format: 'columnar',
+      length: 2,
+      sources: ['solar', 'gas'],
+      countries: ['US', 'CA'],
+      ids: ['1', '2'],
+      positions: [-100, 40, -80, 30],
+      output: [100, 500],
+      sourceIndex: [0, 1],
+      countryIndex: [0, 1],
+      capacityFactor: [35, null],
+      generationMW: [10, null],
+      page: { total: 2, hasMore: false },
+    });
+    expect(parsePlantQuery({ format: 'columnar' }).format).toBe('columnar');
+    expect(parsePlantQuery({}).format).toBe('json');
+    expect(parsePlantQuery({ format: 'arrow' }).error).toMatch(/format/);
+  });
+
   it('builds metadata with source and country counts', () => {
     const metadata = getPowerPlantMetadata(plants as never);
 
     expect(metadata.total).toBe(3);
     expect(metadata.sourceCounts.solar).toBe(1);
     expect(metadata.sourceCounts.gas).toBe(1);
-    expect(metadata.statuses).toContain('Operating');
+    expect(metadata.statuses).toEqual(['operating', 'retired']);
+    expect(metadata.statusCounts).toEqual({ operating: 2, retired: 1 });
+    expect(metadata.upcomingRetirements).toEqual([{ year: 2031, count: 1, capacity: 500 }]);
     expect(metadata.countries.find((c) => c.code === 'US')?.count).toBe(1);
   });
 
@@ -107,4 +143,293 @@ describe('powerPlantsData helpers', () => {
     expect(valid.pagination.limit).toBe(6000);
     expect(valid.pagination.offset).toBe(5);
   });
+
+  it('aggregates plants into zoom-sized grid clusters', () => {
+    const nearby = {
+      ...plants[0],
+      id: '4',
+      output: 300,
+      source: 'gas',
+      coordinates: [-100.5, 40.5] as [number, number],
+    };
+
+    const response = clusterPowerPlants([...plants, nearby] as never, 3);
+    expect(response.total).toBe(4);
+    expect(response.clusters).toHaveLength(3);
+
+    const merged = response.clusters.find((cluster) => cluster.count === 2);
+    expect(merged?.totalOutput).toBe(400);
+    expect(merged?.outputBySource).toEqual({ solar: 100, gas: 300 });
+    expect(merged?.coordinates).toEqual([-100.25, 40.25]);
+
+    // Zoomed far enough in, every plant gets its own cell.
+    expect(clusterPowerPlants([...plants, nearby] as never, 10).clusters).toHaveLength(4);
+  });
+
+  it('requires a zoom when cluster mode is requested', () => {
+    expect(parsePlantQuery({ cluster: 'true' }).error).toBeTruthy();
+    expect(parsePlantQuery({ cluster: 'true', zoom: '3.7' }).cluster).toEqual({ zoom: 3 });
+    expect(parsePlantQuery({ zoom: '3' }).cluster).toBeUndefined();
+  });
+
+  it('sorts pages and keeps missing values last', () => {
+    const withMissing = [...plants, { ...plants[0], id: '4', name: 'Delta', capacityFactor: null }];
+
+    const byOutput = paginatePowerPlants(withMissing as never, {
+      limit: 10,
+      offset: 0,
+      sort: { field: 'output', order: 'desc' },
+    });
+    expect(byOutput.data.map((plant) => plant.id)).toEqual(['2', '1', '4', '3']);
+
+    const byCapacityFactor = paginatePowerPlants(withMissing as never, {
+      limit: 10,
+      offset: 0,
+      sort: { field: 'capacityFactor', order: 'desc' },
+    });
+    expect(byCapacityFactor.data.map((plant) => plant.id)).toEqual(['2', '1', '3', '4']);
+  });
+
+  it('walks sorted pages with a cursor that survives a dataset rebuild', () => {
+    const first = parsePlantQuery({ sort: 'name', order: 'asc', limit: '2' });
+    const firstPage = paginatePowerPlants(plants as never, first.pagination);
+    expect(firstPage.data.map((plant) => plant.id)).toEqual(['1', '2']);
+    expect(firstPage.page.hasMore).toBe(true);
+    expect(firstPage.page.nextCursor).toBeTruthy();
+
+    // Simulate a rebuilt cache with a different order and a new plant sorting before the cursor.
+    const rebuilt = [{ ...plants[0], id: '0', name: 'Aardvark' }, plants[2], plants[1], plants[0]];
+    const next = parsePlantQuery({ cursor: firstPage.page.nextCursor });
+    expect(next.error).toBeUndefined();
+    expect(next.pagination.sort).toEqual({ field: 'name', order: 'asc' });
+
+    const secondPage = paginatePowerPlants(rebuilt as never, next.pagination);
+    expect(secondPage.data.map((plant) => plant.id)).toEqual(['3']);
+    expect(secondPage.page.hasMore).toBe(false);
+    expect(secondPage.page.nextCursor).toBeUndefined();
+  });
+
+  it('rejects invalid sort, order and cursor params', () => {
+    expect(parsePlantQuery({ sort: 'latitude' }).error).toBeTruthy();
+    expect(parsePlantQuery({ sort: 'output', order: 'up' }).error).toBeTruthy();
+    expect(parsePlantQuery({ cursor: 'not-a-cursor' }).error).toBeTruthy();
+    expect(decodePlantCursor('not-a-cursor')).toBeNull();
+
+    const page = paginatePowerPlants(plants as never, {
+      limit: 1,
+      offset: 0,
+      sort: { field: 'output', order: 'desc' },
+    });
+    expect(parsePlantQuery({ sort: 'name', cursor: page.page.nextCursor }).error).toBeTruthy();
+  });
+
+  it('filters by radius and annotates each plant with its distance', () => {
+    const query = parsePlantQuery({ near: '-100.5,40', radiusMiles: '50' });
+    expect(query.error).toBeUndefined();
+
+    const linear = applyPlantFilters(plants as never, query.filters);
+    const indexed = queryIndexedPlants(buildPlantIndex(plants as never), query.filters);
+
+    expect(linear.map((plant) => plant.id)).toEqual(['1']);
+    expect(indexed).toEqual(linear);
+    expect(indexed[0].distanceMiles).toBeCloseTo(26.5, 0);
+    expect(plants[0]).not.toHaveProperty('distanceMiles');
+  });
+
+  it('finds plants across the antimeridian within a radius', () => {
+    const fiji = [
+      { ...plants[0], id: 'east', coordinates: [-179.8, -17] as [number, number] },
+      { ...plants[0], id: 'west', coordinates: [179.6, -17] as [number, number] },
+      { ...plants[0], id: 'far', coordinates: [-178, -17] as [number, number] },
+    ];
+    const query = parsePlantQuery({ near: '179.9,-17', radiusMiles: '50' });
+
+    const linear = applyPlantFilters(fiji as never, query.filters);
+    const indexed = queryIndexedPlants(buildPlantIndex(fiji as never), query.filters);
+
+    expect(linear.map((plant) => plant.id)).toEqual(['east', 'west']);
+    expect(indexed).toEqual(linear);
+  });
+
+  it('filters by a GeoJSON polygon from the query string or POST body', () => {
+    const polygon = {
+      type: 'Polygon',
+      coordinates: [
+        [[-110, 35], [-75, 35], [-75, 45], [-110, 45], [-110, 35]],
+        [[-101, 39], [-99, 39], [-99, 41], [-101, 41], [-101, 39]],
+      ],
+    };
+    const outerOnly = { ...polygon, coordinates: [polygon.coordinates[0]] };
+
+    const fromQuery = parsePlantQuery({ polygon: JSON.stringify(outerOnly) });
+    expect(applyPlantFilters(plants as never, fromQuery.filters).map((plant) => plant.id)).toEqual(['1']);
+
+    // Plant 1 sits inside the hole.
+    const fromBody = parsePlantQuery({}, { polygon: { type: 'Feature', geometry: polygon } });
+    const dataset = buildPlantIndex(plants as never);
+    expect(queryIndexedPlants(dataset, fromBody.filters)).toHaveLength(0);
+  });
+
+  it('rejects invalid radius and polygon params', () => {
+    expect(parsePlantQuery({ near: '-100,40' }).error).toBeTruthy();
+    expect(parsePlantQuery({ near: '-100,40', radiusMiles: '5000' }).error).toBeTruthy();
+    expect(parsePlantQuery({ near: '-100', radiusMiles: '5' }).error).toBeTruthy();
+    expect(parsePlantQuery({ radiusMiles: '5' }).error).toBeTruthy();
+    expect(parsePlantQuery({ polygon: '{not json' }).error).toBeTruthy();
+    expect(parsePlantQuery({ polygon: JSON.stringify({ type: 'Point', coordinates: [0, 0] }) }).error).toBeTruthy();
+  });
+
+  it('versions the dataset by source contents and reports it in metadata', () => {
+    const version = computeDatasetVersion(['a,b\n1,2', 'c']);
+    expect(version).toMatch(/^[0-9a-f]{16}$/);
+    expect(computeDatasetVersion(['a,b\n1,2', 'c'])).toBe(version);
+    expect(computeDatasetVersion(['a,b\n1,2', 'd'])).not.toBe(version);
+    // Moving bytes between sources must not collide.
+    expect(computeDatasetVersion(['ab', 'c'])).not.toBe(computeDatasetVersion(['a', 'bc']));
+
+    const dataset = buildPlantIndex(plants as never, version);
+    const metadata = getPowerPlantMetadata(dataset.plants, dataset);
+    expect(metadata.version).toBe(version);
+    expect(metadata.builtAt).toBe(dataset.builtAt);
+  });
+
+  it('flags fallbacks, failures and partial enrichment in the ingestion report', () => {
+    const loaded = { id: 'us-eia', label: 'US EIA', status: 'loaded', location: 'data/eia.csv', plantCount: 2 } as const;
+    const healthy = buildPlantIndex(plants as never, 'v1', {
+      dataSources: [loaded],
+      enrichment: { layers: ['fiber', 'hifld'], complete: true },
+    });
+    expect(getIngestionReport(healthy)).toMatchObject({ status: 'ok', issues: [], version: 'v1', plantCount: 3 });
+
+    const degraded = buildPlantIndex(plants as never, 'v2', {
+      dataSources: [
+        { ...loaded, status: 'fallback' },
+        { id: 'canada-renewable', label: 'Canada renewable', status: 'failed', plantCount: 0 },
+      ],
+      enrichment: { layers: ['fiber'], complete: false },
+    });
+    expect(getIngestionReport(degraded)).toMatchObject({
+      status: 'degraded',
+      issues: [
+        'US EIA fell back to data/eia.csv',
+        'Canada renewable failed to load',
+        'Infrastructure enrichment incomplete (loaded: fiber)',
+      ],
+    });
+  });
+
+  it('filters on nearest-infrastructure enrichment fields', () => {
+    const enriched = [
+      { ...plants[0], nearestFiberMiles: 2, nearestHvLineVoltage: 345 },
+      { ...plants[1], nearestFiberMiles: 12, nearestHvLineVoltage: 500 },
+      plants[2],
+    ];
+
+    const { filters } = parsePlantQuery({ maxFiberMiles: '5' });
+    expect(applyPlantFilters(enriched as never, filters).map((plant) => plant.id)).toEqual(['1']);
+
+    const voltage = parsePlantQuery({ minNearestVoltage: '400' }).filters;
+    expect(applyPlantFilters(enriched as never, voltage).map((plant) => plant.id)).toEqual(['2']);
+  });
+
+  it('accepts alpha-2 or alpha-3 codes in the countries filter', () => {
+    const { filters } = parsePlantQuery({ countries: 'USA,ca,KZ' });
+    expect(filters.countries).toEqual(['US', 'CA', 'KZ']);
+  });
+
+  it('narrows only the countries that have admin1 regions selected', () => {
+    const regional = [
+      { ...plants[0], id: 'tx', admin1: 'US-TX' },
+      { ...plants[0], id: 'ca', admin1: 'US-CA' },
+      { ...plants[0], id: 'unknown' },
+      { ...plants[1], admin1: 'CA-ON' },
+    ];
+    const { filters } = parsePlantQuery({ countries: 'US,CA', admin1: 'us-tx' });
+
+    expect(filters.admin1).toEqual(['US-TX']);
+    expect(applyPlantFilters(regional as never, filters).map((plant) => plant.id)).toEqual(['tx', '2']);
+    expect(getPowerPlantMetadata(regional as never).countries.find((c) => c.code === 'US')?.admin1).toEqual([
+      { code: 'US-CA', name: 'California', count: 1 },
+      { code: 'US-TX', name: 'Texas', count: 1 },
+    ]);
+  });
+
+  it('parses the infrastructure proximity filter', () => {
+    expect(parsePlantQuery({ nearInfra: 'hifld', withinMiles: '10' }).filters.nearInfra).toEqual({
+      layer: 'hifld',
+      withinMiles: 10,
+    });
+    expect(parsePlantQuery({ nearInfra: 'roads', withinMiles: '10' }).error).toBeTruthy();
+    expect(parsePlantQuery({ nearInfra: 'fiber' }).error).toBeTruthy();
+    expect(parsePlantQuery({ nearInfra: 'fiber', withinMiles: '500' }).error).toBeTruthy();
+    expect(parsePlantQuery({ withinMiles: '10' }).error).toBeTruthy();
+  });
+
+  it('filters by normalized status and by the year plants are operating in', () => {
+    const lifecycle = [
+      ...plants,
+      { ...plants[0], id: 'planned', status: 'planned', inServiceDate: '2028-06' },
+      { ...plants[0], id: 'unscheduled', status: 'planned' },
+    ];
+    const ids = (query: Record<string, string>) =>
+      applyPlantFilters(lifecycle as never, parsePlantQuery(query).filters).map((plant) => plant.id);
+
+    expect(parsePlantQuery({ statuses: 'Operating,(RE) Retired' }).filters.statuses).toEqual(['operating', 'retired']);
+    expect(ids({ statuses: 'planned' })).toEqual(['planned', 'unscheduled']);
+    expect(ids({ operatingInYear: '2026' })).toEqual(['1', '2']);
+    expect(ids({ operatingInYear: '2030' })).toEqual(['1', '2', 'planned']);
+    expect(ids({ operatingInYear: '2031' })).toEqual(['1', 'planned']);
+    expect(parsePlantQuery({ statuses: 'operating,bogus' }).error).toContain('Invalid statuses');
+    expect(parsePlantQuery({ operatingInYear: '2030.5' }).error).toContain('Invalid operatingInYear');
+  });
+
+  it('filters by data quality and counts quality levels in metadata', () => {
+    const flagged = [
+      { ...plants[0], dataQuality: 'reported' },
+      {
+        ...plants[1],
+        provenance: {
+          datasets: ['canada-large'],
+          recordIds: ['canada-large:row-2'],
+          estimatedFields: [],
+          defaultedFields: ['capacityFactor'],
+        },
+        dataQuality: 'defaulted',
+      },
+      { ...plants[2], dataQuality: 'estimated' },
+    ];
+
+    const { filters } = parsePlantQuery({ dataQuality: 'reported,estimated' });
+    expect(applyPlantFilters(flagged as never, filters).map((plant) => plant.id)).toEqual(['1', '3']);
+    expect(getPowerPlantMetadata(flagged as never).dataQualityCounts).toEqual({
+      reported: 1,
+      estimated: 1,
+      defaulted: 1,
+    });
+    expect(parsePlantQuery({ dataQuality: 'reported,guessed' }).error).toBeTruthy();
+  });
+
+  it('serves the full raw record, source rows and generators for one plant', () => {
+    const dataset = buildPlantIndex(plants as never, 'v1', {
+      detailsByPlantId: new Map([
+        [
+          '1',
+          {
+            rawData: { statusDescription: 'Operating', commissioningYear: '1998' },
+            sourceRecords: { 'us-eia:1': { 'Plant Code': '1', 'Plant Name': 'Alpha' } },
+          },
+        ],
+      ]),
+      generatorsByPlantId: new Map([['1', [{ unitId: 'GT1', nameplateMW: 100 }]]]),
+    });
+
+    const detail = getPowerPlantDetail(dataset, '1');
+    expect(detail?.name).toBe('Alpha');
+    expect(detail?.rawData?.commissioningYear).toBe('1998');
+    expect(detail?.sourceRecords['us-eia:1']['Plant Name']).toBe('Alpha');
+    expect(detail?.generators).toEqual([{ unitId: 'GT1', nameplateMW: 100 }]);
+
+    expect(getPowerPlantDetail(dataset, '2')).toMatchObject({ sourceRecords: {}, generators: [] });
+    expect(getPowerPlantDetail(dataset, 'missing')).toBeUndefined();
+  });
 });
@@ -1,5 +1,73 @@
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { createHash } from 'crypto';
+import RBush from 'rbush';
+import { getAdmin1Name } from '../../src/utils/admin1.js';
+import { normalizeCountryCode } from '../../src/utils/countries.js';
+import {
+  PLANT_STATUSES,
+  getLifecycleYear,
+  isOperatingInYear,
+  normalizePlantStatus,
+  type PlantStatus,
+} from '../../src/utils/plantStatus.js';
+import {
+  parseInfraProximityParams,
+  type InfraProximityFilter,
+  type NearestInfraLines,
+} from './infrastructureIndex.js';
+import {
+  getCapacityFactorStats,
+  getEiaGenerationHistory,
+  loadUsGenerationHistory,
+  toCapacityFactor,
+  type GenerationHistoryInventory,
+  type GenerationYear,
+} from './generationHistory.js';
+import { dedupePlants, loadDedupOverrides, type DedupOverrides, type DedupReport } from './plantDedup.js';
+import {
+  getGeneratorLifecycle,
+  getGeneratorTotals,
+  getUnlistedEiaPlants,
+  loadGeneratorInventory,
+  matchPlantGenerators,
+  type EiaPlantSites,
+  type Generator,
+  type GeneratorInventory,
+  type GeneratorSourceReport,
+} from './generators.js';
+import { enrichPlantsWithInfrastructure } from './plantEnrichment.js';
+import {
+  decodePlantSnapshot,
+  getPlantSnapshotLocation,
+  readPlantSnapshot,
+  readPlantSnapshotChecksum,
+} from './plantSnapshot.js';
+import {
+  collectSourcePlants,
+  loadPlantSources,
+  type LoadedPlantSource,
+  type PlantProvenance,
+  type PlantSourceReport,
+} from './plantSources.js';
+import {
+  distanceFromNear,
+  getNearBboxes,
+  getPolygonBbox,
+  intersectBboxes,
+  isPointInPolygonFilter,
+  parseNearParam,
+  parsePolygonFilter,
+  type NearFilter,
+  type PolygonFilter,
+} from './spatialFilters.js';
+
+/**
+ * Worst-case trust level of a plant's numbers: `defaulted` when any field was
+ * filled with a placeholder, `estimated` when any was modelled rather than
+ * reported, otherwise `reported`.
+ */
+export const DATA_QUALITY_LEVELS = ['reported', 'estimated', 'defaulted'] as const;
+
+export type DataQuality = (typeof DATA_QUALITY_LEVELS)[number];
 
 type PowerPlant = {
   id: string;
@@ -9,31 +77,100 @@ type PowerPlant = {
   source: string;
   coordinates: [number, number];
   country: string;
+  admin1?: string;
+  status: PlantStatus;
+  inServiceDate?: string;
+  retirementDate?: string;
+  /** Percent, for the latest year with generation data. */
   capacityFactor?: number | null;
+  /** Mean over every year of `generationHistory`. */
+  capacityFactorMean?: number;
+  /** Percentage points per year, when three or more years are known. */
+  capacityFactorTrend?: number;
   generation?: number;
   netSummerCapacity?: number;
   netWinterCapacity?: number;
+  /** Mean annual GWh over `generationHistory`. */
   historicalAvgGeneration?: number;
   capacityMW?: number;
   usedCapacity?: number;
   generationGWh?: number;
+  generationHistory?: GenerationYear[];
+  nearestFiberMiles?: number;
+  nearestHvLineMiles?: number;
+  nearestHvLineVoltage?: number;
+  nearestHvLineVoltClass?: string;
+  distanceMiles?: number;
+  nearestLineMiles?: number;
+  nearestLineId?: string;
+  provenance?: PlantProvenance;
+  dataQuality?: DataQuality;
+  generatorCount?: number;
   rawData?: Record<string, string>;
+  sourceRecords?: Record<string, Record<string, string>>;
 };
 
 export type PlantFilters = {
   bbox?: [number, number, number, number];
+  near?: NearFilter;
+  polygon?: PolygonFilter;
+  /**
+   * Answered from `nearestLinesByPlantId`, which only enriched builds have, so
+   * the route applies it with `annotateNearestInfra` after checking the layer
+   * was loaded, rather than `queryIndexedPlants`.
+   */
+  nearInfra?: InfraProximityFilter;
   sources?: string[];
   countries?: string[];
-  statuses?: string[];
+  /**
+   * ISO 3166-2 codes. Only narrows the countries they belong to, so
+   * `countries=US,CA&admin1=US-TX` keeps all of Canada but only Texas.
+   */
+  admin1?: string[];
+  statuses?: PlantStatus[];
+  /** Keeps plants generating at the end of this year, by their in-service and retirement dates. */
+  operatingInYear?: number;
+  dataQualities?: DataQuality[];
   minCapacity?: number;
   maxCapacity?: number;
   minCapacityFactor?: number;
   maxCapacityFactor?: number;
+  maxFiberMiles?: number;
+  minNearestVoltage?: number;
+};
+
+export const PLANT_SORT_FIELDS = [
+  'output',
+  'capacityFactor',
+  'name',
+  'generationGWh',
+  'excessCapacity',
+  'retirementDate',
+] as const;
+
+export type PlantSortField = (typeof PLANT_SORT_FIELDS)[number];
+
+export type SortOrder = 'asc' | 'desc';
+
+export type PlantSort = {
+  field: PlantSortField;
+  order: SortOrder;
+};
+
+/**
+ * Keyset position: the sort value and id of the last plant on the previous
+ * page. Unlike an offset it survives dataset rebuilds that reorder plants.
+ */
+export type PlantCursor = PlantSort & {
+  value: string | number | null;
+  id: string;
 };
 
 export type Pagination = {
   limit: number;
   offset: number;
+  sort?: PlantSort;
+  cursor?: PlantCursor;
 };
 
 export type PowerPlantPage = {
@@ -43,32 +180,154 @@ export type PowerPlantPage = {
     offset: number;
     total: number;
     hasMore: boolean;
+    nextCursor?: string;
   };
 };
 
+export const PLANT_RESPONSE_FORMATS = ['json', 'columnar'] as const;
+
+export type PlantResponseFormat = (typeof PLANT_RESPONSE_FORMATS)[number];
+
+/**
+ * A page of plants as parallel arrays the map can copy straight into typed
+ * arrays. `positions` interleaves longitude and latitude; `sourceIndex` and
+ * `countryIndex` point into this page's `sources` and `countries`. Unknown
+ * numbers are null.
+ */
+export type PowerPlantColumnarPage = {
+  format: 'columnar';
+  length: number;
+  sources: string[];
+  countries: string[];
+  ids: string[];
+  names: string[];
+  positions: number[];
+  output: number[];
+  sourceIndex: number[];
+  countryIndex: number[];
+  capacityFactor: Array<number | null>;
+  /** Mean MW over the year, from `historicalAvgGeneration` or else `generationGWh`. */
+  generationMW: Array<number | null>;
+  page: PowerPlantPage['page'];
+};
+
+export type ClusterOptions = {
+  zoom: number;
+};
+
+export type PowerPlantCluster = {
+  id: string;
+  coordinates: [number, number];
+  count: number;
+  totalOutput: number;
+  outputBySource: Record<string, number>;
+};
+
+export type PowerPlantClusterResponse = {
+  clusters: PowerPlantCluster[];
+  total: number;
+  zoom: number;
+  cellSizeDegrees: number;
+};
+
+export type Admin1Metadata = {
+  code: string;
+  name: string;
+  count: number;
+};
+
 export type CountryMetadata = {
   code: string;
   count: number;
   usedCapacity?: number;
+  /** Plants per state or province, for countries whose plants carry `admin1`. */
+  admin1?: Admin1Metadata[];
+};
+
+export type RetirementYearMetadata = {
+  year: number;
+  count: number;
+  capacity: number;
 };
 
 export type PowerPlantMetadata = {
+  version?: string;
+  builtAt?: string;
+  dataSources?: PlantSourceReport[];
   total: number;
   sources: string[];
   sourceCounts: Record<string, number>;
   countries: CountryMetadata[];
-  statuses: string[];
+  statuses: PlantStatus[];
+  statusCounts: Partial<Record<PlantStatus, number>>;
+  /** Capacity leaving service by retirement year, from this year on. */
+  upcomingRetirements: RetirementYearMetadata[];
+  dataQualityCounts: Record<DataQuality, number>;
   powerRange: {
     min: number;
     max: number;
   };
 };
 
+type PlantIndexItem = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  position: number;
+};
+
+/** The unabridged `rawData` and original source rows of one merged plant. */
+type PlantDetailRecord = {
+  rawData: Record<string, string>;
+  sourceRecords: Record<string, Record<string, string>>;
+  generationHistory?: GenerationYear[];
+};
+
+export type PowerPlantDetail = PowerPlant & {
+  sourceRecords: Record<string, Record<string, string>>;
+  generators: Generator[];
+};
+
+/**
+ * Unified dataset plus lookup structures built once per cache fill, so
+ * viewport and attribute queries only touch candidate plants.
+ * Buckets hold ascending positions into `plants`; `byCountrySource` is keyed
+ * by `${country}|${source}`.
+ */
+export type IndexedPlantDataset = {
+  /** Hash of the source file contents and loaded enrichment layers. */
+  version: string;
+  builtAt: string;
+  /** Which registered sources loaded, fell back or failed for this build, with their row counts. */
+  dataSources: PlantSourceReport[];
+  generatorSource?: GeneratorSourceReport;
+  /** Infrastructure layers that enriched this build; only snapshot builds are enriched. */
+  enrichment: { layers: string[]; complete: boolean };
+  /** Cross-source duplicate merges and near misses, for review via the dedup-report route. */
+  dedupReport: DedupReport;
+  /** Set when the dataset was loaded from a prebuilt snapshot rather than parsed from the sources. */
+  snapshotChecksum?: string;
+  /** EIA generator units, for plants that have any; served by the generators route. */
+  generatorsByPlantId: Map<string, Generator[]>;
+  detailsByPlantId: Map<string, PlantDetailRecord>;
+  /** Nearest line per infrastructure layer, for plants with one within range; empty unless enriched. */
+  nearestLinesByPlantId: Map<string, NearestInfraLines>;
+  plants: PowerPlant[];
+  tree: RBush<PlantIndexItem>;
+  byId: Map<string, number>;
+  bySource: Map<string, number[]>;
+  byCountry: Map<string, number[]>;
+  byCountrySource: Map<string, number[]>;
+};
+
 const CACHE_TTL_MS = 5 * 60 * 1000;
+// Roughly one cluster per 40px square on screen, matching supercluster's default radius.
+const CLUSTER_CELL_PIXELS = 40;
+const MAX_CLUSTER_ZOOM = 22;
 
 const RAW_FIELDS_TO_KEEP = [
   'technology',
-  'statusDescription',
   'City (Site Name)',
   'State / Province / Territory',
   'County',
@@ -79,7 +338,21 @@ const RAW_FIELDS_TO_KEEP = [
   'Plant URL',
 ] as const;
 
-let datasetCache: { data: PowerPlant[]; timestamp: number } | null = null;
+let datasetCache: {
+  data: IndexedPlantDataset;
+  timestamp: number;
+  sourceHash: string;
+} | null = null;
+
+/** Everything a build reads, plus the hash of their contents that the dataset cache is keyed by. */
+export type PlantDatasetInputs = {
+  sources: LoadedPlantSource[];
+  dedupOverrides: Awaited<ReturnType<typeof loadDedupOverrides>>;
+  generators: Awaited<ReturnType<typeof loadGeneratorInventory>>;
+  usGeneration: Awaited<ReturnType<typeof loadUsGenerationHistory>>;
+  sourceContents: string[];
+  sourceHash: string;
+};
 
 const toSafeNumber = (value: unknown): number | null => {
   if (typeof value === 'number' && Number.isFinite(value)) return value;
@@ -90,301 +363,31 @@ const toSafeNumber = (value: unknown): number | null => {
   return null;
 };
 
-const mapEnergySource = (source: string): string => {
-  const sourceMap: Record<string, string> = {
-    Coal: 'coal',
-    'Natural Gas': 'gas',
-    Nuclear: 'nuclear',
-    Hydroelectric: 'hydro',
-    Wind: 'wind',
-    Solar: 'solar',
-    Petroleum: 'oil',
-    Biomass: 'biomass',
-    Geothermal: 'geothermal',
-    Tidal: 'tidal',
-    'Pumped-Storage Hydroelectric': 'hydro',
-    Gas: 'gas',
-    Diesel: 'diesel',
-    Oil: 'oil',
-    Waste: 'waste',
-    Biofuel: 'biofuel',
-    Battery: 'battery',
-    'Pumped Storage': 'hydro',
-    'Run-of-river': 'hydro',
-    'Conventional Hydroelectric': 'hydro',
-    'Onshore Wind': 'wind',
-    'Offshore Wind': 'wind',
-    Photovoltaic: 'solar',
-    'Concentrated Solar': 'solar',
-    'Combined Cycle': 'gas',
-    'Combustion Turbine': 'gas',
-    'Steam Turbine': 'coal',
-    'Internal Combustion': 'diesel',
-    'Landfill Gas': 'biomass',
-    'Municipal Solid Waste': 'waste',
-    Wood: 'biomass',
-    'Other Biomass': 'biomass',
-    'Other Gases': 'gas',
-  };
-
-  const normalized = source.toLowerCase().trim();
-  if (sourceMap[source]) return sourceMap[source];
-
-  const normalizedMatch = Object.keys(sourceMap).find(
-    (key) => key.toLowerCase().trim() === normalized
-  );
-
-  if (normalizedMatch) return sourceMap[normalizedMatch];
-  return 'other';
-};
-
-const parseCsvRow = (line: string): string[] => {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
-    }
+const unionInto = <T>(target: T[], values: T[]) => {
+  for (const value of values) {
+    if (!target.includes(value)) target.push(value);
   }
-
-  result.push(current);
-  return result;
 };
 
-const parsePowerPlantCSV = (csvText: string, type: 'large' | 'renewable' | 'kazakhstan'): PowerPlant[] => {
-  const lines = csvText.split('\n');
-  const headers = lines[0].split(',').map((h) => h.trim().replace(/^"|"$/g, ''));
-  const plants: PowerPlant[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    const row = parseCsvRow(line);
-    if (row.length < headers.length) continue;
-
-    const entry: Record<string, string> = {};
-    headers.forEach((header, index) => {
-      entry[header] = row[index] ? row[index].trim().replace(/^"|"$/g, '') : '';
-    });
-
-    const latitude = parseFloat(entry.Latitude || '0');
-    const longitude = parseFloat(entry.Longitude || '0');
-    const capacity = parseFloat((entry['Total Capacity (MW)'] || '0').replace(/,/g, '')) || 0;
-
-    const source =
-      type === 'large' || type === 'kazakhstan'
-        ? mapEnergySource(entry['Primary Energy Source'] || 'Other')
-        : mapEnergySource(entry['Primary Renewable Energy Source'] || 'Other');
-
-    let country = 'US';
-    if (entry.Country === 'Canada') country = 'CA';
-    else if (entry.Country === 'Kazakhstan') country = 'KZ';
-
-    if ((type === 'large' || type === 'renewable') && country !== 'CA') continue;
-    if (isNaN(latitude) || isNaN(longitude) || capacity <= 0) continue;
-
-    plants.push({
-      id: `plant-${type}-${i}`,
-      name: entry['Facility Name'] || 'Unknown Facility',
-      output: capacity,
-      outputDisplay: `${capacity.toFixed(1)} MW`,
-      source,
-      coordinates: [longitude, latitude],
-      country,
-      capacityFactor: 100,
-      rawData: entry,
-    });
+const mergeProvenance = (existing: PowerPlant, plant: PowerPlant) => {
+  if (plant.sourceRecords) {
+    existing.sourceRecords = { ...existing.sourceRecords, ...plant.sourceRecords };
   }
-
-  return plants;
-};
-
-const mapEnergySourceFromFuelTypes = (fuelTypes: string): string => {
-  const normalized = fuelTypes.toLowerCase();
-  if (!normalized) return 'other';
-
-  if (normalized.includes('natural gas') || normalized.includes(' gas')) return 'gas';
-  if (normalized.includes('coal')) return 'coal';
-  if (normalized.includes('nuclear')) return 'nuclear';
-  if (normalized.includes('hydro') || normalized.includes('water')) return 'hydro';
-  if (normalized.includes('wind')) return 'wind';
-  if (normalized.includes('solar') || normalized.includes('photovoltaic')) return 'solar';
-  if (normalized.includes('petroleum') || normalized.includes('oil')) return 'oil';
-  if (normalized.includes('biomass') || normalized.includes('biofuel')) return 'biomass';
-  if (normalized.includes('geothermal')) return 'geothermal';
-  if (normalized.includes('battery')) return 'battery';
-  if (normalized.includes('diesel')) return 'diesel';
-  if (normalized.includes('waste')) return 'waste';
-
-  // Fall back to the generic mapper for exact/simple matches.
-  return mapEnergySource(fuelTypes);
-};
-
-const parseUsEiaPlantsCsv = (csvText: string): PowerPlant[] => {
-  const lines = csvText.split('\n');
-  if (lines.length < 2) return [];
-
-  const headers = parseCsvRow(lines[0]).map((h) => h.trim().replace(/^"|"$/g, ''));
-  const plants: PowerPlant[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const row = parseCsvRow(line);
-    if (row.length < headers.length) continue;
-
-    const entry: Record<string, string> = {};
-    headers.forEach((header, index) => {
-      entry[header] = row[index] ? row[index].trim().replace(/^"|"$/g, '') : '';
-    });
-
-    const latitude = parseFloat(entry['Plant Latitude'] || '0');
-    const longitude = parseFloat(entry['Plant Longitude'] || '0');
-    const nameplateCapacity =
-      parseFloat((entry['Operating Total Nameplate Capacity'] || '0').replace(/,/g, '')) || 0;
-
-    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || nameplateCapacity <= 0) {
-      continue;
-    }
-
-    let annualGenerationMWh = 0;
-    const annualGenerationFormatted = entry['Annual Generation (Formatted)'] || '';
-    const formattedMatch = annualGenerationFormatted.match(/([\d.]+)\s*(GWh|MWh)/i);
-    if (formattedMatch) {
-      const value = parseFloat(formattedMatch[1]);
-      const unit = formattedMatch[2].toUpperCase();
-      if (Number.isFinite(value)) {
-        annualGenerationMWh = unit === 'GWH' ? value * 1000 : value;
-      }
-    }
-    if (annualGenerationMWh === 0) {
-      annualGenerationMWh = parseFloat((entry['Annual Generation'] || '0').replace(/,/g, '')) || 0;
-    }
-
-    const usedCapacity = annualGenerationMWh > 0 ? annualGenerationMWh / 8760 : 0;
-    const capacityFactor =
-      nameplateCapacity > 0 && usedCapacity > 0 ? (usedCapacity / nameplateCapacity) * 100 : null;
-
-    plants.push({
-      id: `us-eia-${entry['Plant Code'] || i}`,
-      name: entry['Plant Name'] || 'Unknown Plant',
-      output: nameplateCapacity,
-      outputDisplay: `${nameplateCapacity.toFixed(1)} MW`,
-      source: mapEnergySourceFromFuelTypes(entry['Fuel Types'] || ''),
-      coordinates: [longitude, latitude],
-      country: 'US',
-      capacityFactor,
-      capacityMW: nameplateCapacity,
-      usedCapacity: usedCapacity > 0 ? usedCapacity : undefined,
-      generationGWh: annualGenerationMWh > 0 ? annualGenerationMWh / 1000 : undefined,
-      rawData: {
-        technology: entry['Fuel Types'] || 'Unknown',
-        statusDescription: 'Operating',
-        'City (Site Name)': entry['Plant City'] || '',
-        'State / Province / Territory': entry['Plant State'] || '',
-        County: entry['Plant County'] || '',
-        'Owner Name (Company)': entry['Utility Name'] || '',
-        'Operator Name': entry['Utility Name'] || '',
-        Address: entry['Plant Address'] || '',
-        'Zip Code / Postal Code': entry['Plant Zip'] || '',
-        'Plant URL': entry['Plant URL'] || '',
-      },
-    });
+  if (!plant.provenance) return;
+  if (!existing.provenance) {
+    existing.provenance = plant.provenance;
+    return;
   }
-
-  return plants;
+  unionInto(existing.provenance.datasets, plant.provenance.datasets);
+  unionInto(existing.provenance.recordIds, plant.provenance.recordIds);
+  unionInto(existing.provenance.estimatedFields, plant.provenance.estimatedFields);
+  unionInto(existing.provenance.defaultedFields, plant.provenance.defaultedFields);
 };
 
-const mapCountryCode = (countryCode: string): string => {
-  const explicitMap: Record<string, string> = {
-    KAZ: 'KZ',
-    ARE: 'AE',
-    IND: 'IN',
-    KGZ: 'KG',
-    CAN: 'CA',
-    USA: 'US',
-  };
-
-  return explicitMap[countryCode] || countryCode;
-};
-
-const parseGlobalPowerPlantCSV = (csvText: string): PowerPlant[] => {
-  const lines = csvText.split('\n');
-  const headers = lines[0].split(',').map((h) => h.trim().replace(/^"|"$/g, ''));
-  const plants: PowerPlant[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const row = parseCsvRow(line);
-    if (row.length < headers.length) continue;
-
-    const entry: Record<string, string> = {};
-    headers.forEach((header, index) => {
-      entry[header] = row[index] ? row[index].trim().replace(/^"|"$/g, '') : '';
-    });
-
-    if (entry.country === 'country' || !entry.country) continue;
-
-    const latitude = parseFloat(entry.latitude || '0');
-    const longitude = parseFloat(entry.longitude || '0');
-    if (latitude === 0 && longitude === 0) continue;
-
-    const capacity = parseFloat((entry.capacity_mw || '0').replace(/,/g, '')) || 0;
-    const generation =
-      parseFloat(
-        (entry.generation_gwh_2019 || entry.generation_gwh_2017 || entry.estimated_generation_gwh_2017 || '0').replace(
-          /,/g,
-          ''
-        )
-      ) || 0;
-
-    const usedCapacity = generation > 0 ? (generation * 1000) / 8760 : 0;
-    const capacityFactor = capacity > 0 && usedCapacity > 0 ? (usedCapacity / capacity) * 100 : null;
-    const source = mapEnergySource(entry.primary_fuel || 'Other');
-    const countryCode = mapCountryCode(entry.country);
-
-    plants.push({
-      id: `global-${entry.country.toLowerCase()}-${entry.gppd_idnr || i}`,
-      name: entry.name || 'Unknown Plant',
-      output: capacity,
-      outputDisplay: `${capacity.toFixed(1)} MW`,
-      source,
-      coordinates: [longitude, latitude],
-      country: countryCode,
-      capacityMW: capacity,
-      usedCapacity,
-      generationGWh: generation,
-      capacityFactor,
-      rawData: {
-        usedCapacity: usedCapacity.toString(),
-        generation: generation.toString(),
-        primaryFuel: entry.primary_fuel,
-        otherFuels: [entry.other_fuel1, entry.other_fuel2, entry.other_fuel3].filter(Boolean).join(', '),
-        commissioningYear: entry.commissioning_year,
-        owner: entry.owner,
-        source: entry.source,
-        url: entry.url,
-      },
-    });
-  }
-
-  return plants;
+export const getDataQuality = (provenance: PlantProvenance | undefined): DataQuality => {
+  if (provenance?.defaultedFields.length) return 'defaulted';
+  if (provenance?.estimatedFields.length) return 'estimated';
+  return 'reported';
 };
 
 const aggregatePowerPlants = (plants: PowerPlant[]): PowerPlant[] => {
@@ -393,7 +396,10 @@ const aggregatePowerPlants = (plants: PowerPlant[]): PowerPlant[] => {
   for (const plant of plants) {
     if (!plant.coordinates || plant.coordinates.length !== 2) continue;
 
-    const key = `${plant.name.toLowerCase()}-${plant.coordinates[0].toFixed(4)}-${plant.coordinates[1].toFixed(4)}-${plant.country}`;
+    // Exact matches within one dataset are units of the same plant and are summed;
+    // the same plant listed by two datasets is left to `dedupePlants`.
+    const dataset = plant.provenance?.datasets[0] ?? '';
+    const key = `${dataset}-${plant.name.toLowerCase()}-${plant.coordinates[0].toFixed(4)}-${plant.coordinates[1].toFixed(4)}-${plant.country}`;
 
     if (plantMap.has(key)) {
       const existing = plantMap.get(key)!;
@@ -423,6 +429,9 @@ const aggregatePowerPlants = (plants: PowerPlant[]): PowerPlant[] => {
       if (existing.rawData && plant.rawData) {
         existing.rawData['Total Capacity (MW)'] = existing.output.toString();
       }
+
+      // A blended value is only as trustworthy as its weakest input.
+      mergeProvenance(existing, plant);
     } else {
       plantMap.set(key, plant);
     }
@@ -431,67 +440,6 @@ const aggregatePowerPlants = (plants: PowerPlant[]): PowerPlant[] => {
   return Array.from(plantMap.values());
 };
 
-const readDataFile = async (filename: string): Promise<string> => {
-  const filePath = path.join(process.cwd(), 'data', filename);
-  return fs.readFile(filePath, 'utf8');
-};
-
-const fetchTextWithTimeout = async (url: string, timeoutMs: number): Promise<string> => {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const response = await fetch(url, { signal: controller.signal });
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-    return response.text();
-  } finally {
-    clearTimeout(timeoutId);
-  }
-};
-
-const loadGlobalPlantDatabaseCsv = async (): Promise<string> => {
-  const globalDbS3Url = process.env.GLOBAL_POWER_PLANT_DB_S3_URL;
-
-  if (globalDbS3Url) {
-    try {
-      return await fetchTextWithTimeout(globalDbS3Url, 30_000);
-    } catch (error) {
-      console.warn('Failed to load global power DB from S3, falling back to local file:', error);
-    }
-  }
-
-  return readDataFile('global_power_plant_database.csv');
-};
-
-const loadUsEiaPlantCsv = async (): Promise<string> => {
-  const eiaCsvS3Url = process.env.US_EIA_PLANTS_CSV_S3_URL;
-
-  if (eiaCsvS3Url) {
-    try {
-      return await fetchTextWithTimeout(eiaCsvS3Url, 30_000);
-    } catch (error) {
-      console.warn('Failed to load US EIA plant CSV from S3, falling back to local file:', error);
-    }
-  }
-
-  const localCandidates = [
-    'eia-plants-export-2026-02-18 09_46_12.csv',
-    'eia-plants-export-2026-02-18+09_46_12.csv',
-  ];
-
-  for (const filename of localCandidates) {
-    try {
-      return await readDataFile(filename);
-    } catch {
-      // Try next local candidate.
-    }
-  }
-
-  throw new Error('US EIA plant CSV unavailable. Set US_EIA_PLANTS_CSV_S3_URL or add a local data file.');
-};
-
 const pickRawFields = (rawData?: Record<string, string>): Record<string, string> | undefined => {
   if (!rawData) return undefined;
 
@@ -514,7 +462,13 @@ const sanitizePlant = (plant: PowerPlant): PowerPlant => ({
   source: plant.source,
   coordinates: plant.coordinates,
   country: plant.country,
+  admin1: plant.admin1,
+  status: plant.status,
+  inServiceDate: plant.inServiceDate,
+  retirementDate: plant.retirementDate,
   capacityFactor: plant.capacityFactor ?? null,
+  capacityFactorMean: plant.capacityFactorMean,
+  capacityFactorTrend: plant.capacityFactorTrend,
   generation: plant.generation,
   historicalAvgGeneration: plant.historicalAvgGeneration,
   netSummerCapacity: plant.netSummerCapacity,
@@ -522,46 +476,376 @@ const sanitizePlant = (plant: PowerPlant): PowerPlant => ({
   capacityMW: plant.capacityMW,
   usedCapacity: plant.usedCapacity,
   generationGWh: plant.generationGWh,
+  generatorCount: plant.generatorCount,
+  provenance: plant.provenance,
+  dataQuality: getDataQuality(plant.provenance),
   rawData: pickRawFields(plant.rawData),
 });
 
-const buildUnifiedPlantDataset = async (): Promise<PowerPlant[]> => {
-  const [largePlantsCsv, renewablePlantsCsv, globalPlantsCsv, usEiaPlantsCsv] = await Promise.all([
-    readDataFile('Power_Plants,_100_MW_or_more.csv'),
-    readDataFile('Renewable_Energy_Power_Plants,_1_MW_or_more.csv'),
-    loadGlobalPlantDatabaseCsv(),
-    loadUsEiaPlantCsv(),
+export const computeDatasetVersion = (sourceContents: string[]): string => {
+  const hash = createHash('sha256');
+  for (const content of sourceContents) {
+    // Length-prefix each source so moving bytes between files changes the hash.
+    hash.update(`${content.length}:`);
+    hash.update(content);
+  }
+  return hash.digest('hex').slice(0, 16);
+};
+
+// Source IDs are hashed too, so an optional source dropping out changes the version.
+const getSourceContents = (sources: LoadedPlantSource[]): string[] =>
+  sources.map((source) => `${source.definition.id}\n${source.contentHash}`);
+
+// Only fills summer/winter ratings that the plant sources did not provide. Unit
+// statuses and dates replace the plant lists' "operating", which is all they know.
+const applyGeneratorUnits = (plants: PowerPlant[], generatorsByPlantId: Map<string, Generator[]>) => {
+  for (const plant of plants) {
+    const generators = generatorsByPlantId.get(plant.id);
+    if (!generators) continue;
+
+    const totals = getGeneratorTotals(generators);
+    plant.generatorCount = generators.length;
+    plant.netSummerCapacity ??= totals.summerMW;
+    plant.netWinterCapacity ??= totals.winterMW;
+
+    const lifecycle = getGeneratorLifecycle(generators);
+    plant.status = lifecycle.status ?? plant.status;
+    plant.inServiceDate = lifecycle.inServiceDate ?? plant.inServiceDate;
+    plant.retirementDate = lifecycle.retirementDate ?? plant.retirementDate;
+  }
+};
+
+const roundTo = (value: number, digits: number): number => Number(value.toFixed(digits));
+
+// An EIA-923 series replaces the single "Annual Generation" of the plant export.
+// Capacity factors use the plant's current capacity for every year.
+const applyGenerationHistory = (plants: PowerPlant[], usHistory: GenerationHistoryInventory) => {
+  for (const plant of plants) {
+    const eiaHistory = getEiaGenerationHistory(plant, usHistory);
+    if (eiaHistory) {
+      plant.generationHistory = eiaHistory;
+      const latest = eiaHistory[eiaHistory.length - 1];
+      if (latest.gwh > 0) {
+        plant.generationGWh = latest.gwh;
+        plant.usedCapacity = (latest.gwh * 1000) / 8760;
+        plant.capacityFactor = roundTo(toCapacityFactor(latest.gwh, plant.output), 2);
+      }
+    }
+
+    const history = plant.generationHistory;
+    const stats = history && getCapacityFactorStats(history, plant.output);
+    if (!history || !stats) continue;
+
+    plant.historicalAvgGeneration = roundTo(history.reduce((total, year) => total + year.gwh, 0) / history.length, 3);
+    plant.capacityFactorMean = roundTo(stats.mean, 2);
+    plant.capacityFactorTrend = stats.trend === undefined ? undefined : roundTo(stats.trend, 2);
+  }
+};
+
+const buildUnifiedPlantDataset = async ({
+  sources,
+  dedupOverrides,
+  generatorInventory,
+  eiaPlantSites,
+  usGenerationHistory,
+  enrich,
+}: {
+  sources: LoadedPlantSource[];
+  dedupOverrides: DedupOverrides;
+  generatorInventory: GeneratorInventory;
+  eiaPlantSites: EiaPlantSites;
+  usGenerationHistory: GenerationHistoryInventory;
+  enrich: boolean;
+}) => {
+  const sourcePlants = collectSourcePlants(sources);
+  const aggregated = aggregatePowerPlants([
+    ...sourcePlants,
+    ...getUnlistedEiaPlants(generatorInventory, eiaPlantSites, sourcePlants),
   ]);
+  const { plants: merged, report: dedupReport } = dedupePlants(aggregated, dedupOverrides);
+  const generatorsByPlantId = matchPlantGenerators(merged, generatorInventory);
+  applyGeneratorUnits(merged, generatorsByPlantId);
+  applyGenerationHistory(merged, usGenerationHistory);
+
+  // List responses only carry RAW_FIELDS_TO_KEEP; the detail route serves the rest.
+  const detailsByPlantId = new Map<string, PlantDetailRecord>();
+  for (const plant of merged) {
+    detailsByPlantId.set(plant.id, {
+      rawData: plant.rawData ?? {},
+      sourceRecords: plant.sourceRecords ?? {},
+      generationHistory: plant.generationHistory,
+    });
+  }
+
+  const sanitized = merged.map(sanitizePlant);
+  const enriched = enrich
+    ? await enrichPlantsWithInfrastructure(sanitized)
+    : { plants: sanitized, nearestLinesByPlantId: new Map(), loadedLayers: [], enrichmentComplete: false };
+  return { ...enriched, dedupReport, generatorsByPlantId, detailsByPlantId };
+};
+
+const getCountrySourceKey = (country: string, source: string): string => `${country}|${source}`;
+
+const addToBucket = (buckets: Map<string, number[]>, key: string, position: number) => {
+  const bucket = buckets.get(key);
+  if (bucket) {
+    bucket.push(position);
+  } else {
+    buckets.set(key, [position]);
+  }
+};
+
+export const buildPlantIndex = (
+  plants: PowerPlant[],
+  version = 'unversioned',
+  {
+    dataSources = [],
+    generatorSource,
+    enrichment = { layers: [], complete: false },
+    dedupReport,
+    generatorsByPlantId = new Map(),
+    detailsByPlantId = new Map(),
+    nearestLinesByPlantId = new Map(),
+    builtAt = new Date().toISOString(),
+    snapshotChecksum,
+    tree: prebuiltTree,
+  }: Partial<
+    Pick<
+      IndexedPlantDataset,
+      | 'dataSources'
+      | 'generatorSource'
+      | 'enrichment'
+      | 'dedupReport'
+      | 'generatorsByPlantId'
+      | 'detailsByPlantId'
+      | 'nearestLinesByPlantId'
+      | 'builtAt'
+      | 'snapshotChecksum'
+      | 'tree'
+    >
+  > = {}
+): IndexedPlantDataset => {
+  const items: PlantIndexItem[] = [];
+  const byId = new Map<string, number>();
+  const bySource = new Map<string, number[]>();
+  const byCountry = new Map<string, number[]>();
+  const byCountrySource = new Map<string, number[]>();
+
+  plants.forEach((plant, position) => {
+    const [lon, lat] = plant.coordinates;
+    items.push({ minX: lon, minY: lat, maxX: lon, maxY: lat, position });
+    byId.set(plant.id, position);
+    addToBucket(bySource, plant.source, position);
+    addToBucket(byCountry, plant.country, position);
+    addToBucket(byCountrySource, getCountrySourceKey(plant.country, plant.source), position);
+  });
 
-  const canadaLarge = parsePowerPlantCSV(largePlantsCsv, 'large');
-  const canadaRenewable = parsePowerPlantCSV(renewablePlantsCsv, 'renewable');
-  const usEiaPlants = parseUsEiaPlantsCsv(usEiaPlantsCsv);
+  // A snapshot carries its tree, which must index the same plant positions.
+  const tree = prebuiltTree ?? new RBush<PlantIndexItem>().load(items);
 
-  let globalPlants = parseGlobalPowerPlantCSV(globalPlantsCsv);
-  globalPlants = globalPlants.filter((plant) => plant.country !== 'CA' && plant.country !== 'US');
+  return {
+    version,
+    builtAt,
+    dataSources,
+    generatorSource,
+    enrichment,
+    dedupReport: dedupReport ?? { merged: 0, decisions: [], unresolvedPins: [] },
+    snapshotChecksum,
+    generatorsByPlantId,
+    detailsByPlantId,
+    nearestLinesByPlantId,
+    plants,
+    tree,
+    byId,
+    bySource,
+    byCountry,
+    byCountrySource,
+  };
+};
 
-  const merged = aggregatePowerPlants([
-    ...canadaLarge,
-    ...canadaRenewable,
-    ...globalPlants,
-    ...usEiaPlants,
+/** Loads the plant sources and the files that refine them, as a build on the fly or the snapshot script does. */
+export const loadPlantDatasetInputs = async (): Promise<PlantDatasetInputs> => {
+  const [sources, dedupOverrides, generators, usGeneration] = await Promise.all([
+    loadPlantSources(),
+    loadDedupOverrides(),
+    loadGeneratorInventory(),
+    loadUsGenerationHistory(),
   ]);
+  const sourceContents = [
+    ...getSourceContents(sources),
+    dedupOverrides.content,
+    generators.contentHash,
+    usGeneration.contentHash,
+  ];
+  return {
+    sources,
+    dedupOverrides,
+    generators,
+    usGeneration,
+    sourceContents,
+    sourceHash: computeDatasetVersion(sourceContents),
+  };
+};
+
+/**
+ * Builds the dataset from loaded inputs. Infrastructure enrichment only runs
+ * with `enrich`, which the snapshot script sets; builds on the API's request
+ * path leave the nearest-infrastructure fields unset.
+ */
+export const buildIndexedPlantDataset = async (
+  inputs: PlantDatasetInputs,
+  { enrich = false }: { enrich?: boolean } = {}
+): Promise<IndexedPlantDataset> => {
+  const { sources, dedupOverrides, generators, usGeneration, sourceContents } = inputs;
+  const {
+    plants,
+    nearestLinesByPlantId,
+    loadedLayers,
+    enrichmentComplete,
+    dedupReport,
+    generatorsByPlantId,
+    detailsByPlantId,
+  } = await buildUnifiedPlantDataset({
+    sources,
+    dedupOverrides: dedupOverrides.overrides,
+    generatorInventory: generators.inventory,
+    eiaPlantSites: generators.sites,
+    usGenerationHistory: usGeneration.history,
+    enrich,
+  });
+  if (dedupOverrides.error) dedupReport.overridesError = dedupOverrides.error;
+  // Enrichment layers are part of the version so a later successful enrichment invalidates ETags.
+  const version = computeDatasetVersion([...sourceContents, loadedLayers.join(',')]);
+  return buildPlantIndex(plants, version, {
+    dataSources: sources.map((source) => source.report),
+    generatorSource: generators.report,
+    enrichment: { layers: loadedLayers, complete: enrichmentComplete },
+    dedupReport,
+    generatorsByPlantId,
+    detailsByPlantId,
+    nearestLinesByPlantId,
+  });
+};
+
+// A snapshot written by scripts/build-plant-snapshot.ts is served as is, and
+// only re-read when its checksum changes. Null when there is no usable snapshot.
+const loadSnapshotDataset = async (now: number): Promise<IndexedPlantDataset | null> => {
+  const location = getPlantSnapshotLocation();
+  const checksum = await readPlantSnapshotChecksum(location);
+  if (!checksum) return null;
+
+  if (datasetCache?.data.snapshotChecksum === checksum) {
+    datasetCache.timestamp = now;
+    return datasetCache.data;
+  }
+
+  const loaded = await readPlantSnapshot(location, checksum);
+  if (!loaded) return null;
 
-  return merged.map(sanitizePlant);
+  const { plants, version, ...rest } = decodePlantSnapshot(loaded.snapshot);
+  const data = buildPlantIndex(plants, version, { ...rest, snapshotChecksum: loaded.checksum });
+  datasetCache = { data, timestamp: now, sourceHash: loaded.snapshot.sourceHash };
+  return data;
 };
 
-export const getUnifiedPowerPlantDataset = async (): Promise<PowerPlant[]> => {
+export const getIndexedPowerPlantDataset = async (): Promise<IndexedPlantDataset> => {
   const now = Date.now();
 
   if (datasetCache && now - datasetCache.timestamp < CACHE_TTL_MS) {
     return datasetCache.data;
   }
 
-  const data = await buildUnifiedPlantDataset();
-  datasetCache = { data, timestamp: now };
+  const snapshotData = await loadSnapshotDataset(now);
+  if (snapshotData) return snapshotData;
+
+  const inputs = await loadPlantDatasetInputs();
+
+  // Unchanged sources keep the existing build, so its version and builtAt stay stable.
+  if (datasetCache && datasetCache.sourceHash === inputs.sourceHash) {
+    datasetCache.timestamp = now;
+    return datasetCache.data;
+  }
+
+  const data = await buildIndexedPlantDataset(inputs);
+  datasetCache = { data, timestamp: now, sourceHash: inputs.sourceHash };
   return data;
 };
 
+export const getPlantById = (dataset: IndexedPlantDataset, id: string): PowerPlant | undefined => {
+  const position = dataset.byId.get(id);
+  return position === undefined ? undefined : dataset.plants[position];
+};
+
+/**
+ * A plant as served in list responses, plus its full `rawData`, the original
+ * row from every merged source and its generator units.
+ */
+export const getPowerPlantDetail = (dataset: IndexedPlantDataset, id: string): PowerPlantDetail | undefined => {
+  const plant = getPlantById(dataset, id);
+  if (!plant) return undefined;
+
+  const details = dataset.detailsByPlantId.get(id);
+  return {
+    ...plant,
+    rawData: details?.rawData ?? plant.rawData,
+    sourceRecords: details?.sourceRecords ?? {},
+    generationHistory: details?.generationHistory,
+    generators: dataset.generatorsByPlantId.get(id) ?? [],
+  };
+};
+
+export type IngestionReport = {
+  /** `degraded` when a source fell back or failed, or enrichment is incomplete; `issues` says which. */
+  status: 'ok' | 'degraded';
+  issues: string[];
+  version: string;
+  builtAt: string;
+  plantCount: number;
+  sources: PlantSourceReport[];
+  generators?: GeneratorSourceReport;
+  enrichment: IndexedPlantDataset['enrichment'];
+  dedup: Pick<DedupReport, 'merged' | 'overridesError'> & { unresolvedPins: number };
+  /** Checksum of the snapshot being served; absent when the dataset was parsed from the sources. */
+  snapshotChecksum?: string;
+};
+
+export const getIngestionReport = (dataset: IndexedPlantDataset): IngestionReport => {
+  const issues: string[] = [];
+  for (const source of dataset.dataSources) {
+    if (source.status === 'failed') {
+      issues.push(`${source.label} failed to load`);
+    } else if (source.status === 'fallback') {
+      issues.push(`${source.label} fell back to ${source.location}`);
+    }
+  }
+  if (dataset.generatorSource?.status === 'fallback') {
+    issues.push(`${dataset.generatorSource.label} fell back to ${dataset.generatorSource.location}`);
+  }
+  if (!dataset.enrichment.complete) {
+    issues.push(`Infrastructure enrichment incomplete (loaded: ${dataset.enrichment.layers.join(', ') || 'none'})`);
+  }
+
+  return {
+    status: issues.length > 0 ? 'degraded' : 'ok',
+    issues,
+    version: dataset.version,
+    builtAt: dataset.builtAt,
+    plantCount: dataset.plants.length,
+    sources: dataset.dataSources,
+    generators: dataset.generatorSource,
+    enrichment: dataset.enrichment,
+    dedup: {
+      merged: dataset.dedupReport.merged,
+      unresolvedPins: dataset.dedupReport.unresolvedPins.length,
+      overridesError: dataset.dedupReport.overridesError,
+    },
+    snapshotChecksum: dataset.snapshotChecksum,
+  };
+};
+
+export const getUnifiedPowerPlantDataset = async (): Promise<PowerPlant[]> =>
+  (await getIndexedPowerPlantDataset()).plants;
+
 const normalizeStringList = (value: string[] | undefined): Set<string> | null => {
   if (!value || value.length === 0) return null;
 
@@ -572,19 +856,20 @@ const normalizeStringList = (value: string[] | undefined): Set<string> | null =>
   return items.length > 0 ? new Set(items) : null;
 };
 
-const getPlantStatus = (plant: PowerPlant): string => plant.rawData?.statusDescription || 'N/A';
-
-export const applyPlantFilters = (plants: PowerPlant[], filters: PlantFilters): PowerPlant[] => {
+const createPlantPredicate = (filters: PlantFilters): ((plant: PowerPlant) => boolean) => {
   const sourceSet = normalizeStringList(filters.sources);
   const countrySet = normalizeStringList(filters.countries);
-  const statusSet = normalizeStringList(filters.statuses);
+  const admin1Set = normalizeStringList(filters.admin1);
+  const admin1Countries = admin1Set ? new Set(Array.from(admin1Set, (code) => code.slice(0, 2))) : null;
+  const statusSet = filters.statuses?.length ? new Set(filters.statuses) : null;
+  const dataQualitySet = filters.dataQualities?.length ? new Set(filters.dataQualities) : null;
 
   const minCapacity = filters.minCapacity ?? Number.NEGATIVE_INFINITY;
   const maxCapacity = filters.maxCapacity ?? Number.POSITIVE_INFINITY;
   const minCapacityFactor = filters.minCapacityFactor ?? Number.NEGATIVE_INFINITY;
   const maxCapacityFactor = filters.maxCapacityFactor ?? Number.POSITIVE_INFINITY;
 
-  return plants.filter((plant) => {
+  return (plant) => {
     const [lon, lat] = plant.coordinates;
 
     if (filters.bbox) {
@@ -594,6 +879,14 @@ export const applyPlantFilters = (plants: PowerPlant[], filters: PlantFilters):
       }
     }
 
+    if (filters.near && distanceFromNear(filters.near, plant.coordinates) > filters.near.radiusMiles) {
+      return false;
+    }
+
+    if (filters.polygon && !isPointInPolygonFilter(plant.coordinates, filters.polygon)) {
+      return false;
+    }
+
     if (sourceSet && !sourceSet.has(plant.source)) {
       return false;
     }
@@ -602,7 +895,19 @@ export const applyPlantFilters = (plants: PowerPlant[], filters: PlantFilters):
       return false;
     }
 
-    if (statusSet && !statusSet.has(getPlantStatus(plant))) {
+    if (admin1Countries?.has(plant.country) && !(plant.admin1 && admin1Set?.has(plant.admin1))) {
+      return false;
+    }
+
+    if (statusSet && !statusSet.has(plant.status)) {
+      return false;
+    }
+
+    if (filters.operatingInYear !== undefined && !isOperatingInYear(plant, filters.operatingInYear)) {
+      return false;
+    }
+
+    if (dataQualitySet && !dataQualitySet.has(plant.dataQuality ?? getDataQuality(plant.provenance))) {
       return false;
     }
 
@@ -619,17 +924,203 @@ export const applyPlantFilters = (plants: PowerPlant[], filters: PlantFilters):
       return false;
     }
 
+    // Plants without enrichment data can't be shown to meet these thresholds.
+    if (
+      filters.maxFiberMiles !== undefined &&
+      (plant.nearestFiberMiles === undefined || plant.nearestFiberMiles > filters.maxFiberMiles)
+    ) {
+      return false;
+    }
+
+    if (
+      filters.minNearestVoltage !== undefined &&
+      (plant.nearestHvLineVoltage === undefined || plant.nearestHvLineVoltage < filters.minNearestVoltage)
+    ) {
+      return false;
+    }
+
     return true;
-  });
+  };
+};
+
+// Copies rather than mutates, since plants are shared with the dataset cache.
+const withNearDistances = (plants: PowerPlant[], filters: PlantFilters): PowerPlant[] => {
+  const { near } = filters;
+  if (!near) return plants;
+  return plants.map((plant) => ({
+    ...plant,
+    distanceMiles: Number(distanceFromNear(near, plant.coordinates).toFixed(3)),
+  }));
+};
+
+// Every box the spatial filters allow; a radius across the antimeridian yields two.
+const getCandidateBboxes = (filters: PlantFilters): Array<[number, number, number, number]> | null => {
+  const constraints = [
+    filters.bbox ? [filters.bbox] : undefined,
+    filters.near ? getNearBboxes(filters.near) : undefined,
+    filters.polygon ? [getPolygonBbox(filters.polygon)] : undefined,
+  ].filter((bboxes): bboxes is Array<[number, number, number, number]> => bboxes !== undefined);
+
+  if (constraints.length === 0) return null;
+  return constraints.reduce((allowed, bboxes) =>
+    allowed.flatMap((bbox) => bboxes.map((other) => intersectBboxes(bbox, other)))
+  );
+};
+
+export const applyPlantFilters = (plants: PowerPlant[], filters: PlantFilters): PowerPlant[] =>
+  withNearDistances(plants.filter(createPlantPredicate(filters)), filters);
+
+const collectBucketPositions = (buckets: Map<string, number[]>, keys: Set<string>): number[] => {
+  const positions: number[] = [];
+  for (const key of keys) {
+    const bucket = buckets.get(key);
+    if (bucket) {
+      for (const position of bucket) positions.push(position);
+    }
+  }
+  return positions;
+};
+
+/**
+ * Positions of the plants `filters` could match: from the spatial index when a
+ * bbox, radius or polygon is given, otherwise from the source/country buckets.
+ * Null when nothing narrows the search and every plant is a candidate.
+ */
+export const getCandidatePositions = (dataset: IndexedPlantDataset, filters: PlantFilters): number[] | null => {
+  const candidateBboxes = getCandidateBboxes(filters);
+  if (candidateBboxes) {
+    // The boxes never overlap, so no plant is collected twice.
+    return candidateBboxes.flatMap(([minX, minY, maxX, maxY]) =>
+      dataset.tree.search({ minX, minY, maxX, maxY }).map((item) => item.position)
+    );
+  }
+
+  const sourceSet = normalizeStringList(filters.sources);
+  const countrySet = normalizeStringList(filters.countries);
+
+  if (sourceSet && countrySet) {
+    const pairKeys = new Set<string>();
+    for (const country of countrySet) {
+      for (const source of sourceSet) pairKeys.add(getCountrySourceKey(country, source));
+    }
+    return collectBucketPositions(dataset.byCountrySource, pairKeys);
+  }
+  if (sourceSet) return collectBucketPositions(dataset.bySource, sourceSet);
+  if (countrySet) return collectBucketPositions(dataset.byCountry, countrySet);
+  return null;
+};
+
+/**
+ * Same result (and order) as `applyPlantFilters`, but only the candidates from
+ * `getCandidatePositions` are run through the full predicate.
+ */
+export const queryIndexedPlants = (dataset: IndexedPlantDataset, filters: PlantFilters): PowerPlant[] => {
+  const positions = getCandidatePositions(dataset, filters);
+  const predicate = createPlantPredicate(filters);
+  if (!positions) {
+    return withNearDistances(dataset.plants.filter(predicate), filters);
+  }
+
+  // Preserve dataset order so offset pagination stays stable across requests.
+  positions.sort((a, b) => a - b);
+
+  const result: PowerPlant[] = [];
+  for (const position of positions) {
+    const plant = dataset.plants[position];
+    if (predicate(plant)) result.push(plant);
+  }
+  return withNearDistances(result, filters);
+};
+
+const getSortValue = (plant: PowerPlant, field: PlantSortField): string | number | null => {
+  switch (field) {
+    case 'output':
+      return plant.output;
+    case 'capacityFactor':
+      return plant.capacityFactor ?? null;
+    case 'name':
+      return plant.name;
+    case 'generationGWh':
+      return plant.generationGWh ?? null;
+    case 'excessCapacity':
+      return plant.usedCapacity !== undefined ? plant.output - plant.usedCapacity : null;
+    case 'retirementDate':
+      return plant.retirementDate ?? null;
+  }
+};
+
+// Missing values always sort last; ties break on id so the order is total.
+const compareSortKeys = (
+  a: { value: string | number | null; id: string },
+  b: { value: string | number | null; id: string },
+  order: SortOrder
+): number => {
+  if (a.value !== b.value) {
+    if (a.value === null) return 1;
+    if (b.value === null) return -1;
+    const result =
+      typeof a.value === 'string' && typeof b.value === 'string'
+        ? a.value.localeCompare(b.value)
+        : (a.value as number) - (b.value as number);
+    if (result !== 0) return order === 'asc' ? result : -result;
+  }
+
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? -1 : 1;
+};
+
+export const encodePlantCursor = (cursor: PlantCursor): string =>
+  Buffer.from(
+    JSON.stringify({ s: cursor.field, o: cursor.order, v: cursor.value, i: cursor.id })
+  ).toString('base64url');
+
+export const decodePlantCursor = (token: string): PlantCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (!PLANT_SORT_FIELDS.includes(decoded?.s)) return null;
+    if (decoded.o !== 'asc' && decoded.o !== 'desc') return null;
+    if (typeof decoded.i !== 'string') return null;
+    if (decoded.v !== null && typeof decoded.v !== 'string' && typeof decoded.v !== 'number') return null;
+    return { field: decoded.s, order: decoded.o, value: decoded.v, id: decoded.i };
+  } catch {
+    return null;
+  }
 };
 
 export const paginatePowerPlants = (
   plants: PowerPlant[],
   pagination: Pagination
 ): PowerPlantPage => {
-  const { limit, offset } = pagination;
+  const { limit, sort, cursor } = pagination;
   const total = plants.length;
-  const data = plants.slice(offset, offset + limit);
+
+  let ordered = plants;
+  let offset = pagination.offset;
+
+  if (sort) {
+    const keyed = plants.map((plant) => ({ plant, value: getSortValue(plant, sort.field), id: plant.id }));
+    keyed.sort((a, b) => compareSortKeys(a, b, sort.order));
+    ordered = keyed.map((entry) => entry.plant);
+
+    if (cursor) {
+      // First position strictly after the cursor key.
+      let low = 0;
+      let high = keyed.length;
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (compareSortKeys(keyed[mid], cursor, sort.order) <= 0) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+      offset = low;
+    }
+  }
+
+  const data = ordered.slice(offset, offset + limit);
+  const hasMore = offset + data.length < total;
+  const last = data[data.length - 1];
 
   return {
     data,
@@ -637,15 +1128,128 @@ export const paginatePowerPlants = (
       limit,
       offset,
       total,
-      hasMore: offset + data.length < total,
+      hasMore,
+      nextCursor:
+        sort && hasMore && last
+          ? encodePlantCursor({ ...sort, value: getSortValue(last, sort.field), id: last.id })
+          : undefined,
     },
   };
 };
 
-export const getPowerPlantMetadata = (plants: PowerPlant[]): PowerPlantMetadata => {
+const toDictionaryIndex = (dictionary: Map<string, number>, value: string): number => {
+  let index = dictionary.get(value);
+  if (index === undefined) {
+    index = dictionary.size;
+    dictionary.set(value, index);
+  }
+  return index;
+};
+
+export const toColumnarPlantPage = ({ data, page }: PowerPlantPage): PowerPlantColumnarPage => {
+  const sources = new Map<string, number>();
+  const countries = new Map<string, number>();
+  const columns: Omit<PowerPlantColumnarPage, 'format' | 'length' | 'sources' | 'countries' | 'page'> = {
+    ids: [],
+    names: [],
+    positions: [],
+    output: [],
+    sourceIndex: [],
+    countryIndex: [],
+    capacityFactor: [],
+    generationMW: [],
+  };
+
+  for (const plant of data) {
+    const gwh = plant.historicalAvgGeneration ?? plant.generationGWh;
+    columns.ids.push(plant.id);
+    columns.names.push(plant.name);
+    columns.positions.push(plant.coordinates[0], plant.coordinates[1]);
+    columns.output.push(plant.output);
+    columns.sourceIndex.push(toDictionaryIndex(sources, plant.source));
+    columns.countryIndex.push(toDictionaryIndex(countries, plant.country));
+    columns.capacityFactor.push(toSafeNumber(plant.capacityFactor));
+    columns.generationMW.push(gwh === undefined ? null : roundTo((gwh * 1000) / 8760, 3));
+  }
+
+  return {
+    format: 'columnar',
+    length: data.length,
+    sources: Array.from(sources.keys()),
+    countries: Array.from(countries.keys()),
+    ...columns,
+    page,
+  };
+};
+
+export const getClusterCellSizeDegrees = (zoom: number): number =>
+  (CLUSTER_CELL_PIXELS * 360) / (256 * 2 ** zoom);
+
+/**
+ * Aggregate plants into a lon/lat grid sized for the given zoom. Each cluster
+ * sits at the mean position of its plants rather than the cell center.
+ */
+export const clusterPowerPlants = (plants: PowerPlant[], zoom: number): PowerPlantClusterResponse => {
+  const cellSize = getClusterCellSizeDegrees(zoom);
+  const cells = new Map<string, { lonSum: number; latSum: number; cluster: PowerPlantCluster }>();
+
+  for (const plant of plants) {
+    const [lon, lat] = plant.coordinates;
+    const cellX = Math.floor((lon + 180) / cellSize);
+    const cellY = Math.floor((lat + 90) / cellSize);
+    const key = `${cellX}-${cellY}`;
+
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = {
+        lonSum: 0,
+        latSum: 0,
+        cluster: {
+          id: `cluster-${zoom}-${key}`,
+          coordinates: [0, 0],
+          count: 0,
+          totalOutput: 0,
+          outputBySource: {},
+        },
+      };
+      cells.set(key, cell);
+    }
+
+    cell.lonSum += lon;
+    cell.latSum += lat;
+    cell.cluster.count += 1;
+    cell.cluster.totalOutput += plant.output;
+    cell.cluster.outputBySource[plant.source] = (cell.cluster.outputBySource[plant.source] || 0) + plant.output;
+  }
+
+  const clusters: PowerPlantCluster[] = [];
+  for (const { lonSum, latSum, cluster } of cells.values()) {
+    cluster.coordinates = [lonSum / cluster.count, latSum / cluster.count];
+    cluster.totalOutput = Number(cluster.totalOutput.toFixed(1));
+    for (const source of Object.keys(cluster.outputBySource)) {
+      cluster.outputBySource[source] = Number(cluster.outputBySource[source].toFixed(1));
+    }
+    clusters.push(cluster);
+  }
+
+  return {
+    clusters,
+    total: plants.length,
+    zoom,
+    cellSizeDegrees: cellSize,
+  };
+};
+
+export const getPowerPlantMetadata = (
+  plants: PowerPlant[],
+  build?: Pick<IndexedPlantDataset, 'version' | 'builtAt' | 'dataSources'>
+): PowerPlantMetadata => {
   const sourceCounts: Record<string, number> = {};
-  const statusSet = new Set<string>();
-  const countryCounts = new Map<string, { count: number; usedCapacity: number }>();
+  const statusCounts: Partial<Record<PlantStatus, number>> = {};
+  const retirementsByYear = new Map<number, RetirementYearMetadata>();
+  const currentYear = new Date().getUTCFullYear();
+  const dataQualityCounts: Record<DataQuality, number> = { reported: 0, estimated: 0, defaulted: 0 };
+  const countryCounts = new Map<string, { count: number; usedCapacity: number; admin1: Map<string, number> }>();
 
   let min = Number.POSITIVE_INFINITY;
   let max = Number.NEGATIVE_INFINITY;
@@ -653,11 +1257,21 @@ export const getPowerPlantMetadata = (plants: PowerPlant[]): PowerPlantMetadata
   for (const plant of plants) {
     sourceCounts[plant.source] = (sourceCounts[plant.source] || 0) + 1;
 
-    const status = getPlantStatus(plant);
-    statusSet.add(status);
+    statusCounts[plant.status] = (statusCounts[plant.status] ?? 0) + 1;
+    const retirementYear = getLifecycleYear(plant.retirementDate);
+    if (retirementYear !== undefined && retirementYear >= currentYear && plant.status !== 'retired') {
+      const retirements = retirementsByYear.get(retirementYear) ?? { year: retirementYear, count: 0, capacity: 0 };
+      retirements.count += 1;
+      retirements.capacity += plant.output;
+      retirementsByYear.set(retirementYear, retirements);
+    }
+    dataQualityCounts[plant.dataQuality ?? getDataQuality(plant.provenance)] += 1;
 
-    const existing = countryCounts.get(plant.country) || { count: 0, usedCapacity: 0 };
+    const existing = countryCounts.get(plant.country) || { count: 0, usedCapacity: 0, admin1: new Map() };
     existing.count += 1;
+    if (plant.admin1) {
+      existing.admin1.set(plant.admin1, (existing.admin1.get(plant.admin1) ?? 0) + 1);
+    }
 
     const usedCapacity = toSafeNumber(plant.usedCapacity);
     if (usedCapacity !== null && plant.country !== 'CA') {
@@ -675,15 +1289,29 @@ export const getPowerPlantMetadata = (plants: PowerPlant[]): PowerPlantMetadata
       code,
       count: value.count,
       usedCapacity: value.usedCapacity > 0 ? Number(value.usedCapacity.toFixed(1)) : undefined,
+      admin1:
+        value.admin1.size > 0
+          ? Array.from(value.admin1, ([admin1, count]) => ({ code: admin1, name: getAdmin1Name(admin1), count })).sort(
+              (a, b) => a.name.localeCompare(b.name)
+            )
+          : undefined,
     }))
     .sort((a, b) => b.count - a.count);
 
   return {
+    version: build?.version,
+    builtAt: build?.builtAt,
+    dataSources: build?.dataSources,
     total: plants.length,
     sources: Object.keys(sourceCounts).sort(),
     sourceCounts,
     countries,
-    statuses: Array.from(statusSet).sort(),
+    statuses: PLANT_STATUSES.filter((status) => statusCounts[status] !== undefined),
+    statusCounts,
+    upcomingRetirements: Array.from(retirementsByYear.values())
+      .map((retirements) => ({ ...retirements, capacity: Number(retirements.capacity.toFixed(1)) }))
+      .sort((a, b) => a.year - b.year),
+    dataQualityCounts,
     powerRange: {
       min: Number.isFinite(min) ? min : 0,
       max: Number.isFinite(max) ? max : 0,
@@ -735,18 +1363,51 @@ export const parseBboxParam = (value: string | undefined): [number, number, numb
   return [minLon, minLat, maxLon, maxLat];
 };
 
-export const parsePlantQuery = (query: Record<string, string | string[] | undefined>): {
+const isTruthyQueryFlag = (value: string | undefined): boolean => value === 'true' || value === '1';
+
+const invalidPlantQuery = (error: string) => ({
+  filters: {},
+  pagination: { limit: 5000, offset: 0 },
+  format: 'json' as const,
+  error,
+});
+
+/**
+ * `body` is the parsed JSON body of a POST request; it may carry a `polygon`
+ * too large to fit in a query string.
+ */
+export const parsePlantQuery = (
+  query: Record<string, string | string[] | undefined>,
+  body?: unknown
+): {
   filters: PlantFilters;
   pagination: Pagination;
+  cluster?: ClusterOptions;
+  format: PlantResponseFormat;
   error?: string;
 } => {
   const bbox = parseBboxParam(getSingleQueryValue(query.bbox));
   if (getSingleQueryValue(query.bbox) && !bbox) {
-    return {
-      filters: {},
-      pagination: { limit: 5000, offset: 0 },
-      error: 'Invalid bbox query parameter. Expected format: minLon,minLat,maxLon,maxLat',
-    };
+    return invalidPlantQuery('Invalid bbox query parameter. Expected format: minLon,minLat,maxLon,maxLat');
+  }
+
+  const near = parseNearParam(getSingleQueryValue(query.near), getSingleQueryValue(query.radiusMiles));
+  if (near && 'error' in near) {
+    return invalidPlantQuery(near.error);
+  }
+
+  const nearInfra = parseInfraProximityParams(
+    getSingleQueryValue(query.nearInfra),
+    getSingleQueryValue(query.withinMiles)
+  );
+  if (nearInfra && 'error' in nearInfra) {
+    return invalidPlantQuery(nearInfra.error);
+  }
+
+  const bodyPolygon = (body as { polygon?: unknown } | undefined)?.polygon;
+  const polygon = parsePolygonFilter(bodyPolygon ?? getSingleQueryValue(query.polygon));
+  if (polygon && 'error' in polygon) {
+    return invalidPlantQuery(polygon.error);
   }
 
   const minCapacity = toNumber(getSingleQueryValue(query.minCapacity));
@@ -760,15 +1421,88 @@ export const parsePlantQuery = (query: Record<string, string | string[] | undefi
   const limit = clamp(limitRaw ?? 5000, 1, 10000);
   const offset = Math.max(0, Math.floor(offsetRaw ?? 0));
 
+  let cluster: ClusterOptions | undefined;
+  if (isTruthyQueryFlag(getSingleQueryValue(query.cluster))) {
+    const zoom = toNumber(getSingleQueryValue(query.zoom));
+    if (zoom === undefined) {
+      return invalidPlantQuery('cluster=true requires a numeric zoom query parameter');
+    }
+    cluster = { zoom: Math.floor(clamp(zoom, 0, MAX_CLUSTER_ZOOM)) };
+  }
+
+  // Labels and source spellings ("Operating", "OP") are accepted alongside the enum values.
+  const statusesRaw = parseCsvQueryParam(getSingleQueryValue(query.statuses));
+  const statuses = statusesRaw?.map(normalizePlantStatus);
+  if (statuses?.some((status) => status === undefined)) {
+    return invalidPlantQuery(`Invalid statuses query parameter. Expected one or more of: ${PLANT_STATUSES.join(', ')}`);
+  }
+
+  const operatingInYearRaw = getSingleQueryValue(query.operatingInYear);
+  const operatingInYear = toNumber(operatingInYearRaw);
+  if (operatingInYearRaw && (operatingInYear === undefined || !Number.isInteger(operatingInYear))) {
+    return invalidPlantQuery('Invalid operatingInYear query parameter. Expected a year such as 2030');
+  }
+
+  const dataQualities = parseCsvQueryParam(getSingleQueryValue(query.dataQuality));
+  if (dataQualities?.some((quality) => !DATA_QUALITY_LEVELS.includes(quality as DataQuality))) {
+    return invalidPlantQuery(
+      `Invalid dataQuality query parameter. Expected one or more of: ${DATA_QUALITY_LEVELS.join(', ')}`
+    );
+  }
+
+  const format = getSingleQueryValue(query.format) ?? 'json';
+  if (!PLANT_RESPONSE_FORMATS.includes(format as PlantResponseFormat)) {
+    return invalidPlantQuery(`Invalid format query parameter. Expected one of: ${PLANT_RESPONSE_FORMATS.join(', ')}`);
+  }
+
+  const sortRaw = getSingleQueryValue(query.sort);
+  const orderRaw = getSingleQueryValue(query.order);
+  const cursorRaw = getSingleQueryValue(query.cursor);
+
+  if (sortRaw && !PLANT_SORT_FIELDS.includes(sortRaw as PlantSortField)) {
+    return invalidPlantQuery(`Invalid sort query parameter. Expected one of: ${PLANT_SORT_FIELDS.join(', ')}`);
+  }
+  if (orderRaw && orderRaw !== 'asc' && orderRaw !== 'desc') {
+    return invalidPlantQuery('Invalid order query parameter. Expected asc or desc');
+  }
+
+  let cursor: PlantCursor | undefined;
+  if (cursorRaw) {
+    cursor = decodePlantCursor(cursorRaw) ?? undefined;
+    if (!cursor) {
+      return invalidPlantQuery('Invalid cursor query parameter');
+    }
+    if ((sortRaw && sortRaw !== cursor.field) || (orderRaw && orderRaw !== cursor.order)) {
+      return invalidPlantQuery('Cursor does not match the requested sort and order');
+    }
+  }
+
+  // A cursor carries its own sort, so follow-up requests only need to send the cursor.
+  let sort: PlantSort | undefined;
+  if (cursor) {
+    sort = { field: cursor.field, order: cursor.order };
+  } else if (sortRaw) {
+    sort = { field: sortRaw as PlantSortField, order: (orderRaw as SortOrder | undefined) ?? 'asc' };
+  }
+
   const filters: PlantFilters = {
     bbox: bbox ?? undefined,
+    near: near ?? undefined,
+    polygon: polygon ?? undefined,
+    nearInfra: nearInfra ?? undefined,
     sources: parseCsvQueryParam(getSingleQueryValue(query.sources)),
-    countries: parseCsvQueryParam(getSingleQueryValue(query.countries)),
-    statuses: parseCsvQueryParam(getSingleQueryValue(query.statuses)),
+    // Either ISO alpha-2 or alpha-3 is accepted; plants carry alpha-2.
+    countries: parseCsvQueryParam(getSingleQueryValue(query.countries))?.map(normalizeCountryCode),
+    admin1: parseCsvQueryParam(getSingleQueryValue(query.admin1))?.map((code) => code.toUpperCase()),
+    statuses: statuses as PlantStatus[] | undefined,
+    operatingInYear,
+    dataQualities: dataQualities as DataQuality[] | undefined,
     minCapacity,
     maxCapacity,
     minCapacityFactor,
     maxCapacityFactor,
+    maxFiberMiles: toNumber(getSingleQueryValue(query.maxFiberMiles)),
+    minNearestVoltage: toNumber(getSingleQueryValue(query.minNearestVoltage)),
   };
 
   return {
@@ -776,6 +1510,10 @@ export const parsePlantQuery = (query: Record<string, string | string[] | undefi
     pagination: {
       limit: Math.floor(limit),
       offset,
+      sort,
+      cursor,
     },
+    cluster,
+    format: format as PlantResponseFormat,
   };
 };
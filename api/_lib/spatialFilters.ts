@@ -0,0 +1,188 @@
+import { calculateDistance } from '../../src/utils/geoUtils.js';
+
+type Bbox = [number, number, number, number];
+type Position = [number, number];
+
+export type NearFilter = {
+  coordinates: Position;
+  radiusMiles: number;
+};
+
+/** One or more polygons, each as GeoJSON rings (outer ring first, then holes). */
+export type PolygonFilter = Position[][][];
+
+export const MAX_RADIUS_MILES = 500;
+const MAX_POLYGON_VERTICES = 10_000;
+const MILES_PER_DEGREE_LAT = 69;
+
+export const distanceFromNear = (near: NearFilter, point: Position): number =>
+  calculateDistance(near.coordinates, point);
+
+/**
+ * Bounding boxes that together contain the radius, for spatial index lookups.
+ * A radius crossing the antimeridian is split into one box on each side, and
+ * one reaching a pole spans every longitude.
+ */
+export const getNearBboxes = (near: NearFilter): Bbox[] => {
+  const [lon, lat] = near.coordinates;
+  const deltaLat = near.radiusMiles / MILES_PER_DEGREE_LAT;
+  const cosLat = Math.max(0.01, Math.abs(Math.cos((lat * Math.PI) / 180)));
+  const deltaLon = near.radiusMiles / (MILES_PER_DEGREE_LAT * cosLat);
+  const minLat = Math.max(-90, lat - deltaLat);
+  const maxLat = Math.min(90, lat + deltaLat);
+  const minLon = lon - deltaLon;
+  const maxLon = lon + deltaLon;
+
+  if (deltaLon >= 180 || minLat === -90 || maxLat === 90) {
+    return [[-180, minLat, 180, maxLat]];
+  }
+  if (minLon < -180) {
+    return [
+      [minLon + 360, minLat, 180, maxLat],
+      [-180, minLat, maxLon, maxLat],
+    ];
+  }
+  if (maxLon > 180) {
+    return [
+      [minLon, minLat, 180, maxLat],
+      [-180, minLat, maxLon - 360, maxLat],
+    ];
+  }
+  return [[minLon, minLat, maxLon, maxLat]];
+};
+
+export const getPolygonBbox = (polygon: PolygonFilter): Bbox => {
+  let minLon = Number.POSITIVE_INFINITY;
+  let minLat = Number.POSITIVE_INFINITY;
+  let maxLon = Number.NEGATIVE_INFINITY;
+  let maxLat = Number.NEGATIVE_INFINITY;
+
+  for (const rings of polygon) {
+    // Holes can't extend the outer ring, so only the first ring matters.
+    for (const [lon, lat] of rings[0] ?? []) {
+      minLon = Math.min(minLon, lon);
+      minLat = Math.min(minLat, lat);
+      maxLon = Math.max(maxLon, lon);
+      maxLat = Math.max(maxLat, lat);
+    }
+  }
+
+  return [minLon, minLat, maxLon, maxLat];
+};
+
+export const intersectBboxes = (a: Bbox, b: Bbox): Bbox => [
+  Math.max(a[0], b[0]),
+  Math.max(a[1], b[1]),
+  Math.min(a[2], b[2]),
+  Math.min(a[3], b[3]),
+];
+
+const isPointInRing = (point: Position, ring: Position[]): boolean => {
+  const [x, y] = point;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses = yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+
+  return inside;
+};
+
+export const isPointInPolygonFilter = (point: Position, polygon: PolygonFilter): boolean =>
+  polygon.some((rings) => {
+    if (rings.length === 0 || !isPointInRing(point, rings[0])) return false;
+    return !rings.slice(1).some((hole) => isPointInRing(point, hole));
+  });
+
+export const parseNearParam = (
+  near: string | undefined,
+  radiusMiles: string | undefined
+): NearFilter | { error: string } | null => {
+  if (!near) {
+    return radiusMiles ? { error: 'radiusMiles requires a near=lon,lat query parameter' } : null;
+  }
+
+  const parts = near.split(',').map((item) => Number(item.trim()));
+  if (parts.length !== 2 || parts.some((part) => !Number.isFinite(part))) {
+    return { error: 'Invalid near query parameter. Expected format: lon,lat' };
+  }
+
+  const [lon, lat] = parts;
+  if (lon < -180 || lon > 180 || lat < -90 || lat > 90) {
+    return { error: 'Invalid near query parameter. Coordinates are out of range' };
+  }
+
+  const radius = Number(radiusMiles);
+  if (!radiusMiles || !Number.isFinite(radius) || radius <= 0 || radius > MAX_RADIUS_MILES) {
+    return { error: `near requires a radiusMiles between 0 and ${MAX_RADIUS_MILES}` };
+  }
+
+  return { coordinates: [lon, lat], radiusMiles: radius };
+};
+
+const isPosition = (value: unknown): value is Position =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === 'number' &&
+  typeof value[1] === 'number' &&
+  Number.isFinite(value[0]) &&
+  Number.isFinite(value[1]);
+
+const toRings = (value: unknown): Position[][] | null => {
+  if (!Array.isArray(value) || value.length === 0) return null;
+
+  const rings: Position[][] = [];
+  for (const ring of value) {
+    if (!Array.isArray(ring) || ring.length < 4 || !ring.every(isPosition)) return null;
+    rings.push(ring.map((position: Position) => [position[0], position[1]]));
+  }
+  return rings;
+};
+
+/**
+ * Accepts a GeoJSON Polygon or MultiPolygon, bare or wrapped in a Feature,
+ * either as an object (POST body) or a JSON string (query param).
+ */
+export const parsePolygonFilter = (value: unknown): PolygonFilter | { error: string } | null => {
+  if (value === undefined || value === null || value === '') return null;
+
+  let geojson = value;
+  if (typeof value === 'string') {
+    try {
+      geojson = JSON.parse(value);
+    } catch {
+      return { error: 'Invalid polygon parameter. Expected GeoJSON' };
+    }
+  }
+
+  const geometry = (geojson as { type?: string; geometry?: unknown })?.type === 'Feature'
+    ? (geojson as { geometry?: unknown }).geometry
+    : geojson;
+  const { type, coordinates } = (geometry ?? {}) as { type?: string; coordinates?: unknown };
+
+  let polygon: PolygonFilter | null = null;
+  if (type === 'Polygon') {
+    const rings = toRings(coordinates);
+    polygon = rings ? [rings] : null;
+  } else if (type === 'MultiPolygon' && Array.isArray(coordinates) && coordinates.length > 0) {
+    const polygons = coordinates.map(toRings);
+    polygon = polygons.every(Boolean) ? (polygons as PolygonFilter) : null;
+  }
+
+  if (!polygon) {
+    return { error: 'Invalid polygon parameter. Expected a GeoJSON Polygon or MultiPolygon' };
+  }
+
+  const vertexCount = polygon.reduce(
+    (sum, rings) => sum + rings.reduce((ringSum, ring) => ringSum + ring.length, 0),
+    0
+  );
+  if (vertexCount > MAX_POLYGON_VERTICES) {
+    return { error: `Polygon has too many vertices (max ${MAX_POLYGON_VERTICES})` };
+  }
+
+  return polygon;
+};
@@ -1,26 +1,27 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
-import path from 'path';
-import fs from 'fs/promises';
+import {
+  countFiberAttributes,
+  hasFiberFilters,
+  matchesFiberFilters,
+  parseFiberFilterQuery,
+} from '../src/utils/fiberAttributes.js';
 import { requireAuth } from './_lib/auth.js';
 import { applyCors, handleCorsPreflight } from './_lib/cors.js';
+import { clipFiberFeatures } from './_lib/fiberGeometry.js';
+import { capFiberFeatures } from './_lib/fiberPriority.js';
+import { fetchFiberTile, getIntersectingTiles } from './_lib/fiberTiles.js';
 import { applyRateLimit } from './_lib/rateLimit.js';
 
 // Response cache per bbox+zoom (keyed by bbox string)
 const cache = new Map<string, { data: any; timestamp: number }>();
 const CACHE_TTL = 10 * 60 * 1000; // 10 minutes
 
-// Raw S3 tile cache — avoids re-downloading 50-400 MB tiles on every request
-const tileCache = new Map<string, { data: { type: string; features: any[] }; timestamp: number }>();
-const TILE_CACHE_TTL = 15 * 60 * 1000; // 15 minutes
 const RATE_LIMIT = {
   key: 'fiber-bbox',
   maxRequests: 30,
   windowMs: 60 * 1000,
 };
 
-// Grid tile size (degrees)
-// Can be overridden via FIBER_TILE_SIZE env var (default: 5 for current tiles, use 2 for optimized tiles)
-const TILE_SIZE = parseInt(process.env.FIBER_TILE_SIZE || '5', 10);
 const FIBER_PROPERTIES_WHITELIST = [
   'NAME',
   'OPERATOR',
@@ -52,75 +53,6 @@ function sanitizeFeature(feature: any): any {
   };
 }
 
-/**
- * Calculate which grid tiles intersect with the given bbox
- */
-function getIntersectingTiles(
-  minLon: number,
-  minLat: number,
-  maxLon: number,
-  maxLat: number
-): Array<{ minLon: number; minLat: number; maxLon: number; maxLat: number }> {
-  const tiles: Array<{ minLon: number; minLat: number; maxLon: number; maxLat: number }> = [];
-
-  // Round down to tile boundaries
-  const startTileLon = Math.floor(minLon / TILE_SIZE) * TILE_SIZE;
-  const startTileLat = Math.floor(minLat / TILE_SIZE) * TILE_SIZE;
-  const endTileLon = Math.ceil(maxLon / TILE_SIZE) * TILE_SIZE;
-  const endTileLat = Math.ceil(maxLat / TILE_SIZE) * TILE_SIZE;
-
-  // Generate all tiles that intersect
-  for (let lon = startTileLon; lon < endTileLon; lon += TILE_SIZE) {
-    for (let lat = startTileLat; lat < endTileLat; lat += TILE_SIZE) {
-      tiles.push({
-        minLon: lon,
-        minLat: lat,
-        maxLon: lon + TILE_SIZE,
-        maxLat: lat + TILE_SIZE,
-      });
-    }
-  }
-
-  return tiles;
-}
-
-/**
- * Generate tile filename (e.g. fiber_n125_25.json)
- */
-function getTileFilename(minLon: number, minLat: number): string {
-  const lonStr = minLon < 0 ? `n${Math.abs(minLon)}` : `${minLon}`;
-  const latStr = minLat < 0 ? `s${Math.abs(minLat)}` : `${minLat}`;
-  return `fiber_${lonStr}_${latStr}.json`;
-}
-
-/**
- * Generate S3 URL for a tile file
- */
-function getTileUrl(minLon: number, minLat: number, baseUrl: string): string {
-  return `${baseUrl}/${getTileFilename(minLon, minLat)}`;
-}
-
-/**
- * Read a tile from the filesystem (dev only). Tries public/fiber-tiles then fiber-tiles.
- */
-async function readTileFromDisk(minLon: number, minLat: number): Promise<{ type: string; features: any[] }> {
-  const filename = getTileFilename(minLon, minLat);
-  const cwd = process.cwd();
-  const candidates = [
-    path.join(cwd, 'public', 'fiber-tiles', filename),
-    path.join(cwd, 'fiber-tiles', filename),
-  ];
-  for (const filePath of candidates) {
-    try {
-      const data = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(data) as { type: string; features: any[] };
-    } catch {
-      continue;
-    }
-  }
-  return { type: 'FeatureCollection', features: [] };
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCorsPreflight(req, res)) return;
   if (!applyCors(req, res)) {
@@ -139,6 +71,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const maxLat = parseFloat(req.query.maxLat as string);
   const overview = req.query.overview === '1' || req.query.overview === 'true';
   const zoom = parseInt(req.query.zoom as string, 10) || 0;
+  // Optional attribute filters: repeated operator, serviceType and status params
+  const attributeFilters = parseFiberFilterQuery(req.query);
 
   // Validate bbox
   if (
@@ -158,9 +92,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const MAX_TILES = overview ? 20 : 50;
   const MAX_FEATURES_OVERVIEW = 8000;
   const MAX_FEATURES_FULL = 25000; // Hard cap so response never crashes browser/laptop
+  const MAX_FACET_VALUES = 50;
 
   // Create cache key (include overview + zoom so different views are cached separately)
-  const cacheKey = `${minLon}_${minLat}_${maxLon}_${maxLat}_z${zoom}_${overview ? 'ov' : 'full'}`;
+  const cacheKey = `${minLon}_${minLat}_${maxLon}_${maxLat}_z${zoom}_${overview ? 'ov' : 'full'}_${JSON.stringify(attributeFilters)}`;
   const now = Date.now();
 
   // Check cache
@@ -254,45 +189,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Prefer S3 when configured; only fall back to disk reads in dev when no S3 URL is set
     const useLocalDisk = isDev && !process.env.FIBER_TILES_S3_URL;
 
-    const fetchTile = async (tile: { minLon: number; minLat: number }): Promise<{ type: string; features: any[] }> => {
-      if (useLocalDisk) {
-        return readTileFromDisk(tile.minLon, tile.minLat);
-      }
-
-      // Check tile-level cache first (avoids re-downloading 50-400 MB files)
-      const tileCacheKey = `${tile.minLon}_${tile.minLat}`;
-      const cachedTile = tileCache.get(tileCacheKey);
-      if (cachedTile && Date.now() - cachedTile.timestamp < TILE_CACHE_TTL) {
-        return cachedTile.data;
-      }
-
-      const tileUrl = getTileUrl(tile.minLon, tile.minLat, baseUrl);
-      const FETCH_TIMEOUT = 60000; // 60 seconds for large tiles
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Fetch timeout')), FETCH_TIMEOUT);
-      });
-
-      try {
-        const result = await Promise.race([
-          fetch(tileUrl, { headers: { Accept: 'application/json' } })
-            .then((response) => {
-              if (!response.ok) {
-                if (response.status === 404) return { type: 'FeatureCollection', features: [] };
-                throw new Error(`Failed to fetch tile: ${response.statusText}`);
-              }
-              return response.json() as Promise<{ type: string; features: any[] }>;
-            }),
-          timeoutPromise,
-        ]);
-
-        // Cache the raw tile data so subsequent requests don't re-download
-        tileCache.set(tileCacheKey, { data: result, timestamp: Date.now() });
-        return result;
-      } catch (error: any) {
-        console.warn(`Failed to fetch tile ${tileUrl}:`, error.message);
-        return { type: 'FeatureCollection', features: [] };
-      }
-    };
+    const tileBaseUrl = useLocalDisk ? null : baseUrl;
+    const fetchTile = (tile: { minLon: number; minLat: number }) => fetchFiberTile(tile, tileBaseUrl);
 
     console.log(`Fetching ${tilesToFetch.length} tiles for bbox [${minLon}, ${minLat}, ${maxLon}, ${maxLat}]`);
     const tileData = await Promise.all(tilesToFetch.map(fetchTile));
@@ -306,53 +204,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
     }
 
-    // ── Always filter features to the requested bbox ──
-    // Fast check: only look at the first coordinate of each LineString to decide
-    // inclusion. This is O(1) per feature instead of iterating all vertices.
-    // For lines that span the bbox boundary this can miss or include a few extras,
-    // but it's accurate enough and extremely fast even for 100k+ features.
-    const filteredFeatures: any[] = [];
-    for (const feature of allFeatures) {
-      const geom = feature?.geometry;
-      if (!geom || !geom.coordinates) continue;
-
-      const coords = geom.coordinates;
-
-      if (geom.type === 'LineString' && Array.isArray(coords[0])) {
-        // Check first and last coordinate — if either is in bbox, include it
-        const first = coords[0];
-        const last = coords[coords.length - 1];
-        if (typeof first[0] === 'number') {
-          const fIn = first[0] >= minLon && first[0] <= maxLon && first[1] >= minLat && first[1] <= maxLat;
-          const lIn = last[0] >= minLon && last[0] <= maxLon && last[1] >= minLat && last[1] <= maxLat;
-          if (fIn || lIn) {
-            filteredFeatures.push(feature);
-            continue;
-          }
-          // Also sample a midpoint for long lines that cross through the bbox
-          if (coords.length > 2) {
-            const mid = coords[Math.floor(coords.length / 2)];
-            if (typeof mid[0] === 'number' && mid[0] >= minLon && mid[0] <= maxLon && mid[1] >= minLat && mid[1] <= maxLat) {
-              filteredFeatures.push(feature);
-              continue;
-            }
-          }
-        }
-      } else if (geom.type === 'MultiLineString' && Array.isArray(coords[0])) {
-        // Check first line's first coordinate
-        const line = coords[0];
-        if (Array.isArray(line) && line.length > 0 && Array.isArray(line[0])) {
-          const pt = line[0];
-          if (typeof pt[0] === 'number' && pt[0] >= minLon && pt[0] <= maxLon && pt[1] >= minLat && pt[1] <= maxLat) {
-            filteredFeatures.push(feature);
-            continue;
-          }
-        }
-      }
-    }
+    // ── Clip features to the requested bbox and simplify them for the zoom ──
+    // Every segment is tested, so routes crossing the viewport with no vertex
+    // inside it are kept; coarser zooms get fewer vertices per route.
+    const filteredFeatures = clipFiberFeatures(allFeatures, [minLon, minLat, maxLon, maxLat], zoom);
 
     console.log(`Bbox filtered: ${allFeatures.length} → ${filteredFeatures.length} features`);
 
+    // Facets count every route in view, so the map can offer values the current filters hide
+    const facets = countFiberAttributes(filteredFeatures, MAX_FACET_VALUES);
+    const matchingFeatures = hasFiberFilters(attributeFilters)
+      ? filteredFeatures.filter((feature) => matchesFiberFilters(feature?.properties, attributeFilters))
+      : filteredFeatures;
+
     // ── Cap features based on mode / zoom ──
     // Zoom-aware caps: at high zoom the viewport is small so fewer features suffice
     let maxFeatures: number;
@@ -366,23 +230,29 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       maxFeatures = MAX_FEATURES_FULL;
     }
 
-    let featuresToReturn = filteredFeatures;
-    if (filteredFeatures.length > maxFeatures) {
-      // Sample evenly to preserve geographic distribution
-      const step = Math.ceil(filteredFeatures.length / maxFeatures);
-      featuresToReturn = [];
-      for (let i = 0; i < filteredFeatures.length && featuresToReturn.length < maxFeatures; i += step) {
-        featuresToReturn.push(filteredFeatures[i]);
-      }
-      console.log(`Capped features: ${filteredFeatures.length} → ${featuresToReturn.length} (max ${maxFeatures} for zoom ${zoom})`);
+    // Keep the most important routes (length, service type, quality, closeness to center)
+    const { features: featuresToReturn, dropped } = capFiberFeatures(
+      matchingFeatures,
+      [minLon, minLat, maxLon, maxLat],
+      maxFeatures
+    );
+    if (dropped > 0) {
+      console.log(`Capped features: ${matchingFeatures.length} → ${featuresToReturn.length} (max ${maxFeatures} for zoom ${zoom})`);
     }
 
     const sanitizedFeatures = featuresToReturn.map(sanitizeFeature);
+    const skippedTiles = tiles.length - tilesToFetch.length;
 
-    // Create merged GeoJSON response
+    // Create merged GeoJSON response. `truncated` tells the map how much it is
+    // not showing: routes over the feature cap, and tiles never fetched (whose
+    // routes are not counted).
     const mergedGeoJson = {
       type: 'FeatureCollection',
       features: sanitizedFeatures,
+      facets,
+      ...(dropped > 0 || skippedTiles > 0
+        ? { truncated: { droppedFeatures: dropped, maxFeatures, skippedTiles } }
+        : {}),
     };
 
     // Update cache
@@ -0,0 +1,64 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../_lib/auth.js';
+import { applyCors, handleCorsPreflight } from '../_lib/cors.js';
+import {
+  loadFiberOperatorDirectory,
+  parseFiberOperatorQuery,
+  type FiberOperatorDirectory,
+} from '../_lib/fiberOperators.js';
+import { applyRateLimit } from '../_lib/rateLimit.js';
+
+const RATE_LIMIT = {
+  key: 'fiber-operators',
+  maxRequests: 10,
+  windowMs: 60 * 1000,
+};
+
+// Directory per bbox; the limit is applied on the way out so it doesn't split the cache.
+const cache = new Map<string, { directory: FiberOperatorDirectory; timestamp: number }>();
+const CACHE_TTL = 10 * 60 * 1000;
+
+/**
+ * Fiber carriers with routes crossing `bbox`, by total route miles:
+ * GET /api/fiber/operators?bbox=minLon,minLat,maxLon,maxLat[&limit=100]
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCorsPreflight(req, res)) return;
+  if (!applyCors(req, res)) {
+    return res.status(403).json({ error: 'Origin not allowed' });
+  }
+  if (!applyRateLimit(req, res, RATE_LIMIT)) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireAuth(req, res)) return;
+
+  const query = parseFiberOperatorQuery(req.query);
+  if ('error' in query) {
+    return res.status(400).json({ error: query.error });
+  }
+
+  try {
+    const cacheKey = query.bbox.join(',');
+    const now = Date.now();
+    const cached = cache.get(cacheKey);
+    const directory =
+      cached && now - cached.timestamp < CACHE_TTL ? cached.directory : await loadFiberOperatorDirectory(query.bbox);
+    if (directory !== cached?.directory) {
+      cache.set(cacheKey, { directory, timestamp: now });
+    }
+
+    res.setHeader('Cache-Control', 'private, max-age=600');
+    return res.status(200).json({
+      bbox: query.bbox,
+      operatorCount: directory.operators.length,
+      ...directory,
+      operators: directory.operators.slice(0, query.limit),
+    });
+  } catch (error) {
+    console.error('Error loading fiber operators:', error);
+    return res.status(500).json({ error: 'Failed to load fiber operators' });
+  }
+}
@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { requireAuth } from './_lib/auth.js';
 import { applyCors, handleCorsPreflight } from './_lib/cors.js';
+import { DEFAULT_HIFLD_S3_URL } from './_lib/infrastructureIndex.js';
 import { applyRateLimit } from './_lib/rateLimit.js';
 
 const CACHE_TTL = 60 * 60 * 1000;
@@ -32,9 +33,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const s3Url =
-      process.env.HIFLD_S3_URL ||
-      'https://helios-dataanalysisbucket.s3.us-east-1.amazonaws.com/hifld_transmission_lines.json';
+    const s3Url = process.env.HIFLD_S3_URL || DEFAULT_HIFLD_S3_URL;
 
     const response = await fetch(s3Url, {
       headers: {
@@ -1,12 +1,20 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { requireAuth } from './_lib/auth.js';
 import { applyCors, handleCorsPreflight } from './_lib/cors.js';
+import { respondNotModified, toStrongEtag } from './_lib/etag.js';
+import {
+  annotateNearestInfra,
+  annotateNearestInfraFromLookup,
+  loadLiveInfraLookup,
+} from './_lib/infrastructureIndex.js';
 import { applyRateLimit } from './_lib/rateLimit.js';
 import {
-  applyPlantFilters,
-  getUnifiedPowerPlantDataset,
+  clusterPowerPlants,
+  getIndexedPowerPlantDataset,
   paginatePowerPlants,
   parsePlantQuery,
+  queryIndexedPlants,
+  toColumnarPlantPage,
 } from './_lib/powerPlantsData.js';
 
 const RATE_LIMIT = {
@@ -23,14 +31,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
   if (!applyRateLimit(req, res, RATE_LIMIT)) return;
 
-  if (req.method !== 'GET') {
+  // POST is accepted so large GeoJSON polygon filters can travel in the body.
+  if (req.method !== 'GET' && req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   if (!requireAuth(req, res)) return;
 
-  const { filters, pagination, error } = parsePlantQuery(
-    req.query as Record<string, string | string[] | undefined>
+  const { filters, pagination, cluster, format, error } = parsePlantQuery(
+    req.query as Record<string, string | string[] | undefined>,
+    req.method === 'POST' ? req.body : undefined
   );
 
   if (error) {
@@ -38,12 +48,35 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const dataset = await getUnifiedPowerPlantDataset();
-    const filtered = applyPlantFilters(dataset, filters);
-    const response = paginatePowerPlants(filtered, pagination);
+    const dataset = await getIndexedPowerPlantDataset();
+
+    // Snapshot builds store each plant's line distances. Other builds measure
+    // them per request with a bounded lookup, whose lines the version doesn't cover.
+    const hasStoredDistances = !filters.nearInfra || dataset.enrichment.layers.includes(filters.nearInfra.layer);
 
     res.setHeader('Cache-Control', 'private, max-age=60');
-    return res.status(200).json(response);
+    if (req.method === 'GET' && hasStoredDistances && respondNotModified(req, res, toStrongEtag(dataset.version))) {
+      return;
+    }
+
+    let filtered = queryIndexedPlants(dataset, filters);
+
+    if (filters.nearInfra) {
+      filtered = hasStoredDistances
+        ? annotateNearestInfra(filtered, filters.nearInfra, dataset.nearestLinesByPlantId)
+        : annotateNearestInfraFromLookup(
+            filtered,
+            filters.nearInfra,
+            await loadLiveInfraLookup(filters.nearInfra, filtered.map((plant) => plant.coordinates))
+          );
+    }
+
+    if (cluster) {
+      return res.status(200).json(clusterPowerPlants(filtered, cluster.zoom));
+    }
+
+    const response = paginatePowerPlants(filtered, pagination);
+    return res.status(200).json(format === 'columnar' ? toColumnarPlantPage(response) : response);
   } catch (routeError) {
     console.error('Error loading power plant dataset:', routeError);
     return res.status(500).json({ error: 'Failed to load power plants' });
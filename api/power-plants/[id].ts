@@ -0,0 +1,51 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../_lib/auth.js';
+import { applyCors, handleCorsPreflight } from '../_lib/cors.js';
+import { respondNotModified, toStrongEtag } from '../_lib/etag.js';
+import { applyRateLimit } from '../_lib/rateLimit.js';
+import {
+  getIndexedPowerPlantDataset,
+  getPowerPlantDetail,
+  getSingleQueryValue,
+} from '../_lib/powerPlantsData.js';
+
+const RATE_LIMIT = {
+  key: 'power-plants-detail',
+  maxRequests: 120,
+  windowMs: 60 * 1000,
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCorsPreflight(req, res)) return;
+  if (!applyCors(req, res)) {
+    return res.status(403).json({ error: 'Origin not allowed' });
+  }
+  if (!applyRateLimit(req, res, RATE_LIMIT)) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireAuth(req, res)) return;
+
+  const plantId = getSingleQueryValue(req.query.id);
+  if (!plantId) {
+    return res.status(400).json({ error: 'Missing plant id' });
+  }
+
+  try {
+    const dataset = await getIndexedPowerPlantDataset();
+    const detail = getPowerPlantDetail(dataset, plantId);
+    if (!detail) {
+      return res.status(404).json({ error: 'Power plant not found' });
+    }
+
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    if (respondNotModified(req, res, toStrongEtag(dataset.version))) return;
+
+    return res.status(200).json(detail);
+  } catch (error) {
+    console.error('Error loading power plant detail:', error);
+    return res.status(500).json({ error: 'Failed to load power plant detail' });
+  }
+}
@@ -0,0 +1,46 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../_lib/auth.js';
+import { applyCors, handleCorsPreflight } from '../_lib/cors.js';
+import { respondNotModified, toStrongEtag } from '../_lib/etag.js';
+import { applyRateLimit } from '../_lib/rateLimit.js';
+import { getIndexedPowerPlantDataset, getSingleQueryValue } from '../_lib/powerPlantsData.js';
+
+const RATE_LIMIT = {
+  key: 'power-plants-dedup-report',
+  maxRequests: 10,
+  windowMs: 60 * 1000,
+};
+
+/**
+ * Cross-source merge decisions for the current dataset build. Pin a pair in
+ * data/plant-dedup-overrides.json to force it merged or separate.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCorsPreflight(req, res)) return;
+  if (!applyCors(req, res)) {
+    return res.status(403).json({ error: 'Origin not allowed' });
+  }
+  if (!applyRateLimit(req, res, RATE_LIMIT)) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireAuth(req, res)) return;
+
+  try {
+    const dataset = await getIndexedPowerPlantDataset();
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    if (respondNotModified(req, res, toStrongEtag(dataset.version))) return;
+
+    const decision = getSingleQueryValue(req.query.decision);
+    const decisions = decision
+      ? dataset.dedupReport.decisions.filter((entry) => entry.decision === decision)
+      : dataset.dedupReport.decisions;
+
+    return res.status(200).json({ version: dataset.version, ...dataset.dedupReport, decisions });
+  } catch (error) {
+    console.error('Error loading power plant dedup report:', error);
+    return res.status(500).json({ error: 'Failed to load power plant dedup report' });
+  }
+}
@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from '../_lib/auth.js';
+import { applyCors, handleCorsPreflight } from '../_lib/cors.js';
+import { applyRateLimit } from '../_lib/rateLimit.js';
+import { getIndexedPowerPlantDataset, getIngestionReport } from '../_lib/powerPlantsData.js';
+
+const RATE_LIMIT = {
+  key: 'power-plants-health',
+  maxRequests: 30,
+  windowMs: 60 * 1000,
+};
+
+/**
+ * Ingestion report for the current dataset build: when it ran, where each
+ * source was read from, and how many rows each one kept or dropped and why.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCorsPreflight(req, res)) return;
+  if (!applyCors(req, res)) {
+    return res.status(403).json({ error: 'Origin not allowed' });
+  }
+  if (!applyRateLimit(req, res, RATE_LIMIT)) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireAuth(req, res)) return;
+
+  try {
+    const dataset = await getIndexedPowerPlantDataset();
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json(getIngestionReport(dataset));
+  } catch (error) {
+    console.error('Error building power plant health report:', error);
+    return res.status(500).json({ error: 'Failed to build power plant health report' });
+  }
+}
@@ -1,8 +1,9 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { requireAuth } from '../_lib/auth.js';
 import { applyCors, handleCorsPreflight } from '../_lib/cors.js';
+import { respondNotModified, toStrongEtag } from '../_lib/etag.js';
 import { applyRateLimit } from '../_lib/rateLimit.js';
-import { getPowerPlantMetadata, getUnifiedPowerPlantDataset } from '../_lib/powerPlantsData.js';
+import { getIndexedPowerPlantDataset, getPowerPlantMetadata } from '../_lib/powerPlantsData.js';
 
 const RATE_LIMIT = {
   key: 'power-plants-metadata',
@@ -24,9 +25,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (!requireAuth(req, res)) return;
 
   try {
-    const dataset = await getUnifiedPowerPlantDataset();
-    const metadata = getPowerPlantMetadata(dataset);
+    const dataset = await getIndexedPowerPlantDataset();
     res.setHeader('Cache-Control', 'private, max-age=300');
+    if (respondNotModified(req, res, toStrongEtag(dataset.version))) return;
+
+    const metadata = getPowerPlantMetadata(dataset.plants, dataset);
     return res.status(200).json(metadata);
   } catch (error) {
     console.error('Error loading power plant metadata:', error);
@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { requireAuth } from '../_lib/auth.js';
 import { applyCors, handleCorsPreflight } from '../_lib/cors.js';
+import { ITU_BASE_URL } from '../_lib/infrastructureIndex.js';
 import { applyRateLimit } from '../_lib/rateLimit.js';
 
 const RATE_LIMIT = {
@@ -9,8 +10,6 @@ const RATE_LIMIT = {
   windowMs: 60 * 1000,
 };
 
-const ITU_BASE_URL = 'https://bbmaps.itu.int/geoserver/itu-geocatalogue/ows';
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCorsPreflight(req, res)) return;
   if (!applyCors(req, res)) {
@@ -0,0 +1,51 @@
+// Builds the unified power plant dataset offline, including the
+// nearest-infrastructure enrichment the API never runs itself, and writes the
+// snapshot the API serves instead of parsing the sources on a cold start.
+//
+//   npm run data:snapshot -- [--out <dir>] [--allow-degraded]
+//
+// The output directory defaults to PLANT_SNAPSHOT_DIR or ./data/snapshot. A
+// degraded build (a source fell back or failed, enrichment incomplete) is not
+// written unless --allow-degraded is given, since the API would serve it until
+// the next snapshot rather than retrying.
+
+import {
+  buildIndexedPlantDataset,
+  getIngestionReport,
+  loadPlantDatasetInputs,
+} from '../api/_lib/powerPlantsData.js';
+import { getPlantSnapshotDir, writePlantSnapshot } from '../api/_lib/plantSnapshot.js';
+
+const readArgs = (args: string[]): { outDir: string; allowDegraded: boolean } => {
+  const outIndex = args.indexOf('--out');
+  return {
+    outDir: outIndex >= 0 && args[outIndex + 1] ? args[outIndex + 1] : getPlantSnapshotDir(),
+    allowDegraded: args.includes('--allow-degraded'),
+  };
+};
+
+const main = async () => {
+  const { outDir, allowDegraded } = readArgs(process.argv.slice(2));
+
+  const inputs = await loadPlantDatasetInputs();
+  const dataset = await buildIndexedPlantDataset(inputs, { enrich: true });
+  const report = getIngestionReport(dataset);
+
+  for (const issue of report.issues) console.warn(`- ${issue}`);
+  if (report.status === 'degraded' && !allowDegraded) {
+    console.error('Build is degraded; not writing a snapshot (pass --allow-degraded to write it anyway)');
+    process.exitCode = 1;
+    return;
+  }
+
+  const written = await writePlantSnapshot(outDir, dataset, inputs.sourceHash, report);
+  console.log(
+    `Wrote ${dataset.plants.length} plants (version ${dataset.version}, ${(written.bytes / 1024 / 1024).toFixed(1)} MB) to ${written.file}`
+  );
+  console.log(`sha256 ${written.checksum}`);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
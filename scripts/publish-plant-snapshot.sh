@@ -0,0 +1,26 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Uploads the snapshot written by `npm run data:snapshot` to the location the
+# API reads through PLANT_SNAPSHOT_URL. The checksum goes last, so the API
+# never picks up a checksum before the snapshot it describes.
+
+if ! command -v aws >/dev/null 2>&1; then
+  echo "aws CLI is required for publishing"
+  exit 1
+fi
+
+: "${PLANT_SNAPSHOT_PUBLISH_URI:?Set PLANT_SNAPSHOT_PUBLISH_URI (e.g. s3://bucket/plant-snapshot)}"
+
+SNAPSHOT_DIR="${PLANT_SNAPSHOT_DIR:-./data/snapshot}"
+
+if [[ ! -f "${SNAPSHOT_DIR}/plants.snapshot.json" || ! -f "${SNAPSHOT_DIR}/plants.snapshot.json.sha256" ]]; then
+  echo "Missing snapshot in ${SNAPSHOT_DIR}; run npm run data:snapshot first"
+  exit 1
+fi
+
+aws s3 cp "${SNAPSHOT_DIR}/plants.snapshot.json" "${PLANT_SNAPSHOT_PUBLISH_URI}/plants.snapshot.json"
+aws s3 cp "${SNAPSHOT_DIR}/plants.report.json" "${PLANT_SNAPSHOT_PUBLISH_URI}/plants.report.json"
+aws s3 cp "${SNAPSHOT_DIR}/plants.snapshot.json.sha256" "${PLANT_SNAPSHOT_PUBLISH_URI}/plants.snapshot.json.sha256"
+
+echo "Uploaded plant snapshot"
@@ -2,14 +2,12 @@ import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import Map, { NavigationControl } from 'react-map-gl';
 import DeckGL from '@deck.gl/react';
 import './App.css';
-import type { PowerPlant } from './models/PowerPlant';
+import type { DataQuality, PowerPlant } from './models/PowerPlant';
 import type { Cable } from './models/Cable';
 import type { FiberCable } from './models/FiberCable';
 import { loadWfsCableData } from './utils/wfsDataLoader';
 import { calculateDistance, generateCirclePolygon } from './utils/geoUtils';
-import type { LineSegment } from './utils/spatialIndex';
-import { createLineIndex } from './utils/spatialIndex';
-import RBush from 'rbush';
+import { getCountryName } from './utils/countries';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { useTheme } from './hooks/useTheme';
 import Header from './components/Header';
@@ -18,194 +16,33 @@ import SidePanel from './components/SidePanel';
 import ProximityDialog from './components/ProximityDialog';
 import AddressSearch from './components/AddressSearch';
 import LocationStatsPanel from './components/LocationStatsPanel';
+import PlantDetailSection from './components/PlantDetailSection';
+import PlantGeneratorTable from './components/PlantGeneratorTable';
+import CarrierDiversitySummary from './components/CarrierDiversitySummary';
 import { Search, MapPin, X, AlertTriangle, ExternalLink } from 'lucide-react';
 import { useDebounce } from './hooks/useDebounce';
-import { usePowerPlantData } from './hooks/usePowerPlantData';
+import { POWER_PLANT_CLUSTER_MAX_ZOOM, usePowerPlantData } from './hooks/usePowerPlantData';
+import { useRadiusPowerPlants } from './hooks/useRadiusPowerPlants';
 import { useProximityAnalysis } from './hooks/useProximityAnalysis';
 import { useVectorTileLayers } from './hooks/useVectorTileLayers';
-import { useNearbyFiber } from './hooks/useNearbyFiber';
+import { FIBER_RADIUS_MILES, useNearbyFiber } from './hooks/useNearbyFiber';
+import { usePlantDetail } from './hooks/usePlantDetail';
+import { usePlantGenerators } from './hooks/usePlantGenerators';
 import { useMapLayers } from './hooks/useMapLayers';
-import { featureToFiberCable, featureToHifldLine, type GeoJsonLikeFeature } from './utils/vectorFeatureUtils';
+import { featureToFiberCable, featureToHifldLine, type FeaturePathPart } from './utils/vectorFeatureUtils';
+import { getPlantFromColumns } from './utils/plantColumns';
+import {
+  EMPTY_FIBER_FILTERS,
+  type FiberColorBy,
+  type FiberFilterField,
+  type FiberFilters,
+} from './utils/fiberAttributes';
 import type { HoveredHifldLine } from './types/vectorFeatures';
+import type { Admin1Metadata, InfraLayer, PowerPlantCluster } from './types/powerPlantApi';
 
 // SizeByOption type as per MAP_FEATURES_DOCUMENTATION.md
 type SizeByOption = 'nameplate_capacity' | 'capacity_factor' | 'generation';
 
-// Function to get country name from country code
-function getCountryName(countryCode: string): string {
-  const countryNames: Record<string, string> = {
-    'CA': 'Canada',
-    'US': 'United States',
-    'KZ': 'Kazakhstan',
-    'AE': 'United Arab Emirates',
-    'IN': 'India',
-    'KG': 'Kyrgyzstan',
-    'CHN': 'China',
-    'GBR': 'United Kingdom',
-    'BRA': 'Brazil',
-    'FRA': 'France',
-    'DEU': 'Germany',
-    'ESP': 'Spain',
-    'RUS': 'Russia',
-    'JPN': 'Japan',
-    'AUS': 'Australia',
-    'PRT': 'Portugal',
-    'CZE': 'Czech Republic',
-    'ITA': 'Italy',
-    'CHL': 'Chile',
-    'NOR': 'Norway',
-    'MEX': 'Mexico',
-    'VNM': 'Vietnam',
-    'ARG': 'Argentina',
-    'THA': 'Thailand',
-    'POL': 'Poland',
-    'FIN': 'Finland',
-    'IDN': 'Indonesia',
-    'SWE': 'Sweden',
-    'CHE': 'Switzerland',
-    'TUR': 'Turkey',
-    'KOR': 'South Korea',
-    'PHL': 'Philippines',
-    'IRN': 'Iran',
-    'ZAF': 'South Africa',
-    'AUT': 'Austria',
-    'SAU': 'Saudi Arabia',
-    'GRC': 'Greece',
-    'GTM': 'Guatemala',
-    'URY': 'Uruguay',
-    'NLD': 'Netherlands',
-    'BEL': 'Belgium',
-    'ROU': 'Romania',
-    'UKR': 'Ukraine',
-    'PAK': 'Pakistan',
-    'EGY': 'Egypt',
-    'ISR': 'Israel',
-    'IRL': 'Ireland',
-    'DZA': 'Algeria',
-    'BGD': 'Bangladesh',
-    'MYS': 'Malaysia',
-    'LKA': 'Sri Lanka',
-    'DNK': 'Denmark',
-    'MAR': 'Morocco',
-    'VEN': 'Venezuela',
-    'NZL': 'New Zealand',
-    'BGR': 'Bulgaria',
-    'HND': 'Honduras',
-    'TWN': 'Taiwan',
-    'MMR': 'Myanmar',
-    'JOR': 'Jordan',
-    'PER': 'Peru',
-    'PRK': 'North Korea',
-    'SVK': 'Slovakia',
-    'IRQ': 'Iraq',
-    'TUN': 'Tunisia',
-    'CRI': 'Costa Rica',
-    'BOL': 'Bolivia',
-    'COL': 'Colombia',
-    'HRV': 'Croatia',
-    'BLR': 'Belarus',
-    'MUS': 'Mauritius',
-    'KEN': 'Kenya',
-    'ECU': 'Ecuador',
-    'LAO': 'Laos',
-    'ISL': 'Iceland',
-    'BIH': 'Bosnia and Herzegovina',
-    'SDN': 'Sudan',
-    'GEO': 'Georgia',
-    'SYR': 'Syria',
-    'HUN': 'Hungary',
-    'PAN': 'Panama',
-    'EST': 'Estonia',
-    'UZB': 'Uzbekistan',
-    'SLV': 'El Salvador',
-    'NIC': 'Nicaragua',
-    'KHM': 'Cambodia',
-    'ZMB': 'Zambia',
-    'PNG': 'Papua New Guinea',
-    'DOM': 'Dominican Republic',
-    'COD': 'Democratic Republic of the Congo',
-    'SGP': 'Singapore',
-    'NPL': 'Nepal',
-    'CUB': 'Cuba',
-    'AZE': 'Azerbaijan',
-    'AGO': 'Angola',
-    'NGA': 'Nigeria',
-    'NAM': 'Namibia',
-    'ETH': 'Ethiopia',
-    'SRB': 'Serbia',
-    'QAT': 'Qatar',
-    'OMN': 'Oman',
-    'MKD': 'North Macedonia',
-    'MDG': 'Madagascar',
-    'LBY': 'Libya',
-    'FJI': 'Fiji',
-    'UGA': 'Uganda',
-    'TZA': 'Tanzania',
-    'RWA': 'Rwanda',
-    'TJK': 'Tajikistan',
-    'SEN': 'Senegal',
-    'JAM': 'Jamaica',
-    'KWT': 'Kuwait',
-    'GIN': 'Guinea',
-    'AFG': 'Afghanistan',
-    'SVN': 'Slovenia',
-    'MNG': 'Mongolia',
-    'COG': 'Republic of the Congo',
-    'CMR': 'Cameroon',
-    'CIV': 'Ivory Coast',
-    'BHR': 'Bahrain',
-    'ARM': 'Armenia',
-    'ALB': 'Albania',
-    'YEM': 'Yemen',
-    'TKM': 'Turkmenistan',
-    'NER': 'Niger',
-    'MRT': 'Mauritania',
-    'LBN': 'Lebanon',
-    'BFA': 'Burkina Faso',
-    'TTO': 'Trinidad and Tobago',
-    'SWZ': 'Eswatini',
-    'MDA': 'Moldova',
-    'LTU': 'Lithuania',
-    'GUF': 'French Guiana',
-    'GHA': 'Ghana',
-    'GAB': 'Gabon',
-    'MWI': 'Malawi',
-    'LVA': 'Latvia',
-    'GUY': 'Guyana',
-    'BTN': 'Bhutan',
-    'MLI': 'Mali',
-    'CPV': 'Cape Verde',
-    'BRN': 'Brunei',
-    'BDI': 'Burundi',
-    'TGO': 'Togo',
-    'SLE': 'Sierra Leone',
-    'PRY': 'Paraguay',
-    'MOZ': 'Mozambique',
-    'MNE': 'Montenegro',
-    'GNQ': 'Equatorial Guinea',
-    'CYP': 'Cyprus',
-    'ZWE': 'Zimbabwe',
-    'LUX': 'Luxembourg',
-    'LBR': 'Liberia',
-    'KOS': 'Kosovo',
-    'GMB': 'Gambia',
-    'ERI': 'Eritrea',
-    'CAF': 'Central African Republic',
-    'BWA': 'Botswana',
-    'BEN': 'Benin',
-    'ATA': 'Antarctica',
-    'SUR': 'Suriname',
-    'PSE': 'Palestine',
-    'LSO': 'Lesotho',
-    'LCA': 'Saint Lucia',
-    'GNB': 'Guinea-Bissau',
-    'ESH': 'Western Sahara',
-    'DJI': 'Djibouti'
-  };
-
-  return countryNames[countryCode] || countryCode;
-}
-
 // Mapbox token from environment variables
 const MAPBOX_TOKEN = import.meta.env.VITE_MAPBOX_TOKEN || 'YOUR_MAPBOX_TOKEN_HERE';
 
@@ -227,6 +64,59 @@ const POWER_PLANT_COLORS: Record<string, [number, number, number]> = {
   other: [148, 103, 189],
 };
 
+function PlantInfrastructureRows({ plant }: { plant: PowerPlant }) {
+  return (
+    <>
+      {plant.nearestFiberMiles !== undefined && (
+        <p>Nearest Fiber: {plant.nearestFiberMiles.toFixed(1)} mi</p>
+      )}
+      {plant.nearestHvLineMiles !== undefined && (
+        <p>
+          Nearest 230kV+ Line: {plant.nearestHvLineMiles.toFixed(1)} mi
+          {plant.nearestHvLineVoltClass
+            ? ` (${plant.nearestHvLineVoltClass} kV)`
+            : plant.nearestHvLineVoltage !== undefined && ` (${plant.nearestHvLineVoltage} kV)`}
+        </p>
+      )}
+    </>
+  );
+}
+
+const DATA_QUALITY_LABELS: Record<DataQuality, string> = {
+  reported: 'Reported',
+  estimated: 'Estimated',
+  defaulted: 'Defaulted',
+};
+
+const PROVENANCE_FIELD_LABELS: Record<string, string> = {
+  capacityFactor: 'capacity factor',
+  generationGWh: 'generation',
+  usedCapacity: 'used capacity',
+};
+
+function PlantProvenanceRows({ plant }: { plant: PowerPlant }) {
+  const { provenance, dataQuality } = plant;
+  if (!provenance) return null;
+
+  const label = (field: string) => PROVENANCE_FIELD_LABELS[field] ?? field;
+  const flaggedFields = [
+    ...provenance.defaultedFields.map((field) => `${label(field)} defaulted`),
+    ...provenance.estimatedFields.map((field) => `${label(field)} estimated`),
+  ];
+
+  return (
+    <>
+      <p>Data Sources: {provenance.datasets.join(', ')}</p>
+      {dataQuality && (
+        <p>
+          Data Quality: {DATA_QUALITY_LABELS[dataQuality]}
+          {flaggedFields.length > 0 && ` (${flaggedFields.join(', ')})`}
+        </p>
+      )}
+    </>
+  );
+}
+
 function App() {
   const { theme } = useTheme();
   const [wfsCables, setWfsCables] = useState<Cable[]>([]);
@@ -235,8 +125,11 @@ function App() {
   const [showHifldLines, setShowHifldLines] = useState<boolean>(false);
   const [showFiberCables, setShowFiberCables] = useState<boolean>(true);
   const [showFiberOverview, setShowFiberOverview] = useState<boolean>(true);
+  const [fiberFilters, setFiberFilters] = useState<FiberFilters>(EMPTY_FIBER_FILTERS);
+  const [fiberColorBy, setFiberColorBy] = useState<FiberColorBy>('none');
 
   const [hoverInfo, setHoverInfo] = useState<PowerPlant | null>(null);
+  const [hoveredCluster, setHoveredCluster] = useState<PowerPlantCluster | null>(null);
   const [hoveredLine, setHoveredLine] = useState<HoveredHifldLine | null>(null);
   const [locationPinHoverInfo, setLocationPinHoverInfo] = useState<{ x: number; y: number; address: string } | null>(null);
   const [isLineTooltipPersistent, setIsLineTooltipPersistent] = useState<boolean>(false);
@@ -263,9 +156,11 @@ function App() {
   const [showKyrgyzstanPlants, setShowKyrgyzstanPlants] = useState<boolean>(true);
 
   const [enabledCountries, setEnabledCountries] = useState<Set<string>>(new Set(['US']));
-  const [allCountries, setAllCountries] = useState<Array<{code: string, name: string, count: number, usedCapacity?: number}>>([]);
+  const [enabledAdmin1, setEnabledAdmin1] = useState<Set<string>>(new Set());
+  const [allCountries, setAllCountries] = useState<Array<{code: string, name: string, count: number, usedCapacity?: number, admin1?: Admin1Metadata[]}>>([]);
 
   const [showOnlyNearbyPlants, setShowOnlyNearbyPlants] = useState<boolean>(false);
+  const [proximityLayer, setProximityLayer] = useState<InfraLayer>('fiber');
   const [proximityDistance, setProximityDistance] = useState<number>(0);
   const [sliderValue, setSliderValue] = useState<number>(0);
   const [isMeasuringDistance, setIsMeasuringDistance] = useState<boolean>(false);
@@ -294,7 +189,6 @@ function App() {
     setDistancePoints([]);
   }, []);
 
-  const [lineIndex, setLineIndex] = useState<RBush<LineSegment> | null>(null);
   const [powerRange, setPowerRange] = useState<{ min: number; max: number }>({ min: 0, max: 10000 });
   const [sizeMultiplier, setSizeMultiplier] = useState<number>(2);
   const [capacityWeight, setCapacityWeight] = useState<number>(1);
@@ -304,6 +198,7 @@ function App() {
   const [isProximityDialogOpen, setIsProximityDialogOpen] = useState<boolean>(false);
   const [allStatuses, setAllStatuses] = useState<string[]>([]);
   const [filteredStatuses, setFilteredStatuses] = useState<Set<string>>(new Set());
+  const [operatingInYear, setOperatingInYear] = useState<number | null>(null);
   const [isFilterStateReady, setIsFilterStateReady] = useState(false);
   const [selectedPlantIds, setSelectedPlantIds] = useState<Set<string>>(new Set());
 
@@ -327,6 +222,8 @@ function App() {
 
   const {
     powerPlants,
+    plantColumns,
+    clusters: powerPlantClusters,
     page: powerPlantsPage,
     metadata: powerPlantMetadata,
     loading,
@@ -334,16 +231,41 @@ function App() {
     viewState,
     filteredSources,
     enabledCountries,
+    enabledAdmin1,
     filteredStatuses,
+    operatingInYear,
     minPowerOutput,
     maxPowerOutput,
     minCapacityFactor,
     maxCapacityFactor,
     showOnlyNearbyPlants,
+    proximityLayer,
     proximityDistance: debouncedDistance,
     isFilterStateReady,
   });
 
+  const { plants: radiusPowerPlants } = useRadiusPowerPlants({
+    center: selectedLocation?.coordinates ?? null,
+    radiusMiles: locationRadius,
+    filteredSources,
+    enabledCountries,
+    enabledAdmin1,
+    filteredStatuses,
+    operatingInYear,
+    minPowerOutput,
+    maxPowerOutput,
+    minCapacityFactor,
+    maxCapacityFactor,
+    isFilterStateReady,
+  });
+
+  // The cluster layer unmounts without an onHover(null) when zoom crosses the
+  // cluster threshold or clustering stops, so its tooltip is dropped here.
+  const isClusterZoom = viewState.zoom < POWER_PLANT_CLUSTER_MAX_ZOOM;
+  useEffect(() => {
+    setHoveredCluster(null);
+  }, [isClusterZoom, showOnlyNearbyPlants, showPowerPlants, powerPlantClusters]);
+
   useEffect(() => {
     let cancelled = false;
 
@@ -353,8 +275,6 @@ function App() {
         if (cancelled) return;
 
         setWfsCables(wfsCableData);
-        const index = createLineIndex(wfsCableData);
-        setLineIndex(index);
       } catch (error) {
         if (!cancelled) {
           console.error('Error loading WFS cables:', error);
@@ -369,22 +289,6 @@ function App() {
     };
   }, []);
 
-  useEffect(() => {
-    if (showFiberCables && loadedFiberCables.length > 0) {
-      const fiberAsCables: Cable[] = loadedFiberCables.map((fiber) => ({
-        id: fiber.id,
-        name: String((fiber.properties?.name ?? fiber.properties?.NAME ?? fiber.id) as string),
-        coordinates: fiber.path,
-      }));
-      setLineIndex(createLineIndex(fiberAsCables));
-      return;
-    }
-
-    if (wfsCables.length > 0) {
-      setLineIndex(createLineIndex(wfsCables));
-    }
-  }, [showFiberCables, loadedFiberCables, wfsCables]);
-
   useEffect(() => {
     if (!powerPlantMetadata) return;
 
@@ -420,6 +324,7 @@ function App() {
           name: getCountryName(country.code),
           count: country.count,
           usedCapacity: country.usedCapacity,
+          admin1: country.admin1,
         }))
         .sort((a, b) => b.count - a.count);
 
@@ -479,7 +384,20 @@ function App() {
     });
   };
 
+  const toggleFiberFilter = (field: FiberFilterField, value: string) => {
+    setFiberFilters(prev => ({
+      ...prev,
+      [field]: prev[field].includes(value)
+        ? prev[field].filter(selected => selected !== value)
+        : [...prev[field], value],
+    }));
+  };
+
   const toggleCountryFilter = (countryCode: string) => {
+    if (enabledCountries.has(countryCode)) {
+      // Re-enabling a country later starts from the whole country again
+      setEnabledAdmin1(prev => new Set(Array.from(prev).filter(code => !code.startsWith(`${countryCode}-`))));
+    }
     setEnabledCountries(prev => {
       const newSet = new Set(prev);
       if (newSet.has(countryCode)) {
@@ -491,6 +409,18 @@ function App() {
     });
   };
 
+  const toggleAdmin1Filter = (admin1Code: string) => {
+    setEnabledAdmin1(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(admin1Code)) {
+        newSet.delete(admin1Code);
+      } else {
+        newSet.add(admin1Code);
+      }
+      return newSet;
+    });
+  };
+
   const handlePlantSelect = (plantId: string) => {
     setSelectedPlantIds(prev => new Set(prev).add(plantId));
   };
@@ -537,27 +467,35 @@ function App() {
     });
   }, []);
 
-  const { nearbyFiberCables, isCalculatingNearbyFiber } = useNearbyFiber(
-    persistentPlant,
+  const { nearbyFiberCables, carrierDiversity, isCalculatingNearbyFiber } = useNearbyFiber(
+    persistentPlant?.coordinates ?? null,
     loadedFiberCables,
     showFiberCables
   );
+  const {
+    carrierDiversity: locationCarrierDiversity,
+    isCalculatingNearbyFiber: isCalculatingLocationFiber,
+  } = useNearbyFiber(selectedLocation?.coordinates ?? null, loadedFiberCables, showFiberCables);
+
+  const plantGenerators = usePlantGenerators(hoverInfo || persistentPlant);
+  const plantDetail = usePlantDetail(isTooltipPersistent ? persistentPlant : null);
 
   const { filteredPowerPlants, nearbyPlants, proximityPlantCount } = useProximityAnalysis({
     powerPlants,
+    plantColumns,
     showOnlyNearbyPlants,
-    lineIndex,
-    proximityDistance: debouncedDistance,
     selectedPlantIds,
   });
 
-  const { fiberLayer, hifldLayer } = useVectorTileLayers({
+  const { fiberLayer, hifldLayer, fiberTruncation, fiberFacets, fiberLegend } = useVectorTileLayers({
     showFiberCables,
     showFiberOverview,
     showHifldLines,
     zoom: viewState.zoom,
     longitude: viewState.longitude,
     latitude: viewState.latitude,
+    fiberFilters,
+    fiberColorBy,
     isFiberTooltipPersistent,
     fiberHoverTimeoutRef,
     lineHoverTimeoutRef: hoverTimeoutRef,
@@ -649,6 +587,9 @@ function App() {
     showRadiusCircle,
     showPowerPlants,
     filteredPowerPlants,
+    // A selection draws its plants from filteredPowerPlants, including those it took from the columns.
+    powerPlantColumns: selectedPlantIds.size > 0 ? null : plantColumns,
+    powerPlantClusters,
     sizeByOption,
     sizeMultiplier,
     capacityWeight,
@@ -660,6 +601,7 @@ function App() {
     isMeasuringDistance,
     distancePoints,
     setHoverInfo,
+    setHoveredCluster,
     setLocationPinHoverInfo,
   });
   return (
@@ -676,11 +618,22 @@ function App() {
         <div className="data-warning">
           <AlertTriangle size={20} />
           <span>
-            Showing {powerPlants.length} of {powerPlantsPage.total} power plants for this view.
+            Showing {powerPlantsPage.limit} of {powerPlantsPage.total} power plants for this view.
             Zoom in or refine filters to reduce results.
           </span>
         </div>
       )}
+
+      {fiberTruncation && (
+        <div className="data-warning fiber-truncation-warning">
+          <AlertTriangle size={20} />
+          <span>
+            {fiberTruncation.droppedFeatures > 0
+              ? `Zoom in to see ${fiberTruncation.droppedFeatures.toLocaleString()} more fiber routes.`
+              : 'Zoom in to see fiber routes in the rest of this view.'}
+          </span>
+        </div>
+      )}
       
       <div className="map-container">
         <AddressSearch 
@@ -691,7 +644,10 @@ function App() {
           <LocationStatsPanel
             coordinates={selectedLocation.coordinates}
             addressName={selectedLocation.addressName}
-            powerPlants={powerPlants}
+            powerPlants={radiusPowerPlants}
+            carrierDiversity={locationCarrierDiversity}
+            isCalculatingCarriers={isCalculatingLocationFiber}
+            fiberRadiusMiles={FIBER_RADIUS_MILES}
             radius={locationRadius}
             onRadiusChange={setLocationRadius}
             isCollapsed={isStatsPanelCollapsed}
@@ -752,6 +708,18 @@ function App() {
               });
               return true;
             }
+            if (info.object && info.layer?.id === 'power-plant-clusters') {
+              event.stopPropagation();
+              const cluster = info.object as PowerPlantCluster;
+              setHoveredCluster(null);
+              setViewState(prev => ({
+                ...prev,
+                longitude: cluster.coordinates[0],
+                latitude: cluster.coordinates[1],
+                zoom: Math.max(prev.zoom + 2, POWER_PLANT_CLUSTER_MAX_ZOOM),
+              }));
+              return true;
+            }
             if (info.object && info.layer?.id === 'power-plants') {
               event.stopPropagation();
               setHoverInfo(info.object);
@@ -759,9 +727,20 @@ function App() {
               setPersistentPlant(info.object);
               return true;
             }
+            const columnPlant =
+              info.layer?.id === 'power-plants-columnar' && plantColumns
+                ? getPlantFromColumns(plantColumns, info.index)
+                : null;
+            if (columnPlant) {
+              event.stopPropagation();
+              setHoverInfo(columnPlant);
+              setIsTooltipPersistent(true);
+              setPersistentPlant(columnPlant);
+              return true;
+            }
             if (info.object && info.layer?.id === 'hifld-lines') {
               event.stopPropagation();
-              const line = featureToHifldLine(info.object as GeoJsonLikeFeature, 'hifld-click');
+              const line = featureToHifldLine((info.object as FeaturePathPart).feature, 'hifld-click');
               if (!line) return false;
               setHoveredLine(line);
               setIsLineTooltipPersistent(true);
@@ -770,7 +749,7 @@ function App() {
             }
             if (info.object && info.layer?.id === 'fiber-cables') {
               event.stopPropagation();
-              const cable = featureToFiberCable(info.object as GeoJsonLikeFeature, 'fiber-click');
+              const cable = featureToFiberCable((info.object as FeaturePathPart).feature, 'fiber-click');
               if (!cable) return false;
               setHoveredFiberCable(cable);
               setIsFiberTooltipPersistent(true);
@@ -829,6 +808,13 @@ function App() {
         onToggleHifldLines={() => setShowHifldLines(!showHifldLines)}
         onToggleFiberCables={() => setShowFiberCables(!showFiberCables)}
         onToggleFiberOverview={() => setShowFiberOverview(!showFiberOverview)}
+        fiberFilters={fiberFilters}
+        fiberFacets={fiberFacets}
+        onToggleFiberFilter={toggleFiberFilter}
+        onClearFiberFilters={() => setFiberFilters(EMPTY_FIBER_FILTERS)}
+        fiberColorBy={fiberColorBy}
+        onFiberColorByChange={setFiberColorBy}
+        fiberLegend={fiberLegend}
         filteredSources={filteredSources}
         onToggleSourceFilter={toggleSourceFilter}
         onSelectAllSources={selectAllSources}
@@ -836,6 +822,8 @@ function App() {
         allStatuses={allStatuses}
         filteredStatuses={filteredStatuses}
         onToggleStatusFilter={toggleStatusFilter}
+        operatingInYear={operatingInYear}
+        onOperatingInYearChange={setOperatingInYear}
         showCanadianPlants={showCanadianPlants}
         showAmericanPlants={showAmericanPlants}
         showKazakhstanPlants={showKazakhstanPlants}
@@ -851,6 +839,8 @@ function App() {
         allCountries={allCountries}
         enabledCountries={enabledCountries}
         onToggleCountryFilter={toggleCountryFilter}
+        enabledAdmin1={enabledAdmin1}
+        onToggleAdmin1Filter={toggleAdmin1Filter}
         minPowerOutput={minPowerOutput}
         maxPowerOutput={maxPowerOutput}
         onMinPowerOutputChange={setMinPowerOutput}
@@ -861,6 +851,8 @@ function App() {
         onMinCapacityFactorChange={setMinCapacityFactor}
         onMaxCapacityFactorChange={setMaxCapacityFactor}
         showOnlyNearbyPlants={showOnlyNearbyPlants}
+        proximityLayer={proximityLayer}
+        onProximityLayerChange={setProximityLayer}
         proximityDistance={proximityDistance}
         onToggleNearbyPlants={() => setShowOnlyNearbyPlants(!showOnlyNearbyPlants)}
         onProximityDistanceChange={handleSliderChange}
@@ -873,8 +865,12 @@ function App() {
         sizeByOption={sizeByOption}
         setSizeByOption={setSizeByOption}
         powerPlants={powerPlants}
+        plantColumns={plantColumns}
         allSourcesInData={allSourcesInData}
         powerPlantCounts={powerPlantCounts}
+        datasetVersion={powerPlantMetadata?.version}
+        datasetBuiltAt={powerPlantMetadata?.builtAt}
+        datasetSources={powerPlantMetadata?.dataSources}
         selectedPlantIds={selectedPlantIds}
         onPlantSelect={handlePlantSelect}
         onPlantDeselect={handlePlantDeselect}
@@ -916,7 +912,12 @@ function App() {
             )}
 
              {(() => {
-               const plant = hoverInfo || persistentPlant;
+               // Plants drawn from columns only carry a few fields until their detail loads.
+               const shownPlant = hoverInfo || persistentPlant;
+               const plant =
+                 shownPlant && plantDetail.detail?.id === shownPlant.id
+                   ? { ...shownPlant, ...plantDetail.detail }
+                   : shownPlant;
                if (!plant) return null;
                
                // For US plants, show the 6 required fields
@@ -930,12 +931,19 @@ function App() {
                  return (
                    <>
                      <h3>{plant.name}</h3>
-                     <p>Available Capacity: {availableCapacity.toFixed(1)} MW</p>
+                     {plantGenerators.totals && plantGenerators.generators.length > 0 ? (
+                       <PlantGeneratorTable generators={plantGenerators.generators} totals={plantGenerators.totals} />
+                     ) : (
+                       <p>Available Capacity: {availableCapacity.toFixed(1)} MW</p>
+                     )}
                      <p>Source: {plant.source}</p>
                      <p>Used Capacity: {usedCapacity.toFixed(1)} MW</p>
                      <p>Excess Capacity: {excessCapacity.toFixed(1)} MW</p>
                      <p>Capacity Factor: {capacityFactor.toFixed(1)}%</p>
                      <p>Coordinates: {plant.coordinates[1].toFixed(4)}, {plant.coordinates[0].toFixed(4)}</p>
+                     <PlantInfrastructureRows plant={plant} />
+                     <PlantProvenanceRows plant={plant} />
+                     {isTooltipPersistent && <PlantDetailSection {...plantDetail} />}
 
                      {plantUrl && (
                        <div className="cta-buttons" style={{ marginTop: '12px' }}>
@@ -987,6 +995,11 @@ function App() {
                              </span>
                            )}
                          </div>
+                         <CarrierDiversitySummary
+                           diversity={carrierDiversity}
+                           isCalculating={isCalculatingNearbyFiber}
+                           radiusMiles={FIBER_RADIUS_MILES}
+                         />
                          {isCalculatingNearbyFiber ? (
                            <p style={{ color: 'rgba(255, 255, 255, 0.6)', fontSize: '14px', textAlign: 'center', padding: '20px' }}>
                              Calculating...
@@ -1074,7 +1087,7 @@ function App() {
                              padding: '20px',
                              fontStyle: 'italic'
                            }}>
-                             No fiber cables found within 5 miles
+                             No fiber cables found within {FIBER_RADIUS_MILES} miles
                            </p>
                          )}
                        </div>
@@ -1110,6 +1123,9 @@ function App() {
                    )}
                    {plant.netSummerCapacity && <p>Net Summer Capacity: {plant.netSummerCapacity.toFixed(1)} MW</p>}
                    {plant.netWinterCapacity && <p>Net Winter Capacity: {plant.netWinterCapacity.toFixed(1)} MW</p>}
+                   <PlantInfrastructureRows plant={plant} />
+                   <PlantProvenanceRows plant={plant} />
+                   {isTooltipPersistent && <PlantDetailSection {...plantDetail} />}
 
                    {/* Additional details from rawData - shown when persistent */}
                    {isTooltipPersistent && plant.rawData && (
@@ -1185,6 +1201,11 @@ function App() {
                            </span>
                          )}
                        </div>
+                       <CarrierDiversitySummary
+                         diversity={carrierDiversity}
+                         isCalculating={isCalculatingNearbyFiber}
+                         radiusMiles={FIBER_RADIUS_MILES}
+                       />
                        {isCalculatingNearbyFiber ? (
                          <p style={{ color: 'rgba(255, 255, 255, 0.6)', fontSize: '14px', textAlign: 'center', padding: '20px' }}>
                            Calculating...
@@ -1272,7 +1293,7 @@ function App() {
                            padding: '20px',
                            fontStyle: 'italic'
                          }}>
-                           No fiber cables found within 5 miles
+                           No fiber cables found within {FIBER_RADIUS_MILES} miles
                          </p>
                        )}
                      </div>
@@ -1283,6 +1304,32 @@ function App() {
            </div>
           )}
 
+          {/* Power Plant Cluster Info Panel */}
+          {hoveredCluster && (
+            <div className="info-panel plant-panel">
+              <h3>{hoveredCluster.count.toLocaleString()} power plants</h3>
+              <p>Total Capacity: {hoveredCluster.totalOutput.toLocaleString()} MW</p>
+              {Object.entries(hoveredCluster.outputBySource)
+                .sort(([, a], [, b]) => b - a)
+                .map(([source, output]) => (
+                  <p key={source} style={{ display: 'flex', alignItems: 'center' }}>
+                    <span
+                      style={{
+                        display: 'inline-block',
+                        width: '10px',
+                        height: '10px',
+                        borderRadius: '50%',
+                        backgroundColor: `rgb(${POWER_PLANT_COLORS[source]?.join(',') || '128,128,128'})`,
+                        marginRight: '8px'
+                      }}
+                    ></span>
+                    {source}: {output.toLocaleString()} MW
+                  </p>
+                ))}
+              <p style={{ fontStyle: 'italic' }}>Click to zoom in and see individual plants.</p>
+            </div>
+          )}
+
           {/* HIFLD Transmission Line Info Panel */}
           {(hoveredLine || (isLineTooltipPersistent && persistentLine)) && (
             <div className="info-panel line-panel">
@@ -1317,6 +1364,10 @@ function App() {
               const lengthKm = line.properties.shapeLength 
                 ? (line.properties.shapeLength / 1000).toFixed(2) 
                 : null;
+              const start = line.paths[0]?.[0];
+              const lastPath = line.paths[line.paths.length - 1];
+              const end = lastPath?.[lastPath.length - 1];
+              const pointCount = line.paths.reduce((total, path) => total + path.length, 0);
               
               return (
                 <>
@@ -1348,14 +1399,17 @@ function App() {
                   {sub2 && (
                     <p><strong>Substation 2:</strong> {sub2}</p>
                   )}
-                  {line.coordinates && line.coordinates.length > 0 && (
-                    <p><strong>Start:</strong> {line.coordinates[0][1].toFixed(4)}, {line.coordinates[0][0].toFixed(4)}</p>
+                  {start && (
+                    <p><strong>Start:</strong> {start[1].toFixed(4)}, {start[0].toFixed(4)}</p>
                   )}
-                  {line.coordinates && line.coordinates.length > 1 && (
-                    <p><strong>End:</strong> {line.coordinates[line.coordinates.length - 1][1].toFixed(4)}, {line.coordinates[line.coordinates.length - 1][0].toFixed(4)}</p>
+                  {end && end !== start && (
+                    <p><strong>End:</strong> {end[1].toFixed(4)}, {end[0].toFixed(4)}</p>
                   )}
-                  {line.coordinates && line.coordinates.length > 2 && (
-                    <p><strong>Coordinate Points:</strong> {line.coordinates.length}</p>
+                  {line.paths.length > 1 && (
+                    <p><strong>Parts:</strong> {line.paths.length}</p>
+                  )}
+                  {pointCount > 2 && (
+                    <p><strong>Coordinate Points:</strong> {pointCount}</p>
                   )}
                 </>
               );
@@ -1384,6 +1438,9 @@ function App() {
                 const fiber = (isFiberTooltipPersistent && persistentFiberCable) ? persistentFiberCable : hoveredFiberCable;
                 if (!fiber) return null;
                 const p = fiber.properties as Record<string, unknown>;
+                const start = fiber.paths[0]?.[0];
+                const lastPath = fiber.paths[fiber.paths.length - 1];
+                const end = lastPath?.[lastPath.length - 1];
                 return (
                   <>
                     <h3>Fiber Cable</h3>
@@ -1399,11 +1456,14 @@ function App() {
                     {p.CNTRY_NAME != null && p.CNTRY_NAME !== '' && <p><strong>Country:</strong> {String(p.CNTRY_NAME)}</p>}
                     {p.QUALITY != null && p.QUALITY !== '' && <p><strong>Quality:</strong> {String(p.QUALITY)}</p>}
                     {p.LOC_ID != null && p.LOC_ID !== '' && <p><strong>ID:</strong> {String(p.LOC_ID)}</p>}
-                    {fiber.path && fiber.path.length > 0 && (
-                      <p><strong>Start:</strong> {fiber.path[0][1].toFixed(4)}, {fiber.path[0][0].toFixed(4)}</p>
+                    {start && (
+                      <p><strong>Start:</strong> {start[1].toFixed(4)}, {start[0].toFixed(4)}</p>
+                    )}
+                    {end && end !== start && (
+                      <p><strong>End:</strong> {end[1].toFixed(4)}, {end[0].toFixed(4)}</p>
                     )}
-                    {fiber.path && fiber.path.length > 1 && (
-                      <p><strong>End:</strong> {fiber.path[fiber.path.length - 1][1].toFixed(4)}, {fiber.path[fiber.path.length - 1][0].toFixed(4)}</p>
+                    {fiber.paths.length > 1 && (
+                      <p><strong>Parts:</strong> {fiber.paths.length}</p>
                     )}
                   </>
                 );
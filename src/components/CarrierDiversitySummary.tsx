@@ -0,0 +1,58 @@
+import React from 'react';
+import { CARRIER_DIVERSITY_LABELS, type CarrierDiversity } from '../utils/fiberCarriers';
+import './CarrierDiversitySummary.css';
+
+interface CarrierDiversitySummaryProps {
+  diversity: CarrierDiversity | null;
+  isCalculating: boolean;
+  radiusMiles: number;
+}
+
+const CarrierDiversitySummary: React.FC<CarrierDiversitySummaryProps> = ({ diversity, isCalculating, radiusMiles }) => {
+  if (isCalculating) {
+    return <p className="carrier-diversity-status">Counting carriers...</p>;
+  }
+  if (!diversity) return null;
+
+  const { carriers, carrierCount, unattributedCables, score, rating } = diversity;
+
+  return (
+    <div className="carrier-diversity">
+      <div className="carrier-diversity-header">
+        <span className="carrier-diversity-title">Carrier Diversity</span>
+        <span
+          className={`carrier-diversity-score carrier-diversity-${rating}`}
+          title="How evenly route miles are spread across carriers; four equal carriers score 100"
+        >
+          {score}/100 · {CARRIER_DIVERSITY_LABELS[rating]}
+        </span>
+      </div>
+      <p className="carrier-diversity-status">
+        {carrierCount} {carrierCount === 1 ? 'carrier' : 'carriers'} within {radiusMiles} miles
+        {unattributedCables > 0 && `, plus ${unattributedCables} cables with no operator listed`}
+      </p>
+      {carriers.length > 0 && (
+        <table className="carrier-diversity-table">
+          <thead>
+            <tr>
+              <th>Carrier</th>
+              <th title="Closest approach of any of the carrier's routes">Closest</th>
+              <th title="Length of the carrier's nearby routes">Route mi</th>
+            </tr>
+          </thead>
+          <tbody>
+            {carriers.map((carrier) => (
+              <tr key={carrier.key}>
+                <td title={carrier.cableCount > 1 ? `${carrier.cableCount} routes` : undefined}>{carrier.name}</td>
+                <td>{carrier.closestMiles.toFixed(2)} mi</td>
+                <td>{carrier.routeMiles.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default CarrierDiversitySummary;
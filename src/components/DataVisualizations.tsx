@@ -16,6 +16,8 @@ import {
 import './DataVisualizations.css';
 import { authenticatedFetch } from '../utils/auth';
 import type { PowerPlantPage } from '../types/powerPlantApi';
+import { getAdmin1Name } from '../utils/admin1';
+import { getPlantStatusLabel } from '../utils/plantStatus';
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#AF19FF', '#FF1919', '#82ca9d', '#ffc658'];
 
@@ -25,7 +27,9 @@ interface EIAPlantData {
   'energy-source-desc': string;
   technology: string;
   statusDescription: string;
+  status?: string;
   stateName: string;
+  admin1?: string;
   output?: number;
   source?: string;
   name?: string;
@@ -48,7 +52,7 @@ const getPlantWinterCapacity = (plant: EIAPlantData): number => {
 };
 
 const getPlantStatus = (plant: EIAPlantData): string =>
-  plant.statusDescription || plant.rawData?.statusDescription || 'Unknown';
+  plant.status ? getPlantStatusLabel(plant.status) : plant.statusDescription || plant.rawData?.statusDescription || 'Unknown';
 
 const getPlantTechnology = (plant: EIAPlantData): string =>
   plant.technology || plant.rawData?.technology || 'Unknown';
@@ -59,7 +63,7 @@ const getPlantSource = (plant: EIAPlantData): string =>
 const getPlantName = (plant: EIAPlantData): string => plant.plantName || plant.name || 'Unknown';
 
 const getPlantState = (plant: EIAPlantData): string =>
-  plant.stateName || plant.rawData?.['State / Province / Territory'] || 'Unknown';
+  plant.admin1 ? getAdmin1Name(plant.admin1) : plant.stateName || plant.rawData?.['State / Province / Territory'] || 'Unknown';
 
 const DataVisualizations: React.FC = () => {
   const [eiaData, setEiaData] = useState<EIAPlantData[]>([]);
@@ -312,23 +316,14 @@ const DataVisualizations: React.FC = () => {
 
   return (
     <div className="data-analysis-dashboard">
-      {/* 
-        REGIONAL CAPACITY GRAPH - COMMENTED OUT
-        ==========================================
-        This graph has been temporarily commented out because it's not showing results properly.
-        The data structure needs to be figured out before this can be re-enabled.
-        
-        TO RE-ENABLE: Uncomment the section below (from the opening comment to the closing comment)
-        and ensure the eiaData structure matches what the regionalCapacityData calculation expects.
-      */}
-      {/*
+      {/* Regional Capacity, grouped by the plants' normalized admin1 region */}
       <div className="analysis-section compact">
-        <h4 className="section-title">Regional Capacity (Top 8 States)</h4>
+        <h4 className="section-title">Regional Capacity (Top 8 States/Provinces)</h4>
         <div className="chart-container">
           <ResponsiveContainer width="100%" height={140}>
             <BarChart
               data={regionalCapacityData}
-              layout="horizontal"
+              layout="vertical"
               margin={{ top: 2, right: 2, left: 2, bottom: 2 }}
             >
               <XAxis type="number" fontSize={9} />
@@ -350,7 +345,6 @@ const DataVisualizations: React.FC = () => {
           </ResponsiveContainer>
         </div>
       </div>
-      */}
 
       {/* Capacity Factor Analysis */}
       <div className="analysis-section">
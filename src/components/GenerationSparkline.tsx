@@ -0,0 +1,56 @@
+import React from 'react';
+import type { GenerationYear } from '../models/PowerPlant';
+import './GenerationSparkline.css';
+
+interface GenerationSparklineProps {
+  history: GenerationYear[];
+  width?: number;
+  height?: number;
+}
+
+const PADDING = 3;
+
+// Annual net generation as a line; estimated years are drawn as hollow points.
+const GenerationSparkline: React.FC<GenerationSparklineProps> = ({ history, width = 160, height = 36 }) => {
+  if (history.length < 2) return null;
+
+  const firstYear = history[0].year;
+  const lastYear = history[history.length - 1].year;
+  const values = history.map((year) => year.gwh);
+  const min = Math.min(0, ...values);
+  const max = Math.max(...values);
+
+  const toX = (year: number) =>
+    PADDING + ((year - firstYear) / Math.max(lastYear - firstYear, 1)) * (width - PADDING * 2);
+  const toY = (gwh: number) =>
+    height - PADDING - ((gwh - min) / Math.max(max - min, Number.EPSILON)) * (height - PADDING * 2);
+
+  const points = history.map((year) => `${toX(year.year).toFixed(1)},${toY(year.gwh).toFixed(1)}`).join(' ');
+  const summary = history.map((year) => `${year.year}: ${year.gwh.toFixed(0)} GWh`).join(', ');
+
+  return (
+    <figure className="generation-sparkline">
+      <svg width={width} height={height} role="img" aria-label={`Annual generation, ${summary}`}>
+        <polyline points={points} className="generation-sparkline-line" />
+        {history.map((year) => (
+          <circle
+            key={year.year}
+            cx={toX(year.year)}
+            cy={toY(year.gwh)}
+            r={2}
+            className={year.estimated ? 'generation-sparkline-point estimated' : 'generation-sparkline-point'}
+          >
+            <title>
+              {year.year}: {year.gwh.toFixed(1)} GWh{year.estimated ? ' (estimated)' : ''}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <figcaption>
+        {firstYear}–{lastYear}
+      </figcaption>
+    </figure>
+  );
+};
+
+export default GenerationSparkline;
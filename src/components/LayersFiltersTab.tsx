@@ -1,220 +1,20 @@
 import React, { useState, useEffect } from 'react';
+import type { Admin1Metadata, InfraLayer } from '../types/powerPlantApi';
 import type { PowerRange } from '../utils/powerRangeCalculator';
+import { getCountryFlag, getCountryRegion, type CountryRegion } from '../utils/countries';
+import { getPlantStatusLabel } from '../utils/plantStatus';
+import {
+  FIBER_FILTER_FIELDS,
+  hasFiberFilters,
+  type FiberColorBy,
+  type FiberFacets,
+  type FiberFilterField,
+  type FiberFilters,
+} from '../utils/fiberAttributes';
 import DualRangeSlider from './DualRangeSlider';
 import './LayersFiltersTab.css';
 import './StatusComponents.css';
 
-// Function to get country flag emoji
-function getCountryFlag(countryCode: string): string {
-  const flagMap: Record<string, string> = {
-    'CA': '🇨🇦',
-    'US': '🇺🇸',
-    'KZ': '🇰🇿',
-    'AE': '🇦🇪',
-    'IN': '🇮🇳',
-    'KG': '🇰🇬',
-    'CHN': '🇨🇳',
-    'GBR': '🇬🇧',
-    'BRA': '🇧🇷',
-    'FRA': '🇫🇷',
-    'DEU': '🇩🇪',
-    'ESP': '🇪🇸',
-    'RUS': '🇷🇺',
-    'JPN': '🇯🇵',
-    'AUS': '🇦🇺',
-    'PRT': '🇵🇹',
-    'CZE': '🇨🇿',
-    'ITA': '🇮🇹',
-    'CHL': '🇨🇱',
-    'NOR': '🇳🇴',
-    'MEX': '🇲🇽',
-    'VNM': '🇻🇳',
-    'ARG': '🇦🇷',
-    'THA': '🇹🇭',
-    'POL': '🇵🇱',
-    'FIN': '🇫🇮',
-    'IDN': '🇮🇩',
-    'SWE': '🇸🇪',
-    'CHE': '🇨🇭',
-    'TUR': '🇹🇷',
-    'KOR': '🇰🇷',
-    'PHL': '🇵🇭',
-    'IRN': '🇮🇷',
-    'ZAF': '🇿🇦',
-    'AUT': '🇦🇹',
-    'SAU': '🇸🇦',
-    'GRC': '🇬🇷',
-    'GTM': '🇬🇹',
-    'URY': '🇺🇾',
-    'NLD': '🇳🇱',
-    'BEL': '🇧🇪',
-    'ROU': '🇷🇴',
-    'UKR': '🇺🇦',
-    'PAK': '🇵🇰',
-    'EGY': '🇪🇬',
-    'ISR': '🇮🇱',
-    'IRL': '🇮🇪',
-    'DZA': '🇩🇿',
-    'BGD': '🇧🇩',
-    'MYS': '🇲🇾',
-    'LKA': '🇱🇰',
-    'DNK': '🇩🇰',
-    'MAR': '🇲🇦',
-    'VEN': '🇻🇪',
-    'NZL': '🇳🇿',
-    'BGR': '🇧🇬',
-    'HND': '🇭🇳',
-    'TWN': '🇹🇼',
-    'MMR': '🇲🇲',
-    'JOR': '🇯🇴',
-    'PER': '🇵🇪',
-    'PRK': '🇰🇵',
-    'SVK': '🇸🇰',
-    'IRQ': '🇮🇶',
-    'TUN': '🇹🇳',
-    'CRI': '🇨🇷',
-    'BOL': '🇧🇴',
-    'COL': '🇨🇴',
-    'HRV': '🇭🇷',
-    'BLR': '🇧🇾',
-    'MUS': '🇲🇺',
-    'KEN': '🇰🇪',
-    'ECU': '🇪🇨',
-    'LAO': '🇱🇦',
-    'ISL': '🇮🇸',
-    'BIH': '🇧🇦',
-    'SDN': '🇸🇩',
-    'GEO': '🇬🇪',
-    'SYR': '🇸🇾',
-    'HUN': '🇭🇺',
-    'PAN': '🇵🇦',
-    'EST': '🇪🇪',
-    'UZB': '🇺🇿',
-    'SLV': '🇸🇻',
-    'NIC': '🇳🇮',
-    'KHM': '🇰🇭',
-    'ZMB': '🇿🇲',
-    'PNG': '🇵🇬',
-    'DOM': '🇩🇴',
-    'COD': '🇨🇩',
-    'SGP': '🇸🇬',
-    'NPL': '🇳🇵',
-    'CUB': '🇨🇺',
-    'AZE': '🇦🇿',
-    'AGO': '🇦🇴',
-    'NGA': '🇳🇬',
-    'NAM': '🇳🇦',
-    'ETH': '🇪🇹',
-    'SRB': '🇷🇸',
-    'QAT': '🇶🇦',
-    'OMN': '🇴🇲',
-    'MKD': '🇲🇰',
-    'MDG': '🇲🇬',
-    'LBY': '🇱🇾',
-    'FJI': '🇫🇯',
-    'UGA': '🇺🇬',
-    'TZA': '🇹🇿',
-    'RWA': '🇷🇼',
-    'TJK': '🇹🇯',
-    'SEN': '🇸🇳',
-    'JAM': '🇯🇲',
-    'KWT': '🇰🇼',
-    'GIN': '🇬🇳',
-    'AFG': '🇦🇫',
-    'SVN': '🇸🇮',
-    'MNG': '🇲🇳',
-    'COG': '🇨🇬',
-    'CMR': '🇨🇲',
-    'CIV': '🇨🇮',
-    'BHR': '🇧🇭',
-    'ARM': '🇦🇲',
-    'ALB': '🇦🇱',
-    'YEM': '🇾🇪',
-    'TKM': '🇹🇲',
-    'NER': '🇳🇪',
-    'MRT': '🇲🇷',
-    'LBN': '🇱🇧',
-    'BFA': '🇧🇫',
-    'TTO': '🇹🇹',
-    'SWZ': '🇸🇿',
-    'MDA': '🇲🇩',
-    'LTU': '🇱🇹',
-    'GUF': '🇬🇫',
-    'GHA': '🇬🇭',
-    'GAB': '🇬🇦',
-    'MWI': '🇲🇼',
-    'LVA': '🇱🇻',
-    'GUY': '🇬🇾',
-    'BTN': '🇧🇹',
-    'MLI': '🇲🇱',
-    'CPV': '🇨🇻',
-    'BRN': '🇧🇳',
-    'BDI': '🇧🇮',
-    'TGO': '🇹🇬',
-    'SLE': '🇸🇱',
-    'PRY': '🇵🇾',
-    'MOZ': '🇲🇿',
-    'MNE': '🇲🇪',
-    'GNQ': '🇬🇶',
-    'CYP': '🇨🇾',
-    'ZWE': '🇿🇼',
-    'LUX': '🇱🇺',
-    'LBR': '🇱🇷',
-    'KOS': '🇽🇰',
-    'GMB': '🇬🇲',
-    'ERI': '🇪🇷',
-    'CAF': '🇨🇫',
-    'BWA': '🇧🇼',
-    'BEN': '🇧🇯',
-    'ATA': '🇦🇶',
-    'SUR': '🇸🇷',
-    'PSE': '🇵🇸',
-    'LSO': '🇱🇸',
-    'LCA': '🇱🇨',
-    'GNB': '🇬🇼',
-    'ESH': '🇪🇭',
-    'DJI': '🇩🇯'
-  };
-  
-  return flagMap[countryCode] || '🏳️';
-}
-
-// Region → ISO country codes (matching the codes used in allCountries)
-const REGION_COUNTRIES: Record<
-  'europe' | 'africa' | 'asia' | 'northAmerica' | 'southAmerica' | 'oceania',
-  string[]
-> = {
-  europe: [
-    'FRA', 'DEU', 'ESP', 'ITA', 'GBR', 'NLD', 'BEL', 'SWE', 'NOR', 'DNK', 'POL', 'FIN', 'CHE',
-    'TUR', 'AUT', 'GRC', 'CZE', 'PRT', 'ROU', 'UKR', 'IRL', 'BGR', 'HUN', 'SVK', 'EST', 'LTU',
-    'LVA', 'SRB', 'SVN', 'BIH', 'HRV', 'ALB', 'MNE', 'MKD', 'ISL', 'LUX', 'BLR', 'KOS', 'GEO',
-    'CYP', 'MDA', 'MD', 'RUS', 'RU'
-  ],
-  africa: [
-    'ZAF', 'EGY', 'MAR', 'DZA', 'NGA', 'KEN', 'ETH', 'GHA', 'UGA', 'TZA', 'ZMB', 'MOZ', 'AGO',
-    'NAM', 'RWA', 'SEN', 'ZWE', 'COD', 'CMR', 'CIV', 'TUN', 'SDN', 'MLI', 'BWA', 'BEN', 'ERI',
-    'CAF', 'GAB', 'GMB', 'GNQ', 'LBR', 'LSO', 'MDG', 'MWI', 'MUS', 'NER', 'MRT', 'CPV', 'SWZ',
-    'DJI', 'BFA', 'BDI', 'GIN', 'GNB', 'COG', 'SLE', 'TGO', 'ESH', 'LBY'
-  ],
-  asia: [
-    'CHN', 'IND', 'IN', 'JPN', 'KOR', 'KZ', 'KG', 'PAK', 'BGD', 'VNM', 'THA', 'IDN', 'PHL', 'MMR', 'IRN', 'IRQ',
-    'SAU', 'ARE', 'QAT', 'OMN', 'KWT', 'ISR', 'LBN', 'JOR', 'AFG', 'NPL', 'LKA', 'KHM', 'LAO',
-    'SGP', 'TUR', 'KAZ', 'KGZ', 'UZB', 'TJK', 'TKM', 'YEM', 'SYR', 'ARM', 'AZE', 'MNG',
-    'BTN', 'BHR', 'BRN', 'MYS', 'PRK', 'PSE', 'TWN', 'ARE', 'AE'
-  ],
-  northAmerica: [
-    'US', 'CA', 'CAN', 'MEX', 'GTM', 'HND', 'SLV', 'NIC', 'CRI', 'PAN', 'CUB', 'DOM', 'JAM', 'TTO',
-    'GUF', 'LCA'
-  ],
-  southAmerica: [
-    'BRA', 'ARG', 'CHL', 'PER', 'COL', 'URY', 'BOL', 'PRY', 'ECU', 'VEN', 'SUR', 'GUY'
-  ],
-  oceania: [
-    // Australia & Oceania region
-    'AUS', 'NZL', 'PNG', 'FJI',
-  ],
-};
-
 interface LayersFiltersTabProps {
   // Layer visibility
   showPowerPlants: boolean;
@@ -228,6 +28,14 @@ interface LayersFiltersTabProps {
   onToggleFiberCables: () => void;
   onToggleFiberOverview: () => void;
 
+  // Fiber route attributes; facets are null until fiber routes are loaded for the view
+  fiberFilters: FiberFilters;
+  fiberFacets: FiberFacets | null;
+  onToggleFiberFilter: (field: FiberFilterField, value: string) => void;
+  onClearFiberFilters: () => void;
+  fiberColorBy: FiberColorBy;
+  onFiberColorByChange: (value: FiberColorBy) => void;
+
   // Country filtering
   showCanadianPlants: boolean;
   showAmericanPlants: boolean;
@@ -243,14 +51,20 @@ interface LayersFiltersTabProps {
   onToggleKyrgyzstanPlants: () => void;
   
   // Dynamic country filtering
-  allCountries: Array<{code: string, name: string, count: number, usedCapacity?: number}>;
+  allCountries: Array<{code: string, name: string, count: number, usedCapacity?: number, admin1?: Admin1Metadata[]}>;
   enabledCountries: Set<string>;
   onToggleCountryFilter: (countryCode: string) => void;
+  // States/provinces of enabled countries; none selected means the whole country
+  enabledAdmin1: Set<string>;
+  onToggleAdmin1Filter: (admin1Code: string) => void;
 
   // Status filtering
   allStatuses: string[];
   filteredStatuses: Set<string>;
   onToggleStatusFilter: (status: string) => void;
+  // Timeline filtering; null shows plants regardless of in-service/retirement dates
+  operatingInYear: number | null;
+  onOperatingInYearChange: (year: number | null) => void;
 
   // Power output filtering
   minPowerOutput: number;
@@ -269,6 +83,8 @@ interface LayersFiltersTabProps {
 
    // Proximity filtering
    showOnlyNearbyPlants: boolean;
+   proximityLayer: InfraLayer;
+   onProximityLayerChange: (layer: InfraLayer) => void;
    proximityDistance: number;
    onToggleNearbyPlants: () => void;
    onProximityDistanceChange: (value: number) => void;
@@ -284,6 +100,18 @@ interface LayersFiltersTabProps {
 
 type PowerRangePreset = 'small' | 'medium' | 'large' | 'custom';
 
+// The timeline reaches back far enough to compare against today's fleet and
+// forward over the planning horizon that proposed and retiring units report.
+const CURRENT_YEAR = new Date().getFullYear();
+const TIMELINE_MIN_YEAR = CURRENT_YEAR - 30;
+const TIMELINE_MAX_YEAR = CURRENT_YEAR + 15;
+
+const FIBER_FILTER_LABELS: Record<FiberFilterField, string> = {
+  operator: 'Operator',
+  serviceType: 'Service Type',
+  status: 'Status',
+};
+
 const LayersFiltersTab: React.FC<LayersFiltersTabProps> = ({
   showPowerPlants,
   showWfsCables,
@@ -295,6 +123,12 @@ const LayersFiltersTab: React.FC<LayersFiltersTabProps> = ({
   showFiberOverview,
   onToggleFiberCables,
   onToggleFiberOverview,
+  fiberFilters,
+  fiberFacets,
+  onToggleFiberFilter,
+  onClearFiberFilters,
+  fiberColorBy,
+  onFiberColorByChange,
   showCanadianPlants: _showCanadianPlants,
   showAmericanPlants: _showAmericanPlants,
   showKazakhstanPlants: _showKazakhstanPlants,
@@ -310,9 +144,13 @@ const LayersFiltersTab: React.FC<LayersFiltersTabProps> = ({
   allCountries,
   enabledCountries,
   onToggleCountryFilter,
-  allStatuses: _allStatuses,
-  filteredStatuses: _filteredStatuses,
-  onToggleStatusFilter: _onToggleStatusFilter,
+  enabledAdmin1,
+  onToggleAdmin1Filter,
+  allStatuses,
+  filteredStatuses,
+  onToggleStatusFilter,
+  operatingInYear,
+  onOperatingInYearChange,
   minPowerOutput,
   maxPowerOutput,
   onMinPowerOutputChange,
@@ -323,6 +161,8 @@ const LayersFiltersTab: React.FC<LayersFiltersTabProps> = ({
   onMinCapacityFactorChange,
   onMaxCapacityFactorChange,
   showOnlyNearbyPlants,
+  proximityLayer,
+  onProximityLayerChange,
   proximityDistance,
   onToggleNearbyPlants,
   onProximityDistanceChange,
@@ -357,13 +197,11 @@ const LayersFiltersTab: React.FC<LayersFiltersTabProps> = ({
     other: true,
   });
 
-  const handleRegionSelect = (regionKey: keyof typeof REGION_COUNTRIES) => {
-    const regionCodes = new Set(REGION_COUNTRIES[regionKey]);
-
+  const handleRegionSelect = (regionKey: CountryRegion) => {
     // Only care about codes that actually exist in data
     const validCodes = allCountries
       .map((country) => country.code)
-      .filter((code) => regionCodes.has(code));
+      .filter((code) => getCountryRegion(code) === regionKey);
 
     if (validCodes.length === 0) return;
 
@@ -402,7 +240,7 @@ const LayersFiltersTab: React.FC<LayersFiltersTabProps> = ({
       return a.name.localeCompare(b.name);
     });
 
-  const regionLabels: Record<keyof typeof REGION_COUNTRIES | 'other', string> = {
+  const regionLabels: Record<CountryRegion | 'other', string> = {
     europe: 'Europe',
     africa: 'Africa',
     asia: 'Asia',
@@ -413,16 +251,6 @@ const LayersFiltersTab: React.FC<LayersFiltersTabProps> = ({
   };
 
   const groupedCountries = (() => {
-    const countryToRegion: Partial<Record<string, keyof typeof REGION_COUNTRIES>> = {};
-    (Object.entries(REGION_COUNTRIES) as [keyof typeof REGION_COUNTRIES, string[]][])
-      .forEach(([regionKey, codes]) => {
-        codes.forEach((code) => {
-          if (!countryToRegion[code]) {
-            countryToRegion[code] = regionKey;
-          }
-        });
-      });
-
     const groups: Record<keyof typeof regionLabels, typeof filteredCountries> = {
       europe: [],
       africa: [],
@@ -434,19 +262,16 @@ const LayersFiltersTab: React.FC<LayersFiltersTabProps> = ({
     };
 
     filteredCountries.forEach((country) => {
-      const regionKey =
-        (countryToRegion[country.code] as keyof typeof REGION_COUNTRIES | undefined) ?? 'other';
-      groups[regionKey].push(country);
+      groups[getCountryRegion(country.code) ?? 'other'].push(country);
     });
 
     return groups;
   })();
 
-  const isRegionFullyEnabled = (regionKey: keyof typeof REGION_COUNTRIES) => {
-    const regionCodes = new Set(REGION_COUNTRIES[regionKey]);
+  const isRegionFullyEnabled = (regionKey: CountryRegion) => {
     const validCodes = allCountries
       .map((country) => country.code)
-      .filter((code) => regionCodes.has(code));
+      .filter((code) => getCountryRegion(code) === regionKey);
     if (validCodes.length === 0) return false;
     return validCodes.every((code) => enabledCountries.has(code));
   };
@@ -691,21 +516,38 @@ const LayersFiltersTab: React.FC<LayersFiltersTabProps> = ({
                           {expanded && (
                             <div className="country-region-list">
                               {countriesInRegion.map((country) => (
-                                <label key={country.code} className="country-item">
-                                  <input
-                                    type="checkbox"
-                                    checked={enabledCountries.has(country.code)}
-                                    onChange={() => onToggleCountryFilter(country.code)}
-                                  />
-                                  <span className="country-flag">{getCountryFlag(country.code)}</span>
-                                  <span className="country-name">{country.name}</span>
-                                  <span className="country-count">({country.count})</span>
-                                  {country.usedCapacity && (
-                                    <span className="country-capacity">
-                                      • {country.usedCapacity.toFixed(1)} MW used
-                                    </span>
+                                <React.Fragment key={country.code}>
+                                  <label className="country-item">
+                                    <input
+                                      type="checkbox"
+                                      checked={enabledCountries.has(country.code)}
+                                      onChange={() => onToggleCountryFilter(country.code)}
+                                    />
+                                    <span className="country-flag">{getCountryFlag(country.code)}</span>
+                                    <span className="country-name">{country.name}</span>
+                                    <span className="country-count">({country.count})</span>
+                                    {country.usedCapacity && (
+                                      <span className="country-capacity">
+                                        • {country.usedCapacity.toFixed(1)} MW used
+                                      </span>
+                                    )}
+                                  </label>
+                                  {enabledCountries.has(country.code) && country.admin1 && (
+                                    <div className="admin1-list" aria-label={`${country.name} states and provinces`}>
+                                      {country.admin1.map((region) => (
+                                        <label key={region.code} className="country-item admin1-item">
+                                          <input
+                                            type="checkbox"
+                                            checked={enabledAdmin1.has(region.code)}
+                                            onChange={() => onToggleAdmin1Filter(region.code)}
+                                          />
+                                          <span className="country-name">{region.name}</span>
+                                          <span className="country-count">({region.count})</span>
+                                        </label>
+                                      ))}
+                                    </div>
                                   )}
-                                </label>
+                                </React.Fragment>
                               ))}
                             </div>
                           )}
@@ -845,6 +687,128 @@ const LayersFiltersTab: React.FC<LayersFiltersTabProps> = ({
         </div>
       </section>
 
+      {/* Lifecycle Section */}
+      <section className="tab-section">
+        <h3 className="section-title">Lifecycle</h3>
+
+        <div className="control-group">
+          <label className="control-label">Status</label>
+          <div className="preset-buttons">
+            {allStatuses.map((status) => (
+              <button
+                key={status}
+                className={`preset-button ${filteredStatuses.has(status) ? 'active' : ''}`}
+                onClick={() => onToggleStatusFilter(status)}
+                aria-pressed={filteredStatuses.has(status)}
+              >
+                {getPlantStatusLabel(status)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="control-group">
+          <label className="toggle-item">
+            <input
+              type="checkbox"
+              checked={operatingInYear !== null}
+              onChange={() => onOperatingInYearChange(operatingInYear === null ? CURRENT_YEAR : null)}
+              className="toggle-input"
+            />
+            <span className="toggle-slider"></span>
+            <span className="toggle-label">Operating as of year</span>
+          </label>
+
+          {operatingInYear !== null && (
+            <div className="proximity-control">
+              <label htmlFor="operating-in-year" className="control-label">
+                Operating at the end of {operatingInYear}
+              </label>
+              <input
+                id="operating-in-year"
+                type="range"
+                min={TIMELINE_MIN_YEAR}
+                max={TIMELINE_MAX_YEAR}
+                step="1"
+                value={operatingInYear}
+                onChange={(e) => onOperatingInYearChange(Number(e.target.value))}
+                className="proximity-slider"
+              />
+              <div className="slider-labels">
+                <span>{TIMELINE_MIN_YEAR}</span>
+                <span>{TIMELINE_MAX_YEAR}</span>
+              </div>
+            </div>
+          )}
+        </div>
+      </section>
+
+      {/* Fiber Routes Section */}
+      <section className="tab-section">
+        <h3 className="section-title">Fiber Routes</h3>
+
+        <div className="control-group">
+          <label htmlFor="fiber-color-by" className="control-label">Color by</label>
+          <select
+            id="fiber-color-by"
+            value={fiberColorBy}
+            onChange={(e) => onFiberColorByChange(e.target.value as FiberColorBy)}
+            className="proximity-layer-select"
+          >
+            <option value="none">Single color</option>
+            <option value="operator">Operator</option>
+            <option value="serviceType">Service type</option>
+          </select>
+        </div>
+
+        {!fiberFacets && !hasFiberFilters(fiberFilters) && (
+          <p className="fiber-filter-hint">Turn on fiber cables to filter routes in this view.</p>
+        )}
+
+        {FIBER_FILTER_FIELDS.map((field) => {
+          const facetValues = fiberFacets?.[field] ?? [];
+          // Selected values stay listed even once they are no longer among the most common in view
+          const missing = fiberFilters[field].filter(
+            (value) => !facetValues.some((facet) => facet.value === value)
+          );
+          const options = [...missing.map((value) => ({ value, count: null })), ...facetValues];
+          if (options.length === 0) return null;
+
+          return (
+            <div key={field} className="control-group">
+              <label className="control-label">
+                {FIBER_FILTER_LABELS[field]}
+                {fiberFilters[field].length > 0 && ` (${fiberFilters[field].length} selected)`}
+              </label>
+              <div className="preset-buttons fiber-filter-values">
+                {options.map(({ value, count }) => {
+                  const isSelected = fiberFilters[field].includes(value);
+                  return (
+                    <button
+                      key={value}
+                      className={`preset-button ${isSelected ? 'active' : ''}`}
+                      onClick={() => onToggleFiberFilter(field, value)}
+                      aria-pressed={isSelected}
+                    >
+                      {value}
+                      {count !== null && <span className="fiber-filter-count"> ({count})</span>}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+
+        {hasFiberFilters(fiberFilters) && (
+          <div className="control-group">
+            <button type="button" className="preset-button" onClick={onClearFiberFilters}>
+              Clear fiber filters
+            </button>
+          </div>
+        )}
+      </section>
+
       {/* Proximity Filter Section */}
       <section className="tab-section proximity-section">
         <h3 className="section-title">Proximity Filter</h3>
@@ -876,6 +840,16 @@ const LayersFiltersTab: React.FC<LayersFiltersTabProps> = ({
 
           {showOnlyNearbyPlants && (
             <div className="proximity-control">
+              <select
+                value={proximityLayer}
+                onChange={(e) => onProximityLayerChange(e.target.value as InfraLayer)}
+                className="proximity-layer-select"
+                aria-label="Infrastructure to measure proximity against"
+              >
+                <option value="fiber">Fiber routes</option>
+                <option value="hifld">Transmission lines (HIFLD)</option>
+                <option value="submarine">Submarine cables</option>
+              </select>
               <div className="proximity-info">
                 <label htmlFor="proximity-distance" className="control-label">
                   Distance: {proximityDistance} miles
@@ -2,6 +2,8 @@ import React, { useState, useMemo } from 'react';
 import './LegendTab.css';
 import type { PowerPlant } from '../models/PowerPlant';
 import PlantSearch from './PlantSearch';
+import type { PlantColumns } from '../utils/plantColumns';
+import type { FiberColorBy, FiberLegendEntry } from '../utils/fiberAttributes';
 
 interface LegendTabProps {
   allSourcesInData: string[];
@@ -11,10 +13,14 @@ interface LegendTabProps {
   onDeselectAllSources?: () => void;
   showWfsCables: boolean;
   onToggleWfsCables: () => void;
+  // Generated from the fiber routes drawn in view; empty when not coloring by an attribute
+  fiberColorBy: FiberColorBy;
+  fiberLegend: FiberLegendEntry[];
   powerPlantCounts?: Record<string, number>;
 
   // Search functionality
   powerPlants: PowerPlant[];
+  plantColumns: PlantColumns | null;
   selectedPlantIds: Set<string>;
   onPlantSelect: (plantId: string) => void;
   onPlantDeselect: (plantId: string) => void;
@@ -29,8 +35,11 @@ const LegendTab: React.FC<LegendTabProps> = ({
   onDeselectAllSources,
   showWfsCables,
   onToggleWfsCables,
+  fiberColorBy,
+  fiberLegend,
   powerPlantCounts = {},
   powerPlants,
+  plantColumns,
   selectedPlantIds,
   onPlantSelect,
   onPlantDeselect,
@@ -61,6 +70,12 @@ const LegendTab: React.FC<LegendTabProps> = ({
 
 const CABLE_COLOR: [number, number, number] = [255, 165, 0]; // Orange
 
+const FIBER_COLOR_BY_LABELS: Record<FiberColorBy, string> = {
+  none: '',
+  operator: 'Operator',
+  serviceType: 'Service Type',
+};
+
   // Filter and sort sources based on search and sort options
   const processedSources = useMemo(() => {
     let sources = [...allSourcesInData]; // Include 'other' now
@@ -207,6 +222,7 @@ const CABLE_COLOR: [number, number, number] = [255, 165, 0]; // Orange
       <div className="plant-search-section">
         <PlantSearch
           powerPlants={powerPlants}
+          plantColumns={plantColumns}
           selectedPlantIds={selectedPlantIds}
           onPlantSelect={onPlantSelect}
           onPlantDeselect={onPlantDeselect}
@@ -310,7 +326,29 @@ const CABLE_COLOR: [number, number, number] = [255, 165, 0]; // Orange
           </div>
         </div>
 
-
+        {/* Fiber color-by legend */}
+        {fiberLegend.length > 0 && (
+          <div className="legend-section">
+            <h4 className="category-title">Fiber Routes by {FIBER_COLOR_BY_LABELS[fiberColorBy]}</h4>
+            <div className="legend-grid">
+              {fiberLegend.map((entry) => (
+                <div key={entry.value ?? 'other'} className="legend-item active" title={entry.label}>
+                  <div
+                    className="legend-color"
+                    style={{
+                      backgroundColor: `rgb(${entry.color.join(',')})`
+                    }}
+                    aria-hidden="true"
+                  />
+                  <span className="legend-label">
+                    {entry.label}
+                    <span className="legend-count"> ({entry.count})</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
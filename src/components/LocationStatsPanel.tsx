@@ -2,6 +2,8 @@ import React, { useMemo, useState, useEffect } from 'react';
 import { MapPin, Zap, Activity, ChevronLeft, ChevronRight, X, Eye, EyeOff } from 'lucide-react';
 import type { PowerPlant } from '../models/PowerPlant';
 import { calculateDistance } from '../utils/geoUtils';
+import type { CarrierDiversity } from '../utils/fiberCarriers';
+import CarrierDiversitySummary from './CarrierDiversitySummary';
 import RadiusSlider from './RadiusSlider';
 import './LocationStatsPanel.css';
 
@@ -16,6 +18,10 @@ interface LocationStatsPanelProps {
   onClose?: () => void;
   showRadiusCircle?: boolean;
   onToggleRadiusCircle?: () => void;
+  // Fiber carriers within fiberRadiusMiles; null until fiber routes are loaded around the location
+  carrierDiversity?: CarrierDiversity | null;
+  isCalculatingCarriers?: boolean;
+  fiberRadiusMiles?: number;
 }
 
 const LocationStatsPanel: React.FC<LocationStatsPanelProps> = ({
@@ -29,6 +35,9 @@ const LocationStatsPanel: React.FC<LocationStatsPanelProps> = ({
   onClose,
   showRadiusCircle = false,
   onToggleRadiusCircle,
+  carrierDiversity = null,
+  isCalculatingCarriers = false,
+  fiberRadiusMiles = 5,
 }) => {
   const [customRadiusInput, setCustomRadiusInput] = useState<string>(radius.toString());
   
@@ -252,6 +261,19 @@ const LocationStatsPanel: React.FC<LocationStatsPanelProps> = ({
           <p>No power plants found within {radius} mile{radius !== 1 ? 's' : ''} of this location.</p>
         </div>
       )}
+
+      <div className="location-stats-sources">
+        <h4>Fiber Carriers</h4>
+        {carrierDiversity || isCalculatingCarriers ? (
+          <CarrierDiversitySummary
+            diversity={carrierDiversity}
+            isCalculating={isCalculatingCarriers}
+            radiusMiles={fiberRadiusMiles}
+          />
+        ) : (
+          <p className="location-stats-hint">Turn on fiber cables and zoom in to count carriers near this location.</p>
+        )}
+      </div>
       </div>
     </>
   );
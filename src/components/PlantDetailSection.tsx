@@ -0,0 +1,100 @@
+import React from 'react';
+import type { PowerPlantDetail } from '../types/powerPlantApi';
+import GenerationSparkline from './GenerationSparkline';
+import './PlantDetailSection.css';
+
+interface PlantDetailSectionProps {
+  detail: PowerPlantDetail | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// Fields worth surfacing above the raw source rows, by rawData key.
+const HIGHLIGHTED_FIELDS: Array<[string, string]> = [
+  ['commissioningYear', 'Commissioned'],
+  ['primaryFuel', 'Primary Fuel'],
+  ['otherFuels', 'Other Fuels'],
+  ['owner', 'Owner'],
+  ['Owner Name (Company)', 'Owner'],
+  ['Operator Name', 'Operator'],
+  ['source', 'Reported By'],
+  ['Source Agency', 'Reported By'],
+  ['Reference Period', 'Reference Period'],
+];
+
+const isUrl = (value: string) => /^https?:\/\//i.test(value);
+
+const renderValue = (value: string) =>
+  isUrl(value) ? (
+    <a href={value} target="_blank" rel="noopener noreferrer">
+      {value}
+    </a>
+  ) : (
+    value
+  );
+
+const PlantDetailSection: React.FC<PlantDetailSectionProps> = ({ detail, loading, error }) => {
+  if (loading) {
+    return <p className="plant-detail-status">Loading plant details…</p>;
+  }
+  if (error) {
+    return <p className="plant-detail-status">{error}</p>;
+  }
+  if (!detail) return null;
+
+  const rawData = detail.rawData ?? {};
+  const seenLabels = new Set<string>();
+  const highlights = HIGHLIGHTED_FIELDS.filter(([key, label]) => {
+    if (!rawData[key] || seenLabels.has(label)) return false;
+    seenLabels.add(label);
+    return true;
+  });
+  const sourceUrl = rawData.url || rawData['Plant URL'];
+  const sourceRecords = Object.entries(detail.sourceRecords);
+  const generationHistory = detail.generationHistory ?? [];
+
+  return (
+    <div className="plant-detail-section">
+      {generationHistory.length > 1 && (
+        <>
+          <p>Annual Generation:</p>
+          <GenerationSparkline history={generationHistory} />
+        </>
+      )}
+      {detail.capacityFactorMean !== undefined && (
+        <p>
+          Capacity Factor: {detail.capacityFactor?.toFixed(1) ?? '—'}% latest, {detail.capacityFactorMean.toFixed(1)}%
+          mean
+          {detail.capacityFactorTrend !== undefined &&
+            `, ${detail.capacityFactorTrend >= 0 ? '+' : ''}${detail.capacityFactorTrend.toFixed(2)} pts/yr`}
+        </p>
+      )}
+      {highlights.map(([key, label]) => (
+        <p key={key}>
+          {label}: {rawData[key]}
+        </p>
+      ))}
+      {sourceUrl && <p>Source URL: {renderValue(sourceUrl)}</p>}
+      {sourceRecords.length > 0 && (
+        <details>
+          <summary>Original source records ({sourceRecords.length})</summary>
+          {sourceRecords.map(([recordId, record]) => (
+            <dl key={recordId} className="plant-detail-record">
+              <dt className="plant-detail-record-id">{recordId}</dt>
+              {Object.entries(record)
+                .filter(([, value]) => value !== '')
+                .map(([field, value]) => (
+                  <React.Fragment key={field}>
+                    <dt>{field}</dt>
+                    <dd>{renderValue(value)}</dd>
+                  </React.Fragment>
+                ))}
+            </dl>
+          ))}
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default PlantDetailSection;
@@ -0,0 +1,56 @@
+import React from 'react';
+import type { Generator } from '../models/Generator';
+import type { PlantGeneratorsResponse } from '../types/powerPlantApi';
+import './PlantGeneratorTable.css';
+
+interface PlantGeneratorTableProps {
+  generators: Generator[];
+  totals: PlantGeneratorsResponse['totals'];
+}
+
+const formatMW = (value: number | undefined) => (value === undefined ? '—' : value.toFixed(1));
+
+const formatYears = (generator: Generator) => {
+  if (!generator.operatingYear) return '—';
+  return generator.plannedRetirementYear
+    ? `${generator.operatingYear}–${generator.plannedRetirementYear}`
+    : `${generator.operatingYear}`;
+};
+
+const PlantGeneratorTable: React.FC<PlantGeneratorTableProps> = ({ generators, totals }) => (
+  <table className="plant-generator-table">
+    <thead>
+      <tr>
+        <th>Unit</th>
+        <th>Technology</th>
+        <th title="Nameplate / summer / winter MW">MW (NP / S / W)</th>
+        <th title="Operating year – planned retirement">Years</th>
+      </tr>
+    </thead>
+    <tbody>
+      {generators.map((generator) => (
+        <tr key={generator.unitId}>
+          <td>{generator.unitId}</td>
+          <td title={generator.primeMover ? `Prime mover: ${generator.primeMover}` : undefined}>
+            {generator.technology ?? generator.primeMover ?? '—'}
+          </td>
+          <td>
+            {formatMW(generator.nameplateMW)} / {formatMW(generator.summerMW)} / {formatMW(generator.winterMW)}
+          </td>
+          <td>{formatYears(generator)}</td>
+        </tr>
+      ))}
+    </tbody>
+    <tfoot>
+      <tr>
+        <td colSpan={2}>Total ({generators.length} units)</td>
+        <td>
+          {formatMW(totals.nameplateMW)} / {formatMW(totals.summerMW)} / {formatMW(totals.winterMW)}
+        </td>
+        <td />
+      </tr>
+    </tfoot>
+  </table>
+);
+
+export default PlantGeneratorTable;
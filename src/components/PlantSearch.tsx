@@ -1,10 +1,13 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import type { PowerPlant } from '../models/PowerPlant';
+import { getPlantFromColumns, getPlantsFromColumns, type PlantColumns } from '../utils/plantColumns';
 import { levenshtein, normalizeString } from '../utils/stringUtils';
 import './PlantSearch.css';
 
 interface PlantSearchProps {
   powerPlants: PowerPlant[];
+  // Plants past the first page, which are searched without building objects for them
+  plantColumns: PlantColumns | null;
   selectedPlantIds: Set<string>;
   onPlantSelect: (plantId: string) => void;
   onPlantDeselect: (plantId: string) => void;
@@ -13,6 +16,7 @@ interface PlantSearchProps {
 
 const PlantSearch: React.FC<PlantSearchProps> = ({
   powerPlants,
+  plantColumns,
   selectedPlantIds,
   onPlantSelect,
   onPlantDeselect,
@@ -23,42 +27,48 @@ const PlantSearch: React.FC<PlantSearchProps> = ({
   const searchRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Filter plants based on search query using fuzzy matching
+  // Filter plants based on search query using fuzzy matching. Plants drawn
+  // from columns are only rebuilt as objects once they make the top results.
   const searchResults = useMemo(() => {
     if (!searchQuery.trim()) return [];
-    
+
     const normalizedQuery = normalizeString(searchQuery);
-    const results = powerPlants
-      .filter(plant => {
-        const normalizedPlantName = normalizeString(plant.name);
-        // Exact match gets highest priority
-        if (normalizedPlantName.includes(normalizedQuery)) return true;
-        // Fuzzy match with Levenshtein distance
-        const distance = levenshtein(normalizedQuery, normalizedPlantName);
-        return distance <= Math.min(3, Math.floor(normalizedQuery.length / 2));
-      })
-      .sort((a, b) => {
-        // Sort by relevance - exact matches first, then by Levenshtein distance
-        const aNormalized = normalizeString(a.name);
-        const bNormalized = normalizeString(b.name);
-        const aExact = aNormalized.includes(normalizedQuery) ? 0 : 1;
-        const bExact = bNormalized.includes(normalizedQuery) ? 0 : 1;
-        
-        if (aExact !== bExact) return aExact - bExact;
-        
-        const aDistance = levenshtein(normalizedQuery, aNormalized);
-        const bDistance = levenshtein(normalizedQuery, bNormalized);
-        return aDistance - bDistance;
-      })
-      .slice(0, 10); // Limit to top 10 results
-
-    return results;
-  }, [searchQuery, powerPlants]);
+    const maxDistance = Math.min(3, Math.floor(normalizedQuery.length / 2));
+    const matches: Array<{ exact: number; distance: number; getPlant: () => PowerPlant | null }> = [];
+    const matchName = (name: string, getPlant: () => PowerPlant | null) => {
+      const normalizedPlantName = normalizeString(name);
+      // Exact match gets highest priority
+      const exact = normalizedPlantName.includes(normalizedQuery) ? 0 : 1;
+      // Levenshtein distance is at least the length difference, so skip names that can't match
+      if (exact && Math.abs(normalizedPlantName.length - normalizedQuery.length) > maxDistance) return;
+      // Fuzzy match with Levenshtein distance
+      const distance = levenshtein(normalizedQuery, normalizedPlantName);
+      if (exact && distance > maxDistance) return;
+      matches.push({ exact, distance, getPlant });
+    };
+
+    for (const plant of powerPlants) {
+      matchName(plant.name, () => plant);
+    }
+    if (plantColumns) {
+      for (let index = 0; index < plantColumns.length; index++) {
+        matchName(plantColumns.names[index], () => getPlantFromColumns(plantColumns, index));
+      }
+    }
+
+    // Sort by relevance - exact matches first, then by Levenshtein distance
+    return matches
+      .sort((a, b) => a.exact - b.exact || a.distance - b.distance)
+      .slice(0, 10) // Limit to top 10 results
+      .map((match) => match.getPlant())
+      .filter((plant): plant is PowerPlant => plant !== null);
+  }, [searchQuery, powerPlants, plantColumns]);
 
   // Get selected plants for chip display
   const selectedPlants = useMemo(() => {
-    return powerPlants.filter(plant => selectedPlantIds.has(plant.id));
-  }, [powerPlants, selectedPlantIds]);
+    const selected = powerPlants.filter(plant => selectedPlantIds.has(plant.id));
+    return plantColumns ? [...selected, ...getPlantsFromColumns(plantColumns, selectedPlantIds)] : selected;
+  }, [powerPlants, plantColumns, selectedPlantIds]);
 
   // Handle click outside to close dropdown
   useEffect(() => {
@@ -32,6 +32,7 @@ Capacity Factor: ${plant.capacityFactor ? `${plant.capacityFactor.toFixed(1)}%`
 Source: ${plant.source}
 Country: ${plant.country}
 Coordinates: ${plant.coordinates[1].toFixed(4)}, ${plant.coordinates[0].toFixed(4)}
+Nearest Line: ${plant.nearestLineId ? `${plant.nearestLineId} (${plant.nearestLineMiles?.toFixed(2)} mi)` : 'N/A'}
 Owner: ${plant.rawData?.['Owner Name (Company)'] || 'N/A'}
 Operator: ${plant.rawData?.['Operator Name'] || 'N/A'}
 City: ${plant.rawData?.['City (Site Name)'] || 'N/A'}
@@ -112,6 +113,9 @@ Total Plants: ${nearbyPlants.length}
                     <span className="plant-coords">
                       {plant.coordinates[1].toFixed(4)}, {plant.coordinates[0].toFixed(4)}
                     </span>
+                    {plant.nearestLineMiles !== undefined && (
+                      <span className="plant-coords">{plant.nearestLineMiles.toFixed(2)} mi to line</span>
+                    )}
                   </div>
                   {plant.rawData?.['Owner Name (Company)'] && (
                     <div className="plant-owner">
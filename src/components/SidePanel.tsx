@@ -6,6 +6,15 @@ import VisualizationTab from './VisualizationTab';
 import DataVisualizations from './DataVisualizations';
 import type { PowerRange } from '../utils/powerRangeCalculator';
 import type { PowerPlant } from '../models/PowerPlant';
+import type { PlantColumns } from '../utils/plantColumns';
+import type { Admin1Metadata, InfraLayer, PlantSourceReport } from '../types/powerPlantApi';
+import type {
+  FiberColorBy,
+  FiberFacets,
+  FiberFilterField,
+  FiberFilters,
+  FiberLegendEntry,
+} from '../utils/fiberAttributes';
 import { getCableCacheStats, clearCableCache } from '../utils/wfsDataLoader';
 import './SidePanel.css';
 
@@ -22,6 +31,15 @@ interface SidePanelProps {
   onToggleFiberCables: () => void;
   onToggleFiberOverview: () => void;
 
+  // Fiber route attributes
+  fiberFilters: FiberFilters;
+  fiberFacets: FiberFacets | null;
+  onToggleFiberFilter: (field: FiberFilterField, value: string) => void;
+  onClearFiberFilters: () => void;
+  fiberColorBy: FiberColorBy;
+  onFiberColorByChange: (value: FiberColorBy) => void;
+  fiberLegend: FiberLegendEntry[];
+
   // Filtering state
   filteredSources: Set<string>;
   onToggleSourceFilter: (source: string) => void;
@@ -30,6 +48,8 @@ interface SidePanelProps {
   allStatuses: string[];
   filteredStatuses: Set<string>;
   onToggleStatusFilter: (status: string) => void;
+  operatingInYear: number | null;
+  onOperatingInYearChange: (year: number | null) => void;
   showCanadianPlants: boolean;
   showAmericanPlants: boolean;
   showKazakhstanPlants: boolean;
@@ -44,9 +64,11 @@ interface SidePanelProps {
   onToggleKyrgyzstanPlants: () => void;
   
   // Dynamic country filtering
-  allCountries: Array<{code: string, name: string, count: number, usedCapacity?: number}>;
+  allCountries: Array<{code: string, name: string, count: number, usedCapacity?: number, admin1?: Admin1Metadata[]}>;
   enabledCountries: Set<string>;
   onToggleCountryFilter: (countryCode: string) => void;
+  enabledAdmin1: Set<string>;
+  onToggleAdmin1Filter: (admin1Code: string) => void;
   minPowerOutput: number;
   maxPowerOutput: number;
   onMinPowerOutputChange: (value: number) => void;
@@ -63,6 +85,8 @@ interface SidePanelProps {
 
     // Proximity filtering
     showOnlyNearbyPlants: boolean;
+    proximityLayer: InfraLayer;
+    onProximityLayerChange: (layer: InfraLayer) => void;
     proximityDistance: number;
     onToggleNearbyPlants: () => void;
     onProximityDistanceChange: (value: number) => void;
@@ -78,7 +102,11 @@ interface SidePanelProps {
     setSizeByOption: (value: 'nameplate_capacity' | 'capacity_factor' | 'generation') => void;
 
   // Data
+  datasetVersion?: string;
+  datasetBuiltAt?: string;
+  datasetSources?: PlantSourceReport[];
   powerPlants: PowerPlant[];
+  plantColumns: PlantColumns | null;
   allSourcesInData: string[];
   powerPlantCounts?: Record<string, number>;
 
@@ -112,6 +140,15 @@ const SidePanel: React.FC<SidePanelProps> = ({
   onToggleFiberCables,
   onToggleFiberOverview,
 
+  // Fiber route attributes
+  fiberFilters,
+  fiberFacets,
+  onToggleFiberFilter,
+  onClearFiberFilters,
+  fiberColorBy,
+  onFiberColorByChange,
+  fiberLegend,
+
   // Filtering
   filteredSources,
   onToggleSourceFilter,
@@ -120,6 +157,8 @@ const SidePanel: React.FC<SidePanelProps> = ({
   allStatuses,
   filteredStatuses,
   onToggleStatusFilter,
+  operatingInYear,
+  onOperatingInYearChange,
   showCanadianPlants,
   showAmericanPlants,
   showKazakhstanPlants,
@@ -137,6 +176,8 @@ const SidePanel: React.FC<SidePanelProps> = ({
   allCountries,
   enabledCountries,
   onToggleCountryFilter,
+  enabledAdmin1,
+  onToggleAdmin1Filter,
   minPowerOutput,
   maxPowerOutput,
     onMinPowerOutputChange,
@@ -149,6 +190,8 @@ const SidePanel: React.FC<SidePanelProps> = ({
 
     // Proximity
    showOnlyNearbyPlants,
+   proximityLayer,
+   onProximityLayerChange,
    proximityDistance,
    onToggleNearbyPlants,
    onProximityDistanceChange,
@@ -164,7 +207,11 @@ const SidePanel: React.FC<SidePanelProps> = ({
    setSizeByOption,
 
   // Data
+  datasetVersion,
+  datasetBuiltAt,
+  datasetSources,
   powerPlants,
+  plantColumns,
   allSourcesInData,
   powerPlantCounts,
 
@@ -226,6 +273,12 @@ const SidePanel: React.FC<SidePanelProps> = ({
                 onToggleHifldLines={onToggleHifldLines}
                 onToggleFiberCables={onToggleFiberCables}
                 onToggleFiberOverview={onToggleFiberOverview}
+                fiberFilters={fiberFilters}
+                fiberFacets={fiberFacets}
+                onToggleFiberFilter={onToggleFiberFilter}
+                onClearFiberFilters={onClearFiberFilters}
+                fiberColorBy={fiberColorBy}
+                onFiberColorByChange={onFiberColorByChange}
                 showCanadianPlants={showCanadianPlants}
                 showAmericanPlants={showAmericanPlants}
                 showKazakhstanPlants={showKazakhstanPlants}
@@ -235,6 +288,8 @@ const SidePanel: React.FC<SidePanelProps> = ({
                 allCountries={allCountries}
                 enabledCountries={enabledCountries}
                 onToggleCountryFilter={onToggleCountryFilter}
+                enabledAdmin1={enabledAdmin1}
+                onToggleAdmin1Filter={onToggleAdmin1Filter}
                 onToggleCanadianPlants={onToggleCanadianPlants}
                 onToggleAmericanPlants={onToggleAmericanPlants}
                 onToggleKazakhstanPlants={onToggleKazakhstanPlants}
@@ -244,6 +299,8 @@ const SidePanel: React.FC<SidePanelProps> = ({
                 allStatuses={allStatuses}
                 filteredStatuses={filteredStatuses}
                 onToggleStatusFilter={onToggleStatusFilter}
+                operatingInYear={operatingInYear}
+                onOperatingInYearChange={onOperatingInYearChange}
                 minPowerOutput={minPowerOutput}
                 maxPowerOutput={maxPowerOutput}
                 onMinPowerOutputChange={onMinPowerOutputChange}
@@ -254,6 +311,8 @@ const SidePanel: React.FC<SidePanelProps> = ({
                 onMinCapacityFactorChange={onMinCapacityFactorChange}
                 onMaxCapacityFactorChange={onMaxCapacityFactorChange}
                 showOnlyNearbyPlants={showOnlyNearbyPlants}
+                proximityLayer={proximityLayer}
+                onProximityLayerChange={onProximityLayerChange}
                 proximityDistance={proximityDistance}
                 onToggleNearbyPlants={onToggleNearbyPlants}
                 onProximityDistanceChange={onProximityDistanceChange}
@@ -277,8 +336,11 @@ const SidePanel: React.FC<SidePanelProps> = ({
              onDeselectAllSources={onDeselectAllSources}
              showWfsCables={showWfsCables}
              onToggleWfsCables={onToggleWfsCables}
+             fiberColorBy={fiberColorBy}
+             fiberLegend={fiberLegend}
              powerPlantCounts={powerPlantCounts}
              powerPlants={powerPlants}
+             plantColumns={plantColumns}
              selectedPlantIds={selectedPlantIds}
              onPlantSelect={onPlantSelect}
              onPlantDeselect={onPlantDeselect}
@@ -310,6 +372,21 @@ const SidePanel: React.FC<SidePanelProps> = ({
                 <p>Cache Entries: {cacheStats.entries}</p>
                 <p>Cache Size: {(cacheStats.totalSize / 1024).toFixed(1)} KB</p>
                 <p>Storage Usage: {cacheStats.usagePercent.toFixed(1)}%</p>
+                {datasetVersion && (
+                  <p title={datasetVersion}>
+                    Power Plant Dataset: {datasetVersion.slice(0, 8)}
+                    {datasetBuiltAt && ` (built ${new Date(datasetBuiltAt).toLocaleString()})`}
+                  </p>
+                )}
+                {datasetSources?.map((source) => (
+                  <p key={source.id} title={source.error ?? source.location}>
+                    {source.label}:{' '}
+                    {source.status === 'failed'
+                      ? 'unavailable'
+                      : `${source.plantCount.toLocaleString()} plants${source.status === 'fallback' ? ' (fallback copy)' : ''}`}
+                    {!!source.malformedRowCount && `, ${source.malformedRowCount.toLocaleString()} malformed rows`}
+                  </p>
+                ))}
                 <button
                   onClick={() => {
                     clearCableCache();
@@ -13,7 +13,7 @@ interface VisualizationTabProps {
 const DATA_AVAILABILITY = {
   nameplate_capacity: true,
   capacity_factor: true, // Now populated with proxy calculations
-  generation: false, // Not populated in current data
+  generation: true, // Mean annual generation from each plant's yearly history
   net_summer_capacity: true, // Available for US plants from EIA data
   net_winter_capacity: true, // Available for US plants from EIA data
 };
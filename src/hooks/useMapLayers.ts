@@ -3,7 +3,9 @@ import { IconLayer, PathLayer, PolygonLayer, ScatterplotLayer } from '@deck.gl/l
 import type { Layer } from '@deck.gl/core';
 import type { PowerPlant } from '../models/PowerPlant';
 import type { Cable } from '../models/Cable';
+import type { PowerPlantCluster } from '../types/powerPlantApi';
 import { LOCATION_PIN_ICON } from '../utils/locationPinIcon';
+import { getPlantFromColumns, type PlantColumns } from '../utils/plantColumns';
 import type { PowerRange } from '../utils/powerRangeCalculator';
 
 type SizeByOption = 'nameplate_capacity' | 'capacity_factor' | 'generation';
@@ -20,6 +22,9 @@ type UseMapLayersParams = {
   showRadiusCircle: boolean;
   showPowerPlants: boolean;
   filteredPowerPlants: PowerPlant[];
+  /** Plants beyond the first API page, drawn from binary attributes. */
+  powerPlantColumns: PlantColumns | null;
+  powerPlantClusters: PowerPlantCluster[];
   sizeByOption: SizeByOption;
   sizeMultiplier: number;
   capacityWeight: number;
@@ -31,6 +36,7 @@ type UseMapLayersParams = {
   isMeasuringDistance: boolean;
   distancePoints: [number, number][];
   setHoverInfo: (plant: PowerPlant | null) => void;
+  setHoveredCluster: (cluster: PowerPlantCluster | null) => void;
   setLocationPinHoverInfo: (info: LocationHoverInfo) => void;
 };
 
@@ -54,12 +60,68 @@ const POWER_PLANT_COLORS: Record<string, [number, number, number]> = {
 
 const CABLE_COLOR: [number, number, number] = [255, 165, 0];
 
+// The object and columnar plant layers size plants through the same two steps.
+const getPlantSizeValue = (
+  sizeByOption: SizeByOption,
+  output: number,
+  capacityFactor: number | null | undefined,
+  generationMW: number | undefined
+): number => {
+  switch (sizeByOption) {
+    case 'capacity_factor':
+      return capacityFactor || output;
+    case 'generation':
+      // Average MW over the year keeps generation on the same scale as capacity.
+      return generationMW ?? output;
+    default:
+      return output;
+  }
+};
+
+const toPlantRadius = (
+  value: number,
+  { sizeByOption, sizeMultiplier, capacityWeight, powerRange }: Pick<
+    UseMapLayersParams,
+    'sizeByOption' | 'sizeMultiplier' | 'capacityWeight' | 'powerRange'
+  >
+): number => {
+  const sqrtValue = Math.sqrt(Math.max(value, 1));
+  const sqrtMin = Math.sqrt(Math.max(powerRange.min, 1));
+  const sqrtMax = Math.sqrt(Math.max(powerRange.max, 1));
+  const normalized = sqrtMax > sqrtMin ? (sqrtValue - sqrtMin) / (sqrtMax - sqrtMin) : 0;
+  const exaggerationFactor = sizeByOption === 'capacity_factor' ? 5 : 1;
+  return sizeMultiplier * 2 + capacityWeight * normalized * 25 * exaggerationFactor;
+};
+
+const toPlantColors = (columns: PlantColumns): Uint8Array => {
+  const sourceColors = columns.sources.map((source) => POWER_PLANT_COLORS[source] || POWER_PLANT_COLORS.other);
+  const colors = new Uint8Array(columns.length * 3);
+  for (let i = 0; i < columns.length; i++) {
+    colors.set(sourceColors[columns.sourceIndex[i]], i * 3);
+  }
+  return colors;
+};
+
+const getDominantSource = (cluster: PowerPlantCluster): string => {
+  let dominant = 'other';
+  let dominantOutput = Number.NEGATIVE_INFINITY;
+  for (const [source, output] of Object.entries(cluster.outputBySource)) {
+    if (output > dominantOutput) {
+      dominant = source;
+      dominantOutput = output;
+    }
+  }
+  return dominant;
+};
+
 export function useMapLayers({
   selectedLocation,
   locationCircle,
   showRadiusCircle,
   showPowerPlants,
   filteredPowerPlants,
+  powerPlantColumns,
+  powerPlantClusters,
   sizeByOption,
   sizeMultiplier,
   capacityWeight,
@@ -71,9 +133,34 @@ export function useMapLayers({
   isMeasuringDistance,
   distancePoints,
   setHoverInfo,
+  setHoveredCluster,
   setLocationPinHoverInfo,
 }: UseMapLayersParams) {
+  const columnColors = useMemo(
+    () => (powerPlantColumns ? toPlantColors(powerPlantColumns) : null),
+    [powerPlantColumns]
+  );
+
+  const columnRadii = useMemo(() => {
+    if (!powerPlantColumns) return null;
+    const sizing = { sizeByOption, sizeMultiplier, capacityWeight, powerRange };
+    const radii = new Float32Array(powerPlantColumns.length);
+    for (let i = 0; i < powerPlantColumns.length; i++) {
+      const generationMW = powerPlantColumns.generationMW[i];
+      const value = getPlantSizeValue(
+        sizeByOption,
+        powerPlantColumns.output[i],
+        powerPlantColumns.capacityFactor[i],
+        Number.isNaN(generationMW) ? undefined : generationMW
+      );
+      radii[i] = toPlantRadius(value, sizing);
+    }
+    return radii;
+  }, [powerPlantColumns, sizeByOption, sizeMultiplier, capacityWeight, powerRange]);
+
   return useMemo(() => {
+    const maxClusterOutput = powerPlantClusters.reduce((max, cluster) => Math.max(max, cluster.totalOutput), 1);
+
     const layerList = [
       selectedLocation && locationCircle && showRadiusCircle &&
         new PolygonLayer({
@@ -146,27 +233,14 @@ export function useMapLayers({
           radiusMaxPixels: 100,
           getPosition: (d: PowerPlant) => d.coordinates,
           getRadius: (d: PowerPlant) => {
-            let value;
-            switch (sizeByOption) {
-              case 'nameplate_capacity':
-                value = d.output;
-                break;
-              case 'capacity_factor':
-                value = d.capacityFactor || d.output;
-                break;
-              case 'generation':
-                value = d.historicalAvgGeneration || d.generation || d.output;
-                break;
-              default:
-                value = d.output;
-            }
-
-            const sqrtValue = Math.sqrt(Math.max(value, 1));
-            const sqrtMin = Math.sqrt(Math.max(powerRange.min, 1));
-            const sqrtMax = Math.sqrt(Math.max(powerRange.max, 1));
-            const normalized = sqrtMax > sqrtMin ? (sqrtValue - sqrtMin) / (sqrtMax - sqrtMin) : 0;
-            const exaggerationFactor = sizeByOption === 'capacity_factor' ? 5 : 1;
-            return sizeMultiplier * 2 + capacityWeight * normalized * 25 * exaggerationFactor;
+            const gwh = d.historicalAvgGeneration ?? d.generationGWh;
+            const value = getPlantSizeValue(
+              sizeByOption,
+              d.output,
+              d.capacityFactor,
+              gwh !== undefined ? (gwh * 1000) / 8760 : undefined
+            );
+            return toPlantRadius(value, { sizeByOption, sizeMultiplier, capacityWeight, powerRange });
           },
           updateTriggers: {
             getRadius: [sizeMultiplier, capacityWeight, sizeByOption, powerRange],
@@ -174,6 +248,51 @@ export function useMapLayers({
           getFillColor: (d: PowerPlant) => POWER_PLANT_COLORS[d.source] || POWER_PLANT_COLORS.other,
           onHover: (info: { object?: PowerPlant }) => setHoverInfo(info.object || null),
         }),
+      showPowerPlants && powerPlantColumns && columnRadii && columnColors &&
+        new ScatterplotLayer({
+          id: 'power-plants-columnar',
+          data: {
+            length: powerPlantColumns.length,
+            attributes: {
+              getPosition: { value: powerPlantColumns.positions, size: 2 },
+              getRadius: { value: columnRadii, size: 1 },
+              getFillColor: { value: columnColors, size: 3 },
+            },
+          },
+          pickable: true,
+          opacity: 0.8,
+          filled: true,
+          radiusUnits: 'pixels',
+          radiusMinPixels: 2,
+          radiusMaxPixels: 100,
+          // Binary data has no objects to pick, so hover rebuilds the plant from its columns.
+          onHover: (info: { index: number }) => setHoverInfo(getPlantFromColumns(powerPlantColumns, info.index)),
+        }),
+      showPowerPlants && powerPlantClusters.length > 0 &&
+        new ScatterplotLayer({
+          id: 'power-plant-clusters',
+          data: powerPlantClusters,
+          pickable: true,
+          opacity: 0.7,
+          filled: true,
+          stroked: true,
+          radiusUnits: 'pixels',
+          radiusMinPixels: 4,
+          radiusMaxPixels: 60,
+          lineWidthMinPixels: 1,
+          getPosition: (d: PowerPlantCluster) => d.coordinates,
+          getRadius: (d: PowerPlantCluster) => {
+            const normalized = Math.sqrt(Math.max(d.totalOutput, 0) / maxClusterOutput);
+            return sizeMultiplier * 2 + capacityWeight * normalized * 40;
+          },
+          updateTriggers: {
+            getRadius: [sizeMultiplier, capacityWeight, maxClusterOutput],
+          },
+          getFillColor: (d: PowerPlantCluster) =>
+            POWER_PLANT_COLORS[getDominantSource(d)] || POWER_PLANT_COLORS.other,
+          getLineColor: [255, 255, 255, 160],
+          onHover: (info: { object?: PowerPlantCluster }) => setHoveredCluster(info.object || null),
+        }),
       showWfsCables &&
         new PathLayer({
           id: 'wfs-cables',
@@ -222,6 +341,10 @@ export function useMapLayers({
     showRadiusCircle,
     showPowerPlants,
     filteredPowerPlants,
+    powerPlantColumns,
+    columnRadii,
+    columnColors,
+    powerPlantClusters,
     sizeByOption,
     sizeMultiplier,
     capacityWeight,
@@ -233,6 +356,7 @@ export function useMapLayers({
     isMeasuringDistance,
     distancePoints,
     setHoverInfo,
+    setHoveredCluster,
     setLocationPinHoverInfo,
   ]);
 }
@@ -1,16 +1,18 @@
 import { useEffect, useRef, useState } from 'react';
 import type { FiberCable, NearbyFiberCable } from '../models/FiberCable';
-import type { PowerPlant } from '../models/PowerPlant';
+import type { CarrierDiversity } from '../utils/fiberCarriers';
 
 type WorkerResponse = {
   requestId: number;
   nearby: NearbyFiberCable[];
+  diversity: CarrierDiversity;
 };
 
-const FIBER_RADIUS_MILES = 5;
+export const FIBER_RADIUS_MILES = 5;
 
+/** Fiber cables within FIBER_RADIUS_MILES of `coordinates`, and the carriers running them. */
 export function useNearbyFiber(
-  persistentPlant: PowerPlant | null,
+  coordinates: [number, number] | null,
   fiberCables: FiberCable[],
   showFiberCables: boolean
 ) {
@@ -18,6 +20,7 @@ export function useNearbyFiber(
   const requestIdRef = useRef(0);
 
   const [nearbyFiberCables, setNearbyFiberCables] = useState<NearbyFiberCable[]>([]);
+  const [carrierDiversity, setCarrierDiversity] = useState<CarrierDiversity | null>(null);
   const [isCalculatingNearbyFiber, setIsCalculatingNearbyFiber] = useState(false);
 
   useEffect(() => {
@@ -28,16 +31,18 @@ export function useNearbyFiber(
     workerRef.current = worker;
 
     worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
-      const { requestId, nearby } = event.data;
+      const { requestId, nearby, diversity } = event.data;
       if (requestId !== requestIdRef.current) return;
 
       setNearbyFiberCables(nearby);
+      setCarrierDiversity(diversity);
       setIsCalculatingNearbyFiber(false);
     };
 
     worker.onerror = () => {
       setIsCalculatingNearbyFiber(false);
       setNearbyFiberCables([]);
+      setCarrierDiversity(null);
     };
 
     return () => {
@@ -47,8 +52,9 @@ export function useNearbyFiber(
   }, []);
 
   useEffect(() => {
-    if (!persistentPlant || !showFiberCables || fiberCables.length === 0) {
+    if (!coordinates || !showFiberCables || fiberCables.length === 0) {
       setNearbyFiberCables([]);
+      setCarrierDiversity(null);
       setIsCalculatingNearbyFiber(false);
       return;
     }
@@ -58,16 +64,17 @@ export function useNearbyFiber(
 
     const payload = {
       requestId: requestIdRef.current,
-      plantCoordinates: persistentPlant.coordinates,
+      plantCoordinates: coordinates,
       cables: fiberCables,
       radiusMiles: FIBER_RADIUS_MILES,
     };
 
     workerRef.current?.postMessage(payload);
-  }, [persistentPlant, showFiberCables, fiberCables]);
+  }, [coordinates, showFiberCables, fiberCables]);
 
   return {
     nearbyFiberCables,
+    carrierDiversity,
     isCalculatingNearbyFiber,
   };
 }
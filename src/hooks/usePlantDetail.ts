@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import type { PowerPlant } from '../models/PowerPlant';
+import type { PowerPlantDetail } from '../types/powerPlantApi';
+import { authenticatedFetch } from '../utils/auth';
+import { isAbortError } from './usePowerPlantData';
+
+/**
+ * Lazy-loads the full record of `plant` from /api/power-plants/:id. Pass the
+ * pinned plant only, so hovering doesn't trigger a request per plant.
+ */
+export function usePlantDetail(plant: PowerPlant | null) {
+  const plantId = plant?.id ?? null;
+  const [detail, setDetail] = useState<PowerPlantDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDetail(null);
+    setError(null);
+    if (!plantId) {
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+
+    authenticatedFetch(`/api/power-plants/${encodeURIComponent(plantId)}`, { signal: controller.signal })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load plant details: ${response.status}`);
+        }
+        setDetail((await response.json()) as PowerPlantDetail);
+      })
+      .catch((fetchError) => {
+        if (isAbortError(fetchError)) return;
+        setError(fetchError instanceof Error ? fetchError.message : 'Failed to load plant details');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [plantId]);
+
+  return { detail, loading, error };
+}
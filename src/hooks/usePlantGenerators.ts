@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import type { PowerPlant } from '../models/PowerPlant';
+import type { PlantGeneratorsResponse } from '../types/powerPlantApi';
+import { authenticatedFetch } from '../utils/auth';
+import { isAbortError } from './usePowerPlantData';
+
+/**
+ * Loads the generator units of `plant` when it has any, for the plant tooltip.
+ * Hovering the same plant again is answered by the browser's HTTP cache: the
+ * route sends a max-age and an ETag tied to the dataset version, so a rebuild
+ * is picked up once the cached copy expires.
+ */
+export function usePlantGenerators(plant: PowerPlant | null) {
+  const plantId = plant && plant.generatorCount ? plant.id : null;
+  const [response, setResponse] = useState<PlantGeneratorsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!plantId) {
+      setResponse(null);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setResponse(null);
+    setLoading(true);
+
+    authenticatedFetch(`/api/power-plants/${encodeURIComponent(plantId)}/generators`, {
+      signal: controller.signal,
+    })
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error(`Failed to load generators: ${res.status}`);
+        }
+        setResponse((await res.json()) as PlantGeneratorsResponse);
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) {
+          console.warn(error);
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [plantId]);
+
+  return { generators: response?.generators ?? [], totals: response?.totals ?? null, loading };
+}
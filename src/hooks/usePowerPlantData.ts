@@ -2,11 +2,21 @@ import { useEffect, useMemo, useState } from 'react';
 import type { PowerPlant } from '../models/PowerPlant';
 import { calculateBbox } from '../utils/bboxUtils';
 import { authenticatedFetch } from '../utils/auth';
-import type { PowerPlantMetadata, PowerPlantPage } from '../types/powerPlantApi';
+import { decodePlantColumns, type PlantColumns } from '../utils/plantColumns';
+import type {
+  InfraLayer,
+  PowerPlantCluster,
+  PowerPlantClusterResponse,
+  PowerPlantColumnarPage,
+  PowerPlantMetadata,
+  PowerPlantPage,
+} from '../types/powerPlantApi';
 import { useDebounce } from './useDebounce';
 
 const POWER_PLANTS_PAGE_SIZE = 10000;
 const MAX_AUTO_PAGINATION_PAGES = 20;
+// Below this zoom the API returns grid aggregates instead of individual plants.
+export const POWER_PLANT_CLUSTER_MAX_ZOOM = 5;
 
 export type MapViewState = {
   longitude: number;
@@ -18,59 +28,193 @@ export type UsePowerPlantDataParams = {
   viewState: MapViewState;
   filteredSources: Set<string>;
   enabledCountries: Set<string>;
+  /** ISO 3166-2 codes; a country with none selected is shown whole. */
+  enabledAdmin1: Set<string>;
   filteredStatuses: Set<string>;
+  /** Only plants operating at the end of this year; null for any. */
+  operatingInYear: number | null;
   minPowerOutput: number;
   maxPowerOutput: number;
   minCapacityFactor: number;
   maxCapacityFactor: number;
   showOnlyNearbyPlants: boolean;
+  proximityLayer: InfraLayer;
   proximityDistance: number;
   isFilterStateReady: boolean;
 };
 
-const expandBboxByMiles = (
-  bbox: [number, number, number, number],
-  centerLat: number,
-  miles: number
-): [number, number, number, number] => {
-  if (miles <= 0) return bbox;
-
-  const deltaLat = miles / 69;
-  const latRad = (centerLat * Math.PI) / 180;
-  const cosLat = Math.max(0.01, Math.abs(Math.cos(latRad)));
-  const deltaLon = miles / (69 * cosLat);
-
-  const [minLon, minLat, maxLon, maxLat] = bbox;
-  return [
-    Math.max(-180, minLon - deltaLon),
-    Math.max(-90, minLat - deltaLat),
-    Math.min(180, maxLon + deltaLon),
-    Math.min(90, maxLat + deltaLat),
-  ];
-};
-
 const setToSortedCsv = (values: Set<string>): string | undefined => {
   if (values.size === 0) return undefined;
   return Array.from(values).sort().join(',');
 };
 
+export type PowerPlantFilterParams = Pick<
+  UsePowerPlantDataParams,
+  | 'filteredSources'
+  | 'enabledCountries'
+  | 'enabledAdmin1'
+  | 'filteredStatuses'
+  | 'operatingInYear'
+  | 'minPowerOutput'
+  | 'maxPowerOutput'
+  | 'minCapacityFactor'
+  | 'maxCapacityFactor'
+>;
+
+export const buildFilterQuery = (params: PowerPlantFilterParams) => ({
+  sources: params.filteredSources.size === 0 ? '__none__' : setToSortedCsv(params.filteredSources),
+  countries: setToSortedCsv(params.enabledCountries),
+  admin1: setToSortedCsv(params.enabledAdmin1),
+  statuses: setToSortedCsv(params.filteredStatuses),
+  operatingInYear: params.operatingInYear ?? undefined,
+  minCapacity: params.minPowerOutput,
+  maxCapacity: params.maxPowerOutput,
+  minCapacityFactor: params.minCapacityFactor,
+  maxCapacityFactor: params.maxCapacityFactor,
+});
+
+export const toFilterSearchParams = (query: ReturnType<typeof buildFilterQuery>): URLSearchParams => {
+  const searchParams = new URLSearchParams({
+    minCapacity: query.minCapacity.toString(),
+    maxCapacity: query.maxCapacity.toString(),
+    minCapacityFactor: query.minCapacityFactor.toString(),
+    maxCapacityFactor: query.maxCapacityFactor.toString(),
+  });
+
+  if (query.sources) searchParams.set('sources', query.sources);
+  if (query.countries) searchParams.set('countries', query.countries);
+  if (query.admin1) searchParams.set('admin1', query.admin1);
+  if (query.statuses) searchParams.set('statuses', query.statuses);
+  if (query.operatingInYear !== undefined) searchParams.set('operatingInYear', query.operatingInYear.toString());
+
+  return searchParams;
+};
+
+const fetchPlantPage = async <T>(searchParams: URLSearchParams, signal: AbortSignal): Promise<T> => {
+  const response = await authenticatedFetch(`/api/power-plants?${searchParams.toString()}`, { signal });
+  if (!response.ok) {
+    let retryAfter: string | null = null;
+    if (response.status === 429) {
+      retryAfter = response.headers.get('Retry-After');
+    }
+    throw new Error(
+      response.status === 429
+        ? `Rate limited loading power plants${retryAfter ? ` (retry in ${retryAfter}s)` : ''}`
+        : `Failed to load power plants: ${response.status}`
+    );
+  }
+  return (await response.json()) as T;
+};
+
+const withPageParams = (baseSearchParams: URLSearchParams, offset: number): URLSearchParams => {
+  const searchParams = new URLSearchParams(baseSearchParams);
+  searchParams.set('limit', POWER_PLANTS_PAGE_SIZE.toString());
+  searchParams.set('offset', offset.toString());
+  return searchParams;
+};
+
+/**
+ * Follow offset pages of /api/power-plants until the result is exhausted or
+ * `maxPages` is reached. The returned page describes the combined result.
+ */
+export const fetchPowerPlantPages = async (
+  baseSearchParams: URLSearchParams,
+  signal: AbortSignal,
+  maxPages: number = MAX_AUTO_PAGINATION_PAGES
+): Promise<{ plants: PowerPlant[]; page: PowerPlantPage['page'] }> => {
+  let offset = 0;
+  let pageCount = 0;
+  let finalPage: PowerPlantPage['page'] | null = null;
+  const allPlants: PowerPlant[] = [];
+
+  while (pageCount < maxPages) {
+    const payload = await fetchPlantPage<PowerPlantPage>(withPageParams(baseSearchParams, offset), signal);
+    const pageData = Array.isArray(payload.data) ? payload.data : [];
+    const pageInfo = payload?.page ?? null;
+
+    allPlants.push(...pageData);
+    finalPage = pageInfo;
+
+    if (!pageInfo?.hasMore || pageData.length === 0) {
+      break;
+    }
+
+    offset += pageData.length;
+    pageCount += 1;
+  }
+
+  return {
+    plants: allPlants,
+    page: {
+      limit: allPlants.length,
+      offset: 0,
+      total: finalPage?.total ?? allPlants.length,
+      hasMore: finalPage?.hasMore ?? false,
+    },
+  };
+};
+
+/**
+ * Like `fetchPowerPlantPages` from `startOffset` on, but with `format=columnar`
+ * pages decoded into typed arrays, so the map can draw dense views without an
+ * object per plant.
+ */
+export const fetchPowerPlantColumns = async (
+  baseSearchParams: URLSearchParams,
+  signal: AbortSignal,
+  startOffset = 0,
+  maxPages: number = MAX_AUTO_PAGINATION_PAGES
+): Promise<{ columns: PlantColumns; page: PowerPlantPage['page'] }> => {
+  const columnarParams = new URLSearchParams(baseSearchParams);
+  columnarParams.set('format', 'columnar');
+
+  let offset = startOffset;
+  let finalPage: PowerPlantPage['page'] | null = null;
+  const pages: PowerPlantColumnarPage[] = [];
+
+  while (pages.length < maxPages) {
+    const payload = await fetchPlantPage<PowerPlantColumnarPage>(withPageParams(columnarParams, offset), signal);
+    pages.push(payload);
+    finalPage = payload.page ?? null;
+
+    if (!finalPage?.hasMore || payload.length === 0) {
+      break;
+    }
+    offset += payload.length;
+  }
+
+  const columns = decodePlantColumns(pages);
+  return {
+    columns,
+    page: {
+      limit: columns.length,
+      offset: startOffset,
+      total: finalPage?.total ?? startOffset + columns.length,
+      hasMore: finalPage?.hasMore ?? false,
+    },
+  };
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException
+    ? error.name === 'AbortError'
+    : error instanceof Error && error.name === 'AbortError';
+
 const buildQuery = (params: UsePowerPlantDataParams) => {
-  const baseBbox = calculateBbox(params.viewState.longitude, params.viewState.latitude, params.viewState.zoom);
-  const effectiveBbox = params.showOnlyNearbyPlants
-    ? expandBboxByMiles(baseBbox, params.viewState.latitude, params.proximityDistance)
-    : baseBbox;
+  // Nearby plants stay limited to the viewport: builds without stored line
+  // distances measure them per request, which is only bounded for a small area.
+  const nearInfra = params.showOnlyNearbyPlants
+    ? { layer: params.proximityLayer, withinMiles: params.proximityDistance }
+    : null;
+  const bbox = calculateBbox(params.viewState.longitude, params.viewState.latitude, params.viewState.zoom);
+  // The proximity dialog lists individual plants, so proximity mode opts out of clustering.
+  const shouldCluster = !nearInfra && params.viewState.zoom < POWER_PLANT_CLUSTER_MAX_ZOOM;
 
   return {
-    bbox: effectiveBbox,
-    sources: params.filteredSources.size === 0 ? '__none__' : setToSortedCsv(params.filteredSources),
-    countries: setToSortedCsv(params.enabledCountries),
-    statuses: setToSortedCsv(params.filteredStatuses),
-    minCapacity: params.minPowerOutput,
-    maxCapacity: params.maxPowerOutput,
-    minCapacityFactor: params.minCapacityFactor,
-    maxCapacityFactor: params.maxCapacityFactor,
-    limit: POWER_PLANTS_PAGE_SIZE,
-    offset: 0,
+    bbox,
+    nearInfra,
+    ...buildFilterQuery(params),
+    clusterZoom: shouldCluster ? Math.floor(params.viewState.zoom) : null,
   };
 };
 
@@ -78,6 +222,10 @@ const buildQueryKey = (query: ReturnType<typeof buildQuery>): string => JSON.str
 
 export function usePowerPlantData(params: UsePowerPlantDataParams) {
   const [powerPlants, setPowerPlants] = useState<PowerPlant[]>([]);
+  // Plants past the first page. The map draws them as binary attributes and the
+  // plant search and selection read them without an object per plant.
+  const [plantColumns, setPlantColumns] = useState<PlantColumns | null>(null);
+  const [clusters, setClusters] = useState<PowerPlantCluster[]>([]);
   const [metadata, setMetadata] = useState<PowerPlantMetadata | null>(null);
   const [page, setPage] = useState<PowerPlantPage['page'] | null>(null);
   const [loadingPlants, setLoadingPlants] = useState(false);
@@ -136,78 +284,62 @@ export function usePowerPlantData(params: UsePowerPlantDataParams) {
       try {
         const parsed = JSON.parse(debouncedQueryKey) as ReturnType<typeof buildQuery>;
 
-        const baseSearchParams = new URLSearchParams({
-          bbox: parsed.bbox.join(','),
-          minCapacity: parsed.minCapacity.toString(),
-          maxCapacity: parsed.maxCapacity.toString(),
-          minCapacityFactor: parsed.minCapacityFactor.toString(),
-          maxCapacityFactor: parsed.maxCapacityFactor.toString(),
-        });
-
-        if (parsed.sources) baseSearchParams.set('sources', parsed.sources);
-        if (parsed.countries) baseSearchParams.set('countries', parsed.countries);
-        if (parsed.statuses) baseSearchParams.set('statuses', parsed.statuses);
-
-        let offset = parsed.offset;
-        let pageCount = 0;
-        let finalPage: PowerPlantPage['page'] | null = null;
-        const allPlants: PowerPlant[] = [];
-
-        while (pageCount < MAX_AUTO_PAGINATION_PAGES) {
-          if (cancelled) return;
+        const baseSearchParams = toFilterSearchParams(parsed);
+        baseSearchParams.set('bbox', parsed.bbox.join(','));
+        if (parsed.nearInfra) {
+          baseSearchParams.set('nearInfra', parsed.nearInfra.layer);
+          baseSearchParams.set('withinMiles', parsed.nearInfra.withinMiles.toString());
+        }
 
-          const searchParams = new URLSearchParams(baseSearchParams);
-          searchParams.set('limit', parsed.limit.toString());
-          searchParams.set('offset', offset.toString());
+        if (parsed.clusterZoom !== null) {
+          baseSearchParams.set('cluster', 'true');
+          baseSearchParams.set('zoom', parsed.clusterZoom.toString());
 
-          const response = await authenticatedFetch(`/api/power-plants?${searchParams.toString()}`, {
+          const response = await authenticatedFetch(`/api/power-plants?${baseSearchParams.toString()}`, {
             signal: controller.signal,
           });
           if (!response.ok) {
-            let retryAfter: string | null = null;
-            if (response.status === 429) {
-              retryAfter = response.headers.get('Retry-After');
-            }
-            throw new Error(
-              response.status === 429
-                ? `Rate limited loading power plants${retryAfter ? ` (retry in ${retryAfter}s)` : ''}`
-                : `Failed to load power plants: ${response.status}`
-            );
+            throw new Error(`Failed to load power plant clusters: ${response.status}`);
           }
 
-          const payload = (await response.json()) as PowerPlantPage;
-          const pageData = Array.isArray(payload.data) ? payload.data : [];
-          const pageInfo = payload?.page ?? null;
-
-          allPlants.push(...pageData);
-          finalPage = pageInfo;
-
-          if (!pageInfo?.hasMore || pageData.length === 0) {
-            break;
+          const payload = (await response.json()) as PowerPlantClusterResponse;
+          if (!cancelled) {
+            setClusters(Array.isArray(payload.clusters) ? payload.clusters : []);
+            setPowerPlants([]);
+            setPlantColumns(null);
+            setPage(null);
           }
+          return;
+        }
 
-          offset += pageData.length;
-          pageCount += 1;
+        // The proximity dialog lists every nearby plant, so that mode stays on objects.
+        // Otherwise only the first page is materialized and the rest is drawn from columns.
+        const { plants, page: firstPage } = await fetchPowerPlantPages(
+          baseSearchParams,
+          controller.signal,
+          parsed.nearInfra ? MAX_AUTO_PAGINATION_PAGES : 1
+        );
+        let columns: PlantColumns | null = null;
+        let combinedPage = firstPage;
+        if (firstPage.hasMore && !parsed.nearInfra) {
+          const rest = await fetchPowerPlantColumns(
+            baseSearchParams,
+            controller.signal,
+            plants.length,
+            MAX_AUTO_PAGINATION_PAGES - 1
+          );
+          columns = rest.columns;
+          combinedPage = { ...rest.page, limit: plants.length + rest.columns.length, offset: 0 };
         }
 
         if (!cancelled) {
-          const total = finalPage?.total ?? allPlants.length;
-          const hasMore = finalPage?.hasMore ?? false;
-
-          setPowerPlants(allPlants);
-          setPage({
-            limit: allPlants.length,
-            offset: parsed.offset,
-            total,
-            hasMore,
-          });
+          setPowerPlants(plants);
+          setPlantColumns(columns);
+          setClusters([]);
+          setPage(combinedPage);
         }
       } catch (fetchError) {
-        const isAbort =
-          fetchError instanceof DOMException
-            ? fetchError.name === 'AbortError'
-            : fetchError instanceof Error && fetchError.name === 'AbortError';
-        if (isAbort || cancelled) {
+        if (isAbortError(fetchError) || cancelled) {
           return;
         }
 
@@ -232,6 +364,8 @@ export function usePowerPlantData(params: UsePowerPlantDataParams) {
 
   return {
     powerPlants,
+    plantColumns,
+    clusters,
     page,
     metadata,
     loading: loadingPlants || loadingMetadata,
@@ -1,49 +1,40 @@
 import { useMemo } from 'react';
-import type RBush from 'rbush';
 import type { PowerPlant } from '../models/PowerPlant';
-import type { LineSegment } from '../utils/spatialIndex';
-import { isPointNearLine } from '../utils/geoUtils';
-import { queryLineIndex } from '../utils/spatialIndex';
+import { getPlantsFromColumns, type PlantColumns } from '../utils/plantColumns';
 
 export type ProximityAnalysisParams = {
   powerPlants: PowerPlant[];
+  /** Plants past the first page; only selected ones are rebuilt as objects. */
+  plantColumns: PlantColumns | null;
   showOnlyNearbyPlants: boolean;
-  lineIndex: RBush<LineSegment> | null;
-  proximityDistance: number;
   selectedPlantIds: Set<string>;
 };
 
 export function useProximityAnalysis({
   powerPlants,
+  plantColumns,
   showOnlyNearbyPlants,
-  lineIndex,
-  proximityDistance,
   selectedPlantIds,
 }: ProximityAnalysisParams) {
   return useMemo(() => {
     const filteredPowerPlants: PowerPlant[] = [];
     const nearbyPlants: PowerPlant[] = [];
+    const selectedColumnPlants =
+      plantColumns && selectedPlantIds.size > 0 ? getPlantsFromColumns(plantColumns, selectedPlantIds) : [];
 
-    for (const plant of powerPlants) {
+    for (const plant of [...powerPlants, ...selectedColumnPlants]) {
       if (selectedPlantIds.size > 0 && !selectedPlantIds.has(plant.id)) {
         continue;
       }
 
-      if (!showOnlyNearbyPlants || !lineIndex) {
+      if (!showOnlyNearbyPlants) {
         filteredPowerPlants.push(plant);
         continue;
       }
 
-      const nearbySegments = queryLineIndex(lineIndex, plant.coordinates, proximityDistance);
-      let isNearby = false;
-      for (const segment of nearbySegments) {
-        if (isPointNearLine(plant.coordinates, segment, proximityDistance)) {
-          isNearby = true;
-          break;
-        }
-      }
-
-      if (isNearby) {
+      // The API sets nearestLineMiles only on plants that passed its nearInfra filter;
+      // plants still loaded from before the toggle don't have it yet.
+      if (plant.nearestLineMiles !== undefined) {
         filteredPowerPlants.push(plant);
         nearbyPlants.push(plant);
       }
@@ -54,5 +45,5 @@ export function useProximityAnalysis({
       nearbyPlants,
       proximityPlantCount: nearbyPlants.length,
     };
-  }, [powerPlants, showOnlyNearbyPlants, lineIndex, proximityDistance, selectedPlantIds]);
+  }, [powerPlants, plantColumns, showOnlyNearbyPlants, selectedPlantIds]);
 }
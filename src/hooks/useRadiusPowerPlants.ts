@@ -0,0 +1,93 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { PowerPlant } from '../models/PowerPlant';
+import { useDebounce } from './useDebounce';
+import {
+  buildFilterQuery,
+  fetchPowerPlantPages,
+  isAbortError,
+  toFilterSearchParams,
+  type PowerPlantFilterParams,
+} from './usePowerPlantData';
+
+export type UseRadiusPowerPlantsParams = PowerPlantFilterParams & {
+  center: [number, number] | null;
+  radiusMiles: number;
+  isFilterStateReady: boolean;
+};
+
+/**
+ * Loads every plant within `radiusMiles` of `center` from the API, so location
+ * stats aren't limited to whatever the viewport query happens to have loaded.
+ */
+export function useRadiusPowerPlants(params: UseRadiusPowerPlantsParams) {
+  const [plants, setPlants] = useState<PowerPlant[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const queryKey = useMemo(
+    () =>
+      params.center
+        ? JSON.stringify({
+            near: params.center,
+            radiusMiles: params.radiusMiles,
+            ...buildFilterQuery(params),
+          })
+        : null,
+    [params]
+  );
+  const debouncedQueryKey = useDebounce(queryKey, 300);
+
+  useEffect(() => {
+    if (!debouncedQueryKey || !params.isFilterStateReady) {
+      setPlants([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const controller = new AbortController();
+
+    const loadPlants = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const parsed = JSON.parse(debouncedQueryKey) as ReturnType<typeof buildFilterQuery> & {
+          near: [number, number];
+          radiusMiles: number;
+        };
+
+        const searchParams = toFilterSearchParams(parsed);
+        searchParams.set('near', parsed.near.join(','));
+        searchParams.set('radiusMiles', parsed.radiusMiles.toString());
+
+        const { plants: radiusPlants } = await fetchPowerPlantPages(searchParams, controller.signal);
+        if (!cancelled) {
+          setPlants(radiusPlants);
+        }
+      } catch (fetchError) {
+        if (isAbortError(fetchError) || cancelled) {
+          return;
+        }
+        setError(fetchError instanceof Error ? fetchError.message : 'Failed to load nearby power plants');
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadPlants();
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [debouncedQueryKey, params.isFilterStateReady]);
+
+  return {
+    plants,
+    loading,
+    error,
+  };
+}
@@ -3,11 +3,25 @@ import type { MutableRefObject } from 'react';
 import { PathLayer } from '@deck.gl/layers';
 import type { FiberCable } from '../models/FiberCable';
 import type { TransmissionLine } from '../models/TransmissionLine';
-import type { HoveredFiberCable, HoveredHifldLine } from '../types/vectorFeatures';
+import type { FiberBboxTruncation, HoveredFiberCable, HoveredHifldLine } from '../types/vectorFeatures';
 import { authenticatedFetch } from '../utils/auth';
 import {
+  appendFiberFilterParams,
+  buildFiberColorLegend,
+  countFiberAttributes,
+  FIBER_DEFAULT_COLOR,
+  getFiberLegendColor,
+  hasFiberFilters,
+  matchesFiberFilters,
+  type FiberColorBy,
+  type FiberFacets,
+  type FiberFilters,
+} from '../utils/fiberAttributes';
+import {
+  expandFeaturePaths,
   featureToFiberCable,
   featureToHifldLine,
+  type FeaturePathPart,
   type GeoJsonLikeFeature,
 } from '../utils/vectorFeatureUtils';
 
@@ -15,6 +29,8 @@ const FIBER_OVERVIEW_URL =
   import.meta.env.VITE_FIBER_OVERVIEW_URL ||
   'https://helios-dataanalysisbucket.s3.us-east-1.amazonaws.com/rextag_data_simplified.json';
 const HIFLD_S3_API_URL = '/api/hifld-s3';
+// Matches the number of values /api/fiber-bbox returns per facet.
+const MAX_FACET_VALUES = 50;
 
 type UseVectorTileLayersParams = {
   showFiberCables: boolean;
@@ -23,6 +39,8 @@ type UseVectorTileLayersParams = {
   zoom: number;
   longitude: number;
   latitude: number;
+  fiberFilters: FiberFilters;
+  fiberColorBy: FiberColorBy;
   isFiberTooltipPersistent: boolean;
   fiberHoverTimeoutRef: MutableRefObject<NodeJS.Timeout | null>;
   lineHoverTimeoutRef: MutableRefObject<NodeJS.Timeout | null>;
@@ -31,6 +49,12 @@ type UseVectorTileLayersParams = {
   onFiberViewportCables: (cables: FiberCable[]) => void;
 };
 
+type FiberBboxResponse = {
+  features?: GeoJsonLikeFeature[];
+  facets?: FiberFacets;
+  truncated?: FiberBboxTruncation;
+};
+
 /** Compute a bbox from viewport center + zoom. */
 function viewportToBbox(longitude: number, latitude: number, zoom: number) {
   const latRange = 180 / Math.pow(2, zoom);
@@ -50,6 +74,8 @@ export function useVectorTileLayers({
   zoom,
   longitude,
   latitude,
+  fiberFilters,
+  fiberColorBy,
   isFiberTooltipPersistent,
   fiberHoverTimeoutRef,
   lineHoverTimeoutRef,
@@ -59,6 +85,8 @@ export function useVectorTileLayers({
 }: UseVectorTileLayersParams) {
   // ─── Fiber GeoJSON state ───────────────────────────────────────────
   const [fiberFeatures, setFiberFeatures] = useState<GeoJsonLikeFeature[]>([]);
+  const [fiberTruncation, setFiberTruncation] = useState<FiberBboxTruncation | null>(null);
+  const [fiberBboxFacets, setFiberBboxFacets] = useState<FiberFacets | null>(null);
   const [fiberOverviewFeatures, setFiberOverviewFeatures] = useState<GeoJsonLikeFeature[]>([]);
   const [hifldFeatures, setHifldFeatures] = useState<GeoJsonLikeFeature[]>([]);
   const abortRef = useRef<AbortController | null>(null);
@@ -71,6 +99,12 @@ export function useVectorTileLayers({
   const qZoom = Math.floor(zoom);
   const qLon = Math.round(longitude * 10) / 10;
   const qLat = Math.round(latitude * 10) / 10;
+  // As a string, so a new filters object with the same values doesn't re-fetch.
+  const fiberFilterParams = useMemo(() => {
+    const params = new URLSearchParams();
+    appendFiberFilterParams(params, fiberFilters);
+    return params.toString();
+  }, [fiberFilters]);
 
   // Overview dataset fetch (single simplified GeoJSON from env-configured URL)
   useEffect(() => {
@@ -169,6 +203,8 @@ export function useVectorTileLayers({
     const shouldHideDetailedFiber = !showFiberCables || qZoom < 8;
     if (shouldHideDetailedFiber) {
       setFiberFeatures([]);
+      setFiberTruncation(null);
+      setFiberBboxFacets(null);
       onFiberViewportCables([]);
       return;
     }
@@ -188,7 +224,7 @@ export function useVectorTileLayers({
       abortRef.current = controller;
 
       const bbox = viewportToBbox(qLon, qLat, qZoom);
-      const url = `/api/fiber-bbox?minLon=${bbox.minLon}&minLat=${bbox.minLat}&maxLon=${bbox.maxLon}&maxLat=${bbox.maxLat}&zoom=${qZoom}`;
+      const url = `/api/fiber-bbox?minLon=${bbox.minLon}&minLat=${bbox.minLat}&maxLon=${bbox.maxLon}&maxLat=${bbox.maxLat}&zoom=${qZoom}${fiberFilterParams ? `&${fiberFilterParams}` : ''}`;
 
       const doFetch = (retryAfter401 = false) => {
         authenticatedFetch(url, { signal: controller.signal })
@@ -201,10 +237,12 @@ export function useVectorTileLayers({
             if (!res.ok) throw new Error(`fiber-bbox ${res.status}`);
             return res.json();
           })
-          .then((geojson: { features?: GeoJsonLikeFeature[] } | undefined) => {
+          .then((geojson: FiberBboxResponse | undefined) => {
             if (!geojson || controller.signal.aborted) return;
             const features = geojson.features ?? [];
             setFiberFeatures(features);
+            setFiberTruncation(geojson.truncated ?? null);
+            setFiberBboxFacets(geojson.facets ?? null);
 
             const cables: FiberCable[] = [];
             const dedupe = new Set<string>();
@@ -234,16 +272,40 @@ export function useVectorTileLayers({
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [showFiberCables, qZoom, qLon, qLat, onFiberViewportCables]);
+  }, [showFiberCables, qZoom, qLon, qLat, fiberFilterParams, onFiberViewportCables]);
+
+  // The overview is one static file, so its attribute filters apply here rather than on the server.
+  const visibleOverviewFeatures = useMemo(
+    () =>
+      hasFiberFilters(fiberFilters)
+        ? fiberOverviewFeatures.filter((feature) => matchesFiberFilters(feature.properties, fiberFilters))
+        : fiberOverviewFeatures,
+    [fiberOverviewFeatures, fiberFilters]
+  );
+  const fiberOverviewFacets = useMemo(
+    () => (fiberOverviewFeatures.length > 0 ? countFiberAttributes(fiberOverviewFeatures, MAX_FACET_VALUES) : null),
+    [fiberOverviewFeatures]
+  );
+
+  const usingOverviewLayer = zoom < 8;
+  const showFiberLayer =
+    zoom >= 4 && ((usingOverviewLayer && showFiberOverview) || (!usingOverviewLayer && showFiberCables));
+  const fiberFacets = showFiberLayer ? (usingOverviewLayer ? fiberOverviewFacets : fiberBboxFacets) : null;
+  const fiberLegend = useMemo(() => {
+    if (!showFiberLayer) return [];
+    return buildFiberColorLegend(usingOverviewLayer ? visibleOverviewFeatures : fiberFeatures, fiberColorBy);
+  }, [showFiberLayer, usingOverviewLayer, visibleOverviewFeatures, fiberFeatures, fiberColorBy]);
+
+  // Each MultiLineString part is drawn and picked on its own.
+  const fiberPaths = useMemo(() => expandFeaturePaths(fiberFeatures), [fiberFeatures]);
+  const fiberOverviewPaths = useMemo(() => expandFeaturePaths(visibleOverviewFeatures), [visibleOverviewFeatures]);
+  const hifldPaths = useMemo(() => expandFeaturePaths(hifldFeatures), [hifldFeatures]);
 
   // ─── Fiber PathLayer (zoom-adaptive styling) ───────────────────────
   const fiberLayer = useMemo(() => {
-    const usingOverviewLayer = zoom < 8;
-    const activeFeatures = usingOverviewLayer ? fiberOverviewFeatures : fiberFeatures;
-    const shouldShow =
-      zoom >= 4 && ((usingOverviewLayer && showFiberOverview) || (!usingOverviewLayer && showFiberCables));
+    const activePaths = usingOverviewLayer ? fiberOverviewPaths : fiberPaths;
 
-    if (!shouldShow || activeFeatures.length === 0) {
+    if (!showFiberLayer || activePaths.length === 0) {
       return null;
     }
 
@@ -264,34 +326,31 @@ export function useVectorTileLayers({
       opacity = 0.85;
     }
 
-    return new PathLayer<GeoJsonLikeFeature>({
+    return new PathLayer<FeaturePathPart>({
       id: 'fiber-cables',
-      data: activeFeatures,
-      getPath: (d: GeoJsonLikeFeature) => {
-        const geom = d.geometry;
-        if (!geom || !geom.coordinates) return [];
-        if (geom.type === 'LineString') return geom.coordinates as [number, number][];
-        if (geom.type === 'MultiLineString') {
-          const multi = geom.coordinates as [number, number][][];
-          return multi[0] || [];
-        }
-        return [];
+      data: activePaths,
+      getPath: (d: FeaturePathPart) => d.path,
+      getColor:
+        fiberColorBy === 'none'
+          ? FIBER_DEFAULT_COLOR
+          : (d: FeaturePathPart) => getFiberLegendColor(d.feature.properties, fiberColorBy, fiberLegend),
+      updateTriggers: {
+        getColor: [fiberColorBy, fiberLegend],
       },
-      getColor: [200, 0, 200],
       getWidth: lineWidth,
       opacity,
       widthUnits: 'pixels',
       widthMinPixels: 1,
       pickable: true,
       autoHighlight: false,
-      onHover: (info: { object?: GeoJsonLikeFeature }) => {
+      onHover: (info: { object?: FeaturePathPart }) => {
         if (fiberHoverTimeoutRef.current) {
           clearTimeout(fiberHoverTimeoutRef.current);
           fiberHoverTimeoutRef.current = null;
         }
 
         if (info.object) {
-          const cable = featureToFiberCable(info.object, 'fiber-hover');
+          const cable = featureToFiberCable(info.object.feature, 'fiber-hover');
           onHoveredFiberCable(cable);
         } else if (!isFiberTooltipPersistent) {
           fiberHoverTimeoutRef.current = setTimeout(() => {
@@ -302,11 +361,13 @@ export function useVectorTileLayers({
       },
     });
   }, [
-    showFiberCables,
-    showFiberOverview,
+    showFiberLayer,
+    usingOverviewLayer,
     zoom,
-    fiberFeatures,
-    fiberOverviewFeatures,
+    fiberPaths,
+    fiberOverviewPaths,
+    fiberColorBy,
+    fiberLegend,
     isFiberTooltipPersistent,
     fiberHoverTimeoutRef,
     onHoveredFiberCable,
@@ -314,25 +375,16 @@ export function useVectorTileLayers({
 
   // ─── HIFLD PathLayer (legacy S3 JSON path from personal branch) ──
   const hifldLayer = useMemo(() => {
-    if (!showHifldLines || hifldFeatures.length === 0) return null;
+    if (!showHifldLines || hifldPaths.length === 0) return null;
 
-    return new PathLayer<GeoJsonLikeFeature>({
+    return new PathLayer<FeaturePathPart>({
       id: 'hifld-lines',
-      data: hifldFeatures,
+      data: hifldPaths,
       pickable: true,
       widthUnits: 'pixels',
       widthMinPixels: 1,
-      getPath: (d: GeoJsonLikeFeature) => {
-        const geom = d.geometry;
-        if (!geom || !geom.coordinates) return [];
-        if (geom.type === 'LineString') return geom.coordinates as [number, number][];
-        if (geom.type === 'MultiLineString') {
-          const multi = geom.coordinates as [number, number][][];
-          return multi[0] || [];
-        }
-        return [];
-      },
-      getColor: (feature: { properties?: Record<string, unknown> }) => {
+      getPath: (d: FeaturePathPart) => d.path,
+      getColor: ({ feature }: FeaturePathPart) => {
         const properties = feature.properties || {};
         const voltage = Number(properties.voltage ?? properties.VOLTAGE ?? 0);
         const voltClass = String(properties.voltClass ?? properties.VOLT_CLASS ?? '');
@@ -347,7 +399,7 @@ export function useVectorTileLayers({
 
         return [100, 150, 200, 100];
       },
-      getWidth: (feature: { properties?: Record<string, unknown> }) => {
+      getWidth: ({ feature }: FeaturePathPart) => {
         const properties = feature.properties || {};
         const voltClass = String(properties.voltClass ?? properties.VOLT_CLASS ?? '');
 
@@ -360,14 +412,14 @@ export function useVectorTileLayers({
       highlightColor: [255, 200, 0, 255],
       capRounded: false,
       jointRounded: false,
-      onHover: (info: { object?: GeoJsonLikeFeature }) => {
+      onHover: (info: { object?: FeaturePathPart }) => {
         if (lineHoverTimeoutRef.current) {
           clearTimeout(lineHoverTimeoutRef.current);
           lineHoverTimeoutRef.current = null;
         }
 
         if (info.object) {
-          const line = featureToHifldLine(info.object, 'hifld-hover');
+          const line = featureToHifldLine(info.object.feature, 'hifld-hover');
           onHoveredHifldLine(line);
         } else {
           lineHoverTimeoutRef.current = setTimeout(() => {
@@ -377,10 +429,13 @@ export function useVectorTileLayers({
         }
       },
     });
-  }, [showHifldLines, hifldFeatures, lineHoverTimeoutRef, onHoveredHifldLine]);
+  }, [showHifldLines, hifldPaths, lineHoverTimeoutRef, onHoveredHifldLine]);
 
   return {
     fiberLayer,
     hifldLayer,
+    fiberTruncation,
+    fiberFacets,
+    fiberLegend,
   };
 }
@@ -2,7 +2,8 @@ import type { VectorFiberProperties } from '../types/powerPlantApi';
 
 export interface FiberCable {
   id: string;
-  path: [number, number][];
+  // One entry per LineString part; a single-part route has one.
+  paths: [number, number][][];
   properties: VectorFiberProperties;
 }
 
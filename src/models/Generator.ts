@@ -0,0 +1,14 @@
+// One generating unit of a US plant, from the EIA-860 generator inventory
+export interface Generator {
+  unitId: string;
+  technology?: string;
+  primeMover?: string; // EIA prime mover code, e.g. ST, GT, CT, PV
+  nameplateMW: number;
+  summerMW?: number;
+  winterMW?: number;
+  operatingYear?: number;
+  operatingMonth?: number;
+  plannedRetirementYear?: number; // Actual year for retired units
+  plannedRetirementMonth?: number;
+  status?: string; // EIA status code, e.g. OP, SB, OS
+}
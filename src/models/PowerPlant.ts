@@ -1,3 +1,21 @@
+import type { CountryCode } from '../utils/countries';
+import type { PlantStatus } from '../utils/plantStatus';
+
+export type DataQuality = 'reported' | 'estimated' | 'defaulted';
+
+export interface GenerationYear {
+  year: number;
+  gwh: number;
+  estimated?: boolean; // Modelled rather than reported
+}
+
+export interface PlantProvenance {
+  datasets: string[]; // e.g. 'canada-large', 'global-power-plant-database', 'us-eia'
+  recordIds: string[]; // `${dataset}:${source ID or row-N}`
+  estimatedFields: string[];
+  defaultedFields: string[];
+}
+
 export interface PowerPlant {
   id: string;
   name: string;
@@ -5,16 +23,34 @@ export interface PowerPlant {
   outputDisplay: string;
   source: string;
   coordinates: [number, number]; // [longitude, latitude]
-  country: 'CA' | 'US' | 'KZ' | 'AE' | 'IN' | 'KG' | 'USA' | 'CHN' | 'GBR' | 'BRA' | 'FRA' | 'DEU' | 'ESP' | 'RUS' | 'JPN' | 'AUS' | 'PRT' | 'CZE' | 'ITA' | 'CHL' | 'NOR' | 'MEX' | 'VNM' | 'ARG' | 'THA' | 'POL' | 'FIN' | 'IDN' | 'SWE' | 'CHE' | 'TUR' | 'KOR' | 'PHL' | 'IRN' | 'ZAF' | 'AUT' | 'SAU' | 'GRC' | 'GTM' | 'URY' | 'NLD' | 'BEL' | 'ROU' | 'UKR' | 'PAK' | 'EGY' | 'ISR' | 'IRL' | 'DZA' | 'BGD' | 'MYS' | 'LKA' | 'DNK' | 'MAR' | 'VEN' | 'NZL' | 'BGR' | 'HND' | 'TWN' | 'MMR' | 'JOR' | 'PER' | 'PRK' | 'SVK' | 'IRQ' | 'TUN' | 'CRI' | 'BOL' | 'COL' | 'HRV' | 'BLR' | 'MUS' | 'KEN' | 'ECU' | 'LAO' | 'ISL' | 'BIH' | 'SDN' | 'GEO' | 'SYR' | 'HUN' | 'PAN' | 'EST' | 'UZB' | 'SLV' | 'NIC' | 'KHM' | 'ZMB' | 'PNG' | 'DOM' | 'COD' | 'SGP' | 'NPL' | 'CUB' | 'AZE' | 'AGO' | 'NGA' | 'NAM' | 'ETH' | 'SRB' | 'QAT' | 'OMN' | 'MKD' | 'MDG' | 'LBY' | 'FJI' | 'UGA' | 'TZA' | 'RWA' | 'TJK' | 'SEN' | 'JAM' | 'KWT' | 'GIN' | 'AFG' | 'SVN' | 'MNG' | 'COG' | 'CMR' | 'CIV' | 'BHR' | 'ARM' | 'ALB' | 'YEM' | 'TKM' | 'NER' | 'MRT' | 'LBN' | 'BFA' | 'TTO' | 'SWZ' | 'MDA' | 'LTU' | 'GUF' | 'GHA' | 'GAB' | 'MWI' | 'LVA' | 'GUY' | 'BTN' | 'MLI' | 'CPV' | 'BRN' | 'BDI' | 'TGO' | 'SLE' | 'PRY' | 'MOZ' | 'MNE' | 'GNQ' | 'CYP' | 'ZWE' | 'LUX' | 'LBR' | 'KOS' | 'GMB' | 'ERI' | 'CAF' | 'BWA' | 'BEN' | 'ATA' | 'SUR' | 'PSE' | 'LSO' | 'LCA' | 'GNB' | 'ESH' | 'DJI';
-  capacityFactor?: number | null;
+  country: CountryCode; // ISO 3166-1 alpha-2
+  admin1?: string; // ISO 3166-2 state or province, e.g. 'US-TX'
+  status?: PlantStatus;
+  inServiceDate?: string; // 'YYYY' or 'YYYY-MM'; expected when in the future
+  retirementDate?: string; // Planned or actual, same format
+  capacityFactor?: number | null; // Latest year with generation data, in percent
+  capacityFactorMean?: number; // Mean over every known year
+  capacityFactorTrend?: number; // Percentage points per year, from three or more years
   generation?: number;
   netSummerCapacity?: number;
   netWinterCapacity?: number;
-  historicalAvgGeneration?: number;
+  historicalAvgGeneration?: number; // Mean annual GWh over the generation history
   // Global database specific fields
   capacityMW?: number; // Installed capacity from global database
   usedCapacity?: number; // Calculated used capacity from generation data
   generationGWh?: number; // Generation data from global database
+  // Nearest-infrastructure enrichment, computed once per server dataset build
+  nearestFiberMiles?: number;
+  nearestHvLineMiles?: number; // Nearest HIFLD line at 230 kV or above
+  nearestHvLineVoltage?: number;
+  nearestHvLineVoltClass?: string;
+  distanceMiles?: number; // Set by the API when the query has a near/radiusMiles filter
+  nearestLineMiles?: number; // Set by the API when the query has a nearInfra/withinMiles filter
+  nearestLineId?: string;
+  // Which source records were merged into this plant, and how far to trust its numbers
+  provenance?: PlantProvenance;
+  dataQuality?: DataQuality;
+  generatorCount?: number; // EIA generator units; fetch them from /api/power-plants/:id/generators
   // Additional fields for hover panel
   rawData?: Record<string, string>; // Store all original CSV fields
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
-import type { PowerPlant } from '../models/PowerPlant';
+import type { Generator } from '../models/Generator';
+import type { DataQuality, GenerationYear, PowerPlant } from '../models/PowerPlant';
+import type { PlantStatus } from '../utils/plantStatus';
 
 export interface PowerPlantPage {
   data: PowerPlant[];
@@ -7,21 +9,88 @@ export interface PowerPlantPage {
     offset: number;
     total: number;
     hasMore: boolean;
+    nextCursor?: string;
   };
 }
 
+// `format=columnar`: parallel arrays for typed-array decoding. `positions` is
+// [lon, lat, lon, lat, ...]; the index columns point into `sources`/`countries`.
+export interface PowerPlantColumnarPage {
+  format: 'columnar';
+  length: number;
+  sources: string[];
+  countries: string[];
+  ids: string[];
+  names: string[];
+  positions: number[];
+  output: number[];
+  sourceIndex: number[];
+  countryIndex: number[];
+  capacityFactor: Array<number | null>;
+  generationMW: Array<number | null>; // Mean MW over the year, for generation sizing
+  page: PowerPlantPage['page'];
+}
+
+export type InfraLayer = 'fiber' | 'hifld' | 'submarine';
+
+export type PowerPlantSortField = 'output' | 'capacityFactor' | 'name' | 'generationGWh' | 'excessCapacity' | 'retirementDate';
+
+export interface PowerPlantCluster {
+  id: string;
+  coordinates: [number, number];
+  count: number;
+  totalOutput: number;
+  outputBySource: Record<string, number>;
+}
+
+export interface PowerPlantClusterResponse {
+  clusters: PowerPlantCluster[];
+  total: number;
+  zoom: number;
+  cellSizeDegrees: number;
+}
+
+export interface Admin1Metadata {
+  code: string; // ISO 3166-2, e.g. 'US-TX'
+  name: string;
+  count: number;
+}
+
 export interface CountryMetadata {
   code: string;
   count: number;
   usedCapacity?: number;
+  admin1?: Admin1Metadata[];
+}
+
+export interface PlantSourceReport {
+  id: string;
+  label: string;
+  /** `fallback` means the primary location failed and a later one (usually a local file) was used. */
+  status: 'loaded' | 'fallback' | 'failed';
+  location?: string;
+  plantCount: number;
+  rowCount?: number;
+  malformedRowCount?: number;
+  /** The first malformed CSV rows, by the line they start on. */
+  malformedRows?: Array<{ line: number; reason: string }>;
+  error?: string;
 }
 
 export interface PowerPlantMetadata {
+  /** Dataset build hash; also sent as the ETag of power plant responses. */
+  version?: string;
+  builtAt?: string;
+  dataSources?: PlantSourceReport[];
   total: number;
   sources: string[];
   sourceCounts: Record<string, number>;
   countries: CountryMetadata[];
-  statuses: string[];
+  statuses: PlantStatus[];
+  statusCounts?: Partial<Record<PlantStatus, number>>;
+  /** Capacity leaving service by retirement year, from this year on. */
+  upcomingRetirements?: Array<{ year: number; count: number; capacity: number }>;
+  dataQualityCounts?: Record<DataQuality, number>;
   powerRange: {
     min: number;
     max: number;
@@ -32,13 +101,31 @@ export interface PowerPlantQuery {
   bbox?: [number, number, number, number];
   sources?: string[];
   countries?: string[];
-  statuses?: string[];
+  admin1?: string[];
+  statuses?: PlantStatus[];
+  operatingInYear?: number;
+  dataQuality?: DataQuality[];
   minCapacity?: number;
   maxCapacity?: number;
   minCapacityFactor?: number;
   maxCapacityFactor?: number;
+  maxFiberMiles?: number;
+  minNearestVoltage?: number;
+  near?: [number, number];
+  radiusMiles?: number;
+  nearInfra?: InfraLayer;
+  withinMiles?: number;
+  /** GeoJSON Polygon or MultiPolygon; send large shapes in a POST body. */
+  polygon?:
+    | { type: 'Polygon'; coordinates: [number, number][][] }
+    | { type: 'MultiPolygon'; coordinates: [number, number][][][] };
   limit?: number;
   offset?: number;
+  cluster?: boolean;
+  zoom?: number;
+  sort?: PowerPlantSortField;
+  order?: 'asc' | 'desc';
+  cursor?: string;
 }
 
 export interface VectorFiberProperties {
@@ -79,3 +166,23 @@ export interface VectorHifldProperties {
   shapeLength?: number;
   [key: string]: unknown;
 }
+
+export interface PlantGeneratorsResponse {
+  plantId: string;
+  generators: Generator[];
+  totals: {
+    nameplateMW: number;
+    /** Only set when every unit reports a summer/winter rating. */
+    summerMW?: number;
+    winterMW?: number;
+  };
+}
+
+/** Response of /api/power-plants/:id; `rawData` is unabridged here. */
+export interface PowerPlantDetail extends PowerPlant {
+  /** Original CSV row of every source record merged into the plant, keyed by provenance record ID. */
+  sourceRecords: Record<string, Record<string, string>>;
+  generators: Generator[];
+  /** Yearly net generation, oldest first; list responses only carry its summary fields. */
+  generationHistory?: GenerationYear[];
+}
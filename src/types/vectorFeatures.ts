@@ -3,8 +3,16 @@ import type { VectorHifldProperties } from './powerPlantApi';
 
 export interface HoveredHifldLine {
   id: string;
-  coordinates: [number, number][];
+  paths: [number, number][][];
   properties: VectorHifldProperties;
 }
 
 export type HoveredFiberCable = FiberCable;
+
+// Sent by /api/fiber-bbox when the viewport holds more routes than it returned.
+// Routes in skipped tiles are not part of droppedFeatures.
+export interface FiberBboxTruncation {
+  droppedFeatures: number;
+  maxFeatures: number;
+  skippedTiles: number;
+}
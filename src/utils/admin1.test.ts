@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { ADMIN1_REGIONS, getAdmin1Name, normalizeAdmin1 } from './admin1';
+
+describe('admin1', () => {
+  it('lists each ISO 3166-2 code once', () => {
+    expect(new Set(ADMIN1_REGIONS.map((region) => region.code)).size).toBe(ADMIN1_REGIONS.length);
+    expect(ADMIN1_REGIONS.filter((region) => region.country === 'US')).toHaveLength(57);
+  });
+
+  it('normalizes codes, subdivision codes and source spellings of names', () => {
+    expect(normalizeAdmin1('US', 'us-tx')).toBe('US-TX');
+    expect(normalizeAdmin1('US', 'TX')).toBe('US-TX');
+    expect(normalizeAdmin1('CA', 'Quebec')).toBe('CA-QC');
+    expect(normalizeAdmin1('CA', 'Québec')).toBe('CA-QC');
+  });
+
+  it('does not match names across countries or unknown values', () => {
+    expect(normalizeAdmin1('CA', 'Texas')).toBeUndefined();
+    expect(normalizeAdmin1('US', '')).toBeUndefined();
+    expect(normalizeAdmin1('US', undefined)).toBeUndefined();
+    expect(getAdmin1Name('CA-BC')).toBe('British Columbia');
+    expect(getAdmin1Name('XX-01')).toBe('XX-01');
+  });
+});
@@ -0,0 +1,119 @@
+// ISO 3166-2 first-level subdivisions for the countries whose sources report them
+
+// [ISO 3166-2 code, display name]
+const ADMIN1_ROWS: Array<[string, string]> = [
+  ['CA-AB', 'Alberta'],
+  ['CA-BC', 'British Columbia'],
+  ['CA-MB', 'Manitoba'],
+  ['CA-NB', 'New Brunswick'],
+  ['CA-NL', 'Newfoundland and Labrador'],
+  ['CA-NS', 'Nova Scotia'],
+  ['CA-NT', 'Northwest Territories'],
+  ['CA-NU', 'Nunavut'],
+  ['CA-ON', 'Ontario'],
+  ['CA-PE', 'Prince Edward Island'],
+  ['CA-QC', 'Québec'],
+  ['CA-SK', 'Saskatchewan'],
+  ['CA-YT', 'Yukon'],
+  ['US-AL', 'Alabama'],
+  ['US-AK', 'Alaska'],
+  ['US-AZ', 'Arizona'],
+  ['US-AR', 'Arkansas'],
+  ['US-CA', 'California'],
+  ['US-CO', 'Colorado'],
+  ['US-CT', 'Connecticut'],
+  ['US-DE', 'Delaware'],
+  ['US-DC', 'District of Columbia'],
+  ['US-FL', 'Florida'],
+  ['US-GA', 'Georgia'],
+  ['US-HI', 'Hawaii'],
+  ['US-ID', 'Idaho'],
+  ['US-IL', 'Illinois'],
+  ['US-IN', 'Indiana'],
+  ['US-IA', 'Iowa'],
+  ['US-KS', 'Kansas'],
+  ['US-KY', 'Kentucky'],
+  ['US-LA', 'Louisiana'],
+  ['US-ME', 'Maine'],
+  ['US-MD', 'Maryland'],
+  ['US-MA', 'Massachusetts'],
+  ['US-MI', 'Michigan'],
+  ['US-MN', 'Minnesota'],
+  ['US-MS', 'Mississippi'],
+  ['US-MO', 'Missouri'],
+  ['US-MT', 'Montana'],
+  ['US-NE', 'Nebraska'],
+  ['US-NV', 'Nevada'],
+  ['US-NH', 'New Hampshire'],
+  ['US-NJ', 'New Jersey'],
+  ['US-NM', 'New Mexico'],
+  ['US-NY', 'New York'],
+  ['US-NC', 'North Carolina'],
+  ['US-ND', 'North Dakota'],
+  ['US-OH', 'Ohio'],
+  ['US-OK', 'Oklahoma'],
+  ['US-OR', 'Oregon'],
+  ['US-PA', 'Pennsylvania'],
+  ['US-RI', 'Rhode Island'],
+  ['US-SC', 'South Carolina'],
+  ['US-SD', 'South Dakota'],
+  ['US-TN', 'Tennessee'],
+  ['US-TX', 'Texas'],
+  ['US-UT', 'Utah'],
+  ['US-VT', 'Vermont'],
+  ['US-VA', 'Virginia'],
+  ['US-WA', 'Washington'],
+  ['US-WV', 'West Virginia'],
+  ['US-WI', 'Wisconsin'],
+  ['US-WY', 'Wyoming'],
+  ['US-AS', 'American Samoa'],
+  ['US-GU', 'Guam'],
+  ['US-MP', 'Northern Mariana Islands'],
+  ['US-PR', 'Puerto Rico'],
+  ['US-UM', 'U.S. Minor Outlying Islands'],
+  ['US-VI', 'U.S. Virgin Islands'],
+];
+
+export interface Admin1Region {
+  code: string;
+  country: string;
+  name: string;
+}
+
+export const ADMIN1_REGIONS: Admin1Region[] = ADMIN1_ROWS.map(([code, name]) => ({
+  code,
+  country: code.slice(0, 2),
+  name,
+}));
+
+// Sources spell names differently ("Québec"/"Quebec"), so names are compared
+// without accents or case.
+const toNameKey = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+const regionsByCode = new Map(ADMIN1_REGIONS.map((region) => [region.code, region]));
+const regionsByName = new Map(
+  ADMIN1_REGIONS.map((region) => [`${region.country}|${toNameKey(region.name)}`, region])
+);
+
+/**
+ * ISO 3166-2 code for a raw state/province value, which may be the full code
+ * ("US-TX"), the subdivision part ("TX") or the name. Undefined when unknown.
+ */
+export const normalizeAdmin1 = (country: string, value: string | undefined): string | undefined => {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+
+  const upper = trimmed.toUpperCase();
+  return (
+    regionsByCode.get(upper)?.code ??
+    regionsByCode.get(`${country}-${upper}`)?.code ??
+    regionsByName.get(`${country}|${toNameKey(trimmed)}`)?.code
+  );
+};
+
+export const getAdmin1Name = (code: string): string => regionsByCode.get(code)?.name ?? code;
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { COUNTRIES, getCountryFlag, getCountryName, getCountryRegion, normalizeCountryCode } from './countries';
+
+describe('countries', () => {
+  it('covers ISO 3166-1 with unique codes', () => {
+    expect(COUNTRIES.length).toBeGreaterThanOrEqual(249);
+    expect(new Set(COUNTRIES.map((country) => country.code)).size).toBe(COUNTRIES.length);
+    expect(new Set(COUNTRIES.map((country) => country.alpha3)).size).toBe(COUNTRIES.length);
+  });
+
+  it('normalizes alpha-3 and non-standard codes to alpha-2', () => {
+    expect(normalizeCountryCode('KAZ')).toBe('KZ');
+    expect(normalizeCountryCode(' usa ')).toBe('US');
+    expect(normalizeCountryCode('AE')).toBe('AE');
+    expect(normalizeCountryCode('KOS')).toBe('XK');
+    expect(normalizeCountryCode('ZZZ')).toBe('ZZZ');
+  });
+
+  it('resolves names, flags and regions from either code', () => {
+    expect(getCountryName('GBR')).toBe('United Kingdom');
+    expect(getCountryName('ZZZ')).toBe('ZZZ');
+    expect(getCountryFlag('CA')).toBe('🇨🇦');
+    expect(getCountryFlag('ZZZ')).toBe('🏳️');
+    expect(getCountryRegion('ARE')).toBe('asia');
+    expect(getCountryRegion('AQ')).toBeNull();
+  });
+});
@@ -0,0 +1,305 @@
+// ISO 3166-1 country table shared by the API and the client
+
+export const COUNTRY_REGIONS = ['europe', 'africa', 'asia', 'northAmerica', 'southAmerica', 'oceania'] as const;
+
+export type CountryRegion = (typeof COUNTRY_REGIONS)[number];
+
+// [alpha-2, alpha-3, display name, region]. Transcontinental countries sit in
+// the region the filter panel has always shown them under; Antarctica and
+// uninhabited territories have no region. XK/XKX is Kosovo's user-assigned code.
+const COUNTRY_ROWS = [
+  ['AD', 'AND', 'Andorra', 'europe'],
+  ['AE', 'ARE', 'United Arab Emirates', 'asia'],
+  ['AF', 'AFG', 'Afghanistan', 'asia'],
+  ['AG', 'ATG', 'Antigua and Barbuda', 'northAmerica'],
+  ['AI', 'AIA', 'Anguilla', 'northAmerica'],
+  ['AL', 'ALB', 'Albania', 'europe'],
+  ['AM', 'ARM', 'Armenia', 'asia'],
+  ['AO', 'AGO', 'Angola', 'africa'],
+  ['AQ', 'ATA', 'Antarctica', null],
+  ['AR', 'ARG', 'Argentina', 'southAmerica'],
+  ['AS', 'ASM', 'American Samoa', 'oceania'],
+  ['AT', 'AUT', 'Austria', 'europe'],
+  ['AU', 'AUS', 'Australia', 'oceania'],
+  ['AW', 'ABW', 'Aruba', 'northAmerica'],
+  ['AX', 'ALA', 'Åland Islands', 'europe'],
+  ['AZ', 'AZE', 'Azerbaijan', 'asia'],
+  ['BA', 'BIH', 'Bosnia and Herzegovina', 'europe'],
+  ['BB', 'BRB', 'Barbados', 'northAmerica'],
+  ['BD', 'BGD', 'Bangladesh', 'asia'],
+  ['BE', 'BEL', 'Belgium', 'europe'],
+  ['BF', 'BFA', 'Burkina Faso', 'africa'],
+  ['BG', 'BGR', 'Bulgaria', 'europe'],
+  ['BH', 'BHR', 'Bahrain', 'asia'],
+  ['BI', 'BDI', 'Burundi', 'africa'],
+  ['BJ', 'BEN', 'Benin', 'africa'],
+  ['BL', 'BLM', 'Saint Barthélemy', 'northAmerica'],
+  ['BM', 'BMU', 'Bermuda', 'northAmerica'],
+  ['BN', 'BRN', 'Brunei', 'asia'],
+  ['BO', 'BOL', 'Bolivia', 'southAmerica'],
+  ['BQ', 'BES', 'Caribbean Netherlands', 'northAmerica'],
+  ['BR', 'BRA', 'Brazil', 'southAmerica'],
+  ['BS', 'BHS', 'Bahamas', 'northAmerica'],
+  ['BT', 'BTN', 'Bhutan', 'asia'],
+  ['BV', 'BVT', 'Bouvet Island', null],
+  ['BW', 'BWA', 'Botswana', 'africa'],
+  ['BY', 'BLR', 'Belarus', 'europe'],
+  ['BZ', 'BLZ', 'Belize', 'northAmerica'],
+  ['CA', 'CAN', 'Canada', 'northAmerica'],
+  ['CC', 'CCK', 'Cocos (Keeling) Islands', 'oceania'],
+  ['CD', 'COD', 'Democratic Republic of the Congo', 'africa'],
+  ['CF', 'CAF', 'Central African Republic', 'africa'],
+  ['CG', 'COG', 'Republic of the Congo', 'africa'],
+  ['CH', 'CHE', 'Switzerland', 'europe'],
+  ['CI', 'CIV', 'Ivory Coast', 'africa'],
+  ['CK', 'COK', 'Cook Islands', 'oceania'],
+  ['CL', 'CHL', 'Chile', 'southAmerica'],
+  ['CM', 'CMR', 'Cameroon', 'africa'],
+  ['CN', 'CHN', 'China', 'asia'],
+  ['CO', 'COL', 'Colombia', 'southAmerica'],
+  ['CR', 'CRI', 'Costa Rica', 'northAmerica'],
+  ['CU', 'CUB', 'Cuba', 'northAmerica'],
+  ['CV', 'CPV', 'Cape Verde', 'africa'],
+  ['CW', 'CUW', 'Curaçao', 'northAmerica'],
+  ['CX', 'CXR', 'Christmas Island', 'oceania'],
+  ['CY', 'CYP', 'Cyprus', 'europe'],
+  ['CZ', 'CZE', 'Czech Republic', 'europe'],
+  ['DE', 'DEU', 'Germany', 'europe'],
+  ['DJ', 'DJI', 'Djibouti', 'africa'],
+  ['DK', 'DNK', 'Denmark', 'europe'],
+  ['DM', 'DMA', 'Dominica', 'northAmerica'],
+  ['DO', 'DOM', 'Dominican Republic', 'northAmerica'],
+  ['DZ', 'DZA', 'Algeria', 'africa'],
+  ['EC', 'ECU', 'Ecuador', 'southAmerica'],
+  ['EE', 'EST', 'Estonia', 'europe'],
+  ['EG', 'EGY', 'Egypt', 'africa'],
+  ['EH', 'ESH', 'Western Sahara', 'africa'],
+  ['ER', 'ERI', 'Eritrea', 'africa'],
+  ['ES', 'ESP', 'Spain', 'europe'],
+  ['ET', 'ETH', 'Ethiopia', 'africa'],
+  ['FI', 'FIN', 'Finland', 'europe'],
+  ['FJ', 'FJI', 'Fiji', 'oceania'],
+  ['FK', 'FLK', 'Falkland Islands', 'southAmerica'],
+  ['FM', 'FSM', 'Micronesia', 'oceania'],
+  ['FO', 'FRO', 'Faroe Islands', 'europe'],
+  ['FR', 'FRA', 'France', 'europe'],
+  ['GA', 'GAB', 'Gabon', 'africa'],
+  ['GB', 'GBR', 'United Kingdom', 'europe'],
+  ['GD', 'GRD', 'Grenada', 'northAmerica'],
+  ['GE', 'GEO', 'Georgia', 'europe'],
+  ['GF', 'GUF', 'French Guiana', 'southAmerica'],
+  ['GG', 'GGY', 'Guernsey', 'europe'],
+  ['GH', 'GHA', 'Ghana', 'africa'],
+  ['GI', 'GIB', 'Gibraltar', 'europe'],
+  ['GL', 'GRL', 'Greenland', 'northAmerica'],
+  ['GM', 'GMB', 'Gambia', 'africa'],
+  ['GN', 'GIN', 'Guinea', 'africa'],
+  ['GP', 'GLP', 'Guadeloupe', 'northAmerica'],
+  ['GQ', 'GNQ', 'Equatorial Guinea', 'africa'],
+  ['GR', 'GRC', 'Greece', 'europe'],
+  ['GS', 'SGS', 'South Georgia and the South Sandwich Islands', null],
+  ['GT', 'GTM', 'Guatemala', 'northAmerica'],
+  ['GU', 'GUM', 'Guam', 'oceania'],
+  ['GW', 'GNB', 'Guinea-Bissau', 'africa'],
+  ['GY', 'GUY', 'Guyana', 'southAmerica'],
+  ['HK', 'HKG', 'Hong Kong', 'asia'],
+  ['HM', 'HMD', 'Heard Island and McDonald Islands', null],
+  ['HN', 'HND', 'Honduras', 'northAmerica'],
+  ['HR', 'HRV', 'Croatia', 'europe'],
+  ['HT', 'HTI', 'Haiti', 'northAmerica'],
+  ['HU', 'HUN', 'Hungary', 'europe'],
+  ['ID', 'IDN', 'Indonesia', 'asia'],
+  ['IE', 'IRL', 'Ireland', 'europe'],
+  ['IL', 'ISR', 'Israel', 'asia'],
+  ['IM', 'IMN', 'Isle of Man', 'europe'],
+  ['IN', 'IND', 'India', 'asia'],
+  ['IO', 'IOT', 'British Indian Ocean Territory', 'asia'],
+  ['IQ', 'IRQ', 'Iraq', 'asia'],
+  ['IR', 'IRN', 'Iran', 'asia'],
+  ['IS', 'ISL', 'Iceland', 'europe'],
+  ['IT', 'ITA', 'Italy', 'europe'],
+  ['JE', 'JEY', 'Jersey', 'europe'],
+  ['JM', 'JAM', 'Jamaica', 'northAmerica'],
+  ['JO', 'JOR', 'Jordan', 'asia'],
+  ['JP', 'JPN', 'Japan', 'asia'],
+  ['KE', 'KEN', 'Kenya', 'africa'],
+  ['KG', 'KGZ', 'Kyrgyzstan', 'asia'],
+  ['KH', 'KHM', 'Cambodia', 'asia'],
+  ['KI', 'KIR', 'Kiribati', 'oceania'],
+  ['KM', 'COM', 'Comoros', 'africa'],
+  ['KN', 'KNA', 'Saint Kitts and Nevis', 'northAmerica'],
+  ['KP', 'PRK', 'North Korea', 'asia'],
+  ['KR', 'KOR', 'South Korea', 'asia'],
+  ['KW', 'KWT', 'Kuwait', 'asia'],
+  ['KY', 'CYM', 'Cayman Islands', 'northAmerica'],
+  ['KZ', 'KAZ', 'Kazakhstan', 'asia'],
+  ['LA', 'LAO', 'Laos', 'asia'],
+  ['LB', 'LBN', 'Lebanon', 'asia'],
+  ['LC', 'LCA', 'Saint Lucia', 'northAmerica'],
+  ['LI', 'LIE', 'Liechtenstein', 'europe'],
+  ['LK', 'LKA', 'Sri Lanka', 'asia'],
+  ['LR', 'LBR', 'Liberia', 'africa'],
+  ['LS', 'LSO', 'Lesotho', 'africa'],
+  ['LT', 'LTU', 'Lithuania', 'europe'],
+  ['LU', 'LUX', 'Luxembourg', 'europe'],
+  ['LV', 'LVA', 'Latvia', 'europe'],
+  ['LY', 'LBY', 'Libya', 'africa'],
+  ['MA', 'MAR', 'Morocco', 'africa'],
+  ['MC', 'MCO', 'Monaco', 'europe'],
+  ['MD', 'MDA', 'Moldova', 'europe'],
+  ['ME', 'MNE', 'Montenegro', 'europe'],
+  ['MF', 'MAF', 'Saint Martin', 'northAmerica'],
+  ['MG', 'MDG', 'Madagascar', 'africa'],
+  ['MH', 'MHL', 'Marshall Islands', 'oceania'],
+  ['MK', 'MKD', 'North Macedonia', 'europe'],
+  ['ML', 'MLI', 'Mali', 'africa'],
+  ['MM', 'MMR', 'Myanmar', 'asia'],
+  ['MN', 'MNG', 'Mongolia', 'asia'],
+  ['MO', 'MAC', 'Macao', 'asia'],
+  ['MP', 'MNP', 'Northern Mariana Islands', 'oceania'],
+  ['MQ', 'MTQ', 'Martinique', 'northAmerica'],
+  ['MR', 'MRT', 'Mauritania', 'africa'],
+  ['MS', 'MSR', 'Montserrat', 'northAmerica'],
+  ['MT', 'MLT', 'Malta', 'europe'],
+  ['MU', 'MUS', 'Mauritius', 'africa'],
+  ['MV', 'MDV', 'Maldives', 'asia'],
+  ['MW', 'MWI', 'Malawi', 'africa'],
+  ['MX', 'MEX', 'Mexico', 'northAmerica'],
+  ['MY', 'MYS', 'Malaysia', 'asia'],
+  ['MZ', 'MOZ', 'Mozambique', 'africa'],
+  ['NA', 'NAM', 'Namibia', 'africa'],
+  ['NC', 'NCL', 'New Caledonia', 'oceania'],
+  ['NE', 'NER', 'Niger', 'africa'],
+  ['NF', 'NFK', 'Norfolk Island', 'oceania'],
+  ['NG', 'NGA', 'Nigeria', 'africa'],
+  ['NI', 'NIC', 'Nicaragua', 'northAmerica'],
+  ['NL', 'NLD', 'Netherlands', 'europe'],
+  ['NO', 'NOR', 'Norway', 'europe'],
+  ['NP', 'NPL', 'Nepal', 'asia'],
+  ['NR', 'NRU', 'Nauru', 'oceania'],
+  ['NU', 'NIU', 'Niue', 'oceania'],
+  ['NZ', 'NZL', 'New Zealand', 'oceania'],
+  ['OM', 'OMN', 'Oman', 'asia'],
+  ['PA', 'PAN', 'Panama', 'northAmerica'],
+  ['PE', 'PER', 'Peru', 'southAmerica'],
+  ['PF', 'PYF', 'French Polynesia', 'oceania'],
+  ['PG', 'PNG', 'Papua New Guinea', 'oceania'],
+  ['PH', 'PHL', 'Philippines', 'asia'],
+  ['PK', 'PAK', 'Pakistan', 'asia'],
+  ['PL', 'POL', 'Poland', 'europe'],
+  ['PM', 'SPM', 'Saint Pierre and Miquelon', 'northAmerica'],
+  ['PN', 'PCN', 'Pitcairn Islands', 'oceania'],
+  ['PR', 'PRI', 'Puerto Rico', 'northAmerica'],
+  ['PS', 'PSE', 'Palestine', 'asia'],
+  ['PT', 'PRT', 'Portugal', 'europe'],
+  ['PW', 'PLW', 'Palau', 'oceania'],
+  ['PY', 'PRY', 'Paraguay', 'southAmerica'],
+  ['QA', 'QAT', 'Qatar', 'asia'],
+  ['RE', 'REU', 'Réunion', 'africa'],
+  ['RO', 'ROU', 'Romania', 'europe'],
+  ['RS', 'SRB', 'Serbia', 'europe'],
+  ['RU', 'RUS', 'Russia', 'europe'],
+  ['RW', 'RWA', 'Rwanda', 'africa'],
+  ['SA', 'SAU', 'Saudi Arabia', 'asia'],
+  ['SB', 'SLB', 'Solomon Islands', 'oceania'],
+  ['SC', 'SYC', 'Seychelles', 'africa'],
+  ['SD', 'SDN', 'Sudan', 'africa'],
+  ['SE', 'SWE', 'Sweden', 'europe'],
+  ['SG', 'SGP', 'Singapore', 'asia'],
+  ['SH', 'SHN', 'Saint Helena, Ascension and Tristan da Cunha', 'africa'],
+  ['SI', 'SVN', 'Slovenia', 'europe'],
+  ['SJ', 'SJM', 'Svalbard and Jan Mayen', 'europe'],
+  ['SK', 'SVK', 'Slovakia', 'europe'],
+  ['SL', 'SLE', 'Sierra Leone', 'africa'],
+  ['SM', 'SMR', 'San Marino', 'europe'],
+  ['SN', 'SEN', 'Senegal', 'africa'],
+  ['SO', 'SOM', 'Somalia', 'africa'],
+  ['SR', 'SUR', 'Suriname', 'southAmerica'],
+  ['SS', 'SSD', 'South Sudan', 'africa'],
+  ['ST', 'STP', 'São Tomé and Príncipe', 'africa'],
+  ['SV', 'SLV', 'El Salvador', 'northAmerica'],
+  ['SX', 'SXM', 'Sint Maarten', 'northAmerica'],
+  ['SY', 'SYR', 'Syria', 'asia'],
+  ['SZ', 'SWZ', 'Eswatini', 'africa'],
+  ['TC', 'TCA', 'Turks and Caicos Islands', 'northAmerica'],
+  ['TD', 'TCD', 'Chad', 'africa'],
+  ['TF', 'ATF', 'French Southern Territories', null],
+  ['TG', 'TGO', 'Togo', 'africa'],
+  ['TH', 'THA', 'Thailand', 'asia'],
+  ['TJ', 'TJK', 'Tajikistan', 'asia'],
+  ['TK', 'TKL', 'Tokelau', 'oceania'],
+  ['TL', 'TLS', 'Timor-Leste', 'asia'],
+  ['TM', 'TKM', 'Turkmenistan', 'asia'],
+  ['TN', 'TUN', 'Tunisia', 'africa'],
+  ['TO', 'TON', 'Tonga', 'oceania'],
+  ['TR', 'TUR', 'Turkey', 'europe'],
+  ['TT', 'TTO', 'Trinidad and Tobago', 'northAmerica'],
+  ['TV', 'TUV', 'Tuvalu', 'oceania'],
+  ['TW', 'TWN', 'Taiwan', 'asia'],
+  ['TZ', 'TZA', 'Tanzania', 'africa'],
+  ['UA', 'UKR', 'Ukraine', 'europe'],
+  ['UG', 'UGA', 'Uganda', 'africa'],
+  ['UM', 'UMI', 'United States Minor Outlying Islands', 'oceania'],
+  ['US', 'USA', 'United States', 'northAmerica'],
+  ['UY', 'URY', 'Uruguay', 'southAmerica'],
+  ['UZ', 'UZB', 'Uzbekistan', 'asia'],
+  ['VA', 'VAT', 'Vatican City', 'europe'],
+  ['VC', 'VCT', 'Saint Vincent and the Grenadines', 'northAmerica'],
+  ['VE', 'VEN', 'Venezuela', 'southAmerica'],
+  ['VG', 'VGB', 'British Virgin Islands', 'northAmerica'],
+  ['VI', 'VIR', 'U.S. Virgin Islands', 'northAmerica'],
+  ['VN', 'VNM', 'Vietnam', 'asia'],
+  ['VU', 'VUT', 'Vanuatu', 'oceania'],
+  ['WF', 'WLF', 'Wallis and Futuna', 'oceania'],
+  ['WS', 'WSM', 'Samoa', 'oceania'],
+  ['XK', 'XKX', 'Kosovo', 'europe'],
+  ['YE', 'YEM', 'Yemen', 'asia'],
+  ['YT', 'MYT', 'Mayotte', 'africa'],
+  ['ZA', 'ZAF', 'South Africa', 'africa'],
+  ['ZM', 'ZMB', 'Zambia', 'africa'],
+  ['ZW', 'ZWE', 'Zimbabwe', 'africa'],
+] as const satisfies ReadonlyArray<readonly [string, string, string, CountryRegion | null]>;
+
+/** ISO 3166-1 alpha-2 code, the only country code plants carry. */
+export type CountryCode = (typeof COUNTRY_ROWS)[number][0];
+
+export interface Country {
+  code: CountryCode;
+  alpha3: string;
+  name: string;
+  flag: string;
+  region: CountryRegion | null;
+}
+
+// Regional indicator symbols: 'U' + 'S' renders as the US flag.
+const toFlagEmoji = (alpha2: string): string =>
+  String.fromCodePoint(...[...alpha2].map((letter) => 0x1f1e6 + letter.charCodeAt(0) - 65));
+
+export const COUNTRIES: Country[] = COUNTRY_ROWS.map(([code, alpha3, name, region]) => ({
+  code,
+  alpha3,
+  name,
+  flag: toFlagEmoji(code),
+  region,
+}));
+
+const countriesByCode = new Map<string, Country>();
+for (const country of COUNTRIES) {
+  countriesByCode.set(country.code, country);
+  countriesByCode.set(country.alpha3, country);
+}
+// Non-standard codes seen in source data.
+countriesByCode.set('KOS', countriesByCode.get('XK') as Country);
+
+export const getCountry = (code: string): Country | undefined => countriesByCode.get(code.trim().toUpperCase());
+
+export const isCountryCode = (code: string): code is CountryCode => countriesByCode.get(code)?.code === code;
+
+/** Alpha-2 for any known alpha-2 or alpha-3 code; unknown codes come back trimmed and upper-cased. */
+export const normalizeCountryCode = (code: string): string => getCountry(code)?.code ?? code.trim().toUpperCase();
+
+export const getCountryName = (code: string): string => getCountry(code)?.name ?? code;
+
+export const getCountryFlag = (code: string): string => getCountry(code)?.flag ?? '🏳️';
+
+export const getCountryRegion = (code: string): CountryRegion | null => getCountry(code)?.region ?? null;
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendFiberFilterParams,
+  buildFiberColorLegend,
+  countFiberAttributes,
+  EMPTY_FIBER_FILTERS,
+  FIBER_DEFAULT_COLOR,
+  getFiberAttribute,
+  getFiberLegendColor,
+  matchesFiberFilters,
+  parseFiberFilterQuery,
+} from './fiberAttributes';
+
+const routes = [
+  { properties: { OPERATOR: 'Zayo Group, LLC', SERVICE_TYPE: 'Long Haul', STATUS: 'Lit' } },
+  { properties: { OPERATOR: 'zayo group, llc', SERVICE_TYPE: 'Metro', STATUS: 'Dark' } },
+  { properties: { OWNER: 'Lumen', SERVICE_TYPE: 'Long Haul', STATUS: 'lit' } },
+  { properties: { OPERATOR: ' ', OWNER: 'Crown Castle', STATUS: 'Planned' } },
+  { properties: {} },
+];
+
+describe('getFiberAttribute', () => {
+  it('falls back to OWNER when OPERATOR is blank', () => {
+    expect(getFiberAttribute(routes[2].properties, 'operator')).toBe('Lumen');
+    expect(getFiberAttribute(routes[3].properties, 'operator')).toBe('Crown Castle');
+    expect(getFiberAttribute(routes[4].properties, 'serviceType')).toBeNull();
+  });
+});
+
+describe('matchesFiberFilters', () => {
+  it('requires every filtered field to match, ignoring case', () => {
+    const filters = { ...EMPTY_FIBER_FILTERS, serviceType: ['long haul'], status: ['Lit'] };
+
+    expect(routes.map((route) => matchesFiberFilters(route.properties, filters))).toEqual([
+      true,
+      false,
+      true,
+      false,
+      false,
+    ]);
+    expect(routes.every((route) => matchesFiberFilters(route.properties, EMPTY_FIBER_FILTERS))).toBe(true);
+  });
+});
+
+describe('countFiberAttributes', () => {
+  it('merges case variants and orders values by count', () => {
+    const facets = countFiberAttributes(routes, 10);
+
+    expect(facets.operator).toEqual([
+      { value: 'Zayo Group, LLC', count: 2 },
+      { value: 'Crown Castle', count: 1 },
+      { value: 'Lumen', count: 1 },
+    ]);
+    expect(facets.status[0]).toEqual({ value: 'Lit', count: 2 });
+    expect(countFiberAttributes(routes, 1).serviceType).toEqual([{ value: 'Long Haul', count: 2 }]);
+  });
+});
+
+describe('fiber filter params', () => {
+  it('round-trips values containing commas', () => {
+    const params = new URLSearchParams();
+    appendFiberFilterParams(params, { ...EMPTY_FIBER_FILTERS, operator: ['Zayo Group, LLC', 'Lumen'] });
+
+    expect(parseFiberFilterQuery({ operator: params.getAll('operator'), status: '' })).toEqual({
+      operator: ['Zayo Group, LLC', 'Lumen'],
+      serviceType: [],
+      status: [],
+    });
+  });
+});
+
+describe('buildFiberColorLegend', () => {
+  it('colors the most common values and buckets the rest as Other', () => {
+    const legend = buildFiberColorLegend(routes, 'serviceType');
+
+    expect(legend.map(({ label, count }) => [label, count])).toEqual([
+      ['Long Haul', 2],
+      ['Metro', 1],
+      ['Other', 2],
+    ]);
+    expect(getFiberLegendColor(routes[2].properties, 'serviceType', legend)).toEqual(legend[0].color);
+    expect(getFiberLegendColor(routes[4].properties, 'serviceType', legend)).toEqual(legend[2].color);
+  });
+
+  it('keeps the default color when not coloring by an attribute', () => {
+    expect(buildFiberColorLegend(routes, 'none')).toEqual([]);
+    expect(getFiberLegendColor(routes[0].properties, 'none', [])).toEqual(FIBER_DEFAULT_COLOR);
+  });
+});
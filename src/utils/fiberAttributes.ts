@@ -0,0 +1,201 @@
+// Fiber route attributes used to filter, color and group routes by carrier.
+// Shared by the /api/fiber routes and the map (which filters the static
+// overview dataset itself), so both sides match values the same way.
+
+type FiberProperties = Record<string, unknown> | null | undefined;
+
+export type FiberFilterField = 'operator' | 'serviceType' | 'status';
+
+export const FIBER_FILTER_FIELDS: FiberFilterField[] = ['operator', 'serviceType', 'status'];
+
+/** Selected values per field; an empty list does not filter on that field. */
+export type FiberFilters = Record<FiberFilterField, string[]>;
+
+export type FiberFacetCount = { value: string; count: number };
+
+/** The most common values per field among the routes in view, most common first. */
+export type FiberFacets = Record<FiberFilterField, FiberFacetCount[]>;
+
+export type FiberColorBy = 'none' | 'operator' | 'serviceType';
+
+export type FiberLegendEntry = {
+  // null for the bucket holding every value past the palette, and routes without one
+  value: string | null;
+  label: string;
+  color: [number, number, number];
+  count: number;
+};
+
+export const EMPTY_FIBER_FILTERS: FiberFilters = { operator: [], serviceType: [], status: [] };
+
+export const FIBER_DEFAULT_COLOR: [number, number, number] = [200, 0, 200];
+const FIBER_OTHER_COLOR: [number, number, number] = [150, 150, 150];
+// Categorical palette for color-by; values past its length share FIBER_OTHER_COLOR.
+const FIBER_CATEGORY_PALETTE: Array<[number, number, number]> = [
+  [228, 26, 28],
+  [55, 126, 184],
+  [77, 175, 74],
+  [152, 78, 163],
+  [255, 127, 0],
+  [166, 86, 40],
+  [247, 129, 191],
+  [0, 170, 170],
+];
+
+const toText = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  return text.length > 0 ? text : null;
+};
+
+const toMatchKey = (value: string): string => value.trim().toLowerCase();
+
+/** The route's value for `field`. Operator falls back to OWNER when OPERATOR is blank. */
+export const getFiberAttribute = (properties: FiberProperties, field: FiberFilterField): string | null => {
+  const source = properties ?? {};
+  switch (field) {
+    case 'operator':
+      return toText(source.OPERATOR) ?? toText(source.OWNER);
+    case 'serviceType':
+      return toText(source.SERVICE_TYPE);
+    case 'status':
+      return toText(source.STATUS);
+  }
+};
+
+// Legal-form suffixes dropped when grouping carriers, so "Zayo Group, LLC" and
+// "Zayo Group" count as one.
+const CARRIER_SUFFIX = /\s(incorporated|inc|llc|corporation|corp|company|co|limited|ltd|lp|llp|plc)$/;
+
+/** Grouping key for a carrier name: lowercase, punctuation and legal suffixes removed. */
+export const normalizeCarrierName = (name: string): string => {
+  let key = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\bl\.l\.c\b\.?/g, 'llc')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+  while (CARRIER_SUFFIX.test(key)) {
+    key = key.replace(CARRIER_SUFFIX, '').trim();
+  }
+  return key;
+};
+
+/** The route's carrier (OPERATOR, else OWNER) with its grouping key, or null when it names none. */
+export const getFiberCarrier = (properties: FiberProperties): { key: string; name: string } | null => {
+  const name = getFiberAttribute(properties, 'operator');
+  return name === null ? null : { key: normalizeCarrierName(name), name };
+};
+
+export const hasFiberFilters = (filters: FiberFilters): boolean =>
+  FIBER_FILTER_FIELDS.some((field) => filters[field].length > 0);
+
+/** Whether the route matches every filtered field; values compare case-insensitively. */
+export const matchesFiberFilters = (properties: FiberProperties, filters: FiberFilters): boolean =>
+  FIBER_FILTER_FIELDS.every((field) => {
+    const selected = filters[field];
+    if (selected.length === 0) return true;
+    const value = getFiberAttribute(properties, field);
+    if (value === null) return false;
+    const key = toMatchKey(value);
+    return selected.some((candidate) => toMatchKey(candidate) === key);
+  });
+
+/**
+ * Counts values per field, merging case variants under the first spelling
+ * seen. Ties keep alphabetical order so the lists are stable between requests.
+ */
+export const countFiberAttributes = (
+  features: Array<{ properties?: FiberProperties }>,
+  limit: number
+): FiberFacets => {
+  const counts = Object.fromEntries(
+    FIBER_FILTER_FIELDS.map((field) => [field, new Map<string, FiberFacetCount>()])
+  ) as Record<FiberFilterField, Map<string, FiberFacetCount>>;
+
+  for (const feature of features) {
+    for (const field of FIBER_FILTER_FIELDS) {
+      const value = getFiberAttribute(feature.properties, field);
+      if (value === null) continue;
+      const key = toMatchKey(value);
+      const entry = counts[field].get(key);
+      if (entry) entry.count += 1;
+      else counts[field].set(key, { value, count: 1 });
+    }
+  }
+
+  return Object.fromEntries(
+    FIBER_FILTER_FIELDS.map((field) => [
+      field,
+      Array.from(counts[field].values())
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+        .slice(0, limit),
+    ])
+  ) as FiberFacets;
+};
+
+// Values are sent as repeated params rather than CSV: operator names contain commas.
+const FIBER_FILTER_PARAMS: Record<FiberFilterField, string> = {
+  operator: 'operator',
+  serviceType: 'serviceType',
+  status: 'status',
+};
+
+export const appendFiberFilterParams = (params: URLSearchParams, filters: FiberFilters): void => {
+  for (const field of FIBER_FILTER_FIELDS) {
+    for (const value of filters[field]) params.append(FIBER_FILTER_PARAMS[field], value);
+  }
+};
+
+export const parseFiberFilterQuery = (query: Record<string, string | string[] | undefined>): FiberFilters => {
+  const toList = (value: string | string[] | undefined): string[] =>
+    (Array.isArray(value) ? value : value === undefined ? [] : [value])
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+
+  return {
+    operator: toList(query[FIBER_FILTER_PARAMS.operator]),
+    serviceType: toList(query[FIBER_FILTER_PARAMS.serviceType]),
+    status: toList(query[FIBER_FILTER_PARAMS.status]),
+  };
+};
+
+/**
+ * Legend for coloring routes by `colorBy`: the most common values in
+ * `features` get a palette color each, and the rest share one "Other" entry.
+ * Empty when not coloring by an attribute.
+ */
+export const buildFiberColorLegend = (
+  features: Array<{ properties?: FiberProperties }>,
+  colorBy: FiberColorBy
+): FiberLegendEntry[] => {
+  if (colorBy === 'none' || features.length === 0) return [];
+
+  const facets = countFiberAttributes(features, Number.POSITIVE_INFINITY)[colorBy];
+  const legend: FiberLegendEntry[] = facets.slice(0, FIBER_CATEGORY_PALETTE.length).map((facet, index) => ({
+    value: facet.value,
+    label: facet.value,
+    color: FIBER_CATEGORY_PALETTE[index],
+    count: facet.count,
+  }));
+
+  const colored = legend.reduce((total, entry) => total + entry.count, 0);
+  if (colored < features.length) {
+    legend.push({ value: null, label: 'Other', color: FIBER_OTHER_COLOR, count: features.length - colored });
+  }
+  return legend;
+};
+
+/** Color for one route under `legend`; the default fiber color when the legend is empty. */
+export const getFiberLegendColor = (
+  properties: FiberProperties,
+  colorBy: FiberColorBy,
+  legend: FiberLegendEntry[]
+): [number, number, number] => {
+  if (colorBy === 'none' || legend.length === 0) return FIBER_DEFAULT_COLOR;
+
+  const value = getFiberAttribute(properties, colorBy);
+  const key = value === null ? null : toMatchKey(value);
+  const entry = legend.find((candidate) => candidate.value !== null && toMatchKey(candidate.value) === key);
+  return entry ? entry.color : FIBER_OTHER_COLOR;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { NearbyFiberCable } from '../models/FiberCable';
+import { getCarrierDiversityScore, summarizeCarrierDiversity } from './fiberCarriers';
+
+const cable = (id: string, distance: number, properties: Record<string, unknown>): NearbyFiberCable => ({
+  id,
+  distance,
+  properties,
+  paths: [
+    [
+      [0, 0],
+      [0, 1],
+    ],
+  ],
+});
+
+describe('getCarrierDiversityScore', () => {
+  it('scores one carrier 0 and four equal carriers 100', () => {
+    const equal = { routeMiles: 10, cableCount: 1 };
+
+    expect(getCarrierDiversityScore([equal])).toBe(0);
+    expect(getCarrierDiversityScore([equal, equal, equal, equal])).toBe(100);
+    expect(getCarrierDiversityScore([equal, equal])).toBe(33);
+    // A short lateral barely adds diversity next to a long-haul route
+    expect(getCarrierDiversityScore([{ routeMiles: 100, cableCount: 1 }, { routeMiles: 1, cableCount: 1 }])).toBe(1);
+  });
+});
+
+describe('summarizeCarrierDiversity', () => {
+  it('groups cables by carrier with their closest approach and route miles', () => {
+    const diversity = summarizeCarrierDiversity([
+      cable('a', 3, { OPERATOR: 'Zayo Group, LLC', MILES: 20 }),
+      cable('b', 0.5, { OPERATOR: 'Zayo Group', MILES: 5 }),
+      cable('c', 1.2, { OWNER: 'Lumen', MILES: 25 }),
+      cable('d', 0.1, {}),
+    ]);
+
+    expect(diversity.carriers.map(({ name, cableCount, closestMiles, routeMiles }) => [
+      name,
+      cableCount,
+      closestMiles,
+      routeMiles,
+    ])).toEqual([
+      ['Zayo Group', 2, 0.5, 25],
+      ['Lumen', 1, 1.2, 25],
+    ]);
+    expect(diversity).toMatchObject({ carrierCount: 2, unattributedCables: 1, score: 33, rating: 'limited' });
+  });
+
+  it('rates sites without attributed carriers', () => {
+    expect(summarizeCarrierDiversity([]).rating).toBe('none');
+    expect(summarizeCarrierDiversity([cable('a', 1, { OPERATOR: 'Lumen' })]).rating).toBe('single');
+  });
+});
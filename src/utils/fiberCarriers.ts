@@ -0,0 +1,122 @@
+import type { FiberCable, NearbyFiberCable } from '../models/FiberCable';
+import { getFiberCarrier } from './fiberAttributes';
+import { calculateDistance } from './geoUtils';
+
+export interface CarrierReach {
+  key: string;
+  // The spelling on the carrier's closest route
+  name: string;
+  cableCount: number;
+  closestMiles: number;
+  routeMiles: number;
+}
+
+export type CarrierDiversityRating = 'none' | 'single' | 'limited' | 'moderate' | 'high';
+
+export interface CarrierDiversity {
+  // Closest carrier first
+  carriers: CarrierReach[];
+  carrierCount: number;
+  // Nearby cables naming neither an operator nor an owner
+  unattributedCables: number;
+  // 0-100, see getCarrierDiversityScore
+  score: number;
+  rating: CarrierDiversityRating;
+}
+
+// This many carriers with equal route miles score 100.
+const FULL_DIVERSITY_CARRIERS = 4;
+
+/** The route's MILES attribute, or its measured length when the source leaves it out. */
+export const getCableRouteMiles = (cable: FiberCable): number => {
+  const miles = Number(cable.properties.MILES);
+  if (Number.isFinite(miles) && miles > 0) return miles;
+
+  let measured = 0;
+  for (const path of cable.paths) {
+    for (let i = 0; i < path.length - 1; i++) measured += calculateDistance(path[i], path[i + 1]);
+  }
+  return measured;
+};
+
+/**
+ * Scores how evenly route miles are spread across carriers, from the effective
+ * number of carriers (inverse Simpson index): one carrier scores 0 and
+ * FULL_DIVERSITY_CARRIERS equal carriers score 100. A carrier with a single
+ * short lateral adds less than one running a long-haul route past the site.
+ */
+export const getCarrierDiversityScore = (carriers: Array<Pick<CarrierReach, 'routeMiles' | 'cableCount'>>): number => {
+  if (carriers.length < 2) return 0;
+
+  const totalMiles = carriers.reduce((total, carrier) => total + carrier.routeMiles, 0);
+  // Without any route miles, weigh carriers by how many cables they run instead.
+  const weights = carriers.map((carrier) => (totalMiles > 0 ? carrier.routeMiles : carrier.cableCount));
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+  const concentration = weights.reduce((total, weight) => total + (weight / totalWeight) ** 2, 0);
+  const effectiveCarriers = 1 / concentration;
+
+  return Math.round(Math.min(1, (effectiveCarriers - 1) / (FULL_DIVERSITY_CARRIERS - 1)) * 100);
+};
+
+const toRating = (carrierCount: number, score: number): CarrierDiversityRating => {
+  if (carrierCount === 0) return 'none';
+  if (carrierCount === 1) return 'single';
+  if (score < 40) return 'limited';
+  if (score < 75) return 'moderate';
+  return 'high';
+};
+
+/** Groups nearby cables by normalized carrier name (OPERATOR, else OWNER). */
+export const summarizeCarrierDiversity = (nearby: NearbyFiberCable[]): CarrierDiversity => {
+  const carriers = new Map<string, CarrierReach>();
+  let unattributedCables = 0;
+
+  for (const cable of nearby) {
+    const carrier = getFiberCarrier(cable.properties);
+    if (!carrier) {
+      unattributedCables += 1;
+      continue;
+    }
+
+    const routeMiles = getCableRouteMiles(cable);
+    const reach = carriers.get(carrier.key);
+    if (!reach) {
+      carriers.set(carrier.key, {
+        key: carrier.key,
+        name: carrier.name,
+        cableCount: 1,
+        closestMiles: cable.distance,
+        routeMiles,
+      });
+      continue;
+    }
+
+    reach.cableCount += 1;
+    reach.routeMiles += routeMiles;
+    if (cable.distance < reach.closestMiles) {
+      reach.closestMiles = cable.distance;
+      reach.name = carrier.name;
+    }
+  }
+
+  const sorted = Array.from(carriers.values()).sort(
+    (a, b) => a.closestMiles - b.closestMiles || a.name.localeCompare(b.name)
+  );
+  const score = getCarrierDiversityScore(sorted);
+
+  return {
+    carriers: sorted,
+    carrierCount: sorted.length,
+    unattributedCables,
+    score,
+    rating: toRating(sorted.length, score),
+  };
+};
+
+export const CARRIER_DIVERSITY_LABELS: Record<CarrierDiversityRating, string> = {
+  none: 'No carriers',
+  single: 'Single carrier',
+  limited: 'Limited',
+  moderate: 'Moderate',
+  high: 'High',
+};
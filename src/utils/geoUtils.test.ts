@@ -1,4 +1,4 @@
-import { calculateDistance, isPointNearLine } from './geoUtils';
+import { calculateDistance, getLineParts, isPointNearLine } from './geoUtils';
 
 describe('geoUtils', () => {
   describe('calculateDistance', () => {
@@ -55,4 +55,31 @@ describe('geoUtils', () => {
       expect(result).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('getLineParts', () => {
+    it('should return each drawable part of a MultiLineString', () => {
+      const geometry = {
+        type: 'MultiLineString',
+        coordinates: [
+          [[-100, 40], [-99, 40]],
+          [],
+          [[-98, 41], [Number.NaN, 41], [-96, 42]],
+          [[-95, 43]],
+        ],
+      };
+
+      expect(getLineParts(geometry)).toEqual([
+        [[-100, 40], [-99, 40]],
+        [[-98, 41], [-96, 42]],
+      ]);
+    });
+
+    it('should wrap a LineString and ignore other geometries', () => {
+      expect(getLineParts({ type: 'LineString', coordinates: [[-90, 30], [-89, 31]] })).toEqual([
+        [[-90, 30], [-89, 31]],
+      ]);
+      expect(getLineParts({ type: 'Point', coordinates: [0, 0] })).toEqual([]);
+      expect(getLineParts(undefined)).toEqual([]);
+    });
+  });
+});
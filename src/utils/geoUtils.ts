@@ -32,6 +32,30 @@ function toRadians(degrees: number): number {
   return degrees * (Math.PI / 180);
 }
 
+const isPosition = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && Number.isFinite(value[0]) && Number.isFinite(value[1]);
+
+/**
+ * Get the drawable parts of a LineString or MultiLineString geometry
+ * @param geometry GeoJSON geometry, which may be missing or malformed
+ * @returns Each part's valid positions, keeping parts with at least two; none for other geometry types
+ */
+export function getLineParts(
+  geometry: { type?: string; coordinates?: unknown } | null | undefined
+): [number, number][][] {
+  if (!geometry || !Array.isArray(geometry.coordinates)) return [];
+  const parts =
+    geometry.type === 'LineString'
+      ? [geometry.coordinates]
+      : geometry.type === 'MultiLineString'
+        ? geometry.coordinates
+        : [];
+  return parts
+    .filter((part): part is unknown[] => Array.isArray(part))
+    .map((part) => part.filter(isPosition))
+    .filter((part) => part.length >= 2);
+}
+
 /**
  * Check if a point is within a specified distance of any point on a line
  * @param point Coordinate [longitude, latitude]
@@ -61,7 +85,7 @@ export function isPointNearLine(point: [number, number], line: [number, number][
  * @param lineEnd End of line segment [longitude, latitude]
  * @returns Distance in miles
  */
-function distanceToLineSegment(point: [number, number], lineStart: [number, number], lineEnd: [number, number]): number {
+export function distanceToLineSegment(point: [number, number], lineStart: [number, number], lineEnd: [number, number]): number {
   const [x, y] = point;
   const [x1, y1] = lineStart;
   const [x2, y2] = lineEnd;
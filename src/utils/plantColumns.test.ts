@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { PowerPlantColumnarPage } from '../types/powerPlantApi';
+import { decodePlantColumns, getPlantFromColumns, getPlantsFromColumns } from './plantColumns';
+
+const page = (overrides: Partial<PowerPlantColumnarPage>): PowerPlantColumnarPage => ({
+  format: 'columnar',
+  length: 0,
+  sources: [],
+  countries: [],
+  ids: [],
+  names: [],
+  positions: [],
+  output: [],
+  sourceIndex: [],
+  countryIndex: [],
+  capacityFactor: [],
+  generationMW: [],
+  page: { limit: 10000, offset: 0, total: 3, hasMore: false },
+  ...overrides,
+});
+
+describe('decodePlantColumns', () => {
+  it('concatenates pages and merges their dictionaries', () => {
+    const columns = decodePlantColumns([
+      page({
+        length: 2,
+        sources: ['solar', 'gas'],
+        countries: ['US'],
+        ids: ['1', '2'],
+        names: ['Alpha', 'Beta'],
+        positions: [-100, 40, -80, 30],
+        output: [100, 500],
+        sourceIndex: [0, 1],
+        countryIndex: [0, 0],
+        capacityFactor: [25, null],
+        generationMW: [null, 50],
+      }),
+      page({
+        length: 1,
+        sources: ['gas'],
+        countries: ['CA'],
+        ids: ['3'],
+        names: ['Gamma'],
+        positions: [-70, 50],
+        output: [50],
+        sourceIndex: [0],
+        countryIndex: [0],
+        capacityFactor: [40],
+        generationMW: [20],
+      }),
+    ]);
+
+    expect(columns.length).toBe(3);
+    expect(columns.sources).toEqual(['solar', 'gas']);
+    expect(columns.countries).toEqual(['US', 'CA']);
+    expect(Array.from(columns.sourceIndex)).toEqual([0, 1, 1]);
+    expect(Array.from(columns.countryIndex)).toEqual([0, 0, 1]);
+    expect(Array.from(columns.positions)).toEqual([-100, 40, -80, 30, -70, 50]);
+    expect(Number.isNaN(columns.capacityFactor[1])).toBe(true);
+    expect(Number.isNaN(columns.generationMW[0])).toBe(true);
+  });
+
+  it('rebuilds a plant for tooltips from one row', () => {
+    const columns = decodePlantColumns([
+      page({
+        length: 1,
+        sources: ['wind'],
+        countries: ['KZ'],
+        ids: ['kz-1'],
+        names: ['Steppe'],
+        positions: [71.4, 51.1],
+        output: [45],
+        sourceIndex: [0],
+        countryIndex: [0],
+        capacityFactor: [null],
+        generationMW: [null],
+      }),
+    ]);
+
+    expect(getPlantFromColumns(columns, 0)).toEqual({
+      id: 'kz-1',
+      name: 'Steppe',
+      output: 45,
+      outputDisplay: '45.0 MW',
+      source: 'wind',
+      coordinates: [71.4, 51.1],
+      country: 'KZ',
+      capacityFactor: null,
+    });
+    expect(getPlantFromColumns(columns, 1)).toBeNull();
+    expect(getPlantFromColumns(columns, -1)).toBeNull();
+  });
+
+  it('rebuilds only the plants with the given IDs', () => {
+    const columns = decodePlantColumns([
+      page({
+        length: 3,
+        sources: ['gas'],
+        countries: ['US'],
+        ids: ['1', '2', '3'],
+        names: ['Alpha', 'Beta', 'Gamma'],
+        positions: [-100, 40, -80, 30, -70, 35],
+        output: [100, 500, 50],
+        sourceIndex: [0, 0, 0],
+        countryIndex: [0, 0, 0],
+        capacityFactor: [null, null, null],
+        generationMW: [null, null, null],
+      }),
+    ]);
+
+    expect(getPlantsFromColumns(columns, new Set(['3', '1', 'missing'])).map((plant) => plant.name)).toEqual([
+      'Alpha',
+      'Gamma',
+    ]);
+    expect(getPlantsFromColumns(columns, new Set())).toEqual([]);
+  });
+});
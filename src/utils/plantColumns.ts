@@ -0,0 +1,104 @@
+import type { PowerPlant } from '../models/PowerPlant';
+import type { PowerPlantColumnarPage } from '../types/powerPlantApi';
+import type { CountryCode } from './countries';
+
+// Plants decoded from `format=columnar` pages into typed arrays that deck.gl
+// layers take as binary attributes. Unknown numbers are NaN.
+export interface PlantColumns {
+  length: number;
+  ids: string[];
+  names: string[];
+  sources: string[];
+  countries: string[];
+  positions: Float64Array; // [lon, lat, lon, lat, ...]
+  output: Float32Array;
+  sourceIndex: Uint16Array;
+  countryIndex: Uint16Array;
+  capacityFactor: Float32Array;
+  generationMW: Float32Array;
+}
+
+const toDictionaryIndex = (dictionary: Map<string, number>, value: string): number => {
+  let index = dictionary.get(value);
+  if (index === undefined) {
+    index = dictionary.size;
+    dictionary.set(value, index);
+  }
+  return index;
+};
+
+/** Concatenates pages, merging each page's source and country dictionaries into one. */
+export const decodePlantColumns = (pages: PowerPlantColumnarPage[]): PlantColumns => {
+  const length = pages.reduce((total, page) => total + page.length, 0);
+  const sources = new Map<string, number>();
+  const countries = new Map<string, number>();
+  const columns: PlantColumns = {
+    length,
+    ids: [],
+    names: [],
+    sources: [],
+    countries: [],
+    positions: new Float64Array(length * 2),
+    output: new Float32Array(length),
+    sourceIndex: new Uint16Array(length),
+    countryIndex: new Uint16Array(length),
+    capacityFactor: new Float32Array(length),
+    generationMW: new Float32Array(length),
+  };
+
+  let offset = 0;
+  for (const page of pages) {
+    const sourceIndexes = page.sources.map((source) => toDictionaryIndex(sources, source));
+    const countryIndexes = page.countries.map((country) => toDictionaryIndex(countries, country));
+
+    columns.ids.push(...page.ids);
+    columns.names.push(...page.names);
+    columns.positions.set(page.positions, offset * 2);
+    columns.output.set(page.output, offset);
+    for (let i = 0; i < page.length; i++) {
+      columns.sourceIndex[offset + i] = sourceIndexes[page.sourceIndex[i]];
+      columns.countryIndex[offset + i] = countryIndexes[page.countryIndex[i]];
+      columns.capacityFactor[offset + i] = page.capacityFactor[i] ?? NaN;
+      columns.generationMW[offset + i] = page.generationMW[i] ?? NaN;
+    }
+    offset += page.length;
+  }
+
+  columns.sources = Array.from(sources.keys());
+  columns.countries = Array.from(countries.keys());
+  return columns;
+};
+
+/**
+ * The fields of one plant that the columns carry, for hover tooltips. The
+ * full record comes from /api/power-plants/:id once the plant is pinned.
+ */
+export const getPlantFromColumns = (columns: PlantColumns, index: number): PowerPlant | null => {
+  if (index < 0 || index >= columns.length) return null;
+
+  const output = columns.output[index];
+  const capacityFactor = columns.capacityFactor[index];
+  return {
+    id: columns.ids[index],
+    name: columns.names[index],
+    output,
+    outputDisplay: `${output.toFixed(1)} MW`,
+    source: columns.sources[columns.sourceIndex[index]],
+    coordinates: [columns.positions[index * 2], columns.positions[index * 2 + 1]],
+    country: columns.countries[columns.countryIndex[index]] as CountryCode,
+    capacityFactor: Number.isNaN(capacityFactor) ? null : capacityFactor,
+  };
+};
+
+/** The plants in `ids` that the columns carry, rebuilt as by `getPlantFromColumns`. */
+export const getPlantsFromColumns = (columns: PlantColumns, ids: Set<string>): PowerPlant[] => {
+  const plants: PowerPlant[] = [];
+  if (ids.size === 0) return plants;
+
+  for (let index = 0; index < columns.length; index++) {
+    if (!ids.has(columns.ids[index])) continue;
+    const plant = getPlantFromColumns(columns, index);
+    if (plant) plants.push(plant);
+  }
+  return plants;
+};
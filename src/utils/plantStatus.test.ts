@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { isOperatingInYear, normalizePlantStatus, toLifecycleDate } from './plantStatus';
+
+describe('plantStatus', () => {
+  it('normalizes enum values, labels, EIA codes and free text', () => {
+    expect(normalizePlantStatus('under-construction')).toBe('under-construction');
+    expect(normalizePlantStatus('Under Construction')).toBe('under-construction');
+    expect(normalizePlantStatus('SB')).toBe('standby');
+    expect(normalizePlantStatus('(V) Under construction, more than 50 percent complete')).toBe('under-construction');
+    expect(normalizePlantStatus('Out of service')).toBe('standby');
+    expect(normalizePlantStatus('Decommissioned')).toBe('retired');
+    expect(normalizePlantStatus('')).toBeUndefined();
+    expect(normalizePlantStatus('unknown')).toBeUndefined();
+  });
+
+  it('formats lifecycle dates as a year or year-month', () => {
+    expect(toLifecycleDate(1998.5)).toBe('1998');
+    expect(toLifecycleDate(2031, 6)).toBe('2031-06');
+    expect(toLifecycleDate(2031, 13)).toBe('2031');
+    expect(toLifecycleDate(Number.NaN)).toBeUndefined();
+  });
+
+  it('treats a plant as operating from its in-service year until its retirement year', () => {
+    const plant = { status: 'operating' as const, inServiceDate: '2010', retirementDate: '2030-06' };
+    expect(isOperatingInYear(plant, 2009)).toBe(false);
+    expect(isOperatingInYear(plant, 2010)).toBe(true);
+    expect(isOperatingInYear(plant, 2030)).toBe(false);
+    expect(isOperatingInYear({ status: 'operating' }, 1950)).toBe(true);
+    expect(isOperatingInYear({ status: 'planned' }, 2100)).toBe(false);
+    expect(isOperatingInYear({ status: 'retired' }, 2000)).toBe(false);
+    expect(isOperatingInYear({ status: 'cancelled', inServiceDate: '2020' }, 2025)).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+// Normalized plant lifecycle status, shared by the API and the client
+
+export const PLANT_STATUSES = [
+  'operating',
+  'standby',
+  'planned',
+  'under-construction',
+  'retired',
+  'cancelled',
+] as const;
+
+export type PlantStatus = (typeof PLANT_STATUSES)[number];
+
+export const PLANT_STATUS_LABELS: Record<PlantStatus, string> = {
+  operating: 'Operating',
+  standby: 'Standby',
+  planned: 'Planned',
+  'under-construction': 'Under Construction',
+  retired: 'Retired',
+  cancelled: 'Cancelled',
+};
+
+// EIA-860 status codes, covering the operable, proposed and retired/canceled sheets.
+const EIA_STATUS_CODES: Record<string, PlantStatus> = {
+  OP: 'operating',
+  SB: 'standby',
+  OS: 'standby',
+  OA: 'standby',
+  P: 'planned',
+  L: 'planned',
+  T: 'planned',
+  U: 'under-construction',
+  V: 'under-construction',
+  TS: 'under-construction',
+  RE: 'retired',
+  CN: 'cancelled',
+  IP: 'cancelled',
+};
+
+// Free-text statuses, checked in order so "Out of service" is not read as "in service".
+const STATUS_KEYWORDS: Array<[RegExp, PlantStatus]> = [
+  [/cancel|withdrawn|postponed/, 'cancelled'],
+  [/retire|decommission|mothball|closed|shut ?down/, 'retired'],
+  [/construction|commissioning|testing/, 'under-construction'],
+  [/standby|backup|reserve|out of service/, 'standby'],
+  [/plan|propos|permit|announce|development/, 'planned'],
+  [/operat|active|in service|existing/, 'operating'],
+];
+
+/**
+ * Maps a source status to the normalized enum. Accepts the enum values and
+ * their labels, EIA codes on their own or as "(OP) Operating", and common
+ * free-text descriptions. Undefined when nothing matches.
+ */
+export const normalizePlantStatus = (value: string | undefined): PlantStatus | undefined => {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+
+  const code = (trimmed.match(/^\(([A-Z]{1,2})\)/)?.[1] ?? trimmed).toUpperCase();
+  if (EIA_STATUS_CODES[code]) return EIA_STATUS_CODES[code];
+
+  const key = trimmed.toLowerCase().replace(/[\s_]+/g, '-');
+  if ((PLANT_STATUSES as readonly string[]).includes(key)) return key as PlantStatus;
+
+  const text = trimmed.toLowerCase();
+  return STATUS_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1];
+};
+
+export const getPlantStatusLabel = (status: string): string =>
+  PLANT_STATUS_LABELS[status as PlantStatus] ?? status;
+
+/** ISO 8601 year or year-month (`2031`, `2031-06`), from a year and an optional month. */
+export const toLifecycleDate = (year: number | undefined, month?: number): string | undefined => {
+  if (year === undefined || !Number.isFinite(year)) return undefined;
+  const wholeYear = Math.floor(year);
+  return month !== undefined && month >= 1 && month <= 12
+    ? `${wholeYear}-${String(Math.floor(month)).padStart(2, '0')}`
+    : String(wholeYear);
+};
+
+export const getLifecycleYear = (date: string | undefined): number | undefined => {
+  const year = date ? parseInt(date.slice(0, 4), 10) : NaN;
+  return Number.isFinite(year) ? year : undefined;
+};
+
+/**
+ * Whether a plant is generating at the end of `year`. Plants with no in-service
+ * date are assumed to predate it unless they are still planned or being built;
+ * a retired plant with no retirement date is treated as already gone.
+ */
+export const isOperatingInYear = (
+  plant: { status: PlantStatus; inServiceDate?: string; retirementDate?: string },
+  year: number
+): boolean => {
+  if (plant.status === 'cancelled') return false;
+
+  const inServiceYear = getLifecycleYear(plant.inServiceDate);
+  if (inServiceYear === undefined) {
+    if (plant.status === 'planned' || plant.status === 'under-construction') return false;
+  } else if (inServiceYear > year) {
+    return false;
+  }
+
+  const retirementYear = getLifecycleYear(plant.retirementDate);
+  if (retirementYear === undefined) return plant.status !== 'retired';
+  return retirementYear > year;
+};
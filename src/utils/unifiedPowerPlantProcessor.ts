@@ -1,5 +1,6 @@
 import type { PowerPlant } from '../models/PowerPlant';
 import { authenticatedFetch } from './auth';
+import { normalizeCountryCode, type CountryCode } from './countries';
 import type { PowerPlantPage } from '../types/powerPlantApi';
 
 // Function to load and process power plants: Canada from CSV, US from EIA JSON, Global DB for Kazakhstan
@@ -351,8 +352,8 @@ export function parseGlobalPowerPlantCSV(csvText: string): PowerPlant[] {
     // Map energy source
     const source = mapEnergySource(entry['primary_fuel'] || 'Other');
     
-           // Determine country code - map from 3-letter codes to our internal codes
-           const countryCode = mapCountryCode(entry['country']);
+    // The Global Power Plant Database uses alpha-3 codes; plants carry alpha-2
+    const countryCode = normalizeCountryCode(entry['country']);
     
     const plant: PowerPlant = {
       id: `global-${entry['country'].toLowerCase()}-${entry['gppd_idnr'] || i}`,
@@ -361,7 +362,7 @@ export function parseGlobalPowerPlantCSV(csvText: string): PowerPlant[] {
       outputDisplay: `${capacity.toFixed(1)} MW`,
       source,
       coordinates: [longitude, latitude],
-      country: countryCode as any,
+      country: countryCode as CountryCode,
       // Add new capacity fields
       capacityMW: capacity,
       usedCapacity: usedCapacity,
@@ -386,181 +387,3 @@ export function parseGlobalPowerPlantCSV(csvText: string): PowerPlant[] {
   
   return plants;
 }
-
-// Function to map 3-letter country codes to our internal country codes
-function mapCountryCode(countryCode: string): string {
-  const countryMap: Record<string, string> = {
-    // Existing mappings
-    'KAZ': 'KZ',
-    'ARE': 'AE', 
-    'IND': 'IN',
-    'KGZ': 'KG',
-    'CAN': 'CA',
-    'USA': 'US',
-    
-    // Major countries with many power plants
-    'CHN': 'CHN', // China
-    'GBR': 'GBR', // United Kingdom
-    'BRA': 'BRA', // Brazil
-    'FRA': 'FRA', // France
-    'DEU': 'DEU', // Germany
-    'ESP': 'ESP', // Spain
-    'RUS': 'RUS', // Russia
-    'JPN': 'JPN', // Japan
-    'AUS': 'AUS', // Australia
-    'PRT': 'PRT', // Portugal
-    'CZE': 'CZE', // Czech Republic
-    'ITA': 'ITA', // Italy
-    'CHL': 'CHL', // Chile
-    'NOR': 'NOR', // Norway
-    'MEX': 'MEX', // Mexico
-    'VNM': 'VNM', // Vietnam
-    'ARG': 'ARG', // Argentina
-    'THA': 'THA', // Thailand
-    'POL': 'POL', // Poland
-    'FIN': 'FIN', // Finland
-    'IDN': 'IDN', // Indonesia
-    'SWE': 'SWE', // Sweden
-    'CHE': 'CHE', // Switzerland
-    'TUR': 'TUR', // Turkey
-    'KOR': 'KOR', // South Korea
-    'PHL': 'PHL', // Philippines
-    'IRN': 'IRN', // Iran
-    'ZAF': 'ZAF', // South Africa
-    'AUT': 'AUT', // Austria
-    'SAU': 'SAU', // Saudi Arabia
-    'GRC': 'GRC', // Greece
-    'GTM': 'GTM', // Guatemala
-    'URY': 'URY', // Uruguay
-    'NLD': 'NLD', // Netherlands
-    'BEL': 'BEL', // Belgium
-    'ROU': 'ROU', // Romania
-    'UKR': 'UKR', // Ukraine
-    'PAK': 'PAK', // Pakistan
-    'EGY': 'EGY', // Egypt
-    'ISR': 'ISR', // Israel
-    'IRL': 'IRL', // Ireland
-    'DZA': 'DZA', // Algeria
-    'BGD': 'BGD', // Bangladesh
-    'MYS': 'MYS', // Malaysia
-    'LKA': 'LKA', // Sri Lanka
-    'DNK': 'DNK', // Denmark
-    'MAR': 'MAR', // Morocco
-    'VEN': 'VEN', // Venezuela
-    'NZL': 'NZL', // New Zealand
-    'BGR': 'BGR', // Bulgaria
-    'HND': 'HND', // Honduras
-    'TWN': 'TWN', // Taiwan
-    'MMR': 'MMR', // Myanmar
-    'JOR': 'JOR', // Jordan
-    'PER': 'PER', // Peru
-    'PRK': 'PRK', // North Korea
-    'SVK': 'SVK', // Slovakia
-    'IRQ': 'IRQ', // Iraq
-    'TUN': 'TUN', // Tunisia
-    'CRI': 'CRI', // Costa Rica
-    'BOL': 'BOL', // Bolivia
-    'COL': 'COL', // Colombia
-    'HRV': 'HRV', // Croatia
-    'BLR': 'BLR', // Belarus
-    'MUS': 'MUS', // Mauritius
-    'KEN': 'KEN', // Kenya
-    'ECU': 'ECU', // Ecuador
-    'LAO': 'LAO', // Laos
-    'ISL': 'ISL', // Iceland
-    'BIH': 'BIH', // Bosnia and Herzegovina
-    'SDN': 'SDN', // Sudan
-    'GEO': 'GEO', // Georgia
-    'SYR': 'SYR', // Syria
-    'HUN': 'HUN', // Hungary
-    'PAN': 'PAN', // Panama
-    'EST': 'EST', // Estonia
-    'UZB': 'UZB', // Uzbekistan
-    'SLV': 'SLV', // El Salvador
-    'NIC': 'NIC', // Nicaragua
-    'KHM': 'KHM', // Cambodia
-    'ZMB': 'ZMB', // Zambia
-    'PNG': 'PNG', // Papua New Guinea
-    'DOM': 'DOM', // Dominican Republic
-    'COD': 'COD', // Democratic Republic of the Congo
-    'SGP': 'SGP', // Singapore
-    'NPL': 'NPL', // Nepal
-    'CUB': 'CUB', // Cuba
-    'AZE': 'AZE', // Azerbaijan
-    'AGO': 'AGO', // Angola
-    'NGA': 'NGA', // Nigeria
-    'NAM': 'NAM', // Namibia
-    'ETH': 'ETH', // Ethiopia
-    'SRB': 'SRB', // Serbia
-    'QAT': 'QAT', // Qatar
-    'OMN': 'OMN', // Oman
-    'MKD': 'MKD', // North Macedonia
-    'MDG': 'MDG', // Madagascar
-    'LBY': 'LBY', // Libya
-    'FJI': 'FJI', // Fiji
-    'UGA': 'UGA', // Uganda
-    'TZA': 'TZA', // Tanzania
-    'RWA': 'RWA', // Rwanda
-    'TJK': 'TJK', // Tajikistan
-    'SEN': 'SEN', // Senegal
-    'JAM': 'JAM', // Jamaica
-    'KWT': 'KWT', // Kuwait
-    'GIN': 'GIN', // Guinea
-    'AFG': 'AFG', // Afghanistan
-    'SVN': 'SVN', // Slovenia
-    'MNG': 'MNG', // Mongolia
-    'COG': 'COG', // Republic of the Congo
-    'CMR': 'CMR', // Cameroon
-    'CIV': 'CIV', // Ivory Coast
-    'BHR': 'BHR', // Bahrain
-    'ARM': 'ARM', // Armenia
-    'ALB': 'ALB', // Albania
-    'YEM': 'YEM', // Yemen
-    'TKM': 'TKM', // Turkmenistan
-    'NER': 'NER', // Niger
-    'MRT': 'MRT', // Mauritania
-    'LBN': 'LBN', // Lebanon
-    'BFA': 'BFA', // Burkina Faso
-    'TTO': 'TTO', // Trinidad and Tobago
-    'SWZ': 'SWZ', // Eswatini
-    'MDA': 'MDA', // Moldova
-    'LTU': 'LTU', // Lithuania
-    'GUF': 'GUF', // French Guiana
-    'GHA': 'GHA', // Ghana
-    'GAB': 'GAB', // Gabon
-    'MWI': 'MWI', // Malawi
-    'LVA': 'LVA', // Latvia
-    'GUY': 'GUY', // Guyana
-    'BTN': 'BTN', // Bhutan
-    'MLI': 'MLI', // Mali
-    'CPV': 'CPV', // Cape Verde
-    'BRN': 'BRN', // Brunei
-    'BDI': 'BDI', // Burundi
-    'TGO': 'TGO', // Togo
-    'SLE': 'SLE', // Sierra Leone
-    'PRY': 'PRY', // Paraguay
-    'MOZ': 'MOZ', // Mozambique
-    'MNE': 'MNE', // Montenegro
-    'GNQ': 'GNQ', // Equatorial Guinea
-    'CYP': 'CYP', // Cyprus
-    'ZWE': 'ZWE', // Zimbabwe
-    'LUX': 'LUX', // Luxembourg
-    'LBR': 'LBR', // Liberia
-    'KOS': 'KOS', // Kosovo
-    'GMB': 'GMB', // Gambia
-    'ERI': 'ERI', // Eritrea
-    'CAF': 'CAF', // Central African Republic
-    'BWA': 'BWA', // Botswana
-    'BEN': 'BEN', // Benin
-    'ATA': 'ATA', // Antarctica
-    'SUR': 'SUR', // Suriname
-    'PSE': 'PSE', // Palestine
-    'LSO': 'LSO', // Lesotho
-    'LCA': 'LCA', // Saint Lucia
-    'GNB': 'GNB', // Guinea-Bissau
-    'ESH': 'ESH', // Western Sahara
-    'DJI': 'DJI'  // Djibouti
-  };
-
-  return countryMap[countryCode] || countryCode; // Return original code if not found
-}
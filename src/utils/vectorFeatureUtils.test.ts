@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getLineParts } from './geoUtils';
+import { expandFeaturePaths, featureToFiberCable, featureToHifldLine } from './vectorFeatureUtils';
+
+const multiLine = {
+  id: 'route-1',
+  properties: { NAME: 'Split Route' },
+  geometry: {
+    type: 'MultiLineString',
+    coordinates: [
+      [
+        [-100, 40],
+        [-99, 40],
+      ],
+      [],
+      [
+        [-98, 41],
+        [-97, 41],
+        [-96, 42],
+      ],
+    ] as [number, number][][],
+  },
+};
+
+const singleLine = {
+  properties: { LOC_ID: 'loc-7' },
+  geometry: {
+    type: 'LineString',
+    coordinates: [
+      [-90, 30],
+      [-89, 31],
+    ] as [number, number][],
+  },
+};
+
+describe('expandFeaturePaths', () => {
+  it('yields one drawable path per part, pointing back at its feature', () => {
+    const parts = expandFeaturePaths([multiLine, singleLine]);
+
+    expect(parts.map(({ feature }) => feature)).toEqual([multiLine, multiLine, singleLine]);
+    expect(parts[1].path).toEqual(multiLine.geometry.coordinates[2]);
+  });
+});
+
+describe('feature conversion', () => {
+  it('keeps every part on fiber cables and HIFLD lines', () => {
+    expect(featureToFiberCable(multiLine, 'fallback')).toMatchObject({
+      id: 'route-1',
+      paths: getLineParts(multiLine.geometry),
+    });
+    expect(featureToFiberCable(singleLine, 'fallback')?.id).toBe('loc-7');
+    expect(featureToHifldLine(multiLine, 'fallback')?.paths).toHaveLength(2);
+    expect(featureToFiberCable({ geometry: { type: 'MultiLineString', coordinates: [] } }, 'fallback')).toBeNull();
+  });
+});
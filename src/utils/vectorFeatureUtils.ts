@@ -1,6 +1,7 @@
 import type { FiberCable } from '../models/FiberCable';
 import type { HoveredHifldLine } from '../types/vectorFeatures';
 import type { VectorFiberProperties, VectorHifldProperties } from '../types/powerPlantApi';
+import { getLineParts } from './geoUtils';
 
 export type GeometryCoordinates =
   | [number, number][]
@@ -16,36 +17,29 @@ export type GeoJsonLikeFeature = {
   };
 };
 
-const flattenToSinglePath = (geometry: GeoJsonLikeFeature['geometry']): [number, number][] => {
-  if (!geometry || !geometry.type || !geometry.coordinates) {
-    return [];
-  }
-
-  if (geometry.type === 'LineString') {
-    return geometry.coordinates as [number, number][];
-  }
-
-  if (geometry.type === 'MultiLineString') {
-    const multi = geometry.coordinates as [number, number][][];
-    return multi[0] || [];
-  }
-
-  return [];
+// One drawable part of a line feature. PathLayer draws a single path per
+// datum, so MultiLineStrings are expanded into one of these per part.
+export type FeaturePathPart = {
+  feature: GeoJsonLikeFeature;
+  path: [number, number][];
 };
 
+export const expandFeaturePaths = (features: GeoJsonLikeFeature[]): FeaturePathPart[] =>
+  features.flatMap((feature) => getLineParts(feature.geometry).map((path) => ({ feature, path })));
+
 export const featureToFiberCable = (
   feature: GeoJsonLikeFeature,
   fallbackId: string
 ): FiberCable | null => {
-  const path = flattenToSinglePath(feature.geometry);
-  if (path.length === 0) return null;
+  const paths = getLineParts(feature.geometry);
+  if (paths.length === 0) return null;
 
   const properties = (feature.properties || {}) as VectorFiberProperties;
   const id = String(feature.id ?? properties.LOC_ID ?? properties.NAME ?? fallbackId);
 
   return {
     id,
-    path,
+    paths,
     properties,
   };
 };
@@ -54,15 +48,15 @@ export const featureToHifldLine = (
   feature: GeoJsonLikeFeature,
   fallbackId: string
 ): HoveredHifldLine | null => {
-  const coordinates = flattenToSinglePath(feature.geometry);
-  if (coordinates.length === 0) return null;
+  const paths = getLineParts(feature.geometry);
+  if (paths.length === 0) return null;
 
   const properties = (feature.properties || {}) as VectorHifldProperties;
   const id = String(feature.id ?? properties.id ?? properties.ID ?? fallbackId);
 
   return {
     id,
-    coordinates,
+    paths,
     properties,
   };
 };
@@ -1,4 +1,5 @@
 import type { FiberCable, NearbyFiberCable } from '../models/FiberCable';
+import { summarizeCarrierDiversity, type CarrierDiversity } from '../utils/fiberCarriers';
 
 type NearbyFiberRequest = {
   requestId: number;
@@ -10,6 +11,7 @@ type NearbyFiberRequest = {
 type NearbyFiberResponse = {
   requestId: number;
   nearby: NearbyFiberCable[];
+  diversity: CarrierDiversity;
 };
 
 const EARTH_RADIUS_MILES = 3958.8;
@@ -73,28 +75,35 @@ const isPointNearLine = (
   return false;
 };
 
+// Closest approach to any segment or vertex of the path.
+const getDistanceToLine = (point: [number, number], line: [number, number][]): number => {
+  let minDistance = Number.POSITIVE_INFINITY;
+
+  for (let i = 0; i < line.length - 1; i++) {
+    minDistance = Math.min(minDistance, distanceToSegment(point, line[i], line[i + 1]));
+  }
+
+  for (const vertex of line) {
+    minDistance = Math.min(minDistance, calculateDistance(point, vertex));
+  }
+
+  return minDistance;
+};
+
 self.addEventListener('message', (event: MessageEvent<NearbyFiberRequest>) => {
   const { requestId, plantCoordinates, cables, radiusMiles } = event.data;
 
   const nearby: NearbyFiberCable[] = [];
 
   for (const cable of cables) {
-    if (!cable.path || cable.path.length === 0) continue;
+    if (!cable.paths || cable.paths.length === 0) continue;
 
-    if (!isPointNearLine(plantCoordinates, cable.path, radiusMiles)) {
+    // Every part of a MultiLineString route counts, not just the first.
+    if (!cable.paths.some((path) => isPointNearLine(plantCoordinates, path, radiusMiles))) {
       continue;
     }
 
-    let minDistance = Number.POSITIVE_INFINITY;
-
-    for (let i = 0; i < cable.path.length - 1; i++) {
-      const segmentDistance = distanceToSegment(plantCoordinates, cable.path[i], cable.path[i + 1]);
-      minDistance = Math.min(minDistance, segmentDistance);
-    }
-
-    for (const point of cable.path) {
-      minDistance = Math.min(minDistance, calculateDistance(plantCoordinates, point));
-    }
+    const minDistance = Math.min(...cable.paths.map((path) => getDistanceToLine(plantCoordinates, path)));
 
     nearby.push({
       ...cable,
@@ -107,6 +116,7 @@ self.addEventListener('message', (event: MessageEvent<NearbyFiberRequest>) => {
   const response: NearbyFiberResponse = {
     requestId,
     nearby,
+    diversity: summarizeCarrierDiversity(nearby),
   };
 
   self.postMessage(response);